@@ -62,6 +62,7 @@ if [ ! -f .env ]; then
     
     # Generate a random secret
     NEXTAUTH_SECRET=$(openssl rand -base64 32)
+    TRAEFIK_PROVIDER_TOKEN=$(openssl rand -base64 32)
     
     cat > .env << EOF
 # Deployment type: $([ "$IS_PRODUCTION" = true ] && echo "Production" || echo "Local Development")
@@ -76,6 +77,8 @@ TRAEFIK_DASHBOARD_PORT=8080
 # App Configuration
 NEXTAUTH_URL=${NEXTAUTH_URL}
 NEXTAUTH_SECRET=${NEXTAUTH_SECRET}
+# Sent by Traefik when it polls the preview routes
+TRAEFIK_PROVIDER_TOKEN=${TRAEFIK_PROVIDER_TOKEN}
 
 # GitHub OAuth
 # Create a GitHub OAuth App at https://github.com/settings/developers
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { isAdmin } from '@/lib/admin';
+import AdminClient from '@/components/admin/AdminClient';
+
+export default async function AdminPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  if (!isAdmin(session.user)) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <AdminClient
+      user={{
+        name: session.user.name,
+        email: session.user.email,
+        image: session.user.image,
+      }}
+    />
+  );
+}
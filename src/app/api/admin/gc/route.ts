@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { isAdmin } from '@/lib/admin';
+import { findOrphanedObjects, getGcSchedule, removeOrphanedObjects } from '@/lib/gc';
+
+// GET /api/admin/gc - Dry run: list containers, networks, volumes and images without a workspace
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const orphans = await findOrphanedObjects();
+
+    return NextResponse.json({ orphans, schedule: getGcSchedule() });
+  } catch (error) {
+    console.error('Error listing orphaned objects:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/gc - Remove the orphans confirmed by key from a dry run
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const keys: unknown = body.keys;
+    if (!Array.isArray(keys) || keys.length === 0 || !keys.every((key) => typeof key === 'string')) {
+      return NextResponse.json({ error: 'keys must list the objects to remove' }, { status: 400 });
+    }
+
+    const result = await removeOrphanedObjects(keys);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error removing orphaned objects:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { isAdmin } from '@/lib/admin';
+import {
+  getQuotaSettings,
+  updateQuotaSettings,
+  getInstanceUsage,
+  parseQuotaInput,
+} from '@/lib/quotas';
+
+const SETTINGS_KEYS = [
+  'userMaxWorkspaces',
+  'userMaxRunningWorkspaces',
+  'userMaxCpus',
+  'userMaxMemoryMb',
+  'instanceMaxWorkspaces',
+  'instanceMaxRunningWorkspaces',
+  'instanceMaxCpus',
+  'instanceMaxMemoryMb',
+] as const;
+
+// GET /api/admin/quotas - Get the instance quotas and the usage of the whole instance
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [settings, usage] = await Promise.all([getQuotaSettings(), getInstanceUsage()]);
+
+    return NextResponse.json({ settings, usage });
+  } catch (error) {
+    console.error('Error fetching quota settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/quotas - Update the instance quotas, null removes a limit
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseQuotaInput(body, SETTINGS_KEYS);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const settings = await updateQuotaSettings(parsed.values);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error updating quota settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isAdmin } from '@/lib/admin';
+import { QUOTA_NAMES, parseQuotaInput } from '@/lib/quotas';
+
+// PUT /api/admin/users/[id]/quotas - Override a user's quotas, null falls back to the instance quota
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const params = await context.params;
+    const body = await request.json();
+    const parsed = parseQuotaInput(body, QUOTA_NAMES);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id: params.id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: params.id },
+      data: parsed.values,
+      select: {
+        id: true,
+        maxWorkspaces: true,
+        maxRunningWorkspaces: true,
+        maxCpus: true,
+        maxMemoryMb: true,
+      },
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Error updating user quotas:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isAdmin } from '@/lib/admin';
+import { getQuotaSettings, getUserUsage, userQuotaLimits } from '@/lib/quotas';
+
+// GET /api/admin/users - List users with their quota overrides, effective quotas and usage
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [settings, users] = await Promise.all([
+      getQuotaSettings(),
+      prisma.user.findMany({
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          image: true,
+          maxWorkspaces: true,
+          maxRunningWorkspaces: true,
+          maxCpus: true,
+          maxMemoryMb: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const result = await Promise.all(
+      users.map(async (user) => ({
+        ...user,
+        limits: userQuotaLimits(user, settings),
+        usage: await getUserUsage(user.id),
+      }))
+    );
+
+    return NextResponse.json({ users: result });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
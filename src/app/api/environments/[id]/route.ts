@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { syncEnvironmentToWorkspaces } from '@/lib/docker';
+import { validateEnvVariables } from '@/lib/bootstrap';
+import { getWorkspaceRuntime } from '@/lib/runtime';
 
 // GET /api/environments/[id] - Get a specific environment
 export async function GET(
@@ -94,6 +95,12 @@ export async function PUT(
       } catch {
         return NextResponse.json({ error: 'Invalid variables format' }, { status: 400 });
       }
+
+      // Variables end up in the shell environment of workspaces
+      const variablesError = validateEnvVariables(parsedVariables);
+      if (variablesError) {
+        return NextResponse.json({ error: variablesError }, { status: 400 });
+      }
     }
 
     // Update environment
@@ -111,7 +118,7 @@ export async function PUT(
     for (const workspace of linkedWorkspaces) {
       if (workspace.status === 'running') {
         try {
-          await syncEnvironmentToWorkspaces(workspace.id, [updatedEnvironment]);
+          await getWorkspaceRuntime().syncEnvironment(workspace.id, [updatedEnvironment]);
         } catch (syncError) {
           console.error(`Error syncing environment to workspace ${workspace.id}:`, syncError);
         }
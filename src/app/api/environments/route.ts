@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { validateEnvVariables } from '@/lib/bootstrap';
 
 // GET /api/environments - List all environments for current user
 export async function GET() {
@@ -59,6 +60,12 @@ export async function POST(request: NextRequest) {
       } catch {
         return NextResponse.json({ error: 'Invalid variables format' }, { status: 400 });
       }
+
+      // Variables end up in the shell environment of workspaces
+      const variablesError = validateEnvVariables(parsedVariables);
+      if (variablesError) {
+        return NextResponse.json({ error: variablesError }, { status: 400 });
+      }
     }
 
     const environment = await prisma.environment.create({
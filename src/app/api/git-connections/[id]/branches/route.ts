@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { connectionProvider } from '@/lib/git-connections';
+
+// GET /api/git-connections/[id]/branches - Branches of a repository
+// Query: repo, the repository's fullName as listed by /repos
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const repo = request.nextUrl.searchParams.get('repo');
+    if (!repo || !/^[\w.-]+(\/[\w.-]+)+$/.test(repo)) {
+      return NextResponse.json({ error: 'Missing or invalid repo parameter' }, { status: 400 });
+    }
+
+    const params = await context.params;
+    const connection = await prisma.gitConnection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const provider = connectionProvider(connection);
+    if (!provider) {
+      return NextResponse.json({ error: 'Branches of generic hosts can\'t be listed' }, { status: 400 });
+    }
+
+    const branches = await provider.listBranches(repo);
+    return NextResponse.json({ branches });
+  } catch (error) {
+    console.error('Error fetching branches of git connection:', error);
+    return NextResponse.json({ error: 'Failed to fetch branches' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { connectionProvider } from '@/lib/git-connections';
+
+// GET /api/git-connections/[id]/repos - Repositories the connection's token can access
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const connection = await prisma.gitConnection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const provider = connectionProvider(connection);
+    if (!provider) {
+      return NextResponse.json({ error: 'Repositories of generic hosts can\'t be listed, clone them by URL' }, { status: 400 });
+    }
+
+    const repositories = await provider.listRepositories();
+    return NextResponse.json({ repositories });
+  } catch (error) {
+    console.error('Error fetching repositories of git connection:', error);
+    return NextResponse.json({ error: 'Failed to fetch repositories' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { toGitConnectionInfo } from '@/lib/git-connections';
+import { parseKnownHosts } from '@/lib/ssh-keys';
+
+// PATCH /api/git-connections/[id] - Replace the SSH host keys of a connection
+// Body: { sshHostKeys }, known_hosts lines, e.g. from ssh-keyscan. New and rebuilt workspaces
+// connect to the host over SSH only if it presents one of them.
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const connection = await prisma.gitConnection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.sshHostKeys !== 'string') {
+      return NextResponse.json({ error: 'sshHostKeys must be a string' }, { status: 400 });
+    }
+
+    const sshHostKeys = parseKnownHosts(body.sshHostKeys);
+    if ('error' in sshHostKeys) {
+      return NextResponse.json({ error: sshHostKeys.error }, { status: 400 });
+    }
+
+    const updated = await prisma.gitConnection.update({
+      where: { id: connection.id },
+      data: { sshHostKeys: sshHostKeys.length > 0 ? sshHostKeys.join('\n') : null },
+    });
+
+    return NextResponse.json({ connection: toGitConnectionInfo(updated) });
+  } catch (error) {
+    console.error('Error updating git connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/git-connections/[id] - Remove a connection and its token
+// Workspaces cloned with it keep working until their remote asks for credentials again
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const { count } = await prisma.gitConnection.deleteMany({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting git connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { encryptSecret } from '@/lib/secrets';
+import { createGitProvider, isGitProviderType } from '@/lib/git-providers';
+import { normalizeBaseUrl, toGitConnectionInfo } from '@/lib/git-connections';
+import { parseKnownHosts } from '@/lib/ssh-keys';
+
+// Where each provider type is hosted unless the user says otherwise
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  github: 'https://github.com',
+  gitlab: 'https://gitlab.com',
+};
+
+// GET /api/git-connections - List the user's git host connections
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const connections = await prisma.gitConnection.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ connections: connections.map(toGitConnectionInfo) });
+  } catch (error) {
+    console.error('Error fetching git connections:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/git-connections - Connect a git host with an access token
+// Body: { type: github | gitlab | gitea | generic, name, baseUrl?, token, username?, sshHostKeys? }.
+// The token is checked against the host's API, which also fills in the username.
+// sshHostKeys are known_hosts lines, e.g. from ssh-keyscan, for SSH clone URLs of the host.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isGitProviderType(body?.type)) {
+      return NextResponse.json({ error: 'type must be github, gitlab, gitea or generic' }, { status: 400 });
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'Name is required and at most 100 characters' }, { status: 400 });
+    }
+
+    const baseUrl = normalizeBaseUrl(body.baseUrl || DEFAULT_BASE_URLS[body.type]);
+    if (!baseUrl) {
+      return NextResponse.json({ error: 'baseUrl must be an https URL' }, { status: 400 });
+    }
+
+    const token = typeof body.token === 'string' ? body.token.trim() : '';
+    if (!token) {
+      return NextResponse.json({ error: 'Access token is required' }, { status: 400 });
+    }
+
+    const sshHostKeys = typeof body.sshHostKeys === 'string' ? parseKnownHosts(body.sshHostKeys) : [];
+    if ('error' in sshHostKeys) {
+      return NextResponse.json({ error: sshHostKeys.error }, { status: 400 });
+    }
+
+    let username = typeof body.username === 'string' && body.username.trim() ? body.username.trim() : null;
+    const provider = createGitProvider(body.type, baseUrl, token);
+    if (provider) {
+      try {
+        username = await provider.getUsername();
+      } catch (error) {
+        return NextResponse.json(
+          { error: `The token was not accepted by ${baseUrl}: ${error instanceof Error ? error.message : error}` },
+          { status: 422 }
+        );
+      }
+    }
+
+    const connection = await prisma.gitConnection.create({
+      data: {
+        userId: session.user.id,
+        type: body.type,
+        name,
+        baseUrl,
+        username,
+        token: encryptSecret(token),
+        sshHostKeys: sshHostKeys.length > 0 ? sshHostKeys.join('\n') : null,
+      },
+    });
+
+    return NextResponse.json({ connection: toGitConnectionInfo(connection) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating git connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
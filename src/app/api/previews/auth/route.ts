@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  PREVIEW_GRANT_PATH,
+  PREVIEW_SESSION_COOKIE,
+  authorizeUrl,
+  previewWorkspaceId,
+  redeemPreviewGrant,
+  safePreviewPath,
+  verifyPreviewSession,
+} from '@/lib/preview-access';
+
+// GET /api/previews/auth - Traefik's forwardAuth check of every preview request. A 2xx
+// response passes the request on to the dev server, anything else is sent to the browser.
+export async function GET(request: NextRequest) {
+  try {
+    const host = request.headers.get('x-forwarded-host') ?? '';
+    const uri = request.headers.get('x-forwarded-uri') ?? '/';
+    const domain = process.env.DOMAIN || 'localhost';
+
+    if (!previewWorkspaceId(host, domain)) {
+      return NextResponse.json({ error: 'Not a preview' }, { status: 403 });
+    }
+
+    // Coming back from /api/previews/authorize with a grant for this host
+    const url = new URL(uri, 'http://preview');
+    if (url.pathname === PREVIEW_GRANT_PATH) {
+      const session = redeemPreviewGrant(url.searchParams.get('grant') ?? '', host);
+      if (!session) {
+        return NextResponse.json({ error: 'Preview access expired, reload the page' }, { status: 403 });
+      }
+
+      const response = new NextResponse(null, {
+        status: 302,
+        headers: { Location: safePreviewPath(url.searchParams.get('next')) },
+      });
+      response.cookies.set(PREVIEW_SESSION_COOKIE, session.value, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: request.headers.get('x-forwarded-proto') === 'https',
+        path: '/',
+        expires: session.expires,
+      });
+      return response;
+    }
+
+    if (await verifyPreviewSession(request.cookies.get(PREVIEW_SESSION_COOKIE)?.value, host)) {
+      return new NextResponse(null, { status: 200 });
+    }
+
+    return NextResponse.redirect(authorizeUrl(host, uri));
+  } catch (error) {
+    console.error('Error checking preview access:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  appUrl,
+  grantUrl,
+  previewWorkspaceId,
+  safePreviewPath,
+  shareLinkCookieName,
+  shareLinkFromCookie,
+} from '@/lib/preview-access';
+
+// GET /api/previews/authorize - Send the browser back to a preview host (host, path) with a
+// grant when it belongs to the workspace's owner or opened one of its share links
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const host = searchParams.get('host') ?? '';
+    const path = safePreviewPath(searchParams.get('path'));
+    const domain = process.env.DOMAIN || 'localhost';
+
+    const workspaceId = previewWorkspaceId(host, domain);
+    if (!workspaceId) {
+      return NextResponse.json({ error: 'Not a preview' }, { status: 400 });
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { userId: true },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const session = await auth();
+    if (session?.user?.id === workspace.userId) {
+      return NextResponse.redirect(grantUrl(host, path, null));
+    }
+
+    const link = await shareLinkFromCookie(request.cookies.get(shareLinkCookieName(workspaceId))?.value, workspaceId);
+    if (link) {
+      return NextResponse.redirect(grantUrl(host, path, link));
+    }
+
+    if (session?.user) {
+      return NextResponse.json({ error: 'This preview is private' }, { status: 403 });
+    }
+
+    // Back here after signing in
+    const callbackUrl = `${appUrl()}/api/previews/authorize?${searchParams}`;
+    return NextResponse.redirect(`${appUrl()}/login?${new URLSearchParams({ callbackUrl })}`);
+  } catch (error) {
+    console.error('Error authorizing preview access:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  appUrl,
+  authorizeUrl,
+  findShareLink,
+  secureCookies,
+  shareLinkCookieName,
+  signShareLinkCookie,
+  verifyShareLinkPassword,
+} from '@/lib/preview-access';
+
+// Remember the link in a cookie and continue to the workspace's first preview. Links with a
+// password go back to the share page until it is given.
+async function openShareLink(token: string, password: string | null) {
+  const link = await findShareLink(token);
+  const sharePage = `${appUrl()}/share/${encodeURIComponent(token)}`;
+  if (!link) {
+    return NextResponse.redirect(sharePage, 303);
+  }
+  if (link.passwordHash && password === null) {
+    return NextResponse.redirect(sharePage, 303);
+  }
+  if (!(await verifyShareLinkPassword(link, password ?? ''))) {
+    return NextResponse.redirect(`${sharePage}?error=password`, 303);
+  }
+
+  const domain = process.env.DOMAIN || 'localhost';
+  const response = NextResponse.redirect(authorizeUrl(`preview-${link.workspaceId}.${domain}`, '/'), 303);
+  response.cookies.set(shareLinkCookieName(link.workspaceId), signShareLinkCookie(link), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: secureCookies(),
+    path: '/api/previews',
+    expires: link.expiresAt,
+  });
+  return response;
+}
+
+// GET /api/previews/share/[token] - Open a share link without a password
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+    return await openShareLink(token, null);
+  } catch (error) {
+    console.error('Error opening share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/previews/share/[token] - Open a share link with the password from the share page's form
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+    const formData = await request.formData();
+    const password = formData.get('password');
+    return await openShareLink(token, typeof password === 'string' ? password : '');
+  } catch (error) {
+    console.error('Error opening share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
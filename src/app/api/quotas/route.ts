@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getUserQuotaStatus } from '@/lib/quotas';
+
+// GET /api/quotas - Get the current user's quotas and usage
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = await getUserQuotaStatus(session.user.id);
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error fetching quotas:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getDefaultIdleTimeoutMinutes } from '@/lib/idle';
+
+// GET /api/settings - Get the current user's workspace defaults
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { idleTimeoutMinutes: true },
+    });
+
+    return NextResponse.json({
+      idleTimeoutMinutes: user?.idleTimeoutMinutes ?? null,
+      // Instance default used when the user hasn't set one
+      defaultIdleTimeoutMinutes: getDefaultIdleTimeoutMinutes(),
+    });
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/settings - Update the current user's workspace defaults
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { idleTimeoutMinutes } = body;
+
+    // null falls back to the instance default, 0 disables auto-stop
+    if (
+      idleTimeoutMinutes !== null &&
+      (!Number.isInteger(idleTimeoutMinutes) || idleTimeoutMinutes < 0)
+    ) {
+      return NextResponse.json(
+        { error: 'idleTimeoutMinutes must be a non-negative integer or null' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: { idleTimeoutMinutes },
+      select: { idleTimeoutMinutes: true },
+    });
+
+    return NextResponse.json({
+      idleTimeoutMinutes: user.idleTimeoutMinutes,
+      defaultIdleTimeoutMinutes: getDefaultIdleTimeoutMinutes(),
+    });
+  } catch (error) {
+    console.error('Error updating settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceRuntime } from '@/lib/runtime';
+import { snapshotDownloadName } from '@/lib/snapshots';
+
+// GET /api/snapshots/[id]/download - Export a snapshot as a .tar.gz archive
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+
+    const snapshot = await prisma.snapshot.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        status: 'ready',
+      },
+    });
+
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    const archive = await getWorkspaceRuntime().readSnapshot(snapshot.id);
+
+    return new Response(Readable.toWeb(archive) as ReadableStream, {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${snapshotDownloadName(snapshot)}"`,
+        ...(snapshot.sizeBytes ? { 'Content-Length': String(snapshot.sizeBytes) } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading snapshot:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
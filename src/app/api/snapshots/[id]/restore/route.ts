@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isProvisioning, startSnapshotRestore } from '@/lib/provisioning';
+import { workspaceResources } from '@/lib/resources';
+import { checkWorkspaceQuota, quotaErrorBody } from '@/lib/quotas';
+
+// POST /api/snapshots/[id]/restore - Restore a snapshot into an existing workspace
+// Defaults to the workspace the snapshot was taken from. To restore into a new
+// workspace, create one with POST /api/workspaces and a snapshotId instead.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const snapshot = await prisma.snapshot.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        status: 'ready',
+      },
+    });
+
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    const workspaceId = body.workspaceId || snapshot.workspaceId;
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: 'The source workspace was deleted, choose a workspace to restore into' },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: workspaceId,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status === 'starting' || isProvisioning(workspace.id)) {
+      return NextResponse.json(
+        { error: 'Wait for the workspace to finish starting before restoring a snapshot' },
+        { status: 409 }
+      );
+    }
+
+    // Restoring while a snapshot is being taken would archive half-restored volumes
+    const snapshotsInProgress = await prisma.snapshot.count({
+      where: { workspaceId: workspace.id, status: 'creating' },
+    });
+    if (snapshotsInProgress > 0) {
+      return NextResponse.json(
+        { error: 'Wait for the running snapshot of this workspace to finish' },
+        { status: 409 }
+      );
+    }
+
+    // The workspace is started after the restore, even if it was stopped before
+    if (workspace.status !== 'running') {
+      const violation = await checkWorkspaceQuota(session.user.id, {
+        resources: workspaceResources(workspace),
+        workspaceId: workspace.id,
+      });
+      if (violation) {
+        return NextResponse.json(quotaErrorBody(violation), { status: 403 });
+      }
+    }
+
+    // Progress is streamed from /api/workspaces/[id]/provisioning
+    startSnapshotRestore(workspace.id, snapshot.id);
+
+    return NextResponse.json(
+      { workspace: { ...workspace, status: 'starting', statusReason: null } },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceRuntime } from '@/lib/runtime';
+
+// DELETE /api/snapshots/[id] - Delete a snapshot and its archive
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+
+    const snapshot = await prisma.snapshot.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    if (snapshot.status === 'creating') {
+      return NextResponse.json(
+        { error: 'Wait for the snapshot to finish before deleting it' },
+        { status: 409 }
+      );
+    }
+
+    await getWorkspaceRuntime().deleteSnapshot(snapshot.id);
+    await prisma.snapshot.delete({ where: { id: snapshot.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceRuntime } from '@/lib/runtime';
+import { normalizeSnapshotName } from '@/lib/snapshots';
+
+// POST /api/snapshots/import - Upload a snapshot archive exported from this or another instance
+// The request body is the raw .tar.gz file; name, githubRepo and githubBranch are query parameters
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const name = normalizeSnapshotName(searchParams.get('name'));
+    const githubRepo = searchParams.get('githubRepo');
+    const githubBranch = searchParams.get('githubBranch') || 'main';
+
+    if (!name || !githubRepo) {
+      return NextResponse.json(
+        { error: 'A name of at most 100 characters and a GitHub repository are required' },
+        { status: 400 }
+      );
+    }
+
+    // The archive is streamed to Docker as a tar entry, which needs the size upfront
+    const sizeBytes = parseInt(request.headers.get('content-length') || '', 10);
+    if (!request.body || !Number.isInteger(sizeBytes) || sizeBytes <= 0) {
+      return NextResponse.json(
+        { error: 'The snapshot archive must be sent as the request body with a Content-Length' },
+        { status: 411 }
+      );
+    }
+
+    const snapshot = await prisma.snapshot.create({
+      data: {
+        name,
+        userId: session.user.id,
+        githubRepo,
+        githubBranch,
+      },
+    });
+
+    try {
+      await getWorkspaceRuntime().importSnapshot(
+        snapshot.id,
+        Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>),
+        sizeBytes
+      );
+    } catch (error) {
+      console.error('Error importing snapshot archive:', error);
+      await prisma.snapshot.delete({ where: { id: snapshot.id } });
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to import snapshot' },
+        { status: 400 }
+      );
+    }
+
+    const imported = await prisma.snapshot.update({
+      where: { id: snapshot.id },
+      data: { status: 'ready', sizeBytes },
+    });
+
+    return NextResponse.json({ snapshot: imported }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing snapshot:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/snapshots - List all of the user's snapshots, including those of deleted workspaces
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const snapshots = await prisma.snapshot.findMany({
+      where: { userId: session.user.id },
+      include: {
+        workspace: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error('Error fetching snapshots:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
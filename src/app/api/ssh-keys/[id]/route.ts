@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// DELETE /api/ssh-keys/[id] - Remove an SSH key
+// Running workspaces keep their copy in ~/.ssh until they are rebuilt
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const { count } = await prisma.sshKey.deleteMany({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'SSH key not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting SSH key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
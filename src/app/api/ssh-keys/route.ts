@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { encryptSecret } from '@/lib/secrets';
+import {
+  MAX_SSH_KEYS_PER_USER,
+  generateSshKey,
+  parseSshPrivateKey,
+  toSshKeyInfo,
+  type SshKeyPair,
+} from '@/lib/ssh-keys';
+
+// GET /api/ssh-keys - List the user's SSH keys with their public keys
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const keys = await prisma.sshKey.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ keys: keys.map(toSshKeyInfo) });
+  } catch (error) {
+    console.error('Error fetching SSH keys:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/ssh-keys - Generate an Ed25519 key, or upload one with privateKey
+// Body: { name, privateKey? }. Workspaces created or rebuilt afterwards get the key.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'Name is required and at most 100 characters' }, { status: 400 });
+    }
+
+    const count = await prisma.sshKey.count({ where: { userId: session.user.id } });
+    if (count >= MAX_SSH_KEYS_PER_USER) {
+      return NextResponse.json({ error: `At most ${MAX_SSH_KEYS_PER_USER} SSH keys are allowed` }, { status: 400 });
+    }
+
+    let keyPair: SshKeyPair;
+    if (body.privateKey !== undefined) {
+      if (typeof body.privateKey !== 'string' || !body.privateKey.trim()) {
+        return NextResponse.json({ error: 'privateKey must be a private key file' }, { status: 400 });
+      }
+      const parsed = parseSshPrivateKey(body.privateKey, name);
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 422 });
+      }
+      keyPair = parsed;
+    } else {
+      keyPair = generateSshKey(name);
+    }
+
+    const key = await prisma.sshKey.create({
+      data: {
+        userId: session.user.id,
+        name,
+        publicKey: keyPair.publicKey,
+        privateKey: encryptSecret(keyPair.privateKey),
+        fingerprint: keyPair.fingerprint,
+      },
+    });
+
+    return NextResponse.json({ key: toSshKeyInfo(key) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating SSH key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { previewRoutesConfig, verifyTraefikProvider } from '@/lib/preview-ports';
+
+// GET /api/traefik - Dynamic configuration polled by Traefik's HTTP provider, the
+// routes of all previews. Only Traefik knows the token.
+export async function GET(request: NextRequest) {
+  try {
+    if (!verifyTraefikProvider(request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const domain = process.env.DOMAIN || 'localhost';
+    return NextResponse.json(await previewRoutesConfig(domain));
+  } catch (error) {
+    console.error('Error building Traefik configuration:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
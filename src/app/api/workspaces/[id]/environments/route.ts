@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { syncEnvironmentToWorkspaces } from '@/lib/docker';
+import { getWorkspaceRuntime } from '@/lib/runtime';
 
 // GET /api/workspaces/[id]/environments - Get environments linked to a workspace
 export async function GET(
@@ -126,7 +126,7 @@ export async function PUT(
 
     // Sync environment variables to the running container
     try {
-      await syncEnvironmentToWorkspaces(params.id, environmentsToSync);
+      await getWorkspaceRuntime().syncEnvironment(params.id, environmentsToSync);
     } catch (syncError) {
       console.error(`Error syncing environments to workspace ${params.id}:`, syncError);
       // Don't fail the request if sync fails - the env will be applied on next restart
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { listWorkspaceEvents } from '@/lib/workspace-events';
+
+// GET /api/workspaces/[id]/events - List changes the app made to a workspace on its own
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const events = await listWorkspaceEvents(workspace.id);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Error fetching workspace events:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
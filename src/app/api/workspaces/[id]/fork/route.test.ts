@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn(async () => ({})) },
+  previewPort: { createMany: vi.fn() },
+  workspaceEnvironment: { createMany: vi.fn() },
+}));
+const quotasMock = vi.hoisted(() => ({ checkWorkspaceQuota: vi.fn() }));
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn(async () => ({ user: { id: 'user1' } })) }));
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+vi.mock('@/lib/quotas', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/quotas')>()),
+  ...quotasMock,
+}));
+vi.mock('@/lib/repositories', () => ({
+  createWorkspaceRepositories: vi.fn(),
+  listRepositoryCheckouts: vi.fn(async () => []),
+}));
+vi.mock('@/lib/preview-ports', () => ({
+  listPreviewPorts: vi.fn(async () => [{ name: 'web', port: 5173 }]),
+  addForwardedPorts: vi.fn(),
+}));
+vi.mock('@/lib/ssh-keys', () => ({
+  loadSshIdentities: vi.fn(async () => []),
+  loadKnownHosts: vi.fn(async () => []),
+}));
+
+import { createFakeRuntime, type FakeRuntime } from '@/lib/runtime/fake';
+import { setWorkspaceRuntime } from '@/lib/runtime';
+import { getProvisioningJob } from '@/lib/provisioning';
+import { POST } from './route';
+
+const source = {
+  id: 'source1',
+  name: 'Web',
+  userId: 'user1',
+  githubRepo: 'https://github.com/acme/web.git',
+  githubBranch: 'main',
+  status: 'running',
+  idleTimeoutMinutes: null,
+  resourceProfile: 'small',
+  memoryMb: 4096,
+  cpus: 2,
+  diskGb: 10,
+  environments: [{ environmentId: 'env1' }],
+};
+
+let runtime: FakeRuntime;
+
+function fork(body: unknown) {
+  const request = new NextRequest('http://localhost/api/workspaces/source1/fork', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ id: 'source1' }) });
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  await runtime.createWorkspace({ workspaceId: 'source1', userId: 'user1', githubRepo: source.githubRepo });
+  runtime.workspaces.get('source1')!.files = { 'notes.md': 'draft' };
+
+  prismaMock.workspace.findFirst.mockResolvedValue(source);
+  prismaMock.workspace.create.mockImplementation(async ({ data }) => ({ id: 'copy1', ...data }));
+  quotasMock.checkWorkspaceQuota.mockResolvedValue(null);
+});
+
+describe('POST /api/workspaces/[id]/fork', () => {
+  it('creates a copy with the source\'s settings and copies its files', async () => {
+    const response = await fork({ name: 'Web experiment' });
+
+    expect(response.status).toBe(202);
+    expect(prismaMock.workspace.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Web experiment',
+        githubRepo: source.githubRepo,
+        resourceProfile: 'small',
+        memoryMb: 4096,
+        cpus: 2,
+        diskGb: 10,
+        status: 'starting',
+      }),
+    });
+    expect(prismaMock.previewPort.createMany).toHaveBeenCalledWith({
+      data: [{ workspaceId: 'copy1', name: 'web', port: 5173, position: 0 }],
+    });
+    expect(prismaMock.workspaceEnvironment.createMany).toHaveBeenCalledWith({
+      data: [{ workspaceId: 'copy1', environmentId: 'env1' }],
+    });
+
+    await vi.waitFor(() => expect(getProvisioningJob('copy1')?.finished).toBe(true));
+    expect(runtime.workspaces.get('copy1')?.files).toEqual({ 'notes.md': 'draft' });
+  });
+
+  it('names the copy after the source by default', async () => {
+    await fork({});
+    expect(prismaMock.workspace.create.mock.calls[0][0].data.name).toBe('Web (copy)');
+  });
+
+  it.each(['starting', 'error'])('refuses sources that are %s', async (status) => {
+    prismaMock.workspace.findFirst.mockResolvedValue({ ...source, status });
+
+    const response = await fork({});
+
+    expect(response.status).toBe(409);
+    expect(prismaMock.workspace.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses copies over the quota', async () => {
+    quotasMock.checkWorkspaceQuota.mockResolvedValue({
+      quota: 'maxWorkspaces',
+      scope: 'user',
+      limit: 1,
+      used: 1,
+      requested: 1,
+    });
+
+    const response = await fork({});
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'quota_exceeded' });
+    expect(prismaMock.workspace.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses an includeHistory that isn\'t a boolean', async () => {
+    expect((await fork({ includeHistory: 'yes' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isProvisioning, startWorkspaceProvisioning } from '@/lib/provisioning';
+import { workspaceResources } from '@/lib/resources';
+import { checkWorkspaceQuota, quotaErrorBody } from '@/lib/quotas';
+import { createWorkspaceRepositories, listRepositoryCheckouts } from '@/lib/repositories';
+import { listPreviewPorts } from '@/lib/preview-ports';
+import { loadKnownHosts, loadSshIdentities } from '@/lib/ssh-keys';
+
+// POST /api/workspaces/[id]/fork - Create a new workspace from the current state of this one
+// Copies the workspace files (and optionally the OpenCode history), its repositories, preview ports and the linked environments
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const { includeHistory = false } = body;
+
+    if (typeof includeHistory !== 'boolean') {
+      return NextResponse.json({ error: 'includeHistory must be a boolean' }, { status: 400 });
+    }
+
+    const source = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      include: {
+        environments: true,
+      },
+    });
+
+    if (!source) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    // The volumes are only complete once provisioning has finished
+    if (source.status === 'starting' || source.status === 'error' || isProvisioning(source.id)) {
+      return NextResponse.json(
+        { error: 'Only workspaces that finished starting can be duplicated' },
+        { status: 409 }
+      );
+    }
+
+    const violation = await checkWorkspaceQuota(session.user.id, {
+      resources: workspaceResources(source),
+    });
+    if (violation) {
+      return NextResponse.json(quotaErrorBody(violation), { status: 403 });
+    }
+
+    const name = typeof body.name === 'string' && body.name.trim()
+      ? body.name.trim()
+      : `${source.name} (copy)`;
+    const environmentIds = source.environments.map((link) => link.environmentId);
+
+    const workspace = await prisma.workspace.create({
+      data: {
+        name,
+        githubRepo: source.githubRepo,
+        githubBranch: source.githubBranch,
+        idleTimeoutMinutes: source.idleTimeoutMinutes,
+        resourceProfile: source.resourceProfile,
+        ...workspaceResources(source),
+        userId: session.user.id,
+        status: 'starting',
+      },
+    });
+
+    const checkouts = await listRepositoryCheckouts(source.id);
+    await createWorkspaceRepositories(workspace.id, checkouts);
+
+    const previewPorts = await listPreviewPorts(source.id);
+    await prisma.previewPort.createMany({
+      data: previewPorts.map(({ name, port }, position) => ({ workspaceId: workspace.id, name, port, position })),
+    });
+
+    if (environmentIds.length > 0) {
+      await prisma.workspaceEnvironment.createMany({
+        data: environmentIds.map((environmentId) => ({
+          workspaceId: workspace.id,
+          environmentId,
+        })),
+      });
+    }
+
+    // Progress is streamed from /api/workspaces/[id]/provisioning
+    startWorkspaceProvisioning({
+      workspaceId: workspace.id,
+      userId: session.user.id,
+      githubRepo: source.githubRepo,
+      githubBranch: source.githubBranch,
+      sshIdentities: await loadSshIdentities(session.user.id),
+      sshKnownHosts: await loadKnownHosts(session.user.id),
+      repositories: checkouts,
+      environmentIds,
+      source: { type: 'workspace', workspaceId: source.id, includeHistory },
+      resources: workspaceResources(source),
+    });
+
+    return NextResponse.json({ workspace }, { status: 202 });
+  } catch (error) {
+    console.error('Error duplicating workspace:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  checkoutBranch,
+  checkoutPullRequest,
+  createBranch,
+  fetchRemote,
+  isValidGitName,
+  listBranches,
+  type GitResult,
+} from '@/lib/git';
+import { findWorkspaceRepository, updateWorkspaceRepository } from '@/lib/repositories';
+
+// GET /api/workspaces/[id]/git/branches - List local and remote-tracking branches
+// Query: fetch=true to update the remote-tracking branches first. Like every git route it
+// takes repo, the directory of the repository in a workspace with several, the first by default.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get('fetch') === 'true') {
+      const fetched = await fetchRemote(repository);
+      if ('error' in fetched) {
+        return NextResponse.json({ error: fetched.error }, { status: 422 });
+      }
+    }
+
+    const result = await listBranches(repository);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    return NextResponse.json({ branches: result });
+  } catch (error) {
+    console.error('Error listing branches:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/workspaces/[id]/git/branches - Switch the repository to another branch
+// Body: { branch } to check out a branch, a remote-tracking branch like origin/feature gets
+// a local branch; { create } for a new branch from HEAD; { pullRequest } for a pull request
+// by number. Uncommitted changes are carried over, git refuses the switch if they conflict.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    let result: GitResult<{ branch: string }>;
+    if (body?.pullRequest !== undefined) {
+      if (!Number.isInteger(body.pullRequest) || body.pullRequest < 1) {
+        return NextResponse.json({ error: 'pullRequest must be a pull request number' }, { status: 400 });
+      }
+      result = await checkoutPullRequest(repository, body.pullRequest);
+    } else if (body?.create !== undefined) {
+      if (!isValidGitName(body.create)) {
+        return NextResponse.json({ error: 'Invalid branch name' }, { status: 400 });
+      }
+      result = await createBranch(repository, body.create);
+    } else {
+      if (!isValidGitName(body?.branch)) {
+        return NextResponse.json({ error: 'Invalid branch name' }, { status: 400 });
+      }
+      result = await checkoutBranch(repository, body.branch);
+    }
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    // The stored branch follows the branch the repository is on
+    await updateWorkspaceRepository(workspace, repository.path, { branch: result.branch });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error checking out branch:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { commitChanges, isValidGitName } from '@/lib/git';
+import { findWorkspaceRepository } from '@/lib/repositories';
+
+// POST /api/workspaces/[id]/git/commit - Commit changes
+// Body: { message, all?: stage every change first, paths?: files to stage first }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const message = typeof body?.message === 'string' ? body.message.trim() : '';
+    if (!message) {
+      return NextResponse.json({ error: 'Commit message is required' }, { status: 400 });
+    }
+    if (body.paths !== undefined && (!Array.isArray(body.paths) || !body.paths.every(isValidGitName))) {
+      return NextResponse.json({ error: 'paths must be a list of file paths' }, { status: 400 });
+    }
+
+    const result = await commitChanges(repository, {
+      message,
+      all: body.all === true,
+      paths: body.paths,
+      author: {
+        name: session.user.name || 'Open Web Agent',
+        email: session.user.email || 'noreply@open-web-agent.local',
+      },
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error committing changes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
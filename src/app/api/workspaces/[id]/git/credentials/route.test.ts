@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findUnique: vi.fn() },
+}));
+const gitConnectionsMock = vi.hoisted(() => ({ findGitCredentials: vi.fn() }));
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+vi.mock('@/lib/git-connections', () => gitConnectionsMock);
+
+import { gitCredentialToken } from '@/lib/git-credential-helper';
+import { POST } from './route';
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+function requestCredentials(body: string, token: string | null = gitCredentialToken('ws1')) {
+  const request = new NextRequest('http://web:3000/api/workspaces/ws1/git/credentials', {
+    method: 'POST',
+    body,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  return POST(request, { params: Promise.resolve({ id: 'ws1' }) });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.NEXTAUTH_SECRET = 'test-secret';
+  prismaMock.workspace.findUnique.mockResolvedValue({ userId: 'user1' });
+  gitConnectionsMock.findGitCredentials.mockResolvedValue({ username: 'x-access-token', password: 'gho_secret' });
+});
+
+afterEach(() => {
+  if (secret === undefined) delete process.env.NEXTAUTH_SECRET;
+  else process.env.NEXTAUTH_SECRET = secret;
+});
+
+describe('POST /api/workspaces/[id]/git/credentials', () => {
+  it('answers with the credentials of the workspace owner for the host', async () => {
+    const response = await requestCredentials('protocol=https\nhost=github.com\n');
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('username=x-access-token\npassword=gho_secret\n');
+    expect(gitConnectionsMock.findGitCredentials).toHaveBeenCalledWith('user1', 'github.com');
+  });
+
+  it('answers empty for other protocols and unknown hosts', async () => {
+    expect(await (await requestCredentials('protocol=http\nhost=github.com\n')).text()).toBe('');
+    expect(gitConnectionsMock.findGitCredentials).not.toHaveBeenCalled();
+
+    gitConnectionsMock.findGitCredentials.mockResolvedValue(null);
+    expect(await (await requestCredentials('protocol=https\nhost=example.com\n')).text()).toBe('');
+  });
+
+  it('refuses requests without the token of the workspace', async () => {
+    expect((await requestCredentials('protocol=https\nhost=github.com\n', null)).status).toBe(401);
+    expect((await requestCredentials('protocol=https\nhost=github.com\n', gitCredentialToken('ws2'))).status).toBe(401);
+    expect(gitConnectionsMock.findGitCredentials).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for deleted workspaces', async () => {
+    prismaMock.workspace.findUnique.mockResolvedValue(null);
+    expect((await requestCredentials('protocol=https\nhost=github.com\n')).status).toBe(404);
+  });
+});
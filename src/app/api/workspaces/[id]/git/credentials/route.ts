@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { findGitCredentials } from '@/lib/git-connections';
+import { formatCredentials, parseCredentialRequest, verifyGitCredentialHelper } from '@/lib/git-credential-helper';
+
+// POST /api/workspaces/[id]/git/credentials - Credentials for git in the workspace's containers
+// Called by their credential helper with the request git sends it, authenticated with the
+// workspace's helper token instead of a session. Answers in the same key=value format,
+// empty when there are no credentials for the host so git goes on without them.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+
+    if (!verifyGitCredentialHelper(params.id, request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: params.id },
+      select: { userId: true },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const { protocol, host } = parseCredentialRequest(await request.text());
+    const credentials = protocol === 'https' && host
+      ? await findGitCredentials(workspace.userId, host)
+      : null;
+
+    return new NextResponse(credentials ? formatCredentials(credentials) : '', {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('Error answering git credential request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
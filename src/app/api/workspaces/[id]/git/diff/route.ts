@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getGitDiff, isValidGitName } from '@/lib/git';
+import { findWorkspaceRepository } from '@/lib/repositories';
+
+// GET /api/workspaces/[id]/git/diff - Diff per file
+// Query: staged (true for the index, unstaged changes otherwise), path to limit it to one file
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const query = request.nextUrl.searchParams;
+    const path = query.get('path') ?? undefined;
+    if (path !== undefined && !isValidGitName(path)) {
+      return NextResponse.json({ error: 'Invalid path' }, { status: 400 });
+    }
+
+    const result = await getGitDiff(repository, { staged: query.get('staged') === 'true', path });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error getting git diff:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
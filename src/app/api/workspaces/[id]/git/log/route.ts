@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getGitLog } from '@/lib/git';
+import { findWorkspaceRepository } from '@/lib/repositories';
+
+const DEFAULT_LOG_LIMIT = 30;
+const MAX_LOG_LIMIT = 200;
+
+// GET /api/workspaces/[id]/git/log - Recent commits of the current branch (limit, 30 by default)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LOG_LIMIT : parseInt(limitParam, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LOG_LIMIT) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LOG_LIMIT}` }, { status: 400 });
+    }
+
+    const result = await getGitLog(repository, limit);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    return NextResponse.json({ commits: result });
+  } catch (error) {
+    console.error('Error getting git log:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
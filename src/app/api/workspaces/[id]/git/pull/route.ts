@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { pullChanges } from '@/lib/git';
+import { findWorkspaceRepository } from '@/lib/repositories';
+
+// POST /api/workspaces/[id]/git/pull - Fast-forward the current branch from its upstream
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const result = await pullChanges(repository);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 422 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error pulling changes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
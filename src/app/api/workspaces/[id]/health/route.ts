@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getWorkspaceRuntime, type WorkspaceServiceName } from '@/lib/runtime';
 
 export async function GET(
   request: NextRequest,
@@ -33,34 +34,8 @@ export async function GET(
       return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
     }
 
-    // Check if container is ready by trying to connect via Docker network
-    // Containers are accessible by their container name on the Docker network
-    // Note: vscode container is named 'code-server-{id}' not 'vscode-{id}'
-    const containerName = service === 'opencode' 
-      ? `opencode-${workspace.id}`
-      : `code-server-${workspace.id}`;
-    
-    const port = service === 'opencode' ? 3001 : 8443;
-    const url = `http://${containerName}:${port}`;
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-      
-      const response = await fetch(url, {
-        signal: controller.signal,
-        method: 'HEAD',
-      });
-      
-      clearTimeout(timeoutId);
-      
-      // Consider any response (even error pages) as "ready"
-      // because it means the container's web server is up
-      return NextResponse.json({ ready: true });
-    } catch (fetchError) {
-      // Container not ready yet
-      return NextResponse.json({ ready: false });
-    }
+    const ready = await getWorkspaceRuntime().checkHealth(workspace.id, service as WorkspaceServiceName);
+    return NextResponse.json({ ready });
   } catch (error) {
     console.error('Health check error:', error);
     return NextResponse.json({ error: 'Health check failed' }, { status: 500 });
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findFirst: vi.fn() },
+}));
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn(async () => ({ user: { id: 'user1' } })) }));
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+vi.mock('@/lib/preview-ports', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/preview-ports')>()),
+  listPreviewPorts: vi.fn(async () => [{ name: 'web', port: 3000 }]),
+}));
+
+import { createFakeRuntime, type FakeRuntime } from '@/lib/runtime/fake';
+import { setWorkspaceRuntime } from '@/lib/runtime';
+import { GET } from './route';
+
+let runtime: FakeRuntime;
+
+function listeningPorts() {
+  const request = new NextRequest('http://localhost/api/workspaces/ws1/listening-ports');
+  return GET(request, { params: Promise.resolve({ id: 'ws1' }) });
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  prismaMock.workspace.findFirst.mockResolvedValue({ id: 'ws1', userId: 'user1' });
+});
+
+describe('GET /api/workspaces/[id]/listening-ports', () => {
+  it('lists the listening ports that aren\'t previewed yet', async () => {
+    runtime.workspaces.get('ws1')!.listeningPorts = [
+      { port: 3000, loopbackOnly: false },
+      { port: 3001, loopbackOnly: false },
+      { port: 5173, loopbackOnly: false },
+      { port: 8000, loopbackOnly: true },
+    ];
+
+    const response = await listeningPorts();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ports: [
+        { port: 5173, loopbackOnly: false },
+        { port: 8000, loopbackOnly: true },
+      ],
+    });
+  });
+
+  it('returns 409 when the workspace is stopped', async () => {
+    await runtime.stopWorkspace('ws1');
+    expect((await listeningPorts()).status).toBe(409);
+  });
+
+  it('returns 404 for workspaces of other users', async () => {
+    prismaMock.workspace.findFirst.mockResolvedValue(null);
+
+    expect((await listeningPorts()).status).toBe(404);
+    expect(runtime.calls.some((call) => call.method === 'listListeningPorts')).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceRuntime } from '@/lib/runtime';
+import { listPreviewPorts, unpreviewedPorts } from '@/lib/preview-ports';
+
+// GET /api/workspaces/[id]/listening-ports - Ports servers listen on in the OpenCode
+// container that aren't previewed yet, polled by the workspace page to offer them
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const listening = await getWorkspaceRuntime().listListeningPorts(workspace.id);
+    if (!listening) {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    return NextResponse.json({ ports: unpreviewedPorts(listening, await listPreviewPorts(workspace.id)) });
+  } catch (error) {
+    console.error('Error listing listening ports:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findFirst: vi.fn() },
+}));
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn(async () => ({ user: { id: 'user1' } })) }));
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+
+import { createFakeRuntime, type FakeRuntime } from '@/lib/runtime/fake';
+import { setWorkspaceRuntime } from '@/lib/runtime';
+import { GET } from './route';
+
+let runtime: FakeRuntime;
+
+function logs(query: string) {
+  const request = new NextRequest(`http://localhost/api/workspaces/ws1/logs?${query}`);
+  return GET(request, { params: Promise.resolve({ id: 'ws1' }) });
+}
+
+// Every event as "<data>" or "<event> <data>", in order
+async function events(response: Response): Promise<string[]> {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((event) => event.split('\n').map((line) => line.replace(/^(event|data): /, '')).join(' '));
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  runtime.workspaces.get('ws1')!.logs.push(
+    { source: 'opencode', stream: 'stdout', line: 'listening on 3001', timestamp: '2026-01-01T10:00:00Z' },
+    { source: 'opencode', stream: 'stderr', line: 'warning: slow disk', timestamp: '2026-01-01T10:00:01Z' },
+    { source: 'code-server', stream: 'stdout', line: 'HTTP server listening', timestamp: '2026-01-01T10:00:02Z' },
+  );
+  prismaMock.workspace.findFirst.mockResolvedValue({ id: 'ws1', userId: 'user1' });
+});
+
+describe('GET /api/workspaces/[id]/logs', () => {
+  it('streams the lines of a source as events and ends the stream', async () => {
+    const response = await logs('source=opencode&follow=false');
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await events(response)).toEqual([
+      JSON.stringify({ stream: 'stdout', line: 'listening on 3001', timestamp: '2026-01-01T10:00:00Z' }),
+      JSON.stringify({ stream: 'stderr', line: 'warning: slow disk', timestamp: '2026-01-01T10:00:01Z' }),
+      'end {}',
+    ]);
+  });
+
+  it('filters by stream and keeps the tail', async () => {
+    expect(await events(await logs('stream=stderr&follow=false'))).toEqual([
+      expect.stringContaining('warning: slow disk'),
+      'end {}',
+    ]);
+    expect(await events(await logs('tail=1&follow=false'))).toEqual([
+      expect.stringContaining('warning: slow disk'),
+      'end {}',
+    ]);
+  });
+
+  it.each([
+    ['source=traefik', 'source must be one of opencode, code-server, init'],
+    ['tail=-1', 'tail must be a non-negative integer or "all"'],
+    ['stream=both', 'stream must be stdout, stderr or all'],
+  ])('refuses %s', async (query, error) => {
+    const response = await logs(query);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+  });
+
+  it('explains a missing init container', async () => {
+    const response = await logs('source=init');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No init container, it only exists while the repository is cloned' });
+  });
+
+  it('answers 404 for workspaces of other users', async () => {
+    prismaMock.workspace.findFirst.mockResolvedValue(null);
+    expect((await logs('')).status).toBe(404);
+  });
+});
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceRuntime, type LogLine, type LogStream, type WorkspaceLogSource } from '@/lib/runtime';
+
+const LOG_SOURCES: WorkspaceLogSource[] = ['opencode', 'code-server', 'init'];
+
+// Lines sent when no tail is given, so a long-running container doesn't flood the client
+const DEFAULT_TAIL = 500;
+
+// GET /api/workspaces/[id]/logs - Stream a container's logs as Server-Sent Events
+// Query: source (opencode, code-server or init), tail, follow (true or false),
+// stream (stdout, stderr or all). An "end" event is sent when no more lines follow.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = await context.params;
+  const workspace = await prisma.workspace.findFirst({
+    where: {
+      id: params.id,
+      userId: session.user.id,
+    },
+  });
+
+  if (!workspace) {
+    return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+  }
+
+  const query = request.nextUrl.searchParams;
+  const source = (query.get('source') || 'opencode') as WorkspaceLogSource;
+  if (!LOG_SOURCES.includes(source)) {
+    return NextResponse.json({ error: `source must be one of ${LOG_SOURCES.join(', ')}` }, { status: 400 });
+  }
+
+  const tailParam = query.get('tail');
+  const tail = tailParam === null ? DEFAULT_TAIL : tailParam === 'all' ? undefined : parseInt(tailParam, 10);
+  if (tail !== undefined && (!Number.isInteger(tail) || tail < 0)) {
+    return NextResponse.json({ error: 'tail must be a non-negative integer or "all"' }, { status: 400 });
+  }
+
+  const streamParam = query.get('stream') || 'all';
+  if (!['stdout', 'stderr', 'all'].includes(streamParam)) {
+    return NextResponse.json({ error: 'stream must be stdout, stderr or all' }, { status: 400 });
+  }
+  const streams: LogStream[] = streamParam === 'all' ? ['stdout', 'stderr'] : [streamParam as LogStream];
+
+  const follow = query.get('follow') !== 'false';
+
+  let lines: AsyncIterable<LogLine> | null;
+  try {
+    lines = await getWorkspaceRuntime().readLogs(workspace.id, source, {
+      tail,
+      follow,
+      streams,
+      signal: request.signal,
+    });
+  } catch (error) {
+    console.error('Error reading workspace logs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+
+  if (!lines) {
+    const message = source === 'init'
+      ? 'No init container, it only exists while the repository is cloned'
+      : `The ${source} container does not exist`;
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+
+  const output = lines;
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const enqueue = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      // Comments keep the connection alive through proxies while the container is quiet
+      const heartbeat = setInterval(() => enqueue(': heartbeat\n\n'), 15000);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      };
+      cleanup = close;
+
+      (async () => {
+        try {
+          for await (const line of output) {
+            if (closed) break;
+            enqueue(`data: ${JSON.stringify(line)}\n\n`);
+          }
+          enqueue('event: end\ndata: {}\n\n');
+        } catch (error) {
+          console.error('Error streaming workspace logs:', error);
+          enqueue(`event: end\ndata: ${JSON.stringify({ error: 'Log stream failed' })}\n\n`);
+        }
+        close();
+      })();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  request.signal.addEventListener('abort', () => cleanup());
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
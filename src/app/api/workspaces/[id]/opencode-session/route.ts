@@ -1,13 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import Docker from 'dockerode';
-
-// Initialize Docker client
-const docker = new Docker({
-  host: process.env.DOCKER_SOCKET_PROXY?.replace(':2375', '') || 'docker-socket-proxy',
-  port: 2375,
-});
+import { getWorkspaceRuntime } from '@/lib/runtime';
 
 // This endpoint queries the OpenCode container to get the most recent session ID
 // by listing session files in the storage directory
@@ -33,38 +27,29 @@ export async function GET(
   }
 
   try {
-    // Get the opencode container
-    const container = docker.getContainer(`opencode-${workspaceId}`);
-    
+    const runtime = getWorkspaceRuntime();
+
     // Try multiple methods to find the session ID
     // Method 1: Query the SQLite database for the most recent session
-    const sqliteExec = await container.exec({
-      Cmd: [
-        'sh', '-c',
-        `sqlite3 /root/.local/share/opencode/data.db "SELECT id FROM session ORDER BY created_at DESC LIMIT 1;" 2>/dev/null || echo ""`
-      ],
-      AttachStdout: true,
-      AttachStderr: true,
-    });
+    const sqliteResult = await runtime.exec(workspaceId, [
+      'sh', '-c',
+      `sqlite3 /root/.local/share/opencode/data.db "SELECT id FROM session ORDER BY created_at DESC LIMIT 1;" 2>/dev/null || echo ""`
+    ]);
 
-    let sessionId = await execAndParse(sqliteExec);
+    let sessionId = sqliteResult.stdout.trim();
     console.log(`[opencode-session] SQLite result: "${sessionId}"`);
     
     // Method 2: Find ses_* directories recursively if SQLite didn't work
     if (!sessionId || !sessionId.startsWith('ses_')) {
-      const findExec = await container.exec({
-        Cmd: [
-          'sh', '-c',
-          // Find ses_* directories anywhere under storage, sort by modification time
-          `find /root/.local/share/opencode/storage -type d -name "ses_*" 2>/dev/null | head -1 | xargs -r basename`
-        ],
-        AttachStdout: true,
-        AttachStderr: true,
-      });
-      const findResult = await execAndParse(findExec);
-      console.log(`[opencode-session] find result: "${findResult}"`);
-      if (findResult && findResult.startsWith('ses_')) {
-        sessionId = findResult;
+      const findResult = await runtime.exec(workspaceId, [
+        'sh', '-c',
+        // Find ses_* directories anywhere under storage, sort by modification time
+        `find /root/.local/share/opencode/storage -type d -name "ses_*" 2>/dev/null | head -1 | xargs -r basename`
+      ]);
+      const foundSession = findResult.stdout.trim();
+      console.log(`[opencode-session] find result: "${foundSession}"`);
+      if (foundSession && foundSession.startsWith('ses_')) {
+        sessionId = foundSession;
       }
     }
 
@@ -81,34 +66,3 @@ export async function GET(
     return NextResponse.json({ sessionId: null });
   }
 }
-
-// Helper to execute docker command and parse multiplexed output
-async function execAndParse(exec: Docker.Exec): Promise<string> {
-  const stream = await exec.start({ Detach: false });
-  
-  const chunks: Buffer[] = [];
-  await new Promise<void>((resolve) => {
-    stream.on('data', (chunk: Buffer) => {
-      chunks.push(chunk);
-    });
-    stream.on('end', resolve);
-  });
-
-  const rawOutput = Buffer.concat(chunks);
-  
-  // Docker multiplexed stream format: parse headers
-  let output = '';
-  for (let i = 0; i < rawOutput.length; ) {
-    if (i + 8 <= rawOutput.length) {
-      const size = rawOutput.readUInt32BE(i + 4);
-      const content = rawOutput.slice(i + 8, i + 8 + size);
-      output += content.toString('utf8');
-      i += 8 + size;
-    } else {
-      output += rawOutput.slice(i).toString('utf8');
-      break;
-    }
-  }
-  
-  return output.trim();
-}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// DELETE /api/workspaces/[id]/preview-ports/[name] - Stop serving a port as a preview
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; name: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, name } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const { count } = await prisma.previewPort.deleteMany({
+      where: { workspaceId: workspace.id, name },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Preview port not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing preview port:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
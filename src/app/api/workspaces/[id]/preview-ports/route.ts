@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { addPreviewPort, listPreviewPorts, parsePreviewPort } from '@/lib/preview-ports';
+
+// GET /api/workspaces/[id]/preview-ports - List the ports served as previews
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ports: await listPreviewPorts(workspace.id) });
+  } catch (error) {
+    console.error('Error listing preview ports:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/workspaces/[id]/preview-ports - Serve another port as a preview, { port, name? }.
+// Traefik picks the route up within seconds, the containers are left alone.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parsePreviewPort(body, await listPreviewPorts(workspace.id));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const port = await addPreviewPort(workspace.id, parsed);
+    if ('error' in port) {
+      // Added by a request that ran at the same time
+      return NextResponse.json({ error: port.error }, { status: 409 });
+    }
+    return NextResponse.json({ port }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding preview port:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
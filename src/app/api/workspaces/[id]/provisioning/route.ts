@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  getProvisioningJob,
+  subscribeToProvisioning,
+  type ProvisioningEvent,
+} from '@/lib/provisioning';
+
+// GET /api/workspaces/[id]/provisioning - Stream provisioning progress as Server-Sent Events
+// Past events are replayed first, then live events follow until the workspace is ready or failed
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = await context.params;
+  const workspace = await prisma.workspace.findFirst({
+    where: {
+      id: params.id,
+      userId: session.user.id,
+    },
+  });
+
+  if (!workspace) {
+    return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: ProvisioningEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.step === 'ready' || event.step === 'error') {
+          close();
+        }
+      };
+
+      // Comments keep the connection alive through proxies during long steps
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, 15000);
+
+      let unsubscribe = () => { };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      };
+      cleanup = close;
+
+      const job = getProvisioningJob(workspace.id);
+
+      if (!job) {
+        // No job in memory: the workspace was provisioned earlier or the server restarted mid-way
+        if (workspace.status === 'running' || workspace.status === 'stopped') {
+          send({ step: 'ready', status: 'completed', message: 'Workspace is ready', timestamp: Date.now() });
+        } else if (workspace.status === 'error') {
+          send({ step: 'error', status: 'failed', message: 'Workspace failed to start', timestamp: Date.now() });
+        } else {
+          send({
+            step: 'error',
+            status: 'failed',
+            message: 'Provisioning was interrupted, delete the workspace and create it again',
+            timestamp: Date.now(),
+          });
+        }
+        return;
+      }
+
+      // Replay and subscribe synchronously so no event is lost in between
+      for (const event of job.events) {
+        send(event);
+      }
+      if (!closed) {
+        unsubscribe = subscribeToProvisioning(workspace.id, send);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  request.signal.addEventListener('abort', () => cleanup());
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findFirst: vi.fn() },
+}));
+const gitMock = vi.hoisted(() => ({
+  createBranch: vi.fn(),
+  getDefaultBranch: vi.fn(),
+  getGitStatus: vi.fn(),
+  pushChanges: vi.fn(),
+}));
+const githubMock = vi.hoisted(() => ({
+  createPullRequest: vi.fn(),
+  findOpenPullRequest: vi.fn(),
+}));
+const repositoriesMock = vi.hoisted(() => ({
+  findWorkspaceRepository: vi.fn(),
+  updateWorkspaceRepository: vi.fn(),
+}));
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn(async () => ({ user: { id: 'user1', githubToken: 'token' } })) }));
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+vi.mock('@/lib/git', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/git')>()),
+  ...gitMock,
+}));
+vi.mock('@/lib/github', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/github')>()),
+  ...githubMock,
+}));
+vi.mock('@/lib/repositories', () => repositoriesMock);
+
+import { POST } from './route';
+
+const pullRequest = { number: 7, title: 'Login', html_url: 'https://github.com/acme/web/pull/7' };
+
+function open(body: unknown) {
+  const request = new NextRequest('http://localhost/api/workspaces/ws1/pull-request', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ id: 'ws1' }) });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prismaMock.workspace.findFirst.mockResolvedValue({ id: 'ws1', status: 'running' });
+  repositoriesMock.findWorkspaceRepository.mockResolvedValue({
+    workspaceId: 'ws1',
+    path: '',
+    url: 'https://github.com/acme/web.git',
+    branch: 'main',
+    pullRequestUrl: null,
+  });
+  gitMock.getGitStatus.mockResolvedValue({ branch: 'feature/login', upstream: null, ahead: 0, behind: 0, files: [] });
+  gitMock.pushChanges.mockResolvedValue({ output: '' });
+  githubMock.findOpenPullRequest.mockResolvedValue(null);
+  githubMock.createPullRequest.mockResolvedValue(pullRequest);
+});
+
+describe('POST /api/workspaces/[id]/pull-request', () => {
+  it('pushes the branch and opens a pull request into the repository\'s branch', async () => {
+    const response = await open({ title: ' Login ', draft: true });
+
+    expect(response.status).toBe(201);
+    expect(githubMock.createPullRequest).toHaveBeenCalledWith('token', 'acme', 'web', {
+      title: 'Login',
+      body: '',
+      head: 'feature/login',
+      base: 'main',
+      draft: true,
+    });
+    expect(repositoriesMock.updateWorkspaceRepository).toHaveBeenCalledWith(
+      { id: 'ws1', status: 'running' },
+      '',
+      { pullRequestUrl: pullRequest.html_url, branch: 'feature/login' }
+    );
+  });
+
+  it('returns the open pull request of the branch', async () => {
+    githubMock.findOpenPullRequest.mockResolvedValue(pullRequest);
+
+    const response = await open({ title: 'Login' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      pullRequest: { number: 7, title: 'Login', url: pullRequest.html_url },
+      created: false,
+    });
+    expect(githubMock.createPullRequest).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ title: 'Login', base: ['main'] }, 'base and branch must be strings'],
+    [{ title: 'Login', branch: 42 }, 'base and branch must be strings'],
+    [{ title: 'Login', base: '--upload-pack=x' }, 'Invalid branch name'],
+    [{ title: '  ' }, 'Title is required'],
+  ])('refuses %j', async (body, error) => {
+    const response = await open(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+    expect(gitMock.pushChanges).not.toHaveBeenCalled();
+  });
+
+  it('refuses to open a pull request from the base branch', async () => {
+    gitMock.getGitStatus.mockResolvedValue({ branch: 'main', upstream: null, ahead: 0, behind: 0, files: [] });
+
+    const response = await open({ title: 'Login' });
+
+    expect(response.status).toBe(422);
+    expect(gitMock.pushChanges).not.toHaveBeenCalled();
+  });
+
+  it.each(['findOpenPullRequest', 'createPullRequest'] as const)('passes on GitHub errors of %s', async (method) => {
+    githubMock[method].mockRejectedValue(new Error('GitHub API error: Bad credentials'));
+
+    const response = await open({ title: 'Login' });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({ error: 'GitHub API error: Bad credentials' });
+    expect(repositoriesMock.updateWorkspaceRepository).not.toHaveBeenCalled();
+  });
+});
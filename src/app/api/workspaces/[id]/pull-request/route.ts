@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { createBranch, getDefaultBranch, getGitStatus, isValidGitName, pushChanges } from '@/lib/git';
+import { createPullRequest, findOpenPullRequest, parseGitHubRepository, type GitHubPullRequest } from '@/lib/github';
+import { draftPullRequest } from '@/lib/pull-requests';
+import { findWorkspaceRepository, updateWorkspaceRepository } from '@/lib/repositories';
+
+// GET /api/workspaces/[id]/pull-request - Prefilled title and body for a pull request
+// Query: repo, the directory of the repository in a workspace with several; base, the
+// repository's stored branch by default, or its default branch when that is the one with
+// the changes
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const requestedBase = request.nextUrl.searchParams.get('base');
+    let base = requestedBase || repository.branch;
+    if (!requestedBase) {
+      // After switching branches the stored branch is the one being worked on
+      const status = await getGitStatus(repository);
+      if (!('error' in status) && status.branch === base) {
+        base = (await getDefaultBranch(repository)) ?? base;
+      }
+    }
+    if (!isValidGitName(base)) {
+      return NextResponse.json({ error: 'Invalid base branch' }, { status: 400 });
+    }
+
+    const draft = await draftPullRequest(repository, base);
+    if ('error' in draft) {
+      return NextResponse.json({ error: draft.error }, { status: 422 });
+    }
+
+    return NextResponse.json({ draft, pullRequestUrl: repository.pullRequestUrl });
+  } catch (error) {
+    console.error('Error drafting pull request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/workspaces/[id]/pull-request - Push the current branch and open a pull request
+// Query: repo as for GET. Body: { title, body?, base?, draft?, branch? }. When the changes are on the base branch,
+// `branch` names a new branch to move them to first. An open pull request of the branch
+// is returned instead of opening another one.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const githubToken = session.user.githubToken;
+
+    if (!githubToken) {
+      return NextResponse.json({ error: 'GitHub token not found' }, { status: 400 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status !== 'running') {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    const repository = await findWorkspaceRepository(workspace, request.nextUrl.searchParams.get('repo'));
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+
+    const github = parseGitHubRepository(repository.url);
+    if (!github) {
+      return NextResponse.json({ error: 'Pull requests can only be opened for GitHub repositories' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    if (!title) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+    if (
+      (body.base !== undefined && typeof body.base !== 'string') ||
+      (body.branch !== undefined && typeof body.branch !== 'string')
+    ) {
+      return NextResponse.json({ error: 'base and branch must be strings' }, { status: 400 });
+    }
+    const base: string = body.base || repository.branch;
+    if (!isValidGitName(base) || (body.branch !== undefined && !isValidGitName(body.branch))) {
+      return NextResponse.json({ error: 'Invalid branch name' }, { status: 400 });
+    }
+
+    const status = await getGitStatus(repository);
+    if ('error' in status) {
+      return NextResponse.json({ error: status.error }, { status: 422 });
+    }
+
+    let head = status.branch;
+    if (body.branch && head !== body.branch) {
+      const created = await createBranch(repository, body.branch);
+      if ('error' in created) {
+        return NextResponse.json({ error: created.error }, { status: 422 });
+      }
+      head = created.branch;
+    }
+    if (!head) {
+      return NextResponse.json({ error: 'HEAD is detached, check out a branch first' }, { status: 422 });
+    }
+    if (head === base) {
+      return NextResponse.json(
+        { error: `The changes are on ${base}, move them to a new branch to open a pull request` },
+        { status: 422 }
+      );
+    }
+
+    const pushed = await pushChanges(repository);
+    if ('error' in pushed) {
+      return NextResponse.json({ error: pushed.error }, { status: 422 });
+    }
+
+    // GitHub's answers, like a revoked token or no commits between the branches, are
+    // passed on as they are
+    const { owner, repo } = github;
+    let pullRequest: GitHubPullRequest | null;
+    let created: boolean;
+    try {
+      pullRequest = await findOpenPullRequest(githubToken, owner, repo, head);
+      created = !pullRequest;
+      if (!pullRequest) {
+        pullRequest = await createPullRequest(githubToken, owner, repo, {
+          title,
+          body: typeof body.body === 'string' ? body.body : '',
+          head,
+          base,
+          draft: body.draft === true,
+        });
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to open pull request' },
+        { status: 422 }
+      );
+    }
+
+    await updateWorkspaceRepository(workspace, repository.path, {
+      pullRequestUrl: pullRequest.html_url,
+      branch: head,
+    });
+
+    return NextResponse.json(
+      { pullRequest: { number: pullRequest.number, title: pullRequest.title, url: pullRequest.html_url }, created },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error('Error opening pull request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
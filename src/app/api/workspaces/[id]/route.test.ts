@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findFirst: vi.fn(), update: vi.fn() },
+}));
+const provisioningMock = vi.hoisted(() => ({
+  isProvisioning: vi.fn(() => false),
+  loadWorkspaceConfig: vi.fn(async (workspace: { id: string }) => ({ workspaceId: workspace.id })),
+  startWorkspaceRebuild: vi.fn(),
+}));
+const quotasMock = vi.hoisted(() => ({ checkWorkspaceQuota: vi.fn() }));
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn(async () => ({ user: { id: 'user1' } })) }));
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+vi.mock('@/lib/provisioning', () => provisioningMock);
+vi.mock('@/lib/quotas', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/quotas')>()),
+  ...quotasMock,
+}));
+
+import { PATCH } from './route';
+
+const workspace = {
+  id: 'ws1',
+  userId: 'user1',
+  status: 'running',
+  resourceProfile: 'small',
+  memoryMb: 4096,
+  cpus: 2,
+  diskGb: 10,
+};
+
+function patch(body: unknown) {
+  const request = new NextRequest('http://localhost/api/workspaces/ws1', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+  return PATCH(request, { params: Promise.resolve({ id: 'ws1' }) });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prismaMock.workspace.findFirst.mockResolvedValue(workspace);
+  prismaMock.workspace.update.mockImplementation(async ({ data }) => ({ ...workspace, ...data }));
+  quotasMock.checkWorkspaceQuota.mockResolvedValue(null);
+});
+
+describe('PATCH /api/workspaces/[id] rebuild', () => {
+  it('marks the workspace as starting and rebuilds it in the background', async () => {
+    const response = await patch({ action: 'rebuild' });
+
+    expect(response.status).toBe(202);
+    expect(prismaMock.workspace.update).toHaveBeenCalledWith({
+      where: { id: 'ws1' },
+      data: { status: 'starting', statusReason: null },
+    });
+    expect(provisioningMock.startWorkspaceRebuild).toHaveBeenCalledWith({ workspaceId: 'ws1' });
+    // A running workspace already holds its resources
+    expect(quotasMock.checkWorkspaceQuota).not.toHaveBeenCalled();
+  });
+
+  it('refuses while the workspace is being provisioned', async () => {
+    provisioningMock.isProvisioning.mockReturnValueOnce(true);
+
+    const response = await patch({ action: 'rebuild' });
+
+    expect(response.status).toBe(409);
+    expect(provisioningMock.startWorkspaceRebuild).not.toHaveBeenCalled();
+  });
+
+  it('checks the quotas before starting a stopped workspace again', async () => {
+    prismaMock.workspace.findFirst.mockResolvedValue({ ...workspace, status: 'stopped' });
+    quotasMock.checkWorkspaceQuota.mockResolvedValue({
+      quota: 'maxRunningWorkspaces',
+      scope: 'user',
+      limit: 1,
+      used: 1,
+      requested: 1,
+    });
+
+    const response = await patch({ action: 'rebuild' });
+
+    expect(response.status).toBe(403);
+    expect(quotasMock.checkWorkspaceQuota).toHaveBeenCalledWith('user1', {
+      resources: { memoryMb: 4096, cpus: 2, diskGb: 10 },
+      workspaceId: 'ws1',
+    });
+    expect(provisioningMock.startWorkspaceRebuild).not.toHaveBeenCalled();
+  });
+
+  it('rebuilds a stopped workspace whose resources changed', async () => {
+    prismaMock.workspace.findFirst.mockResolvedValue({ ...workspace, status: 'stopped' });
+
+    const response = await patch({ action: 'configure', resources: { profile: 'large' } });
+
+    expect(response.status).toBe(202);
+    expect(prismaMock.workspace.update).toHaveBeenCalledWith({
+      where: { id: 'ws1' },
+      data: expect.objectContaining({ resourceProfile: 'large', memoryMb: 16384, status: 'starting' }),
+    });
+    expect(provisioningMock.startWorkspaceRebuild).toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import {
-  stopWorkspaceContainer,
-  startWorkspaceContainer,
-  removeWorkspaceContainer,
-  getContainerStatus,
-} from '@/lib/docker';
+import { getWorkspaceRuntime } from '@/lib/runtime';
+import { isProvisioning, loadWorkspaceConfig, startWorkspaceRebuild } from '@/lib/provisioning';
+import { resolveResourceProfile, workspaceResources } from '@/lib/resources';
+import { checkWorkspaceQuota, quotaErrorBody } from '@/lib/quotas';
 
 export async function GET(
   request: NextRequest,
@@ -32,7 +30,7 @@ export async function GET(
     }
 
     // Get container status
-    const containerStatus = await getContainerStatus(workspace.id);
+    const containerStatus = await getWorkspaceRuntime().getStatus(workspace.id);
 
     return NextResponse.json({ workspace, containerStatus });
   } catch (error) {
@@ -71,23 +69,148 @@ export async function PATCH(
     const { action } = body;
 
     if (action === 'stop') {
-      await stopWorkspaceContainer(workspace.id);
+      await getWorkspaceRuntime().stopWorkspace(workspace.id);
       const updatedWorkspace = await prisma.workspace.update({
         where: { id: workspace.id },
-        data: { status: 'stopped' },
+        data: { status: 'stopped', statusReason: null },
       });
       return NextResponse.json({ workspace: updatedWorkspace });
     }
 
     if (action === 'start') {
-      await startWorkspaceContainer(workspace.id);
+      if (workspace.status !== 'running') {
+        const violation = await checkWorkspaceQuota(session.user.id, {
+          resources: workspaceResources(workspace),
+          workspaceId: workspace.id,
+        });
+        if (violation) {
+          return NextResponse.json(quotaErrorBody(violation), { status: 403 });
+        }
+      }
+
+      await getWorkspaceRuntime().startWorkspace(workspace.id);
       const updatedWorkspace = await prisma.workspace.update({
         where: { id: workspace.id },
-        data: { status: 'running' },
+        // Count the start as activity so the idle monitor doesn't stop it right away
+        data: { status: 'running', statusReason: null, lastActivityAt: new Date() },
       });
       return NextResponse.json({ workspace: updatedWorkspace });
     }
 
+    if (action === 'rebuild') {
+      if (workspace.status === 'starting' || isProvisioning(workspace.id)) {
+        return NextResponse.json(
+          { error: 'Wait for the workspace to finish starting before rebuilding it' },
+          { status: 409 }
+        );
+      }
+
+      // The rebuilt workspace is started, which a stopped one has to fit into the quotas for
+      if (workspace.status !== 'running') {
+        const violation = await checkWorkspaceQuota(session.user.id, {
+          resources: workspaceResources(workspace),
+          workspaceId: workspace.id,
+        });
+        if (violation) {
+          return NextResponse.json(quotaErrorBody(violation), { status: 403 });
+        }
+      }
+
+      const config = await loadWorkspaceConfig(workspace);
+      const updatedWorkspace = await prisma.workspace.update({
+        where: { id: workspace.id },
+        data: { status: 'starting', statusReason: null },
+      });
+
+      // New containers with freshly generated config, progress is streamed from
+      // /api/workspaces/[id]/provisioning
+      startWorkspaceRebuild(config);
+
+      return NextResponse.json({ workspace: updatedWorkspace }, { status: 202 });
+    }
+
+    if (action === 'configure') {
+      const { idleTimeoutMinutes, resources: resourcesInput } = body;
+
+      // null falls back to the user's default, 0 disables auto-stop
+      if (
+        idleTimeoutMinutes !== undefined &&
+        idleTimeoutMinutes !== null &&
+        (!Number.isInteger(idleTimeoutMinutes) || idleTimeoutMinutes < 0)
+      ) {
+        return NextResponse.json(
+          { error: 'idleTimeoutMinutes must be a non-negative integer or null' },
+          { status: 400 }
+        );
+      }
+
+      let resourceUpdate = {};
+      let rebuild = false;
+      if (resourcesInput !== undefined) {
+        const resolved = resolveResourceProfile(resourcesInput);
+        if ('error' in resolved) {
+          return NextResponse.json({ error: resolved.error }, { status: 400 });
+        }
+        const { profile, resources } = resolved;
+
+        if (workspace.status === 'starting' || isProvisioning(workspace.id)) {
+          return NextResponse.json(
+            { error: 'Wait for the workspace to finish starting before changing its resources' },
+            { status: 409 }
+          );
+        }
+
+        const runtime = getWorkspaceRuntime();
+        if (workspace.status === 'running' || workspace.status === 'stopped') {
+          // Growing a running workspace counts against the same quotas as starting one,
+          // and a stopped one is started with its new limits
+          const violation = await checkWorkspaceQuota(session.user.id, {
+            resources,
+            workspaceId: workspace.id,
+          });
+          if (violation) {
+            return NextResponse.json(quotaErrorBody(violation), { status: 403 });
+          }
+        }
+
+        if (workspace.status === 'running') {
+          // Running containers take new limits in place
+          try {
+            await runtime.updateResources(workspace.id, resources);
+          } catch (error) {
+            console.error('Error updating workspace resources:', error);
+            return NextResponse.json(
+              { error: 'The running workspace rejected the new limits, stop it and try again' },
+              { status: 409 }
+            );
+          }
+        } else if (workspace.status === 'stopped') {
+          // Stopped workspaces are rebuilt with the new limits in the background, which can
+          // take as long as building their image
+          rebuild = true;
+        }
+
+        resourceUpdate = { resourceProfile: profile, ...resources };
+      }
+
+      const updatedWorkspace = await prisma.workspace.update({
+        where: { id: workspace.id },
+        data: {
+          ...(idleTimeoutMinutes !== undefined && { idleTimeoutMinutes }),
+          ...resourceUpdate,
+          ...(rebuild && { status: 'starting', statusReason: null }),
+        },
+      });
+
+      if (rebuild) {
+        // Progress is streamed from /api/workspaces/[id]/provisioning
+        startWorkspaceRebuild(await loadWorkspaceConfig(updatedWorkspace));
+        return NextResponse.json({ workspace: updatedWorkspace }, { status: 202 });
+      }
+
+      return NextResponse.json({ workspace: updatedWorkspace });
+    }
+
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
   } catch (error) {
     console.error('Error updating workspace:', error);
@@ -121,8 +244,16 @@ export async function DELETE(
       return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
     }
 
+    // A running job would recreate containers or update the row after they are gone
+    if (isProvisioning(workspace.id)) {
+      return NextResponse.json(
+        { error: 'Wait for the workspace to finish starting before deleting it' },
+        { status: 409 }
+      );
+    }
+
     // Remove Docker containers
-    await removeWorkspaceContainer(workspace.id);
+    await getWorkspaceRuntime().removeWorkspace(workspace.id);
 
     // Delete workspace from database
     await prisma.workspace.delete({
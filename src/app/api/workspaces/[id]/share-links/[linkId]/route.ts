@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// DELETE /api/workspaces/[id]/share-links/[linkId] - Revoke a share link, previews opened
+// with it stop loading right away
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, linkId } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const { count } = await prisma.previewShareLink.deleteMany({
+      where: { id: linkId, workspaceId: workspace.id },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
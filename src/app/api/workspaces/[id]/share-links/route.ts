@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { appUrl, createShareLink, listShareLinks, parseShareLinkOptions } from '@/lib/preview-access';
+
+// GET /api/workspaces/[id]/share-links - List the share links of the workspace's previews that haven't expired
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ links: await listShareLinks(workspace.id) });
+  } catch (error) {
+    console.error('Error listing share links:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/workspaces/[id]/share-links - Create a link to the previews, { expiresInHours, password? }.
+// The URL is only returned here, just a hash of its token is stored.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const options = parseShareLinkOptions(body);
+    if ('error' in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
+    }
+
+    const created = await createShareLink(workspace.id, options);
+    if ('error' in created) {
+      return NextResponse.json({ error: created.error }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { link: created.link, url: `${appUrl()}/share/${created.token}` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
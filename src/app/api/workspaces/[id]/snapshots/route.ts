@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isProvisioning } from '@/lib/provisioning';
+import { listRepositoryCheckouts } from '@/lib/repositories';
+import { normalizeSnapshotName, startSnapshot } from '@/lib/snapshots';
+
+// GET /api/workspaces/[id]/snapshots - List snapshots taken from a workspace
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const snapshots = await prisma.snapshot.findMany({
+      where: { workspaceId: workspace.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error('Error fetching snapshots:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/workspaces/[id]/snapshots - Snapshot the workspace's volumes in the background
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const name = normalizeSnapshotName(body.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Name must be a string of at most 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (workspace.status === 'starting' || isProvisioning(workspace.id)) {
+      return NextResponse.json(
+        { error: 'Wait for the workspace to finish starting before taking a snapshot' },
+        { status: 409 }
+      );
+    }
+
+    const checkouts = await listRepositoryCheckouts(workspace.id);
+    const snapshot = await prisma.snapshot.create({
+      data: {
+        name,
+        userId: session.user.id,
+        workspaceId: workspace.id,
+        githubRepo: workspace.githubRepo,
+        githubBranch: workspace.githubBranch,
+        repositories: checkouts.length > 0 ? checkouts.map((checkout) => ({ ...checkout })) : undefined,
+      },
+    });
+
+    startSnapshot(snapshot);
+
+    return NextResponse.json({ snapshot }, { status: 202 });
+  } catch (error) {
+    console.error('Error creating snapshot:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  attachTerminalSession,
+  closeTerminalSession,
+  parseTerminalSize,
+  resizeTerminal,
+  TERMINAL_TOKEN_TTL_SECONDS,
+  terminalToken,
+  verifyTerminalToken,
+  writeToTerminal,
+  type TerminalEvent,
+} from '@/lib/terminals';
+
+// Helper to verify workspace ownership
+async function findWorkspace(workspaceId: string, userId: string) {
+  return prisma.workspace.findFirst({
+    where: {
+      id: workspaceId,
+      userId,
+    },
+  });
+}
+
+// GET /api/workspaces/[id]/terminals/[sessionId] - Stream terminal output as Server-Sent Events
+// A "token" event with the token for input and resize requests comes first and again before
+// it expires, then recent output is replayed. An "exit" event is sent when the shell exits.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, sessionId } = await context.params;
+  const workspace = await findWorkspace(id, session.user.id);
+
+  if (!workspace) {
+    return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+  let found = true;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let detach = () => { };
+
+      const enqueue = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      const sendToken = () => {
+        enqueue(`event: token\ndata: ${JSON.stringify({ token: terminalToken(workspace.id, sessionId) })}\n\n`);
+      };
+
+      // Comments keep the connection alive through proxies while the shell is quiet
+      const heartbeat = setInterval(() => enqueue(': heartbeat\n\n'), 15000);
+      const tokenRefresh = setInterval(sendToken, (TERMINAL_TOKEN_TTL_SECONDS / 2) * 1000);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearInterval(tokenRefresh);
+        detach();
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      };
+      cleanup = close;
+
+      const send = (event: TerminalEvent) => {
+        if (event.type === 'exit') {
+          enqueue('event: exit\ndata: {}\n\n');
+          close();
+        } else {
+          enqueue(`data: ${JSON.stringify({ data: event.data })}\n\n`);
+        }
+      };
+
+      // Replay and subscribe synchronously so no output is lost in between
+      const attachment = attachTerminalSession(workspace.id, sessionId, send);
+      if (!attachment) {
+        found = false;
+        close();
+        return;
+      }
+      detach = attachment.detach;
+      sendToken();
+      if (attachment.scrollback) {
+        enqueue(`data: ${JSON.stringify({ data: attachment.scrollback })}\n\n`);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  if (!found) {
+    return NextResponse.json({ error: 'Terminal not found' }, { status: 404 });
+  }
+
+  request.signal.addEventListener('abort', () => cleanup());
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+// POST /api/workspaces/[id]/terminals/[sessionId] - Send input to the shell
+// Authorization: Bearer <token from the output stream>
+// Body: { data }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const { id, sessionId } = await context.params;
+
+    if (!verifyTerminalToken(id, sessionId, request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.data !== 'string') {
+      return NextResponse.json({ error: 'data must be a string' }, { status: 400 });
+    }
+
+    if (!writeToTerminal(id, sessionId, body.data)) {
+      return NextResponse.json({ error: 'Terminal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error writing to terminal:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/workspaces/[id]/terminals/[sessionId] - Resize the terminal
+// Authorization: Bearer <token from the output stream>
+// Body: { cols, rows }
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const { id, sessionId } = await context.params;
+
+    if (!verifyTerminalToken(id, sessionId, request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const size = parseTerminalSize(await request.json().catch(() => null));
+    if (!size) {
+      return NextResponse.json({ error: 'cols and rows must be positive integers' }, { status: 400 });
+    }
+
+    if (!(await resizeTerminal(id, sessionId, size))) {
+      return NextResponse.json({ error: 'Terminal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error resizing terminal:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/workspaces/[id]/terminals/[sessionId] - Close the terminal and end its shell
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, sessionId } = await context.params;
+    const workspace = await findWorkspace(id, session.user.id);
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!closeTerminalSession(workspace.id, sessionId)) {
+      return NextResponse.json({ error: 'Terminal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error closing terminal:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  listTerminalSessions,
+  MAX_TERMINALS_PER_WORKSPACE,
+  openTerminalSession,
+  parseTerminalSize,
+} from '@/lib/terminals';
+
+// GET /api/workspaces/[id]/terminals - List open terminal sessions
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ sessions: listTerminalSessions(workspace.id) });
+  } catch (error) {
+    console.error('Error listing terminals:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/workspaces/[id]/terminals - Start a shell in the OpenCode container
+// Body: { cols, rows }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = await context.params;
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const size = parseTerminalSize(await request.json().catch(() => null));
+    if (!size) {
+      return NextResponse.json({ error: 'cols and rows must be positive integers' }, { status: 400 });
+    }
+
+    if (listTerminalSessions(workspace.id).length >= MAX_TERMINALS_PER_WORKSPACE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_TERMINALS_PER_WORKSPACE} terminals can be open, close one first` },
+        { status: 409 }
+      );
+    }
+
+    const terminal = await openTerminalSession(workspace.id, size);
+    if (!terminal) {
+      return NextResponse.json({ error: 'Workspace is not running' }, { status: 409 });
+    }
+
+    return NextResponse.json({ session: terminal }, { status: 201 });
+  } catch (error) {
+    console.error('Error opening terminal:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { createWorkspaceContainer } from '@/lib/docker';
+import { startWorkspaceProvisioning } from '@/lib/provisioning';
+import { resolveResourceProfile } from '@/lib/resources';
+import { checkWorkspaceQuota, quotaErrorBody } from '@/lib/quotas';
+import { loadKnownHosts, loadSshIdentities } from '@/lib/ssh-keys';
+import { checkoutsFromJson, createWorkspaceRepositories, parseRepositoryCheckouts } from '@/lib/repositories';
+import type { RepositoryCheckout } from '@/lib/runtime';
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,7 +40,43 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, githubRepo, githubBranch = 'main', environmentIds = [] } = body;
+    const { name, snapshotId, environmentIds = [] } = body;
+    let { githubRepo, githubBranch = 'main' } = body;
+    let checkouts: RepositoryCheckout[] = [];
+
+    // Restoring a snapshot as a new workspace takes the repository from the snapshot
+    if (snapshotId) {
+      const snapshot = await prisma.snapshot.findFirst({
+        where: {
+          id: snapshotId,
+          userId: session.user.id,
+          status: 'ready',
+        },
+      });
+
+      if (!snapshot) {
+        return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+      }
+
+      githubRepo = snapshot.githubRepo;
+      githubBranch = snapshot.githubBranch;
+      checkouts = checkoutsFromJson(snapshot.repositories);
+    } else if (body.repositories !== undefined) {
+      // Several repositories, each cloned into its own directory under /workspace
+      const parsed = parseRepositoryCheckouts(body.repositories);
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      githubRepo = parsed[0].url;
+      githubBranch = parsed[0].branch;
+      checkouts = parsed.length > 1 ? parsed : [];
+    } else if (githubRepo) {
+      // A single repository given the old way is checked like the others
+      const parsed = parseRepositoryCheckouts([{ url: githubRepo, branch: githubBranch }]);
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+    }
 
     if (!name || !githubRepo) {
       return NextResponse.json(
@@ -44,6 +85,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const resolved = resolveResourceProfile(body.resources ?? {});
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+    const { profile, resources } = resolved;
+
+    const violation = await checkWorkspaceQuota(session.user.id, { resources });
+    if (violation) {
+      return NextResponse.json(quotaErrorBody(violation), { status: 403 });
+    }
+
     // Create workspace in database
     const workspace = await prisma.workspace.create({
       data: {
@@ -51,10 +103,14 @@ export async function POST(request: NextRequest) {
         githubRepo,
         githubBranch,
         userId: session.user.id,
-        status: 'pending',
+        status: 'starting',
+        resourceProfile: profile,
+        ...resources,
       },
     });
 
+    await createWorkspaceRepositories(workspace.id, checkouts);
+
     // Link environments to workspace if provided
     if (environmentIds.length > 0) {
       await prisma.workspaceEnvironment.createMany({
@@ -65,43 +121,23 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    try {
-      // Update workspace status to starting
-      await prisma.workspace.update({
-        where: { id: workspace.id },
-        data: { status: 'starting' },
-      });
-
-      // Create Docker containers
-      // No ports needed - Traefik routes via Docker network using container labels
-      const containerInfo = await createWorkspaceContainer({
-        workspaceId: workspace.id,
-        userId: session.user.id,
-        githubRepo,
-        githubBranch,
-        githubToken: session.user.githubToken || undefined,
-        environmentIds,
-      });
-
-
-      // Update workspace with container info
-      const updatedWorkspace = await prisma.workspace.update({
-        where: { id: workspace.id },
-        data: {
-          containerId: containerInfo.opencodeContainerId,
-          status: 'running',
-        },
-      });
+    // Provision Docker containers in the background
+    // No ports needed - Traefik routes via Docker network using container labels
+    // Progress is streamed from /api/workspaces/[id]/provisioning
+    startWorkspaceProvisioning({
+      workspaceId: workspace.id,
+      userId: session.user.id,
+      githubRepo,
+      githubBranch,
+      sshIdentities: await loadSshIdentities(session.user.id),
+      sshKnownHosts: await loadKnownHosts(session.user.id),
+      repositories: checkouts,
+      environmentIds,
+      source: snapshotId ? { type: 'snapshot', snapshotId } : { type: 'clone' },
+      resources,
+    });
 
-      return NextResponse.json({ workspace: updatedWorkspace });
-    } catch (error) {
-      // Update workspace status to error
-      await prisma.workspace.update({
-        where: { id: workspace.id },
-        data: { status: 'error' },
-      });
-      throw error;
-    }
+    return NextResponse.json({ workspace }, { status: 202 });
   } catch (error) {
     console.error('Error creating workspace:', error);
     return NextResponse.json(
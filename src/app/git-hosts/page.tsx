@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { toGitConnectionInfo } from '@/lib/git-connections';
+import GitHostsClient from '@/components/git-hosts/GitHostsClient';
+
+export default async function GitHostsPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const connections = await prisma.gitConnection.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return (
+    <GitHostsClient
+      user={{
+        name: session.user.name,
+        email: session.user.email,
+        image: session.user.image,
+      }}
+      initialConnections={connections.map(toGitConnectionInfo)}
+    />
+  );
+}
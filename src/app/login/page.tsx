@@ -82,7 +82,12 @@ export default function LoginPage() {
             </div>
 
             <Button
-              onClick={() => signIn('github', { callbackUrl: '/dashboard' })}
+              onClick={() =>
+                // Previews send the owner here to sign in before coming back to them
+                signIn('github', {
+                  callbackUrl: new URLSearchParams(window.location.search).get('callbackUrl') || '/dashboard',
+                })
+              }
               size="xl"
               className="w-full gap-3"
             >
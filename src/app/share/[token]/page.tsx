@@ -0,0 +1,63 @@
+import { redirect } from 'next/navigation';
+import { Eye, Lock } from 'lucide-react';
+import { findShareLink } from '@/lib/preview-access';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+
+// Landing page of a share link, asks for the password of links that have one. Opening the
+// previews is left to /api/previews/share/[token].
+export default async function SharePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { token } = await params;
+  const { error } = await searchParams;
+  const link = await findShareLink(token);
+
+  if (link && !link.passwordHash) {
+    redirect(`/api/previews/share/${encodeURIComponent(token)}`);
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {link ? <Lock className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            Preview
+          </CardTitle>
+          <CardDescription>
+            {link
+              ? 'This preview is protected with a password.'
+              : 'This link has expired or was revoked. Ask whoever shared it for a new one.'}
+          </CardDescription>
+        </CardHeader>
+        {link && (
+          <CardContent>
+            <form
+              method="post"
+              action={`/api/previews/share/${encodeURIComponent(token)}`}
+              className="space-y-3"
+            >
+              <input
+                type="password"
+                name="password"
+                placeholder="Password"
+                required
+                autoFocus
+                className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+              />
+              {error === 'password' && <p className="text-sm text-destructive">Wrong password</p>}
+              <Button type="submit" className="w-full">
+                Open preview
+              </Button>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import SnapshotsClient from '@/components/snapshots/SnapshotsClient';
+
+export default async function SnapshotsPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  // Fetch user's snapshots, including those of deleted workspaces
+  const snapshots = await prisma.snapshot.findMany({
+    where: { userId: session.user.id },
+    include: {
+      workspace: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return (
+    <SnapshotsClient
+      user={{
+        name: session.user.name,
+        email: session.user.email,
+        image: session.user.image,
+      }}
+      initialSnapshots={snapshots}
+    />
+  );
+}
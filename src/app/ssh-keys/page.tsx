@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { toSshKeyInfo } from '@/lib/ssh-keys';
+import SshKeysClient from '@/components/ssh-keys/SshKeysClient';
+
+export default async function SshKeysPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const keys = await prisma.sshKey.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return (
+    <SshKeysClient
+      user={{
+        name: session.user.name,
+        email: session.user.email,
+        image: session.user.image,
+      }}
+      initialKeys={keys.map(toSshKeyInfo)}
+    />
+  );
+}
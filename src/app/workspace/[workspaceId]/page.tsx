@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { listWorkspaceRepositories } from '@/lib/repositories';
+import { listPreviewPorts } from '@/lib/preview-ports';
 import WorkspaceClient from '@/components/workspace/WorkspaceClient';
 
 export default async function WorkspacePage({
@@ -26,7 +28,16 @@ export default async function WorkspacePage({
     redirect('/dashboard');
   }
 
+  const repositories = await listWorkspaceRepositories(workspace);
+  const previewPorts = await listPreviewPorts(workspace.id);
   const domain = process.env.DOMAIN || 'localhost';
 
-  return <WorkspaceClient workspace={workspace} domain={domain} />;
+  return (
+    <WorkspaceClient
+      workspace={workspace}
+      repositories={repositories}
+      previewPorts={previewPorts}
+      domain={domain}
+    />
+  );
 }
@@ -0,0 +1,398 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Rocket,
+  User,
+  ChevronDown,
+  LogOut,
+  ArrowLeft,
+  Gauge,
+  Users,
+  Loader2,
+  Check,
+} from 'lucide-react';
+import { signOut } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { ThemeToggle } from '@/components/ui/ThemeToggle';
+import GarbageCollectionCard from './GarbageCollectionCard';
+
+type QuotaName = 'maxWorkspaces' | 'maxRunningWorkspaces' | 'maxCpus' | 'maxMemoryMb';
+type QuotaValues = Record<QuotaName, number | null>;
+// Form state, an empty string means no limit
+type QuotaForm = Record<QuotaName, string>;
+
+interface QuotaUsage {
+  workspaces: number;
+  runningWorkspaces: number;
+  cpus: number;
+  memoryMb: number;
+}
+
+interface AdminUser extends QuotaValues {
+  id: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+  limits: QuotaValues;
+  usage: QuotaUsage;
+}
+
+const QUOTA_FIELDS: { name: QuotaName; label: string; usage: keyof QuotaUsage; step: number }[] = [
+  { name: 'maxWorkspaces', label: 'Workspaces', usage: 'workspaces', step: 1 },
+  { name: 'maxRunningWorkspaces', label: 'Running', usage: 'runningWorkspaces', step: 1 },
+  { name: 'maxCpus', label: 'CPUs', usage: 'cpus', step: 0.5 },
+  { name: 'maxMemoryMb', label: 'Memory (MB)', usage: 'memoryMb', step: 1024 },
+];
+
+const EMPTY_FORM: QuotaForm = { maxWorkspaces: '', maxRunningWorkspaces: '', maxCpus: '', maxMemoryMb: '' };
+
+function toForm(values: QuotaValues): QuotaForm {
+  return {
+    maxWorkspaces: values.maxWorkspaces?.toString() ?? '',
+    maxRunningWorkspaces: values.maxRunningWorkspaces?.toString() ?? '',
+    maxCpus: values.maxCpus?.toString() ?? '',
+    maxMemoryMb: values.maxMemoryMb?.toString() ?? '',
+  };
+}
+
+function fromForm(form: QuotaForm): QuotaValues {
+  const parse = (value: string) => (value.trim() === '' ? null : Number(value));
+  return {
+    maxWorkspaces: parse(form.maxWorkspaces),
+    maxRunningWorkspaces: parse(form.maxRunningWorkspaces),
+    maxCpus: parse(form.maxCpus),
+    maxMemoryMb: parse(form.maxMemoryMb),
+  };
+}
+
+// Settings columns are prefixed with the scope, e.g. userMaxCpus
+function prefixed(prefix: 'user' | 'instance', values: QuotaValues) {
+  return Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [`${prefix}${name[0].toUpperCase()}${name.slice(1)}`, value])
+  );
+}
+
+function unprefixed(prefix: 'user' | 'instance', settings: Record<string, unknown>): QuotaValues {
+  return Object.fromEntries(
+    QUOTA_FIELDS.map(({ name }) => [name, settings[`${prefix}${name[0].toUpperCase()}${name.slice(1)}`] ?? null])
+  ) as QuotaValues;
+}
+
+function formatUsage(field: (typeof QUOTA_FIELDS)[number], used: number, limit: number | null) {
+  const value = field.name === 'maxCpus' ? Number(used.toFixed(1)) : used;
+  return limit === null ? `${value}` : `${value} / ${limit}`;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all';
+
+interface QuotaInputsProps {
+  form: QuotaForm;
+  onChange: (form: QuotaForm) => void;
+  placeholder: (name: QuotaName) => string;
+}
+
+function QuotaInputs({ form, onChange, placeholder }: QuotaInputsProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {QUOTA_FIELDS.map((field) => (
+        <div key={field.name}>
+          <label className="block text-xs font-medium text-muted-foreground mb-1.5">{field.label}</label>
+          <input
+            type="number"
+            min={0}
+            step={field.step}
+            value={form[field.name]}
+            onChange={(e) => onChange({ ...form, [field.name]: e.target.value })}
+            placeholder={placeholder(field.name)}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AdminClientProps {
+  user: {
+    name?: string | null;
+    email?: string | null;
+    image?: string | null;
+  };
+}
+
+export default function AdminClient({ user }: AdminClientProps) {
+  const router = useRouter();
+  const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [userDefaults, setUserDefaults] = useState<QuotaForm>(EMPTY_FORM);
+  const [instanceTotals, setInstanceTotals] = useState<QuotaForm>(EMPTY_FORM);
+  const [instanceUsage, setInstanceUsage] = useState<QuotaUsage | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, QuotaForm>>({});
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [savedUserId, setSavedUserId] = useState<string | null>(null);
+
+  const loadData = async () => {
+    setError(null);
+    try {
+      const [settingsResponse, usersResponse] = await Promise.all([
+        fetch('/api/admin/quotas'),
+        fetch('/api/admin/users'),
+      ]);
+      if (!settingsResponse.ok || !usersResponse.ok) throw new Error('Failed to fetch quotas');
+      const { settings, usage } = await settingsResponse.json();
+      const { users: loadedUsers } = await usersResponse.json();
+
+      setUserDefaults(toForm(unprefixed('user', settings)));
+      setInstanceTotals(toForm(unprefixed('instance', settings)));
+      setInstanceUsage(usage);
+      setUsers(loadedUsers);
+      setOverrides(
+        Object.fromEntries(loadedUsers.map((entry: AdminUser) => [entry.id, toForm(entry)]))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const handleSaveSettings = async () => {
+    setIsSavingSettings(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/quotas', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...prefixed('user', fromForm(userDefaults)),
+          ...prefixed('instance', fromForm(instanceTotals)),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save quotas');
+      // Users without overrides follow the new defaults
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleSaveUser = async (userId: string) => {
+    setSavingUserId(userId);
+    setSavedUserId(null);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/quotas`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fromForm(overrides[userId])),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save user quotas');
+      await loadData();
+      setSavedUserId(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const defaults = fromForm(userDefaults);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3 cursor-pointer" onClick={() => router.push('/dashboard')}>
+              <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Rocket className="w-5 h-5 text-primary" />
+              </div>
+              <div className="hidden sm:block">
+                <h1 className="text-lg font-bold text-foreground">Open Web Agent</h1>
+                <p className="text-xs text-muted-foreground">Admin</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <ThemeToggle className="hidden sm:flex" />
+              <div className="relative">
+                <button
+                  onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
+                  className="flex items-center gap-2 p-1.5 rounded-lg hover:bg-muted transition-colors"
+                >
+                  {user.image ? (
+                    <img src={user.image} alt={user.name || 'User'} className="w-8 h-8 rounded-full" />
+                  ) : (
+                    <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                      <User className="w-4 h-4 text-primary" />
+                    </div>
+                  )}
+                  <span className="hidden md:block text-sm font-medium text-foreground">
+                    {user.name || user.email}
+                  </span>
+                  <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                </button>
+
+                {isUserMenuOpen && (
+                  <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsUserMenuOpen(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-56 bg-card border border-border rounded-lg shadow-lg z-50 animate-slide-down">
+                      <div className="p-2">
+                        <div className="px-2 py-3 border-b border-border mb-2">
+                          <p className="text-sm font-medium text-foreground">{user.name}</p>
+                          <p className="text-xs text-muted-foreground">{user.email}</p>
+                        </div>
+                        <button
+                          onClick={() => signOut({ callbackUrl: '/login' })}
+                          className="w-full flex items-center gap-2 px-2 py-2 text-sm text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                        >
+                          <LogOut className="w-4 h-4" />
+                          Sign Out
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Administration</h2>
+            <p className="text-muted-foreground">
+              Limit how many workspaces users can have and how much of the Docker host they can use,
+              and clean up what deleted workspaces left behind. Leave a quota field empty for no limit.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 mb-6 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Gauge className="w-4 h-4" />
+                  Instance Quotas
+                </CardTitle>
+                <CardDescription>
+                  CPU, memory and running counts include workspaces that are starting or running.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div>
+                  <h3 className="text-sm font-medium text-foreground mb-3">Per user</h3>
+                  <QuotaInputs form={userDefaults} onChange={setUserDefaults} placeholder={() => 'Unlimited'} />
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-foreground mb-1">Whole instance</h3>
+                  {instanceUsage && (
+                    <p className="text-xs text-muted-foreground mb-3">
+                      In use: {instanceUsage.workspaces} workspaces, {instanceUsage.runningWorkspaces} running,{' '}
+                      {Number(instanceUsage.cpus.toFixed(1))} CPUs, {instanceUsage.memoryMb} MB memory
+                    </p>
+                  )}
+                  <QuotaInputs form={instanceTotals} onChange={setInstanceTotals} placeholder={() => 'Unlimited'} />
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={handleSaveSettings} disabled={isSavingSettings} className="gap-2">
+                    {isSavingSettings && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Save Quotas
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Users
+                </CardTitle>
+                <CardDescription>
+                  Override the per-user quota for individual users. Empty fields use the per-user quota.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {users.map((entry) => (
+                  <div key={entry.id} className="p-4 rounded-lg border border-border space-y-3">
+                    <div className="flex items-center gap-3">
+                      {entry.image ? (
+                        <img src={entry.image} alt={entry.name || 'User'} className="w-8 h-8 rounded-full" />
+                      ) : (
+                        <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                          <User className="w-4 h-4 text-primary" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">{entry.name || entry.email}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {QUOTA_FIELDS.map(
+                            (field) => `${field.label}: ${formatUsage(field, entry.usage[field.usage], entry.limits[field.name])}`
+                          ).join(' · ')}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSaveUser(entry.id)}
+                        disabled={savingUserId === entry.id}
+                        className="gap-2 shrink-0"
+                      >
+                        {savingUserId === entry.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : savedUserId === entry.id ? (
+                          <Check className="w-4 h-4" />
+                        ) : null}
+                        Save
+                      </Button>
+                    </div>
+                    <QuotaInputs
+                      form={overrides[entry.id] ?? EMPTY_FORM}
+                      onChange={(form) => setOverrides((prev) => ({ ...prev, [entry.id]: form }))}
+                      placeholder={(name) => (defaults[name] === null ? 'Unlimited' : `Default (${defaults[name]})`)}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <GarbageCollectionCard />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
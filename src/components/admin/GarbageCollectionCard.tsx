@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { Trash2, Search, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { formatSnapshotSize } from '@/components/snapshots/SnapshotList';
+
+interface OrphanedObject {
+  key: string;
+  kind: 'container' | 'network' | 'volume' | 'image';
+  name: string;
+  workspaceId: string | null;
+  createdAt?: string;
+  sizeBytes?: number;
+  firstSeenAt: string;
+}
+
+interface GcSchedule {
+  intervalMinutes: number | null;
+  gracePeriodMinutes: number;
+}
+
+// Dry run and confirmed removal of Docker objects left behind by deleted workspaces
+export default function GarbageCollectionCard() {
+  const [orphans, setOrphans] = useState<OrphanedObject[] | null>(null);
+  const [schedule, setSchedule] = useState<GcSchedule | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isScanning, setIsScanning] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const scan = async () => {
+    setIsScanning(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/gc');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to scan for orphaned objects');
+      setOrphans(data.orphans);
+      setSchedule(data.schedule);
+      setSelected(new Set(data.orphans.map((orphan: OrphanedObject) => orphan.key)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove ${selected.size} Docker objects? Volumes are deleted with their files, this cannot be undone.`)) {
+      return;
+    }
+
+    setIsRemoving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/admin/gc', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keys: [...selected] }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to remove orphaned objects');
+
+      setMessage(
+        `Removed ${data.removed.length} objects` +
+        (data.failed.length > 0 ? `, ${data.failed.length} failed: ${data.failed[0].error}` : '')
+      );
+      await scan();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Trash2 className="w-4 h-4" />
+          Garbage Collection
+        </CardTitle>
+        <CardDescription>
+          Containers, networks, volumes and images of workspaces that no longer exist, e.g. after a failed
+          cleanup. Scanning doesn&apos;t remove anything.
+          {schedule && (
+            schedule.intervalMinutes
+              ? ` Orphans are also removed every ${schedule.intervalMinutes} minutes once they were found ${schedule.gracePeriodMinutes} minutes ago.`
+              : ' Set GC_INTERVAL_MINUTES to remove orphans on a schedule.'
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        {orphans && (
+          orphans.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No orphaned objects found.</p>
+          ) : (
+            <div className="space-y-1 max-h-80 overflow-y-auto">
+              {orphans.map((orphan) => (
+                <label
+                  key={orphan.key}
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(orphan.key)}
+                    onChange={() => toggle(orphan.key)}
+                    className="rounded border-border"
+                  />
+                  <Badge variant="secondary" className="w-20 justify-center shrink-0">{orphan.kind}</Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-mono text-foreground truncate">{orphan.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {orphan.workspaceId ? `Workspace ${orphan.workspaceId}` : 'Unused image'}
+                      {orphan.createdAt && ` · created ${new Date(orphan.createdAt).toLocaleString()}`}
+                      {formatSnapshotSize(orphan.sizeBytes ?? null) && ` · ${formatSnapshotSize(orphan.sizeBytes ?? null)}`}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={scan} disabled={isScanning || isRemoving} className="gap-2">
+            {isScanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            Scan
+          </Button>
+          {orphans && orphans.length > 0 && (
+            <Button
+              variant="destructive"
+              onClick={handleRemove}
+              disabled={selected.size === 0 || isScanning || isRemoving}
+              className="gap-2"
+            >
+              {isRemoving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              Remove {selected.size}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
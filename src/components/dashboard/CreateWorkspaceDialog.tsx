@@ -15,21 +15,88 @@ import {
   Sparkles,
   Variable,
   Check,
+  Cpu,
+  Link,
+  Plus,
 } from 'lucide-react';
 import type { Workspace } from '@prisma/client';
 import type { GitHubRepository } from '@/lib/github';
+import type { GitProviderRepository } from '@/lib/git-providers';
+import type { GitConnectionInfo } from '@/lib/git-connections';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { cn } from '@/lib/utils';
+import { ProvisioningTimeline, useProvisioning } from '@/components/workspace/ProvisioningTimeline';
+import {
+  ResourceProfilePicker,
+  DEFAULT_RESOURCE_SELECTION,
+  type ResourceSelection,
+} from './ResourceProfilePicker';
 
 interface GitHubBranch {
   name: string;
   protected: boolean;
 }
 
+// Where repositories are listed from: the GitHub account, a connected git host by id,
+// or a URL typed in
+type RepositorySource = 'github' | 'url' | { connectionId: string };
+
+// A repository of any source, identified by its clone URL
+interface RepositoryOption extends GitProviderRepository {
+  source: RepositorySource;
+}
+
+function fromGitHubRepository(repo: GitHubRepository): RepositoryOption {
+  return {
+    id: String(repo.id),
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description,
+    webUrl: repo.html_url,
+    cloneUrl: repo.clone_url,
+    private: repo.private,
+    defaultBranch: repo.default_branch,
+    updatedAt: repo.updated_at,
+    language: repo.language,
+    stars: repo.stargazers_count,
+    source: 'github',
+  };
+}
+
+// https, ssh:// or scp-like git@host:path URLs, as the server accepts them
+const CLONE_URL_PATTERN = /^(https:\/\/[^\s/]+\/\S+|ssh:\/\/\w\S*|[\w.-]+@\w[\w.-]*:[^\s-]\S*)$/;
+
+// A repository cloned from a URL, named after its last path segment like git clone does
+function fromCloneUrl(cloneUrl: string): RepositoryOption {
+  // scp-like URLs aren't URLs to the parser, their host and path are split at the colon
+  const scp = /^[\w.-]+@([\w.-]+):(.*)$/.exec(cloneUrl);
+  const host = scp ? scp[1] : new URL(cloneUrl).host;
+  const path = (scp ? `/${scp[2]}` : new URL(cloneUrl).pathname).replace(/\/+$/, '').replace(/\.git$/, '');
+  return {
+    id: cloneUrl,
+    name: path.split('/').pop() || cloneUrl,
+    fullName: `${host}${path}`,
+    description: null,
+    webUrl: cloneUrl,
+    cloneUrl,
+    private: false,
+    defaultBranch: 'main',
+    updatedAt: '',
+    language: null,
+    stars: 0,
+    source: 'url',
+  };
+}
+
+function sourceKey(source: RepositorySource): string {
+  return typeof source === 'string' ? source : source.connectionId;
+}
+
 interface CreateWorkspaceDialogProps {
   isOpen: boolean;
   onClose: () => void;
+  onWorkspaceQueued: (workspace: Workspace) => void;
   onWorkspaceCreated: (workspace: Workspace) => void;
 }
 
@@ -43,30 +110,55 @@ interface Environment {
 export default function CreateWorkspaceDialog({
   isOpen,
   onClose,
+  onWorkspaceQueued,
   onWorkspaceCreated,
 }: CreateWorkspaceDialogProps) {
-  const [repositories, setRepositories] = useState<GitHubRepository[]>([]);
+  const [connections, setConnections] = useState<GitConnectionInfo[]>([]);
+  const [source, setSource] = useState<RepositorySource>('github');
+  // Listed repositories by source key, missing until loaded
+  const [repositories, setRepositories] = useState<Record<string, RepositoryOption[]>>({});
   const [loading, setLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [cloneUrl, setCloneUrl] = useState('');
   const [creating, setCreating] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedRepo, setSelectedRepo] = useState<GitHubRepository | null>(null);
+  // Repositories of the workspace, each cloned into its own directory when there are several
+  const [selectedRepos, setSelectedRepos] = useState<RepositoryOption[]>([]);
   const [workspaceName, setWorkspaceName] = useState('');
-  const [step, setStep] = useState<'select' | 'configure'>('select');
-  const [branches, setBranches] = useState<GitHubBranch[]>([]);
-  const [selectedBranch, setSelectedBranch] = useState('');
-  const [loadingBranches, setLoadingBranches] = useState(false);
+  const [step, setStep] = useState<'select' | 'configure' | 'provisioning'>('select');
+  // By clone URL, branches are missing while they load and never listed for URLs
+  const [branches, setBranches] = useState<Record<string, GitHubBranch[]>>({});
+  const [selectedBranches, setSelectedBranches] = useState<Record<string, string>>({});
+  const [resources, setResources] = useState<ResourceSelection>(DEFAULT_RESOURCE_SELECTION);
   const [environments, setEnvironments] = useState<Environment[]>([]);
   const [selectedEnvironmentIds, setSelectedEnvironmentIds] = useState<string[]>([]);
   const [loadingEnvironments, setLoadingEnvironments] = useState(false);
+  const [createdWorkspace, setCreatedWorkspace] = useState<Workspace | null>(null);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const provisioning = useProvisioning(
+    createdWorkspace?.id ?? null,
+    isOpen && step === 'provisioning'
+  );
 
   useEffect(() => {
     if (isOpen) {
-      fetchRepositories();
+      fetchRepositories('github');
+      fetchConnections();
       fetchEnvironments();
       setStep('select');
+      setCreatedWorkspace(null);
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    // Hand over to the workspace view once provisioning finished
+    if (createdWorkspace && provisioning.ready) {
+      onWorkspaceCreated({ ...createdWorkspace, status: 'running' });
+      resetForm();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [createdWorkspace, provisioning.ready]);
+
   useEffect(() => {
     // Close on escape key
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -80,19 +172,52 @@ export default function CreateWorkspaceDialog({
     }
   }, [isOpen, onClose]);
 
-  const fetchRepositories = async () => {
+  const fetchRepositories = async (from: RepositorySource) => {
+    if (from === 'url') return;
     setLoading(true);
+    setListError(null);
     try {
-      const response = await fetch('/api/github/repos');
-      const data = await response.json();
-      setRepositories(data.repositories || []);
+      if (from === 'github') {
+        const response = await fetch('/api/github/repos');
+        const data = await response.json();
+        const repos: GitHubRepository[] = data.repositories || [];
+        setRepositories((prev) => ({ ...prev, github: repos.map(fromGitHubRepository) }));
+      } else {
+        const response = await fetch(`/api/git-connections/${from.connectionId}/repos`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load repositories');
+        const repos: GitProviderRepository[] = data.repositories;
+        setRepositories((prev) => ({
+          ...prev,
+          [from.connectionId]: repos.map((repo) => ({ ...repo, source: from })),
+        }));
+      }
     } catch (error) {
       console.error('Error fetching repositories:', error);
+      setListError(error instanceof Error ? error.message : 'Failed to load repositories');
     } finally {
       setLoading(false);
     }
   };
 
+  const fetchConnections = async () => {
+    try {
+      const response = await fetch('/api/git-connections');
+      if (response.ok) {
+        const data = await response.json();
+        setConnections(data.connections);
+      }
+    } catch (error) {
+      console.error('Error fetching git connections:', error);
+    }
+  };
+
+  const changeSource = (next: RepositorySource) => {
+    setSource(next);
+    setSearchQuery('');
+    if (!repositories[sourceKey(next)]) fetchRepositories(next);
+  };
+
   const fetchEnvironments = async () => {
     setLoadingEnvironments(true);
     try {
@@ -108,59 +233,81 @@ export default function CreateWorkspaceDialog({
     }
   };
 
-  const fetchBranches = async (repo: GitHubRepository) => {
-    setLoadingBranches(true);
+  const fetchBranches = async (repo: RepositoryOption) => {
+    if (repo.source === 'url') return;
+    let repoBranches: GitHubBranch[] = [];
     try {
-      const [owner, repoName] = repo.full_name.split('/');
-      const response = await fetch(`/api/github/branches?owner=${owner}&repo=${repoName}`);
+      let url: string;
+      if (repo.source === 'github') {
+        const [owner, repoName] = repo.fullName.split('/');
+        url = `/api/github/branches?owner=${owner}&repo=${repoName}`;
+      } else {
+        url = `/api/git-connections/${repo.source.connectionId}/branches?repo=${encodeURIComponent(repo.fullName)}`;
+      }
+      const response = await fetch(url);
       const data = await response.json();
-      setBranches(data.branches || []);
+      repoBranches = data.branches || [];
     } catch (error) {
       console.error('Error fetching branches:', error);
-      setBranches([]);
     } finally {
-      setLoadingBranches(false);
+      setBranches((prev) => ({ ...prev, [repo.cloneUrl]: repoBranches }));
     }
   };
 
+  const allBranchesSelected = selectedRepos.every((repo) => selectedBranches[repo.cloneUrl]?.trim());
+
   const handleCreateWorkspace = async () => {
-    if (!selectedRepo || !workspaceName || !selectedBranch) {
+    if (selectedRepos.length === 0 || !workspaceName || !allBranchesSelected) {
       return;
     }
 
     setCreating(true);
+    setCreateError(null);
     try {
       const response = await fetch('/api/workspaces', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: workspaceName,
-          githubRepo: selectedRepo.clone_url,
-          githubBranch: selectedBranch,
+          repositories: selectedRepos.map((repo) => ({
+            url: repo.cloneUrl,
+            branch: selectedBranches[repo.cloneUrl].trim(),
+          })),
           environmentIds: selectedEnvironmentIds,
+          resources,
         }),
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const { workspace } = await response.json();
-        onWorkspaceCreated(workspace);
-        resetForm();
+        // Provisioning continues in the background, follow it from here
+        setCreatedWorkspace(data.workspace);
+        setStep('provisioning');
+        onWorkspaceQueued(data.workspace);
+      } else {
+        setCreateError(data.error || 'Failed to create workspace');
       }
     } catch (error) {
       console.error('Error creating workspace:', error);
+      setCreateError('Failed to create workspace');
     } finally {
       setCreating(false);
     }
   };
 
   const resetForm = () => {
-    setSelectedRepo(null);
+    setSelectedRepos([]);
     setWorkspaceName('');
     setSearchQuery('');
+    setCloneUrl('');
+    setSource('github');
     setStep('select');
     setSelectedEnvironmentIds([]);
-    setBranches([]);
-    setSelectedBranch('');
+    setResources(DEFAULT_RESOURCE_SELECTION);
+    setBranches({});
+    setSelectedBranches({});
+    setCreatedWorkspace(null);
+    setCreateError(null);
   };
 
   const toggleEnvironment = (envId: string) => {
@@ -177,16 +324,46 @@ export default function CreateWorkspaceDialog({
     }
   };
 
-  const handleSelectRepo = (repo: GitHubRepository) => {
-    setSelectedRepo(repo);
-    setWorkspaceName(repo.name);
-    setSelectedBranch(repo.default_branch);
+  const configureRepos = (repos: RepositoryOption[]) => {
+    setSelectedRepos(repos);
+    setWorkspaceName(repos.map((repo) => repo.name).join(' + '));
+    setSelectedBranches(Object.fromEntries(repos.map((repo) => [repo.cloneUrl, repo.defaultBranch])));
     setStep('configure');
-    fetchBranches(repo);
+    repos.filter((repo) => !branches[repo.cloneUrl]).forEach(fetchBranches);
+  };
+
+  // A click picks a single repository, several are picked with their checkboxes first
+  const handleSelectRepo = (repo: RepositoryOption) => {
+    if (selectedRepos.length === 0) {
+      configureRepos([repo]);
+    } else {
+      toggleRepo(repo);
+    }
+  };
+
+  const toggleRepo = (repo: RepositoryOption) => {
+    setSelectedRepos((prev) =>
+      prev.some((item) => item.cloneUrl === repo.cloneUrl)
+        ? prev.filter((item) => item.cloneUrl !== repo.cloneUrl)
+        : [...prev, repo]
+    );
+  };
+
+  const cloneUrlValid = CLONE_URL_PATTERN.test(cloneUrl.trim());
+
+  const handleAddCloneUrl = () => {
+    if (!cloneUrlValid) return;
+    const repo = fromCloneUrl(cloneUrl.trim());
+    setCloneUrl('');
+    if (!selectedRepos.some((item) => item.cloneUrl === repo.cloneUrl)) handleSelectRepo(repo);
   };
 
-  const filteredRepos = repositories.filter((repo) =>
-    repo.full_name.toLowerCase().includes(searchQuery.toLowerCase())
+  // Repositories added by URL are listed while they are selected
+  const listedRepos = source === 'url'
+    ? selectedRepos.filter((repo) => repo.source === 'url')
+    : repositories[sourceKey(source)] ?? [];
+  const filteredRepos = listedRepos.filter((repo) =>
+    repo.fullName.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   if (!isOpen) return null;
@@ -217,18 +394,26 @@ export default function CreateWorkspaceDialog({
             <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
               {step === 'select' ? (
                 <Github className="w-5 h-5 text-primary" />
+              ) : step === 'provisioning' ? (
+                <Loader2 className="w-5 h-5 text-primary animate-spin" />
               ) : (
                 <Rocket className="w-5 h-5 text-primary" />
               )}
             </div>
             <div>
               <h2 className="text-xl font-semibold text-foreground">
-                {step === 'select' ? 'Select Repository' : 'Configure Workspace'}
+                {step === 'select'
+                  ? 'Select Repository'
+                  : step === 'provisioning'
+                    ? 'Provisioning Workspace'
+                    : 'Configure Workspace'}
               </h2>
               <p className="text-sm text-muted-foreground">
                 {step === 'select'
-                  ? 'Choose a repository to create a workspace from'
-                  : 'Set up your development environment'}
+                  ? 'Choose a repository, or check several to work on them together'
+                  : step === 'provisioning'
+                    ? 'You can close this dialog, provisioning continues in the background'
+                    : 'Set up your development environment'}
               </p>
             </div>
           </div>
@@ -246,17 +431,60 @@ export default function CreateWorkspaceDialog({
         <div className="overflow-y-auto max-h-[calc(85vh-180px)] scrollbar-thin">
           {step === 'select' ? (
             <div className="p-6">
-              {/* Search */}
-              <div className="relative mb-6">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <input
-                  type="text"
-                  placeholder="Search repositories..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
-                  autoFocus
-                />
+              {/* Source and Search */}
+              <div className="flex gap-2 mb-6">
+                <select
+                  value={sourceKey(source)}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    changeSource(value === 'github' || value === 'url' ? value : { connectionId: value });
+                  }}
+                  className="max-w-[12rem] px-3 py-3 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+                  title="Source"
+                >
+                  <option value="github">GitHub</option>
+                  {connections
+                    .filter((connection) => connection.type !== 'generic')
+                    .map((connection) => (
+                      <option key={connection.id} value={connection.id}>{connection.name}</option>
+                    ))}
+                  <option value="url">Clone URL</option>
+                </select>
+                {source === 'url' ? (
+                  <form
+                    className="relative flex-1 flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleAddCloneUrl();
+                    }}
+                  >
+                    <Link className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <input
+                      type="text"
+                      placeholder="https://git.example.com/team/project.git or git@host:team/project.git"
+                      value={cloneUrl}
+                      onChange={(e) => setCloneUrl(e.target.value)}
+                      className="flex-1 pl-10 pr-4 py-3 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+                      autoFocus
+                    />
+                    <Button type="submit" variant="outline" disabled={!cloneUrlValid} className="h-auto gap-2">
+                      <Plus className="w-4 h-4" />
+                      Add
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <input
+                      type="text"
+                      placeholder="Search repositories..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="w-full pl-10 pr-4 py-3 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+                      autoFocus
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Repository List */}
@@ -270,91 +498,154 @@ export default function CreateWorkspaceDialog({
               ) : filteredRepos.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12">
                   <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
-                    <Search className="w-8 h-8 text-muted-foreground" />
+                    {source === 'url' ? (
+                      <Link className="w-8 h-8 text-muted-foreground" />
+                    ) : (
+                      <Search className="w-8 h-8 text-muted-foreground" />
+                    )}
                   </div>
-                  <p className="text-foreground font-medium mb-1">No repositories found</p>
-                  <p className="text-sm text-muted-foreground">
-                    {searchQuery
-                      ? 'Try adjusting your search query'
-                      : 'No repositories available'}
+                  <p className="text-foreground font-medium mb-1">
+                    {source === 'url' ? 'Clone any repository' : 'No repositories found'}
+                  </p>
+                  <p className="text-sm text-muted-foreground text-center">
+                    {source === 'url'
+                      ? 'Enter an https or SSH URL. Connected git hosts and SSH keys provide the credentials for private ones'
+                      : listError
+                        ? listError
+                        : searchQuery
+                          ? 'Try adjusting your search query'
+                          : 'No repositories available'}
                   </p>
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {filteredRepos.map((repo, index) => (
-                    <button
-                      key={repo.id}
-                      onClick={() => handleSelectRepo(repo)}
-                      className={cn(
-                        'w-full text-left p-4 border border-border rounded-lg transition-all duration-200 animate-fade-in group',
-                        'hover:border-primary/50 hover:bg-primary/5 hover:shadow-md'
-                      )}
-                      style={{ animationDelay: `${index * 30}ms` }}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <Github className="w-4 h-4 text-muted-foreground shrink-0" />
-                            <span className="font-medium text-foreground truncate group-hover:text-primary transition-colors">
-                              {repo.full_name}
-                            </span>
-                          </div>
-                          {repo.description && (
-                            <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-                              {repo.description}
-                            </p>
-                          )}
-                          <div className="flex flex-wrap gap-2 mt-3">
-                            {repo.language && (
-                              <Badge variant="secondary" className="gap-1">
-                                <Code className="w-3 h-3" />
-                                {repo.language}
-                              </Badge>
-                            )}
-                            <Badge variant="secondary" className="gap-1">
-                              <GitBranch className="w-3 h-3" />
-                              {repo.default_branch}
-                            </Badge>
-                            {repo.stargazers_count > 0 && (
-                              <Badge variant="secondary" className="gap-1">
-                                <Star className="w-3 h-3" />
-                                {repo.stargazers_count}
-                              </Badge>
+                  {filteredRepos.map((repo, index) => {
+                    const isSelected = selectedRepos.some((item) => item.cloneUrl === repo.cloneUrl);
+                    return (
+                      <button
+                        key={repo.cloneUrl}
+                        onClick={() => handleSelectRepo(repo)}
+                        className={cn(
+                          'w-full text-left p-4 border rounded-lg transition-all duration-200 animate-fade-in group',
+                          'hover:border-primary/50 hover:bg-primary/5 hover:shadow-md',
+                          isSelected ? 'border-primary bg-primary/5' : 'border-border'
+                        )}
+                        style={{ animationDelay: `${index * 30}ms` }}
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <SourceIcon source={repo.source} className="w-4 h-4 text-muted-foreground shrink-0" />
+                              <span className="font-medium text-foreground truncate group-hover:text-primary transition-colors">
+                                {repo.fullName}
+                              </span>
+                            </div>
+                            {repo.description && (
+                              <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                                {repo.description}
+                              </p>
                             )}
+                            <div className="flex flex-wrap gap-2 mt-3">
+                              {repo.language && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Code className="w-3 h-3" />
+                                  {repo.language}
+                                </Badge>
+                              )}
+                              {repo.source !== 'url' && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <GitBranch className="w-3 h-3" />
+                                  {repo.defaultBranch}
+                                </Badge>
+                              )}
+                              {repo.stars > 0 && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Star className="w-3 h-3" />
+                                  {repo.stars}
+                                </Badge>
+                              )}
+                            </div>
                           </div>
+                          <span
+                            role="checkbox"
+                            aria-checked={isSelected}
+                            title="Add to a workspace with several repositories"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleRepo(repo);
+                            }}
+                            className={cn(
+                              'w-5 h-5 mt-0.5 rounded border flex items-center justify-center shrink-0 transition-colors',
+                              isSelected ? 'bg-primary border-primary' : 'border-border bg-background hover:border-primary/50'
+                            )}
+                          >
+                            {isSelected && <Check className="w-3.5 h-3.5 text-primary-foreground" />}
+                          </span>
                         </div>
-                      </div>
-                    </button>
-                  ))}
+                      </button>
+                    );
+                  })}
                 </div>
               )}
             </div>
+          ) : step === 'provisioning' ? (
+            <div className="p-6">
+              <ProvisioningTimeline events={provisioning.events} error={provisioning.error} />
+            </div>
           ) : (
             <div className="p-6 space-y-6">
-              {/* Selected Repository */}
-              <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
-                    <Github className="w-5 h-5 text-primary" />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-foreground truncate">
-                      {selectedRepo?.full_name}
-                    </p>
-                    <div className="flex items-center gap-2 mt-1">
-                      <Badge variant="secondary" className="gap-1">
-                        <GitBranch className="w-3 h-3" />
-                        {selectedRepo?.default_branch}
-                      </Badge>
-                      {selectedRepo?.language && (
-                        <Badge variant="secondary" className="gap-1">
-                          <Code className="w-3 h-3" />
-                          {selectedRepo.language}
-                        </Badge>
+              {/* Selected Repositories */}
+              <div className="space-y-2">
+                {selectedRepos.map((repo) => (
+                  <div key={repo.cloneUrl} className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                        <SourceIcon source={repo.source} className="w-5 h-5 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">{repo.fullName}</p>
+                        {repo.language && (
+                          <Badge variant="secondary" className="gap-1 mt-1">
+                            <Code className="w-3 h-3" />
+                            {repo.language}
+                          </Badge>
+                        )}
+                      </div>
+                      {repo.source === 'url' ? (
+                        <input
+                          type="text"
+                          value={selectedBranches[repo.cloneUrl] ?? ''}
+                          onChange={(e) => setSelectedBranches((prev) => ({ ...prev, [repo.cloneUrl]: e.target.value }))}
+                          className="w-40 px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+                          placeholder="Branch"
+                          title="Branch"
+                        />
+                      ) : branches[repo.cloneUrl] ? (
+                        <select
+                          value={selectedBranches[repo.cloneUrl] ?? ''}
+                          onChange={(e) => setSelectedBranches((prev) => ({ ...prev, [repo.cloneUrl]: e.target.value }))}
+                          className="max-w-[12rem] px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+                          title="Branch"
+                        >
+                          {branches[repo.cloneUrl].map((branch) => (
+                            <option key={branch.name} value={branch.name}>
+                              {branch.name}
+                              {branch.name === repo.defaultBranch ? ' (default)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
                       )}
                     </div>
                   </div>
-                </div>
+                ))}
+                <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                  <GitBranch className="w-3.5 h-3.5" />
+                  {selectedRepos.length > 1
+                    ? 'Each repository is cloned into its own directory under /workspace'
+                    : 'Select the branch to clone for this workspace'}
+                </p>
               </div>
 
               {/* Workspace Name */}
@@ -375,36 +666,6 @@ export default function CreateWorkspaceDialog({
                 </p>
               </div>
 
-              {/* Branch Selection */}
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2 flex items-center gap-2">
-                  <GitBranch className="w-4 h-4" />
-                  Branch
-                </label>
-                {loadingBranches ? (
-                  <div className="flex items-center gap-2 py-3 text-sm text-muted-foreground">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    Loading branches...
-                  </div>
-                ) : (
-                  <select
-                    value={selectedBranch}
-                    onChange={(e) => setSelectedBranch(e.target.value)}
-                    className="w-full px-4 py-3 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
-                  >
-                    {branches.map((branch) => (
-                      <option key={branch.name} value={branch.name}>
-                        {branch.name}
-                        {branch.name === selectedRepo?.default_branch ? ' (default)' : ''}
-                      </option>
-                    ))}
-                  </select>
-                )}
-                <p className="text-xs text-muted-foreground mt-2">
-                  Select the branch to clone for this workspace
-                </p>
-              </div>
-
               {/* Environment Selection */}
               <div>
                 <label className="block text-sm font-medium text-foreground mb-2 flex items-center gap-2">
@@ -469,6 +730,19 @@ export default function CreateWorkspaceDialog({
                 </p>
               </div>
 
+              {/* Resources */}
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+                  <Cpu className="w-4 h-4" />
+                  Resources
+                </label>
+                <ResourceProfilePicker value={resources} onChange={setResources} />
+                <p className="text-xs text-muted-foreground mt-2">
+                  CPU and memory limits of the workspace and the disk space it may use, checked
+                  every 5 minutes
+                </p>
+              </div>
+
               {/* Features Preview */}
               <div className="p-4 bg-muted/30 rounded-lg border border-border">
                 <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
@@ -493,18 +767,36 @@ export default function CreateWorkspaceDialog({
         {/* Footer */}
         <div className="flex items-center justify-between p-6 border-t border-border bg-muted/20">
           <div className="text-sm text-muted-foreground">
-            {step === 'select' && filteredRepos.length > 0 && (
-              <span>{filteredRepos.length} repositories available</span>
+            {step === 'select' && (selectedRepos.length > 0 || filteredRepos.length > 0) && (
+              <span>
+                {selectedRepos.length > 0
+                  ? `${selectedRepos.length} ${selectedRepos.length === 1 ? 'repository' : 'repositories'} selected`
+                  : `${filteredRepos.length} repositories available`}
+              </span>
+            )}
+            {step === 'configure' && createError && (
+              <span className="text-destructive">{createError}</span>
             )}
           </div>
           <div className="flex gap-3">
             <Button variant="ghost" onClick={onClose}>
-              Cancel
+              {step === 'provisioning' ? 'Close' : 'Cancel'}
             </Button>
+            {step === 'provisioning' && createdWorkspace && !provisioning.error && (
+              <Button onClick={() => onWorkspaceCreated(createdWorkspace)} className="gap-2">
+                <Rocket className="w-4 h-4" />
+                Open Workspace
+              </Button>
+            )}
+            {step === 'select' && selectedRepos.length > 0 && (
+              <Button onClick={() => configureRepos(selectedRepos)} className="gap-2">
+                Continue
+              </Button>
+            )}
             {step === 'configure' && (
               <Button
                 onClick={handleCreateWorkspace}
-                disabled={!workspaceName || !selectedBranch || creating}
+                disabled={!workspaceName || !allBranchesSelected || creating}
                 isLoading={creating}
                 className="gap-2"
               >
@@ -518,3 +810,9 @@ export default function CreateWorkspaceDialog({
     </div>
   );
 }
+
+function SourceIcon({ source, className }: { source: RepositorySource; className?: string }) {
+  if (source === 'github') return <Github className={className} />;
+  if (source === 'url') return <Link className={className} />;
+  return <GitBranch className={className} />;
+}
@@ -26,18 +26,31 @@ import {
   Server,
   Variable,
   Cog,
+  Archive,
+  KeyRound,
+  Fingerprint,
+  Copy,
+  Hammer,
+  Cpu,
+  Shield,
+  AlertCircle,
+  X,
+  GitPullRequest,
 } from 'lucide-react';
 
 import { useRouter } from 'next/navigation';
 import type { Workspace } from '@prisma/client';
 import CreateWorkspaceDialog from './CreateWorkspaceDialog';
 import WorkspaceConfigDialog from './WorkspaceConfigDialog';
+import DuplicateWorkspaceDialog from './DuplicateWorkspaceDialog';
+import QuotaUsage from './QuotaUsage';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { cn } from '@/lib/utils';
+import { formatResources } from '@/lib/resources';
 
 interface DashboardClientProps {
   user: {
@@ -46,22 +59,25 @@ interface DashboardClientProps {
     image?: string | null;
   };
   initialWorkspaces: Workspace[];
+  isAdmin?: boolean;
 }
 
 type ViewMode = 'grid' | 'list';
 type SortBy = 'recent' | 'name' | 'status';
 
-export default function DashboardClient({ user, initialWorkspaces }: DashboardClientProps) {
+export default function DashboardClient({ user, initialWorkspaces, isAdmin }: DashboardClientProps) {
   const router = useRouter();
   const [workspaces, setWorkspaces] = useState<Workspace[]>(initialWorkspaces);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isConfigDialogOpen, setIsConfigDialogOpen] = useState(false);
   const [selectedWorkspace, setSelectedWorkspace] = useState<Workspace | null>(null);
+  const [duplicateSource, setDuplicateSource] = useState<Workspace | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<SortBy>('recent');
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({});
+  const [actionError, setActionError] = useState<string | null>(null);
 
   const filteredWorkspaces = workspaces
     .filter((w) => {
@@ -89,12 +105,16 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
     stopped: workspaces.filter((w) => w.status === 'stopped').length,
   };
 
+  // Reload quota usage whenever a workspace is added, removed, started or stopped
+  const quotaRefreshKey = workspaces.map((w) => `${w.id}:${w.status}`).join(',');
+
   const handleDeleteWorkspace = async (workspaceId: string) => {
     if (!confirm('Are you sure you want to delete this workspace? This action cannot be undone.')) {
       return;
     }
 
     setLoadingStates((prev) => ({ ...prev, [workspaceId]: true }));
+    setActionError(null);
     try {
       const response = await fetch(`/api/workspaces/${workspaceId}`, {
         method: 'DELETE',
@@ -102,6 +122,10 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
 
       if (response.ok) {
         setWorkspaces(workspaces.filter((w) => w.id !== workspaceId));
+      } else {
+        // Workspaces that are still starting can't be deleted yet
+        const data = await response.json().catch(() => ({}));
+        setActionError(data.error || 'Failed to delete workspace');
       }
     } catch (error) {
       console.error('Error deleting workspace:', error);
@@ -110,8 +134,16 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
     }
   };
 
-  const handleWorkspaceAction = async (workspaceId: string, action: 'start' | 'stop') => {
+  const handleWorkspaceAction = async (workspaceId: string, action: 'start' | 'stop' | 'rebuild') => {
+    if (
+      action === 'rebuild' &&
+      !confirm('Rebuild this workspace? Its containers are recreated with the current settings, files and OpenCode history are kept.')
+    ) {
+      return;
+    }
+
     setLoadingStates((prev) => ({ ...prev, [workspaceId]: true }));
+    setActionError(null);
     try {
       const response = await fetch(`/api/workspaces/${workspaceId}`, {
         method: 'PATCH',
@@ -119,9 +151,14 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
         body: JSON.stringify({ action }),
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const { workspace } = await response.json();
-        setWorkspaces(workspaces.map((w) => (w.id === workspaceId ? workspace : w)));
+        setWorkspaces(workspaces.map((w) => (w.id === workspaceId ? data.workspace : w)));
+        // Rebuild progress is shown on the workspace page
+        if (action === 'rebuild') router.push(`/workspace/${workspaceId}`);
+      } else {
+        // Quota rejections come with a message saying what to free up
+        setActionError(data.error || `Failed to ${action} workspace`);
       }
     } catch (error) {
       console.error('Error updating workspace:', error);
@@ -130,8 +167,18 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
     }
   };
 
+  const handleWorkspaceQueued = (workspace: Workspace) => {
+    setWorkspaces((prev) => [workspace, ...prev]);
+  };
+
+  const handleWorkspaceDuplicated = (workspace: Workspace) => {
+    setWorkspaces((prev) => [workspace, ...prev]);
+    setDuplicateSource(null);
+    router.push(`/workspace/${workspace.id}`);
+  };
+
   const handleWorkspaceCreated = (workspace: Workspace) => {
-    setWorkspaces([workspace, ...workspaces]);
+    setWorkspaces((prev) => prev.map((w) => (w.id === workspace.id ? workspace : w)));
     setIsCreateDialogOpen(false);
     router.push(`/workspace/${workspace.id}`);
   };
@@ -256,6 +303,36 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                           <Variable className="w-4 h-4 text-primary" />
                           Environments
                         </button>
+                        <button
+                          onClick={() => router.push('/snapshots')}
+                          className="w-full flex items-center gap-2 px-2 py-2 text-sm text-foreground hover:bg-muted rounded-md transition-colors"
+                        >
+                          <Archive className="w-4 h-4 text-primary" />
+                          Snapshots
+                        </button>
+                        <button
+                          onClick={() => router.push('/git-hosts')}
+                          className="w-full flex items-center gap-2 px-2 py-2 text-sm text-foreground hover:bg-muted rounded-md transition-colors"
+                        >
+                          <KeyRound className="w-4 h-4 text-primary" />
+                          Git Hosts
+                        </button>
+                        <button
+                          onClick={() => router.push('/ssh-keys')}
+                          className="w-full flex items-center gap-2 px-2 py-2 text-sm text-foreground hover:bg-muted rounded-md transition-colors"
+                        >
+                          <Fingerprint className="w-4 h-4 text-primary" />
+                          SSH Keys
+                        </button>
+                        {isAdmin && (
+                          <button
+                            onClick={() => router.push('/admin')}
+                            className="w-full flex items-center gap-2 px-2 py-2 text-sm text-foreground hover:bg-muted rounded-md transition-colors"
+                          >
+                            <Shield className="w-4 h-4 text-primary" />
+                            Admin
+                          </button>
+                        )}
                         <button
                           onClick={() => signOut({ callbackUrl: '/login' })}
                           className="w-full flex items-center gap-2 px-2 py-2 text-sm text-destructive hover:bg-destructive/10 rounded-md transition-colors"
@@ -375,6 +452,18 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
           </Card>
         </div>
 
+        <QuotaUsage refreshKey={quotaRefreshKey} />
+
+        {actionError && (
+          <div className="flex items-center gap-3 p-3 mb-6 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+            <p className="flex-1 text-sm text-destructive">{actionError}</p>
+            <Button variant="ghost" size="icon-sm" onClick={() => setActionError(null)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
         {/* Toolbar */}
         <div className="flex flex-col sm:flex-row gap-4 mb-6">
           <div className="flex-1 relative">
@@ -482,6 +571,13 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {workspace.statusReason && (
+                    <p className="text-xs text-muted-foreground">{workspace.statusReason}</p>
+                  )}
+                  {workspace.pullRequestUrl && (
+                    <PullRequestLink url={workspace.pullRequestUrl} />
+                  )}
+
                   {/* Quick info */}
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
                     <div className="flex items-center gap-1.5">
@@ -493,13 +589,17 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                       <span>VS Code</span>
                     </div>
                   </div>
+                  <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <Cpu className="w-3.5 h-3.5" />
+                    {formatResources(workspace)}
+                  </p>
 
                   {/* Actions */}
                   <div className="flex gap-2">
                     <Button
                       onClick={() => router.push(`/workspace/${workspace.id}`)}
                       className="flex-1 gap-2"
-                      disabled={workspace.status !== 'running'}
+                      disabled={!['running', 'starting', 'stopped'].includes(workspace.status)}
                     >
                       <ExternalLink className="w-4 h-4" />
                       Open
@@ -513,6 +613,26 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                         <Cog className="w-4 h-4" />
                       </Button>
                     </Tooltip>
+                    <Tooltip content="Duplicate workspace">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setDuplicateSource(workspace)}
+                        disabled={!['running', 'stopped'].includes(workspace.status)}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </Tooltip>
+                    <Tooltip content="Rebuild containers">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => handleWorkspaceAction(workspace.id, 'rebuild')}
+                        disabled={loadingStates[workspace.id] || !['running', 'stopped', 'error'].includes(workspace.status)}
+                      >
+                        <Hammer className="w-4 h-4" />
+                      </Button>
+                    </Tooltip>
                     {workspace.status === 'running' ? (
                       <Tooltip content="Stop workspace">
                         <Button
@@ -590,6 +710,12 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                         <Github className="w-3.5 h-3.5" />
                         <span className="truncate">{workspace.githubRepo}</span>
                       </p>
+                      {workspace.statusReason && (
+                        <p className="text-xs text-muted-foreground mt-0.5">{workspace.statusReason}</p>
+                      )}
+                      {workspace.pullRequestUrl && (
+                        <PullRequestLink url={workspace.pullRequestUrl} className="mt-0.5" />
+                      )}
                     </div>
 
                     {/* Actions */}
@@ -597,7 +723,7 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                       <Button
                         onClick={() => router.push(`/workspace/${workspace.id}`)}
                         size="sm"
-                        disabled={workspace.status !== 'running'}
+                        disabled={!['running', 'starting', 'stopped'].includes(workspace.status)}
                       >
                         Open
                       </Button>
@@ -608,6 +734,23 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
                       >
                         <Cog className="w-3.5 h-3.5" />
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="icon-sm"
+                        onClick={() => setDuplicateSource(workspace)}
+                        disabled={!['running', 'stopped'].includes(workspace.status)}
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon-sm"
+                        onClick={() => handleWorkspaceAction(workspace.id, 'rebuild')}
+                        disabled={loadingStates[workspace.id] || !['running', 'stopped', 'error'].includes(workspace.status)}
+                        title="Rebuild containers"
+                      >
+                        <Hammer className="w-3.5 h-3.5" />
+                      </Button>
                       {workspace.status === 'running' ? (
                         <Button
                           variant="outline"
@@ -660,6 +803,7 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
       <CreateWorkspaceDialog
         isOpen={isCreateDialogOpen}
         onClose={() => setIsCreateDialogOpen(false)}
+        onWorkspaceQueued={handleWorkspaceQueued}
         onWorkspaceCreated={handleWorkspaceCreated}
       />
 
@@ -673,6 +817,29 @@ export default function DashboardClient({ user, initialWorkspaces }: DashboardCl
         workspaceId={selectedWorkspace?.id || ''}
         workspaceName={selectedWorkspace?.name || ''}
       />
+
+      {/* Duplicate Workspace Dialog */}
+      <DuplicateWorkspaceDialog
+        workspace={duplicateSource}
+        onClose={() => setDuplicateSource(null)}
+        onWorkspaceDuplicated={handleWorkspaceDuplicated}
+      />
     </div>
   );
 }
+
+// Link to the last pull request opened from a workspace, labelled with its number
+function PullRequestLink({ url, className }: { url: string; className?: string }) {
+  const number = /\/pull\/(\d+)/.exec(url)?.[1];
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn('flex items-center gap-1.5 text-xs text-primary hover:underline w-fit', className)}
+    >
+      <GitPullRequest className="w-3.5 h-3.5" />
+      {number ? `Pull request #${number}` : 'Pull request'}
+    </a>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Copy, Loader2, History } from 'lucide-react';
+import type { Workspace } from '@prisma/client';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { cn } from '@/lib/utils';
+
+interface DuplicateWorkspaceDialogProps {
+  workspace: Workspace | null;
+  onClose: () => void;
+  onWorkspaceDuplicated: (workspace: Workspace) => void;
+}
+
+export default function DuplicateWorkspaceDialog({
+  workspace,
+  onClose,
+  onWorkspaceDuplicated,
+}: DuplicateWorkspaceDialogProps) {
+  const [name, setName] = useState('');
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (workspace) {
+      setName(`${workspace.name} (copy)`);
+      setIncludeHistory(false);
+      setError(null);
+    }
+  }, [workspace]);
+
+  const handleDuplicate = async () => {
+    if (!workspace) return;
+
+    setIsDuplicating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), includeHistory }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to duplicate workspace');
+      onWorkspaceDuplicated(data.workspace);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  if (!workspace) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <Card className="w-full max-w-md animate-slide-down">
+        <CardHeader className="border-b border-border">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-xl">Duplicate Workspace</CardTitle>
+              <CardDescription className="mt-1">
+                Start a new workspace from the current state of <strong>{workspace.name}</strong>
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground mb-1.5">
+              Workspace name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+            />
+          </div>
+
+          <div
+            onClick={() => setIncludeHistory(!includeHistory)}
+            className={cn(
+              'flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all',
+              includeHistory
+                ? 'border-primary bg-primary/5'
+                : 'border-border hover:border-primary/50 hover:bg-muted/50'
+            )}
+          >
+            <History className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+            <div>
+              <p className="text-sm font-medium text-foreground">Copy OpenCode history</p>
+              <p className="text-xs text-muted-foreground">
+                Bring the agent sessions along, so the new workspace can continue a conversation.
+              </p>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Files, uncommitted changes and linked environments are copied. The source workspace is
+            paused briefly while its files are copied.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </CardContent>
+
+        <div className="p-6 border-t border-border flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isDuplicating}>
+            Cancel
+          </Button>
+          <Button onClick={handleDuplicate} disabled={isDuplicating || !name.trim()} className="gap-2">
+            {isDuplicating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+            Duplicate
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Link2, Loader2, Lock, Copy, Check, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+interface ShareLink {
+  id: string;
+  expiresAt: string;
+  hasPassword: boolean;
+  createdAt: string;
+}
+
+// Expiry choices in hours, the API accepts no others
+const EXPIRY_OPTIONS = [
+  { value: 1, label: '1 hour' },
+  { value: 24, label: '24 hours' },
+  { value: 7 * 24, label: '7 days' },
+  { value: 30 * 24, label: '30 days' },
+];
+
+interface PreviewShareLinksProps {
+  workspaceId: string;
+}
+
+// Share links of a workspace's previews, created and revoked right away, independently of
+// Save. A link's URL is only shown once, after it was created.
+export default function PreviewShareLinks({ workspaceId }: PreviewShareLinksProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [password, setPassword] = useState('');
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const linksUrl = `/api/workspaces/${workspaceId}/share-links`;
+
+  useEffect(() => {
+    let isMounted = true;
+    fetch(linksUrl)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (isMounted && data) setLinks(data.links);
+      })
+      .catch(() => {
+        // The section stays empty, creating a link still works
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [linksUrl]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch(linksUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInHours, password: password || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create share link');
+      setLinks((prev) => [data.link, ...prev]);
+      setCreatedUrl(data.url);
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setRevokingId(linkId);
+    setError(null);
+    try {
+      const response = await fetch(`${linksUrl}/${linkId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke share link');
+      setLinks((prev) => prev.filter((link) => link.id !== linkId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    await navigator.clipboard.writeText(createdUrl);
+    setCopied(true);
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-3">
+        <select
+          value={expiresInHours}
+          onChange={(e) => setExpiresInHours(Number(e.target.value))}
+          className="px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          maxLength={200}
+          autoComplete="new-password"
+          className="flex-1 min-w-0 px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+        />
+        <Button variant="outline" onClick={handleCreate} disabled={isCreating} className="gap-2">
+          {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+          Create Link
+        </Button>
+      </div>
+
+      {createdUrl && (
+        <div className="flex items-center gap-2 mb-3 p-2 bg-muted/50 border border-border rounded-lg">
+          <code className="flex-1 min-w-0 truncate text-xs text-foreground">{createdUrl}</code>
+          <Button variant="ghost" size="icon-sm" onClick={handleCopy} title="Copy link">
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive mb-3">{error}</p>}
+
+      {links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Only you can see the previews of this workspace.</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map((link) => (
+            <div key={link.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+              <Link2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <div className="flex-1 min-w-0 text-sm">
+                <p className="text-foreground flex items-center gap-1.5">
+                  Expires {new Date(link.expiresAt).toLocaleString()}
+                  {link.hasPassword && <Lock className="w-3 h-3 text-muted-foreground" />}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Created {new Date(link.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRevoke(link.id)}
+                disabled={revokingId !== null}
+                className="gap-1.5 text-destructive"
+              >
+                {revokingId === link.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
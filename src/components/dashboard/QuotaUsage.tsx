@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
+import { cn } from '@/lib/utils';
+
+interface QuotaLimits {
+  maxWorkspaces: number | null;
+  maxRunningWorkspaces: number | null;
+  maxCpus: number | null;
+  maxMemoryMb: number | null;
+}
+
+interface QuotaUsageValues {
+  workspaces: number;
+  runningWorkspaces: number;
+  cpus: number;
+  memoryMb: number;
+}
+
+const QUOTA_ROWS: {
+  quota: keyof QuotaLimits;
+  usage: keyof QuotaUsageValues;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { quota: 'maxWorkspaces', usage: 'workspaces', label: 'Workspaces', format: String },
+  { quota: 'maxRunningWorkspaces', usage: 'runningWorkspaces', label: 'Running', format: String },
+  { quota: 'maxCpus', usage: 'cpus', label: 'CPUs', format: (value) => String(Number(value.toFixed(1))) },
+  {
+    quota: 'maxMemoryMb',
+    usage: 'memoryMb',
+    label: 'Memory',
+    format: (value) => `${Number((value / 1024).toFixed(1))} GB`,
+  },
+];
+
+interface QuotaUsageProps {
+  // Changes whenever workspaces are created, started or stopped
+  refreshKey: string;
+}
+
+// Usage of the current user against their quotas, hidden when no quota applies
+export default function QuotaUsage({ refreshKey }: QuotaUsageProps) {
+  const [limits, setLimits] = useState<QuotaLimits | null>(null);
+  const [usage, setUsage] = useState<QuotaUsageValues | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/quotas');
+        if (!response.ok) return;
+        const data = await response.json();
+        setLimits(data.limits);
+        setUsage(data.usage);
+      } catch (error) {
+        console.error('Error fetching quotas:', error);
+      }
+    };
+    load();
+  }, [refreshKey]);
+
+  if (!limits || !usage) return null;
+
+  const rows = QUOTA_ROWS.filter((row) => limits[row.quota] !== null);
+  if (rows.length === 0) return null;
+
+  return (
+    <Card className="bg-card/50 mb-8">
+      <CardContent className="pt-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Gauge className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Quota</h3>
+          <span className="text-xs text-muted-foreground">CPU and memory count running workspaces</span>
+        </div>
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+          {rows.map((row) => {
+            const limit = limits[row.quota]!;
+            const used = usage[row.usage];
+            const ratio = limit === 0 ? 1 : Math.min(1, used / limit);
+
+            return (
+              <div key={row.quota}>
+                <div className="flex justify-between text-xs mb-1.5">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span className="font-medium text-foreground">
+                    {row.format(used)} / {row.format(limit)}
+                  </span>
+                </div>
+                <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className={cn(
+                      'h-full rounded-full transition-all',
+                      ratio >= 1 ? 'bg-destructive' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-primary'
+                    )}
+                    style={{ width: `${ratio * 100}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
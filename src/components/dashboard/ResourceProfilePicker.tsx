@@ -0,0 +1,132 @@
+'use client';
+
+import { Cpu } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  RESOURCE_PROFILES,
+  RESOURCE_LIMITS,
+  formatResources,
+  type ResourceProfileName,
+} from '@/lib/resources';
+
+export interface ResourceSelection {
+  profile: ResourceProfileName;
+  memoryMb: number;
+  cpus: number;
+  diskGb: number;
+}
+
+export const DEFAULT_RESOURCE_SELECTION: ResourceSelection = {
+  profile: 'medium',
+  ...RESOURCE_PROFILES.medium,
+};
+
+const PROFILE_LABELS: Record<ResourceProfileName, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large',
+  custom: 'Custom',
+};
+
+interface ResourceProfilePickerProps {
+  value: ResourceSelection;
+  onChange: (value: ResourceSelection) => void;
+  disabled?: boolean;
+}
+
+export function ResourceProfilePicker({ value, onChange, disabled }: ResourceProfilePickerProps) {
+  const selectProfile = (profile: ResourceProfileName) => {
+    if (profile === 'custom') {
+      // Start from the current values so switching to custom changes nothing yet
+      onChange({ ...value, profile });
+    } else {
+      onChange({ profile, ...RESOURCE_PROFILES[profile] });
+    }
+  };
+
+  const setCustomValue = (key: 'memoryMb' | 'cpus' | 'diskGb', raw: string) => {
+    const parsed = key === 'cpus' ? parseFloat(raw) : parseInt(raw, 10);
+    onChange({ ...value, [key]: Number.isNaN(parsed) ? 0 : parsed });
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2">
+        {(['small', 'medium', 'large', 'custom'] as const).map((profile) => (
+          <button
+            key={profile}
+            type="button"
+            onClick={() => selectProfile(profile)}
+            disabled={disabled}
+            className={cn(
+              'p-2 rounded-lg border text-left transition-all disabled:opacity-50',
+              value.profile === profile
+                ? 'border-primary bg-primary/5'
+                : 'border-border hover:border-primary/50 hover:bg-muted/50'
+            )}
+          >
+            <span className="block text-sm font-medium text-foreground">{PROFILE_LABELS[profile]}</span>
+            <span className="block text-xs text-muted-foreground">
+              {profile === 'custom'
+                ? 'Set your own'
+                : `${RESOURCE_PROFILES[profile].cpus} CPU · ${RESOURCE_PROFILES[profile].memoryMb / 1024} GB`}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {value.profile === 'custom' ? (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">CPUs</label>
+            <input
+              type="number"
+              step={0.5}
+              min={RESOURCE_LIMITS.cpus.min}
+              max={RESOURCE_LIMITS.cpus.max}
+              value={value.cpus || ''}
+              onChange={(e) => setCustomValue('cpus', e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Memory (MB)</label>
+            <input
+              type="number"
+              step={512}
+              min={RESOURCE_LIMITS.memoryMb.min}
+              max={RESOURCE_LIMITS.memoryMb.max}
+              value={value.memoryMb || ''}
+              onChange={(e) => setCustomValue('memoryMb', e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1" title="Checked every 5 minutes, not a hard limit">
+              Disk (GB, soft)
+            </label>
+            <input
+              type="number"
+              min={RESOURCE_LIMITS.diskGb.min}
+              max={RESOURCE_LIMITS.diskGb.max}
+              value={value.diskGb || ''}
+              onChange={(e) => setCustomValue('diskGb', e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+          <Cpu className="w-3 h-3" />
+          {formatResources(value)}
+        </p>
+      )}
+    </div>
+  );
+}
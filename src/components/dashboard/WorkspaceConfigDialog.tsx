@@ -1,9 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Variable, Check, Loader2 } from 'lucide-react';
+import { X, Variable, Check, Loader2, Moon, Archive, Camera, Cpu, History, AlertTriangle, Share2 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { SnapshotList, useSnapshots, formatSnapshotSize } from '@/components/snapshots/SnapshotList';
+import {
+  ResourceProfilePicker,
+  DEFAULT_RESOURCE_SELECTION,
+  type ResourceSelection,
+} from './ResourceProfilePicker';
+import PreviewShareLinks from './PreviewShareLinks';
 import { cn } from '@/lib/utils';
 
 interface Environment {
@@ -13,6 +20,28 @@ interface Environment {
   variables: string;
 }
 
+interface WorkspaceEvent {
+  id: string;
+  type: 'status' | 'missing';
+  message: string;
+  createdAt: string;
+}
+
+// Idle timeout choices in minutes, 0 disables auto-stop
+const IDLE_TIMEOUT_OPTIONS = [
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+  { value: 240, label: '4 hours' },
+  { value: 480, label: '8 hours' },
+  { value: 1440, label: '24 hours' },
+  { value: 0, label: 'Never' },
+];
+
+function formatIdleTimeout(minutes: number) {
+  return IDLE_TIMEOUT_OPTIONS.find((option) => option.value === minutes)?.label || `${minutes} minutes`;
+}
+
 interface WorkspaceConfigDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -31,6 +60,21 @@ export default function WorkspaceConfigDialog({
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // null means "inherit": the workspace uses the user's default, the user the instance default
+  const [workspaceIdleTimeout, setWorkspaceIdleTimeout] = useState<number | null>(null);
+  const [userIdleTimeout, setUserIdleTimeout] = useState<number | null>(null);
+  const [initialUserIdleTimeout, setInitialUserIdleTimeout] = useState<number | null>(null);
+  const [defaultIdleTimeout, setDefaultIdleTimeout] = useState(120);
+  const [resources, setResources] = useState<ResourceSelection>(DEFAULT_RESOURCE_SELECTION);
+  const [initialResources, setInitialResources] = useState<ResourceSelection>(DEFAULT_RESOURCE_SELECTION);
+  const [diskUsageBytes, setDiskUsageBytes] = useState<number | null>(null);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [events, setEvents] = useState<WorkspaceEvent[]>([]);
+  const { snapshots, setSnapshots } = useSnapshots(
+    isOpen && workspaceId ? `/api/workspaces/${workspaceId}/snapshots` : null
+  );
 
   useEffect(() => {
     if (isOpen && workspaceId) {
@@ -53,6 +97,35 @@ export default function WorkspaceConfigDialog({
       if (!linkedResponse.ok) throw new Error('Failed to fetch linked environments');
       const { environments: linked } = await linkedResponse.json();
       setLinkedEnvironmentIds(linked.map((e: Environment) => e.id));
+
+      // Fetch idle timeout of the workspace and the user's defaults
+      const [workspaceResponse, settingsResponse] = await Promise.all([
+        fetch(`/api/workspaces/${workspaceId}`),
+        fetch('/api/settings'),
+      ]);
+      if (!workspaceResponse.ok || !settingsResponse.ok) throw new Error('Failed to fetch settings');
+      const { workspace } = await workspaceResponse.json();
+      const settings = await settingsResponse.json();
+      setWorkspaceIdleTimeout(workspace.idleTimeoutMinutes);
+      setUserIdleTimeout(settings.idleTimeoutMinutes);
+      setInitialUserIdleTimeout(settings.idleTimeoutMinutes);
+      setDefaultIdleTimeout(settings.defaultIdleTimeoutMinutes);
+      const workspaceResources: ResourceSelection = {
+        profile: workspace.resourceProfile,
+        memoryMb: workspace.memoryMb,
+        cpus: workspace.cpus,
+        diskGb: workspace.diskGb,
+      };
+      setResources(workspaceResources);
+      setInitialResources(workspaceResources);
+      setDiskUsageBytes(workspace.diskUsageBytes);
+
+      // Fetch status corrections, the section is left out if this fails
+      const eventsResponse = await fetch(`/api/workspaces/${workspaceId}/events`);
+      if (eventsResponse.ok) {
+        const { events } = await eventsResponse.json();
+        setEvents(events);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -81,6 +154,38 @@ export default function WorkspaceConfigDialog({
         throw new Error(data.error || 'Failed to update environments');
       }
 
+      // Changing resources recreates stopped containers, only send them when they changed
+      const resourcesChanged = (Object.keys(resources) as (keyof ResourceSelection)[]).some(
+        (key) => resources[key] !== initialResources[key]
+      );
+      const configureResponse = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'configure',
+          idleTimeoutMinutes: workspaceIdleTimeout,
+          ...(resourcesChanged && { resources }),
+        }),
+      });
+
+      if (!configureResponse.ok) {
+        const data = await configureResponse.json();
+        throw new Error(data.error || 'Failed to update workspace settings');
+      }
+
+      if (userIdleTimeout !== initialUserIdleTimeout) {
+        const settingsResponse = await fetch('/api/settings', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ idleTimeoutMinutes: userIdleTimeout }),
+        });
+
+        if (!settingsResponse.ok) {
+          const data = await settingsResponse.json();
+          throw new Error(data.error || 'Failed to update default idle timeout');
+        }
+      }
+
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -89,6 +194,27 @@ export default function WorkspaceConfigDialog({
     }
   };
 
+  // Snapshots are taken right away, independently of Save
+  const handleTakeSnapshot = async () => {
+    setIsSnapshotting(true);
+    setSnapshotError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/snapshots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: snapshotName.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to take snapshot');
+      setSnapshots((prev) => [data.snapshot, ...prev]);
+      setSnapshotName('');
+    } catch (err) {
+      setSnapshotError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSnapshotting(false);
+    }
+  };
+
   const getVariableCount = (env: Environment) => {
     try {
       return Object.keys(JSON.parse(env.variables)).length;
@@ -107,7 +233,7 @@ export default function WorkspaceConfigDialog({
             <div>
               <CardTitle className="text-xl">Workspace Configuration</CardTitle>
               <CardDescription className="mt-1">
-                Configure environments for <strong>{workspaceName}</strong>
+                Configure environments, auto-stop, snapshots and preview sharing for <strong>{workspaceName}</strong>
               </CardDescription>
             </div>
             <Button variant="ghost" size="icon" onClick={onClose}>
@@ -199,6 +325,173 @@ export default function WorkspaceConfigDialog({
                 )}
               </div>
 
+              <div>
+                <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+                  <Moon className="w-4 h-4" />
+                  Auto-stop
+                </h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Stop the workspace when there has been no OpenCode, VS Code or preview activity for
+                  this long. It resumes automatically the next time it is opened.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">
+                      This workspace
+                    </label>
+                    <select
+                      value={workspaceIdleTimeout ?? ''}
+                      onChange={(e) =>
+                        setWorkspaceIdleTimeout(e.target.value === '' ? null : Number(e.target.value))
+                      }
+                      className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+                    >
+                      <option value="">
+                        Your default ({formatIdleTimeout(userIdleTimeout ?? defaultIdleTimeout)})
+                      </option>
+                      {IDLE_TIMEOUT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">
+                      Your default for all workspaces
+                    </label>
+                    <select
+                      value={userIdleTimeout ?? ''}
+                      onChange={(e) =>
+                        setUserIdleTimeout(e.target.value === '' ? null : Number(e.target.value))
+                      }
+                      className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+                    >
+                      <option value="">Instance default ({formatIdleTimeout(defaultIdleTimeout)})</option>
+                      {IDLE_TIMEOUT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+                  <Cpu className="w-4 h-4" />
+                  Resources
+                </h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  A running workspace gets new CPU and memory limits right away, a stopped one is
+                  rebuilt with them and started. Files are kept either way. The disk quota is soft:
+                  usage is measured every 5 minutes and a workspace that stays over it is stopped.
+                </p>
+                <ResourceProfilePicker value={resources} onChange={setResources} />
+                {diskUsageBytes !== null && (
+                  <div className="mt-3">
+                    <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                      <span>Disk usage</span>
+                      <span>
+                        {formatSnapshotSize(diskUsageBytes) || '0 KB'} of {initialResources.diskGb} GB
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                      <div
+                        className={cn(
+                          'h-full rounded-full',
+                          diskUsageBytes > initialResources.diskGb * 1024 ** 3 ? 'bg-destructive' : 'bg-primary'
+                        )}
+                        style={{
+                          width: `${Math.min(100, (diskUsageBytes / (initialResources.diskGb * 1024 ** 3)) * 100)}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+                  <Archive className="w-4 h-4" />
+                  Snapshots
+                </h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Save the workspace files and OpenCode sessions, e.g. before a risky agent run.
+                  The workspace is paused while the snapshot is taken.
+                </p>
+                <div className="flex gap-2 mb-3">
+                  <input
+                    type="text"
+                    value={snapshotName}
+                    onChange={(e) => setSnapshotName(e.target.value)}
+                    placeholder="Snapshot name (optional)"
+                    maxLength={100}
+                    className="flex-1 px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleTakeSnapshot}
+                    disabled={isSnapshotting}
+                    className="gap-2"
+                  >
+                    {isSnapshotting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+                    Take Snapshot
+                  </Button>
+                </div>
+                {snapshotError && <p className="text-sm text-destructive mb-3">{snapshotError}</p>}
+                <SnapshotList
+                  snapshots={snapshots}
+                  onDeleted={(snapshotId) =>
+                    setSnapshots((prev) => prev.filter((snapshot) => snapshot.id !== snapshotId))
+                  }
+                  emptyMessage="No snapshots of this workspace yet."
+                />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+                  <Share2 className="w-4 h-4" />
+                  Preview Sharing
+                </h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Previews are private. Share links let people without an account see every preview
+                  port of this workspace until the link expires or is revoked.
+                </p>
+                <PreviewShareLinks workspaceId={workspaceId} />
+              </div>
+
+              {events.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    Events
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Changes made when the workspace's containers didn't match its status, e.g. after
+                    a crash or a server restart.
+                  </p>
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {events.map((event) => (
+                      <div key={event.id} className="flex items-start gap-2 text-sm">
+                        {event.type === 'missing' ? (
+                          <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-500 flex-shrink-0" />
+                        ) : (
+                          <History className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-foreground">{event.message}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(event.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {linkedEnvironmentIds.length > 0 && (
                 <div className="p-4 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                   <p className="text-sm text-blue-500">
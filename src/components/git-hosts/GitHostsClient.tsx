@@ -0,0 +1,403 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Rocket,
+  User,
+  ChevronDown,
+  LogOut,
+  ArrowLeft,
+  Plus,
+  Trash2,
+  Loader2,
+  KeyRound,
+  GitBranch,
+  ShieldCheck,
+} from 'lucide-react';
+import { signOut } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { ThemeToggle } from '@/components/ui/ThemeToggle';
+import type { GitConnectionInfo } from '@/lib/git-connections';
+import type { GitProviderType } from '@/lib/git-providers';
+
+interface GitHostsClientProps {
+  user: {
+    name?: string | null;
+    email?: string | null;
+    image?: string | null;
+  };
+  initialConnections: GitConnectionInfo[];
+}
+
+const PROVIDER_OPTIONS: Record<GitProviderType, { label: string; baseUrl: string; scopes: string }> = {
+  gitlab: {
+    label: 'GitLab',
+    baseUrl: 'https://gitlab.com',
+    scopes: 'A personal access token with the read_api and write_repository scopes',
+  },
+  gitea: {
+    label: 'Gitea / Forgejo',
+    baseUrl: 'https://gitea.example.com',
+    scopes: 'An access token with read access to the user and read and write access to repositories',
+  },
+  github: {
+    label: 'GitHub Enterprise',
+    baseUrl: 'https://github.example.com',
+    scopes: 'A personal access token with the repo scope',
+  },
+  generic: {
+    label: 'Other (HTTPS)',
+    baseUrl: 'https://git.example.com',
+    scopes: 'The password or token git uses for HTTPS clones from this host',
+  },
+};
+
+export default function GitHostsClient({ user, initialConnections }: GitHostsClientProps) {
+  const router = useRouter();
+  const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [connections, setConnections] = useState(initialConnections);
+  const [type, setType] = useState<GitProviderType>('gitlab');
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [token, setToken] = useState('');
+  const [sshHostKeys, setSshHostKeys] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // Host keys of one connection are edited at a time
+  const [editingKeysId, setEditingKeysId] = useState<string | null>(null);
+  const [keysDraft, setKeysDraft] = useState('');
+  const [isSavingKeys, setIsSavingKeys] = useState(false);
+  const [keysError, setKeysError] = useState<string | null>(null);
+
+  const option = PROVIDER_OPTIONS[type];
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      const response = await fetch('/api/git-connections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          name: name.trim() || option.label,
+          baseUrl: baseUrl.trim() || undefined,
+          username: username.trim() || undefined,
+          token,
+          sshHostKeys: sshHostKeys.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to connect');
+
+      setConnections((prev) => [...prev, data.connection]);
+      setName('');
+      setBaseUrl('');
+      setUsername('');
+      setToken('');
+      setSshHostKeys('');
+    } catch (err) {
+      setAddError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleEditKeys = (connection: GitConnectionInfo) => {
+    if (editingKeysId === connection.id) {
+      setEditingKeysId(null);
+      return;
+    }
+    setEditingKeysId(connection.id);
+    setKeysDraft(connection.sshHostKeys.join('\n'));
+    setKeysError(null);
+  };
+
+  const handleSaveKeys = async (connection: GitConnectionInfo) => {
+    setIsSavingKeys(true);
+    setKeysError(null);
+    try {
+      const response = await fetch(`/api/git-connections/${connection.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sshHostKeys: keysDraft }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save host keys');
+
+      setConnections((prev) => prev.map((item) => (item.id === connection.id ? data.connection : item)));
+      setEditingKeysId(null);
+    } catch (err) {
+      setKeysError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSavingKeys(false);
+    }
+  };
+
+  const handleDelete = async (connection: GitConnectionInfo) => {
+    if (!confirm(`Remove ${connection.name}? Its token is deleted, new workspaces can't clone from ${connection.baseUrl} with it.`)) {
+      return;
+    }
+
+    setDeletingId(connection.id);
+    try {
+      const response = await fetch(`/api/git-connections/${connection.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setConnections((prev) => prev.filter((item) => item.id !== connection.id));
+      }
+    } catch (err) {
+      console.error('Error deleting git connection:', err);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all';
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3 cursor-pointer" onClick={() => router.push('/dashboard')}>
+              <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Rocket className="w-5 h-5 text-primary" />
+              </div>
+              <div className="hidden sm:block">
+                <h1 className="text-lg font-bold text-foreground">Open Web Agent</h1>
+                <p className="text-xs text-muted-foreground">Git Hosts</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <ThemeToggle className="hidden sm:flex" />
+              <div className="relative">
+                <button
+                  onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
+                  className="flex items-center gap-2 p-1.5 rounded-lg hover:bg-muted transition-colors"
+                >
+                  {user.image ? (
+                    <img src={user.image} alt={user.name || 'User'} className="w-8 h-8 rounded-full" />
+                  ) : (
+                    <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                      <User className="w-4 h-4 text-primary" />
+                    </div>
+                  )}
+                  <span className="hidden md:block text-sm font-medium text-foreground">
+                    {user.name || user.email}
+                  </span>
+                  <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                </button>
+
+                {isUserMenuOpen && (
+                  <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsUserMenuOpen(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-56 bg-card border border-border rounded-lg shadow-lg z-50 animate-slide-down">
+                      <div className="p-2">
+                        <div className="px-2 py-3 border-b border-border mb-2">
+                          <p className="text-sm font-medium text-foreground">{user.name}</p>
+                          <p className="text-xs text-muted-foreground">{user.email}</p>
+                        </div>
+                        <button
+                          onClick={() => signOut({ callbackUrl: '/login' })}
+                          className="w-full flex items-center gap-2 px-2 py-2 text-sm text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                        >
+                          <LogOut className="w-4 h-4" />
+                          Sign Out
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Git Hosts</h2>
+            <p className="text-muted-foreground">
+              Create workspaces from GitLab, Gitea and other hosts besides your GitHub account.
+              Tokens are stored encrypted and used to clone and push.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+          <div className="lg:col-span-8 space-y-3">
+            {connections.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No git hosts connected yet. Repositories of your GitHub account are always available.
+              </p>
+            )}
+            {connections.map((connection) => (
+              <Card key={connection.id}>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                      <GitBranch className="w-5 h-5 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground truncate">{connection.name}</span>
+                        <Badge variant="secondary">{PROVIDER_OPTIONS[connection.type]?.label ?? connection.type}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {connection.baseUrl}
+                        {connection.username && ` · ${connection.username}`}
+                        {` · added ${new Date(connection.createdAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEditKeys(connection)}
+                      className="gap-1.5"
+                      title="Keys the host's SSH server has to present"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      {connection.sshHostKeys.length === 0
+                        ? 'Host keys'
+                        : `${connection.sshHostKeys.length} host key${connection.sshHostKeys.length === 1 ? '' : 's'}`}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => handleDelete(connection)}
+                      disabled={deletingId === connection.id}
+                      title="Remove"
+                    >
+                      {deletingId === connection.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      )}
+                    </Button>
+                  </div>
+                  {editingKeysId === connection.id && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        Workspaces only clone from this host over SSH if it presents one of these keys. Paste
+                        the output of <code>ssh-keyscan {new URL(connection.baseUrl).hostname}</code> after
+                        checking its fingerprints with the host&apos;s admin. New and rebuilt workspaces get
+                        the changes.
+                      </p>
+                      <textarea
+                        value={keysDraft}
+                        onChange={(e) => setKeysDraft(e.target.value)}
+                        rows={4}
+                        spellCheck={false}
+                        placeholder={`${new URL(connection.baseUrl).hostname} ssh-ed25519 AAAA...`}
+                        className={`${inputClassName} font-mono text-xs`}
+                      />
+                      {keysError && <p className="text-sm text-destructive">{keysError}</p>}
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingKeysId(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => handleSaveKeys(connection)} disabled={isSavingKeys} className="gap-1.5">
+                          {isSavingKeys && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="lg:col-span-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <KeyRound className="w-4 h-4" />
+                  Connect a Git Host
+                </CardTitle>
+                <CardDescription>{option.scopes}.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <select
+                  value={type}
+                  onChange={(e) => setType(e.target.value as GitProviderType)}
+                  className={inputClassName}
+                >
+                  {(Object.keys(PROVIDER_OPTIONS) as GitProviderType[]).map((value) => (
+                    <option key={value} value={value}>{PROVIDER_OPTIONS[value].label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={`Name (defaults to ${option.label})`}
+                  maxLength={100}
+                  className={inputClassName}
+                />
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder={option.baseUrl}
+                  className={inputClassName}
+                />
+                {type === 'generic' && (
+                  <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    className={inputClassName}
+                  />
+                )}
+                <input
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="Access token"
+                  autoComplete="off"
+                  className={inputClassName}
+                />
+                <textarea
+                  value={sshHostKeys}
+                  onChange={(e) => setSshHostKeys(e.target.value)}
+                  rows={3}
+                  spellCheck={false}
+                  placeholder="SSH host keys for SSH clone URLs (optional), the output of ssh-keyscan"
+                  className={`${inputClassName} font-mono text-xs`}
+                />
+                {addError && <p className="text-sm text-destructive">{addError}</p>}
+                <Button
+                  onClick={handleAdd}
+                  disabled={
+                    !token.trim() ||
+                    ((type === 'gitea' || type === 'generic') && !baseUrl.trim()) ||
+                    (type === 'github' && !baseUrl.trim()) ||
+                    isAdding
+                  }
+                  className="w-full gap-2"
+                >
+                  {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                  Connect
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Archive, Download, History, Copy, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import type { Snapshot } from '@prisma/client';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Tooltip } from '@/components/ui/Tooltip';
+
+export type SnapshotWithWorkspace = Snapshot & {
+  workspace?: { id: string; name: string } | null;
+};
+
+// Load snapshots from an API route and refresh them while any is still being created
+export function useSnapshots(url: string | null, initialSnapshots: SnapshotWithWorkspace[] = []) {
+  const [snapshots, setSnapshots] = useState<SnapshotWithWorkspace[]>(initialSnapshots);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!url) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error('Failed to fetch snapshots');
+      const data = await response.json();
+      setSnapshots(data.snapshots);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [url]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refresh();
+  }, [refresh]);
+
+  const hasPending = snapshots.some((snapshot) => snapshot.status === 'creating');
+  useEffect(() => {
+    if (!hasPending) return;
+    const interval = setInterval(refresh, 3000);
+    return () => clearInterval(interval);
+  }, [hasPending, refresh]);
+
+  return { snapshots, setSnapshots, isLoading, error, refresh };
+}
+
+export function formatSnapshotSize(bytes: number | null) {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+interface SnapshotListProps {
+  snapshots: SnapshotWithWorkspace[];
+  onDeleted: (snapshotId: string) => void;
+  // Show which workspace each snapshot was taken from
+  showWorkspace?: boolean;
+  emptyMessage?: string;
+}
+
+export function SnapshotList({ snapshots, onDeleted, showWorkspace, emptyMessage }: SnapshotListProps) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const withBusy = async (snapshotId: string, action: () => Promise<void>) => {
+    setBusy((prev) => ({ ...prev, [snapshotId]: true }));
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusy((prev) => ({ ...prev, [snapshotId]: false }));
+    }
+  };
+
+  const handleRestore = (snapshot: SnapshotWithWorkspace) => withBusy(snapshot.id, async () => {
+    if (!confirm(
+      `Restore "${snapshot.name}"? All files and OpenCode sessions in the workspace will be replaced by the snapshot.`
+    )) {
+      return;
+    }
+
+    const response = await fetch(`/api/snapshots/${snapshot.id}/restore`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to restore snapshot');
+    router.push(`/workspace/${data.workspace.id}`);
+  });
+
+  const handleRestoreAsNew = (snapshot: SnapshotWithWorkspace) => withBusy(snapshot.id, async () => {
+    const name = prompt('Name of the new workspace', `${snapshot.workspace?.name || snapshot.name} (restored)`);
+    if (!name) return;
+
+    const response = await fetch('/api/workspaces', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, snapshotId: snapshot.id }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to create workspace');
+    router.push(`/workspace/${data.workspace.id}`);
+  });
+
+  const handleDelete = (snapshot: SnapshotWithWorkspace) => withBusy(snapshot.id, async () => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/snapshots/${snapshot.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to delete snapshot');
+    }
+    onDeleted(snapshot.id);
+  });
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="text-center py-8 border-2 border-dashed border-border rounded-lg">
+        <Archive className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+        <p className="text-sm text-muted-foreground">{emptyMessage || 'No snapshots yet.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+      {snapshots.map((snapshot) => {
+        const size = formatSnapshotSize(snapshot.sizeBytes);
+        const isBusy = busy[snapshot.id];
+
+        return (
+          <div
+            key={snapshot.id}
+            className="flex items-center gap-3 p-3 rounded-lg border border-border"
+          >
+            <Archive className="w-4 h-4 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-foreground truncate">{snapshot.name}</span>
+                {snapshot.status === 'creating' && (
+                  <Badge variant="outline" className="gap-1">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Creating
+                  </Badge>
+                )}
+                {snapshot.status === 'error' && (
+                  <Badge variant="error" className="gap-1">
+                    <AlertCircle className="w-3 h-3" />
+                    Failed
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {new Date(snapshot.createdAt).toLocaleString()}
+                {size && ` · ${size}`}
+                {showWorkspace && ` · ${snapshot.workspace?.name || snapshot.githubRepo.replace('https://github.com/', '')}`}
+                {snapshot.status === 'error' && snapshot.statusReason && ` · ${snapshot.statusReason}`}
+              </p>
+            </div>
+            {snapshot.status === 'ready' && (
+              <div className="flex items-center gap-1 shrink-0">
+                {snapshot.workspaceId && (
+                  <Tooltip content="Restore into its workspace">
+                    <Button variant="ghost" size="icon-sm" onClick={() => handleRestore(snapshot)} disabled={isBusy}>
+                      <History className="w-4 h-4" />
+                    </Button>
+                  </Tooltip>
+                )}
+                <Tooltip content="Restore as new workspace">
+                  <Button variant="ghost" size="icon-sm" onClick={() => handleRestoreAsNew(snapshot)} disabled={isBusy}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </Tooltip>
+                <Tooltip content="Download">
+                  <Button variant="ghost" size="icon-sm" asChild>
+                    <a href={`/api/snapshots/${snapshot.id}/download`} download>
+                      <Download className="w-4 h-4" />
+                    </a>
+                  </Button>
+                </Tooltip>
+              </div>
+            )}
+            {snapshot.status !== 'creating' && (
+              <Tooltip content="Delete">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleDelete(snapshot)}
+                  disabled={isBusy}
+                  className="text-destructive hover:text-destructive shrink-0"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </Tooltip>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
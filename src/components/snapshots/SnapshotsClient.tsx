@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import {
+  Rocket,
+  User,
+  ChevronDown,
+  LogOut,
+  ArrowLeft,
+  Upload,
+  Loader2,
+} from 'lucide-react';
+import { signOut } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { ThemeToggle } from '@/components/ui/ThemeToggle';
+import { SnapshotList, useSnapshots, type SnapshotWithWorkspace } from './SnapshotList';
+
+interface SnapshotsClientProps {
+  user: {
+    name?: string | null;
+    email?: string | null;
+    image?: string | null;
+  };
+  initialSnapshots: SnapshotWithWorkspace[];
+}
+
+export default function SnapshotsClient({ user, initialSnapshots }: SnapshotsClientProps) {
+  const router = useRouter();
+  const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const { snapshots, setSnapshots } = useSnapshots('/api/snapshots', initialSnapshots);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importName, setImportName] = useState('');
+  const [importRepo, setImportRepo] = useState('');
+  const [importBranch, setImportBranch] = useState('main');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    if (!importFile || !importRepo) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const params = new URLSearchParams({
+        name: importName.trim() || importFile.name.replace(/\.tar\.gz$/, ''),
+        githubRepo: importRepo.trim(),
+        githubBranch: importBranch.trim() || 'main',
+      });
+      // The archive is sent as the raw body so large files aren't buffered by the server
+      const response = await fetch(`/api/snapshots/import?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/gzip' },
+        body: importFile,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to import snapshot');
+
+      setSnapshots((prev) => [data.snapshot, ...prev]);
+      setImportFile(null);
+      setImportName('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3 cursor-pointer" onClick={() => router.push('/dashboard')}>
+              <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Rocket className="w-5 h-5 text-primary" />
+              </div>
+              <div className="hidden sm:block">
+                <h1 className="text-lg font-bold text-foreground">Open Web Agent</h1>
+                <p className="text-xs text-muted-foreground">Snapshots</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <ThemeToggle className="hidden sm:flex" />
+              <div className="relative">
+                <button
+                  onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
+                  className="flex items-center gap-2 p-1.5 rounded-lg hover:bg-muted transition-colors"
+                >
+                  {user.image ? (
+                    <img src={user.image} alt={user.name || 'User'} className="w-8 h-8 rounded-full" />
+                  ) : (
+                    <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                      <User className="w-4 h-4 text-primary" />
+                    </div>
+                  )}
+                  <span className="hidden md:block text-sm font-medium text-foreground">
+                    {user.name || user.email}
+                  </span>
+                  <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                </button>
+
+                {isUserMenuOpen && (
+                  <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsUserMenuOpen(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-56 bg-card border border-border rounded-lg shadow-lg z-50 animate-slide-down">
+                      <div className="p-2">
+                        <div className="px-2 py-3 border-b border-border mb-2">
+                          <p className="text-sm font-medium text-foreground">{user.name}</p>
+                          <p className="text-xs text-muted-foreground">{user.email}</p>
+                        </div>
+                        <button
+                          onClick={() => signOut({ callbackUrl: '/login' })}
+                          className="w-full flex items-center gap-2 px-2 py-2 text-sm text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                        >
+                          <LogOut className="w-4 h-4" />
+                          Sign Out
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Snapshots</h2>
+            <p className="text-muted-foreground">
+              Restore, export and import snapshots of your workspaces. Take new snapshots from a
+              workspace&apos;s configuration.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+          <div className="lg:col-span-8">
+            <SnapshotList
+              snapshots={snapshots}
+              onDeleted={(snapshotId) =>
+                setSnapshots((prev) => prev.filter((snapshot) => snapshot.id !== snapshotId))
+              }
+              showWorkspace
+              emptyMessage="No snapshots yet. Take one from a workspace's configuration."
+            />
+          </div>
+
+          <div className="lg:col-span-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Upload className="w-4 h-4" />
+                  Import Snapshot
+                </CardTitle>
+                <CardDescription>
+                  Upload a .tar.gz archive downloaded from this or another instance.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".tar.gz,.tgz,application/gzip"
+                  onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-muted-foreground file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-muted file:text-foreground"
+                />
+                <input
+                  type="text"
+                  value={importName}
+                  onChange={(e) => setImportName(e.target.value)}
+                  placeholder="Name (defaults to the file name)"
+                  maxLength={100}
+                  className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+                />
+                <input
+                  type="text"
+                  value={importRepo}
+                  onChange={(e) => setImportRepo(e.target.value)}
+                  placeholder="https://github.com/owner/repo"
+                  className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+                />
+                <input
+                  type="text"
+                  value={importBranch}
+                  onChange={(e) => setImportBranch(e.target.value)}
+                  placeholder="Branch"
+                  className="w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+                />
+                {importError && <p className="text-sm text-destructive">{importError}</p>}
+                <Button
+                  onClick={handleImport}
+                  disabled={!importFile || !importRepo.trim() || isImporting}
+                  className="w-full gap-2"
+                >
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  Import
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
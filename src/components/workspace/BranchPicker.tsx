@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { GitBranch, GitPullRequest, Plus, Check, ChevronDown, Loader2, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface BranchInfo {
+  name: string;
+  remote: boolean;
+  current: boolean;
+}
+
+// What the picker switches to: an existing branch, a new one or a pull request
+type BranchTarget = { branch: string } | { create: string } | { pullRequest: number };
+
+interface BranchPickerProps {
+  workspaceId: string;
+  // Directory of the repository under /workspace, empty for a single repository
+  repository: string;
+  // Shown before the branch when the workspace holds several repositories
+  label?: string;
+  branch: string;
+  // Called with the branch the workspace is on after a switch
+  onSwitched: (branch: string) => void;
+}
+
+// Branch of a repository in the header, with a menu to switch, create a branch
+// or check out a pull request by number ("#123")
+export default function BranchPicker({ workspaceId, repository, label, branch, onSwitched }: BranchPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [branches, setBranches] = useState<BranchInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const gitUrl = `/api/workspaces/${workspaceId}/git`;
+  const repoQuery = `repo=${encodeURIComponent(repository)}`;
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setError(null);
+    inputRef.current?.focus();
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        // Fetch so branches pushed since the clone show up
+        const response = await fetch(`${gitUrl}/branches?fetch=true&${repoQuery}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load branches');
+        setBranches(data.branches);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load branches');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [open, gitUrl, repoQuery]);
+
+  const switchTo = async (target: BranchTarget) => {
+    setSwitching(true);
+    setError(null);
+    try {
+      // Uncommitted changes come along to the other branch, make sure that's intended
+      const statusResponse = await fetch(`${gitUrl}/status?${repoQuery}`);
+      const status = await statusResponse.json();
+      if (statusResponse.ok && status.files.length > 0) {
+        const count = status.files.length;
+        const proceed = confirm(
+          `${count} file${count === 1 ? ' has' : 's have'} uncommitted changes. They are carried over to ` +
+          'the other branch, or the switch fails if they conflict. Commit them first to keep them on ' +
+          `${branch}. Switch anyway?`
+        );
+        if (!proceed) return;
+      }
+
+      const response = await fetch(`${gitUrl}/branches?${repoQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to switch branch');
+      onSwitched(data.branch);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch branch');
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  const search = query.trim();
+  const pullRequestNumber = /^#?(\d+)$/.exec(search)?.[1];
+  const localNames = new Set(branches.filter((b) => !b.remote).map((b) => b.name));
+  // Remote branches that already have a local branch are listed once
+  const listed = branches.filter((b) => !(b.remote && localNames.has(b.name.replace(/^[^/]+\//, ''))));
+  const matches = listed.filter((b) => b.name.toLowerCase().includes(search.toLowerCase()));
+  const canCreate = search && !pullRequestNumber && !branches.some((b) => b.name === search);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors max-w-[14rem]"
+        title="Switch branch"
+      >
+        <GitBranch className="w-3 h-3 shrink-0" />
+        {label && <span className="text-foreground/70">{label}:</span>}
+        <span className="truncate">{branch}</span>
+        <ChevronDown className="w-3 h-3 shrink-0" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => !switching && setOpen(false)} />
+          <div className="absolute left-0 top-full mt-2 w-72 bg-card border border-border rounded-lg shadow-lg z-50 animate-in fade-in-0 slide-in-from-top-2 duration-150">
+            <div className="p-2 border-b border-border">
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Branch name or #pull request"
+                className="w-full px-2 py-1.5 bg-muted/50 border border-border rounded text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+            </div>
+
+            <div className="max-h-72 overflow-y-auto p-1">
+              {pullRequestNumber && (
+                <MenuItem
+                  icon={<GitPullRequest className="w-3.5 h-3.5" />}
+                  label={`Check out pull request #${pullRequestNumber}`}
+                  disabled={switching}
+                  onClick={() => switchTo({ pullRequest: parseInt(pullRequestNumber, 10) })}
+                />
+              )}
+              {canCreate && (
+                <MenuItem
+                  icon={<Plus className="w-3.5 h-3.5" />}
+                  label={`Create branch ${search} from ${branch}`}
+                  disabled={switching}
+                  onClick={() => switchTo({ create: search })}
+                />
+              )}
+              {loading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                matches.map((item) => (
+                  <MenuItem
+                    key={`${item.remote}:${item.name}`}
+                    icon={item.current ? <Check className="w-3.5 h-3.5" /> : <GitBranch className="w-3.5 h-3.5" />}
+                    label={item.name}
+                    muted={item.remote}
+                    disabled={switching || item.current}
+                    onClick={() => switchTo({ branch: item.name })}
+                  />
+                ))
+              )}
+            </div>
+
+            {(switching || error) && (
+              <div className="p-2 border-t border-border text-xs">
+                {switching ? (
+                  <span className="flex items-center gap-1.5 text-muted-foreground">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    Switching...
+                  </span>
+                ) : (
+                  <span className="flex items-start gap-1.5 text-destructive">
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                    <span className="whitespace-pre-wrap">{error}</span>
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface MenuItemProps {
+  icon: React.ReactNode;
+  label: string;
+  muted?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}
+
+function MenuItem({ icon, label, muted, disabled, onClick }: MenuItemProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        'w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs transition-colors',
+        'hover:bg-muted disabled:opacity-60 disabled:hover:bg-transparent',
+        muted ? 'text-muted-foreground' : 'text-foreground'
+      )}
+    >
+      {icon}
+      <span className="truncate">{label}</span>
+    </button>
+  );
+}
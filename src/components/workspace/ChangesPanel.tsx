@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  RefreshCw,
+  ArrowUp,
+  ArrowDown,
+  GitBranch,
+  GitCommitHorizontal,
+  GitPullRequest,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  AlertCircle,
+} from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { cn } from '@/lib/utils';
+import PullRequestDialog from './PullRequestDialog';
+
+interface GitFileStatus {
+  path: string;
+  origPath?: string;
+  index: string;
+  worktree: string;
+}
+
+interface GitStatus {
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+interface GitFileDiff {
+  path: string;
+  patch: string;
+}
+
+interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+type DiffMode = 'unstaged' | 'staged';
+
+const STATUS_LABELS: Record<string, string> = {
+  M: 'Modified',
+  A: 'Added',
+  D: 'Deleted',
+  R: 'Renamed',
+  C: 'Copied',
+  U: 'Conflict',
+  '?': 'Untracked',
+};
+
+interface ChangesPanelProps {
+  workspaceId: string;
+  // Directories of the workspace's repositories, a single empty one for /workspace itself
+  repositoryPaths: string[];
+}
+
+// What the agent changed in a repository: diffs per file, commit, push and pull
+export default function ChangesPanel({ workspaceId, repositoryPaths }: ChangesPanelProps) {
+  const [repository, setRepository] = useState(repositoryPaths[0] ?? '');
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [mode, setMode] = useState<DiffMode>('unstaged');
+  const [diffs, setDiffs] = useState<GitFileDiff[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  // The git action in progress, if any
+  const [busy, setBusy] = useState<'commit' | 'push' | 'pull' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showPullRequest, setShowPullRequest] = useState(false);
+
+  const gitUrl = `/api/workspaces/${workspaceId}/git`;
+  const repoQuery = `repo=${encodeURIComponent(repository)}`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [statusResponse, diffResponse, logResponse] = await Promise.all([
+        fetch(`${gitUrl}/status?${repoQuery}`),
+        fetch(`${gitUrl}/diff?staged=${mode === 'staged'}&${repoQuery}`),
+        fetch(`${gitUrl}/log?limit=10&${repoQuery}`),
+      ]);
+      const [statusData, diffData, logData] = await Promise.all([
+        statusResponse.json(),
+        diffResponse.json(),
+        logResponse.json(),
+      ]);
+
+      if (!statusResponse.ok) {
+        setError(statusData.error || 'Failed to load git status');
+        return;
+      }
+      setError(null);
+      setStatus(statusData);
+      if (diffResponse.ok) {
+        setDiffs(diffData.files);
+        setTruncated(diffData.truncated);
+      }
+      if (logResponse.ok) setCommits(logData.commits);
+    } catch (err) {
+      console.error('Error loading changes:', err);
+      setError('Failed to load changes');
+    } finally {
+      setLoading(false);
+    }
+  }, [gitUrl, repoQuery, mode]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (action: 'commit' | 'push' | 'pull', body?: object) => {
+    setBusy(action);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`${gitUrl}/${action}?${repoQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || `git ${action} failed`);
+        return false;
+      }
+      setNotice(action === 'commit' ? `Committed ${data.commit.shortHash}` : action === 'push' ? 'Pushed' : 'Pulled');
+      return true;
+    } catch (err) {
+      console.error(`Error running git ${action}:`, err);
+      setError(`git ${action} failed`);
+      return false;
+    } finally {
+      setBusy(null);
+      load();
+    }
+  };
+
+  const stagedCount = status?.files.filter((file) => file.index !== '.' && file.index !== '?').length ?? 0;
+  const changedCount = status?.files.length ?? 0;
+
+  const handleCommit = async () => {
+    // Commit what is staged, or everything when nothing is
+    if (await runAction('commit', { message, all: stagedCount === 0 })) {
+      setMessage('');
+    }
+  };
+
+  const toggleFile = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border/50 bg-card/50">
+        {repositoryPaths.length > 1 && (
+          <select
+            value={repository}
+            onChange={(e) => {
+              setRepository(e.target.value);
+              setNotice(null);
+            }}
+            className="px-1.5 py-0.5 bg-muted/50 border border-border rounded text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+            title="Repository"
+          >
+            {repositoryPaths.map((path) => (
+              <option key={path} value={path}>{path}</option>
+            ))}
+          </select>
+        )}
+        <GitBranch className="w-3.5 h-3.5 text-muted-foreground" />
+        <span className="text-xs font-medium text-foreground truncate">
+          {status ? status.branch ?? 'Detached HEAD' : '...'}
+        </span>
+        {status && (status.ahead > 0 || status.behind > 0) && (
+          <span className="text-xs text-muted-foreground">
+            {status.ahead > 0 && `↑${status.ahead}`} {status.behind > 0 && `↓${status.behind}`}
+          </span>
+        )}
+
+        <div className="flex items-center bg-muted rounded p-0.5 ml-2">
+          {(['unstaged', 'staged'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={cn(
+                'px-2 py-0.5 text-xs rounded transition-colors',
+                mode === value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {value === 'unstaged' ? 'Changes' : `Staged${stagedCount ? ` (${stagedCount})` : ''}`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1" />
+
+        <Button variant="ghost" size="icon-sm" onClick={() => runAction('pull')} disabled={busy !== null} title="Pull">
+          {busy === 'pull' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ArrowDown className="w-3.5 h-3.5" />}
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={() => runAction('push')} disabled={busy !== null} title="Push">
+          {busy === 'push' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ArrowUp className="w-3.5 h-3.5" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setShowPullRequest(true)}
+          disabled={busy !== null}
+          title="Open pull request"
+        >
+          <GitPullRequest className="w-3.5 h-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={load} disabled={loading} title="Refresh">
+          <RefreshCw className={cn('w-3.5 h-3.5', loading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {/* Commit */}
+        <div className="p-3 border-b border-border/50 space-y-2">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Commit message"
+            rows={2}
+            className="w-full resize-none rounded-md border border-border bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-ring"
+          />
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              onClick={handleCommit}
+              disabled={busy !== null || !message.trim() || changedCount === 0}
+            >
+              {busy === 'commit' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <GitCommitHorizontal className="w-3.5 h-3.5" />}
+              {stagedCount > 0 ? `Commit ${stagedCount} staged` : 'Commit all'}
+            </Button>
+            {notice && <span className="text-xs text-muted-foreground">{notice}</span>}
+          </div>
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-destructive">
+              <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <pre className="whitespace-pre-wrap font-mono">{error}</pre>
+            </div>
+          )}
+        </div>
+
+        {/* Diffs */}
+        {diffs.length === 0 && !loading && (
+          <p className="p-3 text-sm text-muted-foreground">
+            {mode === 'staged' ? 'Nothing staged' : 'No changes'}
+          </p>
+        )}
+        {diffs.map((diff) => {
+          const file = status?.files.find((item) => item.path === diff.path);
+          const letter = file ? (mode === 'staged' ? file.index : file.worktree) : undefined;
+          const isCollapsed = collapsed.has(diff.path);
+          return (
+            <div key={diff.path} className="border-b border-border/50">
+              <button
+                onClick={() => toggleFile(diff.path)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-muted/50 sticky top-0 bg-background"
+              >
+                {isCollapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                <span className="font-mono truncate">{diff.path}</span>
+                {letter && STATUS_LABELS[letter] && (
+                  <Badge variant={letter === 'D' ? 'error' : letter === 'U' ? 'warning' : 'secondary'}>
+                    {STATUS_LABELS[letter]}
+                  </Badge>
+                )}
+              </button>
+              {!isCollapsed && <DiffView patch={diff.patch} />}
+            </div>
+          );
+        })}
+        {truncated && (
+          <p className="p-3 text-xs text-muted-foreground">
+            The diff is too large to show completely, open VS Code to see the rest
+          </p>
+        )}
+
+        {/* Recent commits */}
+        {commits.length > 0 && (
+          <div className="p-3">
+            <h4 className="text-xs font-medium text-muted-foreground mb-2">Recent commits</h4>
+            <div className="space-y-1">
+              {commits.map((commit) => (
+                <div key={commit.hash} className="flex items-center gap-2 text-xs">
+                  <span className="font-mono text-muted-foreground">{commit.shortHash}</span>
+                  <span className="truncate text-foreground">{commit.subject}</span>
+                  <span className="ml-auto shrink-0 text-muted-foreground">
+                    {commit.author}, {new Date(commit.date).toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <PullRequestDialog
+        workspaceId={workspaceId}
+        repository={repository}
+        open={showPullRequest}
+        onClose={() => setShowPullRequest(false)}
+        onOpened={() => {
+          setNotice('Pull request opened');
+          load();
+        }}
+      />
+    </div>
+  );
+}
+
+// A unified diff with added and removed lines highlighted, without the file headers
+function DiffView({ patch }: { patch: string }) {
+  const lines = patch.split('\n');
+  const firstHunk = lines.findIndex((line) => line.startsWith('@@'));
+
+  if (firstHunk === -1) {
+    return (
+      <p className="px-3 pb-2 text-xs text-muted-foreground">
+        {/Binary files/.test(patch) ? 'Binary file' : 'No content changes'}
+      </p>
+    );
+  }
+
+  return (
+    <pre className="text-xs font-mono leading-5 overflow-x-auto pb-1">
+      {lines.slice(firstHunk).map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'px-3 whitespace-pre',
+            line.startsWith('+') && 'bg-green-500/10 text-green-600 dark:text-green-400',
+            line.startsWith('-') && 'bg-red-500/10 text-red-600 dark:text-red-400',
+            line.startsWith('@@') && 'text-blue-500 bg-blue-500/5',
+            line.startsWith('\\') && 'text-muted-foreground'
+          )}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Radio, X } from 'lucide-react';
+import type { PreviewPortInfo } from '@/lib/preview-ports';
+import type { ListeningPort } from '@/lib/runtime';
+import { Button } from '@/components/ui/Button';
+
+// How often the OpenCode container is asked for listening ports
+const POLL_INTERVAL_MS = 10000;
+
+interface ListeningPortNoticeProps {
+  workspaceId: string;
+  // Previewed ports change what counts as new
+  previewPorts: PreviewPortInfo[];
+  // Called with the preview port created for a listening port
+  onExposed: (port: PreviewPortInfo) => void;
+}
+
+// Notification offering to preview ports a server started listening on. Dismissed ports
+// aren't offered again until the page is reloaded.
+export default function ListeningPortNotice({ workspaceId, previewPorts, onExposed }: ListeningPortNoticeProps) {
+  const [listening, setListening] = useState<ListeningPort[]>([]);
+  const [dismissed, setDismissed] = useState<number[]>([]);
+  const [exposing, setExposing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const poll = async () => {
+      // Nobody sees the notification in a background tab
+      if (document.visibilityState !== 'visible') return;
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/listening-ports`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (isMounted) setListening(data.ports);
+      } catch {
+        // Workspace not reachable right now, try again on the next poll
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      isMounted = false;
+      clearInterval(interval);
+    };
+  }, [workspaceId]);
+
+  const offered = listening.find(({ port }) =>
+    !dismissed.includes(port) && !previewPorts.some((preview) => preview.port === port)
+  );
+  if (!offered) return null;
+
+  const dismiss = () => {
+    setDismissed((prev) => [...prev, offered.port]);
+    setError(null);
+  };
+
+  const expose = async () => {
+    setExposing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/preview-ports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ port: offered.port }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add preview');
+      onExposed(data.port);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add preview');
+    } finally {
+      setExposing(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 bg-card border border-border rounded-lg shadow-lg p-3 animate-in fade-in-0 slide-in-from-bottom-2 duration-150">
+      <div className="flex items-start gap-2">
+        <Radio className="w-4 h-4 text-primary mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0 text-sm">
+          {offered.loopbackOnly ? (
+            <>
+              <p className="text-foreground">Port {offered.port} is listening on localhost only</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Previews can&apos;t reach it. Start the server with <code>--host 0.0.0.0</code> to preview it.
+              </p>
+            </>
+          ) : (
+            <p className="text-foreground">Port {offered.port} is now listening — open preview?</p>
+          )}
+          {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+          {!offered.loopbackOnly && (
+            <div className="flex gap-2 mt-2">
+              <Button size="sm" onClick={expose} isLoading={exposing}>
+                Open preview
+              </Button>
+              <Button size="sm" variant="ghost" onClick={dismiss} disabled={exposing}>
+                Not now
+              </Button>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={dismiss}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
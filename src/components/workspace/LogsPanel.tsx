@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Trash2, Pause, Play, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+
+type LogSource = 'opencode' | 'code-server' | 'init';
+type StreamFilter = 'all' | 'stdout' | 'stderr';
+
+interface LogLine {
+  stream: 'stdout' | 'stderr';
+  line: string;
+  timestamp?: string;
+}
+
+const SOURCES: { id: LogSource; label: string }[] = [
+  { id: 'opencode', label: 'OpenCode' },
+  { id: 'code-server', label: 'VS Code' },
+  { id: 'init', label: 'Clone' },
+];
+
+const TAILS = ['100', '500', '2000', 'all'];
+
+// Lines kept in the browser, older ones are dropped while following
+const MAX_LINES = 5000;
+
+const selectClassName =
+  'bg-muted text-xs text-foreground rounded px-1.5 py-1 border-0 focus:outline-none focus:ring-1 focus:ring-ring';
+
+interface LogsPanelProps {
+  workspaceId: string;
+}
+
+export default function LogsPanel({ workspaceId }: LogsPanelProps) {
+  const [source, setSource] = useState<LogSource>('opencode');
+  const [streamFilter, setStreamFilter] = useState<StreamFilter>('all');
+  const [tail, setTail] = useState('500');
+  const [follow, setFollow] = useState(true);
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [ended, setEnded] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Auto-scroll only while the user is at the bottom
+  const stickToBottom = useRef(true);
+
+  useEffect(() => {
+    setLines([]);
+    setError(null);
+    setEnded(false);
+
+    const params = new URLSearchParams({ source, stream: streamFilter, tail, follow: String(follow) });
+    const controller = new AbortController();
+
+    // Read the event stream with fetch rather than EventSource, which hides the
+    // error message of a rejected request and reconnects on its own
+    (async () => {
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/logs?${params}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.error || 'Failed to load logs');
+          return;
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          buffer += chunk.value;
+          const events = buffer.split('\n\n');
+          buffer = events.pop() ?? '';
+
+          const received: LogLine[] = [];
+          for (const event of events) {
+            const data = event.split('\n').find((field) => field.startsWith('data: '))?.slice(6);
+            if (!data) continue;
+            if (event.startsWith('event: end')) {
+              const { error } = JSON.parse(data);
+              if (error) setError(error);
+              setEnded(true);
+            } else {
+              received.push(JSON.parse(data));
+            }
+          }
+          if (received.length > 0) {
+            setLines((prev) => {
+              const next = [...prev, ...received];
+              return next.length > MAX_LINES ? next.slice(next.length - MAX_LINES) : next;
+            });
+          }
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error streaming logs:', err);
+          setError('Lost the connection to the log stream');
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [workspaceId, source, streamFilter, tail, follow]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element && stickToBottom.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [lines]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+    stickToBottom.current = element.scrollHeight - element.scrollTop - element.clientHeight < 32;
+  };
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border/50 bg-card/50">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as LogSource)}
+          className={selectClassName}
+          title="Container"
+        >
+          {SOURCES.map((item) => (
+            <option key={item.id} value={item.id}>{item.label}</option>
+          ))}
+        </select>
+        <select
+          value={streamFilter}
+          onChange={(e) => setStreamFilter(e.target.value as StreamFilter)}
+          className={selectClassName}
+          title="Output stream"
+        >
+          <option value="all">stdout + stderr</option>
+          <option value="stdout">stdout</option>
+          <option value="stderr">stderr</option>
+        </select>
+        <select
+          value={tail}
+          onChange={(e) => setTail(e.target.value)}
+          className={selectClassName}
+          title="Past lines to load"
+        >
+          {TAILS.map((value) => (
+            <option key={value} value={value}>{value === 'all' ? 'All lines' : `Last ${value}`}</option>
+          ))}
+        </select>
+
+        <div className="flex-1" />
+
+        {ended && !error && (
+          <span className="text-xs text-muted-foreground">
+            {follow ? 'Container stopped' : 'End of logs'}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setFollow((prev) => !prev)}
+          title={follow ? 'Stop following' : 'Follow new lines'}
+        >
+          {follow ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={() => setLines([])} title="Clear">
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-auto px-3 py-2 font-mono text-xs leading-5"
+      >
+        {error ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <AlertCircle className="w-4 h-4 text-destructive" />
+            {error}
+          </div>
+        ) : lines.length === 0 ? (
+          <p className="text-muted-foreground">{ended ? 'No output' : 'Waiting for output...'}</p>
+        ) : (
+          lines.map((line, index) => (
+            <div
+              key={index}
+              className={cn('whitespace-pre-wrap break-all', line.stream === 'stderr' && 'text-red-500')}
+            >
+              {line.timestamp && (
+                <span className="text-muted-foreground/60 mr-2 select-none">
+                  {new Date(line.timestamp).toLocaleTimeString()}
+                </span>
+              )}
+              {line.line}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { Eye, Plus, Check, ChevronDown, Loader2, AlertCircle, Trash2 } from 'lucide-react';
+import type { PreviewPortInfo } from '@/lib/preview-ports';
+import { cn } from '@/lib/utils';
+
+interface PreviewPortPickerProps {
+  workspaceId: string;
+  ports: PreviewPortInfo[];
+  // Name of the port shown in the preview panel
+  selected: string | null;
+  onSelect: (name: string) => void;
+  // Called with the workspace's ports after one was added or removed
+  onPortsChange: (ports: PreviewPortInfo[]) => void;
+}
+
+// Port shown in the preview panel, with a menu to switch to another port, serve a new
+// one or stop serving one. Routes change while the workspace runs.
+export default function PreviewPortPicker({
+  workspaceId,
+  ports,
+  selected,
+  onSelect,
+  onPortsChange,
+}: PreviewPortPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [port, setPort] = useState('');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const portsUrl = `/api/workspaces/${workspaceId}/preview-ports`;
+  const current = ports.find((item) => item.name === selected) ?? ports[0];
+
+  const handleAdd = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(portsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ port: parseInt(port, 10), name: name.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add port');
+
+      onPortsChange([...ports, data.port]);
+      onSelect(data.port.name);
+      setPort('');
+      setName('');
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add port');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (item: PreviewPortInfo) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`${portsUrl}/${encodeURIComponent(item.name)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to remove port');
+      onPortsChange(ports.filter((other) => other.name !== item.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove port');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative hidden md:block">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 bg-muted text-xs text-foreground rounded px-1.5 py-1 hover:bg-muted/80 transition-colors"
+        title="Port shown in the preview"
+      >
+        <Eye className="w-3 h-3 text-muted-foreground" />
+        {current ? <PortLabel port={current} /> : <span className="text-muted-foreground">No preview</span>}
+        <ChevronDown className="w-3 h-3 text-muted-foreground" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => !busy && setOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-64 bg-card border border-border rounded-lg shadow-lg z-50 animate-in fade-in-0 slide-in-from-top-2 duration-150">
+            <div className="max-h-60 overflow-y-auto p-1">
+              {ports.length === 0 && (
+                <p className="px-2 py-1.5 text-xs text-muted-foreground">No ports are served as previews</p>
+              )}
+              {ports.map((item) => (
+                <div key={item.name} className="flex items-center gap-1">
+                  <button
+                    onClick={() => {
+                      onSelect(item.name);
+                      setOpen(false);
+                    }}
+                    className="flex-1 flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs text-foreground hover:bg-muted transition-colors"
+                  >
+                    <Check className={cn('w-3.5 h-3.5', item.name !== current?.name && 'invisible')} />
+                    <PortLabel port={item} />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(item)}
+                    disabled={busy}
+                    className="p-1.5 rounded text-muted-foreground hover:text-destructive hover:bg-muted disabled:opacity-60 transition-colors"
+                    title={`Stop serving port ${item.port}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-2 border-t border-border space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={65535}
+                  value={port}
+                  onChange={(e) => setPort(e.target.value)}
+                  placeholder="Port"
+                  className="w-20 px-2 py-1.5 bg-muted/50 border border-border rounded text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+                />
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name (optional)"
+                  maxLength={16}
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-muted/50 border border-border rounded text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+                />
+              </div>
+              <button
+                onClick={handleAdd}
+                disabled={!port || busy}
+                className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 rounded bg-primary text-primary-foreground text-xs hover:bg-primary/90 disabled:opacity-60 transition-colors"
+              >
+                {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+                Serve port
+              </button>
+              {error && (
+                <span className="flex items-start gap-1.5 text-xs text-destructive">
+                  <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                  <span>{error}</span>
+                </span>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// The name alone when it is the port number
+function PortLabel({ port }: { port: PreviewPortInfo }) {
+  if (port.name === String(port.port)) {
+    return <span>:{port.port}</span>;
+  }
+  return (
+    <span>
+      {port.name} <span className="text-muted-foreground">:{port.port}</span>
+    </span>
+  );
+}
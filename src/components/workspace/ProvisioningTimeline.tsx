@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Check, Loader2, X, Circle, AlertTriangle } from 'lucide-react';
+import type { ProvisioningEvent, ProvisioningStep, ProvisioningStepStatus } from '@/lib/provisioning';
+import { cn } from '@/lib/utils';
+
+// Steps shown in the timeline, in order
+const TIMELINE_STEPS: { id: ProvisioningStep; label: string }[] = [
+  { id: 'pull', label: 'Pull images' },
+  { id: 'volumes', label: 'Create volumes & network' },
+  { id: 'clone', label: 'Clone or restore files' },
+  { id: 'devcontainer', label: 'Prepare dev container image' },
+  { id: 'image', label: 'Prepare OpenCode image' },
+  { id: 'containers', label: 'Create containers' },
+  { id: 'start', label: 'Start containers' },
+  { id: 'setup', label: 'Run dev container setup' },
+  { id: 'health', label: 'Wait for OpenCode' },
+];
+
+// Steps whose failure leaves a usable workspace, shown as warnings
+const NON_FATAL_STEPS: ProvisioningStep[] = ['devcontainer', 'setup', 'health'];
+
+// Steps that stream command output, the latest line is shown while they run
+const OUTPUT_STEPS: ProvisioningStep[] = ['clone', 'devcontainer', 'image', 'setup'];
+
+export interface ProvisioningState {
+  events: ProvisioningEvent[];
+  ready: boolean;
+  error: string | null;
+}
+
+// Follow the provisioning stream of a workspace until it is ready or failed
+export function useProvisioning(workspaceId: string | null, enabled = true): ProvisioningState {
+  const [state, setState] = useState<ProvisioningState>({ events: [], ready: false, error: null });
+
+  useEffect(() => {
+    if (!workspaceId || !enabled) return;
+
+    setState({ events: [], ready: false, error: null });
+    const source = new EventSource(`/api/workspaces/${workspaceId}/provisioning`);
+
+    source.onmessage = (message) => {
+      const event: ProvisioningEvent = JSON.parse(message.data);
+      setState((prev) => ({
+        events: [...prev.events, event],
+        ready: prev.ready || event.step === 'ready',
+        error: event.step === 'error' ? event.message : prev.error,
+      }));
+      if (event.step === 'ready' || event.step === 'error') {
+        source.close();
+      }
+    };
+
+    // EventSource reconnects by itself on network errors, and the replay
+    // on reconnect makes duplicate events harmless for the derived timeline
+
+    return () => source.close();
+  }, [workspaceId, enabled]);
+
+  return state;
+}
+
+interface StepState {
+  status: ProvisioningStepStatus | 'pending';
+  message: string;
+}
+
+function deriveSteps(events: ProvisioningEvent[]) {
+  const steps: Partial<Record<ProvisioningStep, StepState>> = {};
+  const images: Record<string, { status: ProvisioningStepStatus; current?: number; total?: number }> = {};
+  const outputLines: Partial<Record<ProvisioningStep, string>> = {};
+
+  for (const event of events) {
+    if (event.step === 'pull' && event.image) {
+      images[event.image] = { status: event.status, current: event.current, total: event.total };
+      continue;
+    }
+    if (OUTPUT_STEPS.includes(event.step) && event.status === 'progress') {
+      outputLines[event.step] = event.line || event.message;
+      continue;
+    }
+    steps[event.step] = { status: event.status, message: event.message };
+  }
+
+  // The pull step is a summary of every image being pulled
+  const imageStates = Object.values(images);
+  if (imageStates.length > 0) {
+    const failed = imageStates.some((image) => image.status === 'failed');
+    const done = imageStates.every((image) => image.status === 'completed');
+    steps.pull = {
+      status: failed ? 'failed' : done ? 'completed' : 'started',
+      message: `${imageStates.filter((image) => image.status === 'completed').length}/${imageStates.length} images ready`,
+    };
+  }
+
+  return { steps, images, outputLines };
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface ProvisioningTimelineProps {
+  events: ProvisioningEvent[];
+  error?: string | null;
+  className?: string;
+}
+
+export function ProvisioningTimeline({ events, error, className }: ProvisioningTimelineProps) {
+  const { steps, images, outputLines } = deriveSteps(events);
+
+  // Restarting an existing workspace skips some steps, hide the ones that were passed over
+  const lastReached = TIMELINE_STEPS.reduce((last, step, index) => (steps[step.id] ? index : last), -1);
+  const visibleSteps = TIMELINE_STEPS.filter((step, index) => steps[step.id] || index > lastReached);
+
+  return (
+    <div className={cn('space-y-3 text-left', className)}>
+      {visibleSteps.map((step) => {
+        const state = steps[step.id];
+        const status = state?.status ?? 'pending';
+
+        return (
+          <div key={step.id} className="flex items-start gap-3">
+            <div className="mt-0.5 shrink-0">
+              {status === 'completed' ? (
+                <div className="w-5 h-5 rounded-full bg-green-500/10 flex items-center justify-center">
+                  <Check className="w-3 h-3 text-green-500" />
+                </div>
+              ) : status === 'failed' && NON_FATAL_STEPS.includes(step.id) && !error ? (
+                <div className="w-5 h-5 rounded-full bg-yellow-500/10 flex items-center justify-center">
+                  <AlertTriangle className="w-3 h-3 text-yellow-500" />
+                </div>
+              ) : status === 'failed' ? (
+                <div className="w-5 h-5 rounded-full bg-destructive/10 flex items-center justify-center">
+                  <X className="w-3 h-3 text-destructive" />
+                </div>
+              ) : status === 'pending' ? (
+                <Circle className="w-5 h-5 text-muted-foreground/40" />
+              ) : (
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p
+                className={cn(
+                  'text-sm font-medium',
+                  status === 'pending' ? 'text-muted-foreground' : 'text-foreground'
+                )}
+              >
+                {step.label}
+              </p>
+              {state && status !== 'pending' && (
+                <p className="text-xs text-muted-foreground truncate">{state.message}</p>
+              )}
+
+              {/* Per-image pull progress */}
+              {step.id === 'pull' && status === 'started' && (
+                <div className="mt-2 space-y-1.5">
+                  {Object.entries(images).map(([image, progress]) => {
+                    const percent = progress.status === 'completed'
+                      ? 100
+                      : progress.total
+                        ? Math.round(((progress.current || 0) / progress.total) * 100)
+                        : 0;
+                    return (
+                      <div key={image}>
+                        <div className="flex justify-between text-[11px] text-muted-foreground">
+                          <span className="truncate font-mono">{image}</span>
+                          <span className="shrink-0 ml-2">
+                            {progress.status === 'completed'
+                              ? 'done'
+                              : progress.total
+                                ? `${formatBytes(progress.current || 0)} / ${formatBytes(progress.total)}`
+                                : 'waiting'}
+                          </span>
+                        </div>
+                        <div className="h-1 bg-muted rounded-full overflow-hidden mt-0.5">
+                          <div
+                            className="h-full bg-primary transition-all duration-300"
+                            style={{ width: `${percent}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Latest output line of clones, image builds and setup commands */}
+              {status === 'started' && outputLines[step.id] && (
+                <p className="mt-1 text-[11px] font-mono text-muted-foreground truncate">{outputLines[step.id]}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, GitPullRequest, Loader2, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+
+interface PullRequestDraft {
+  title: string;
+  body: string;
+  head: string | null;
+  base: string;
+}
+
+interface PullRequestDialogProps {
+  workspaceId: string;
+  // Directory of the repository, empty for a single repository
+  repository: string;
+  open: boolean;
+  onClose: () => void;
+  onOpened: (url: string) => void;
+}
+
+// Branch name derived from a pull request title, e.g. "Fix login" -> "fix-login"
+function branchFromTitle(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50);
+  return slug ? `opencode/${slug}` : 'opencode/changes';
+}
+
+export default function PullRequestDialog({ workspaceId, repository, open, onClose, onOpened }: PullRequestDialogProps) {
+  const [draft, setDraft] = useState<PullRequestDraft | null>(null);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [base, setBase] = useState('');
+  const [branch, setBranch] = useState('');
+  const [isDraft, setIsDraft] = useState(false);
+  const [existingUrl, setExistingUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pullRequestUrl = `/api/workspaces/${workspaceId}/pull-request?repo=${encodeURIComponent(repository)}`;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(pullRequestUrl);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to prepare the pull request');
+        setDraft(data.draft);
+        setTitle(data.draft.title);
+        setBody(data.draft.body);
+        setBase(data.draft.base);
+        setBranch(branchFromTitle(data.draft.title));
+        setExistingUrl(data.pullRequestUrl);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [open, pullRequestUrl]);
+
+  // Changes on the base branch are moved to a new branch first
+  const needsBranch = draft !== null && (draft.head === null || draft.head === base);
+
+  const handleOpen = async () => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      const response = await fetch(pullRequestUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title.trim(),
+          body,
+          base,
+          draft: isDraft,
+          ...(needsBranch && { branch: branch.trim() }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to open the pull request');
+      onOpened(data.pullRequest.url);
+      window.open(data.pullRequest.url, '_blank', 'noopener,noreferrer');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const inputClassName =
+    'w-full px-3 py-2 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <Card className="w-full max-w-2xl animate-slide-down">
+        <CardHeader className="border-b border-border">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-xl">Open Pull Request</CardTitle>
+              <CardDescription className="mt-1">
+                Pushes {draft?.head && !needsBranch ? <strong>{draft.head}</strong> : 'the changes'} and
+                opens a pull request on GitHub
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : draft && (
+            <>
+              {existingUrl && (
+                <a
+                  href={existingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 text-xs text-primary hover:underline"
+                >
+                  <ExternalLink className="w-3.5 h-3.5" />
+                  Last pull request from {repository || 'this workspace'}
+                </a>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                {needsBranch && (
+                  <div>
+                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">
+                      New branch
+                    </label>
+                    <input
+                      type="text"
+                      value={branch}
+                      onChange={(e) => setBranch(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1.5">
+                    Base branch
+                  </label>
+                  <input
+                    type="text"
+                    value={base}
+                    onChange={(e) => setBase(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1.5">Title</label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1.5">Description</label>
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={10}
+                  className={`${inputClassName} font-mono resize-y`}
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                <input type="checkbox" checked={isDraft} onChange={(e) => setIsDraft(e.target.checked)} />
+                Open as draft
+              </label>
+            </>
+          )}
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive whitespace-pre-wrap">{error}</p>
+            </div>
+          )}
+        </CardContent>
+
+        <div className="p-6 border-t border-border flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isOpening}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleOpen}
+            disabled={isOpening || loading || !draft || !title.trim() || !base.trim() || (needsBranch && !branch.trim())}
+            className="gap-2"
+          >
+            {isOpening ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitPullRequest className="w-4 h-4" />}
+            Push and open
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Plus, X, Loader2, AlertCircle } from 'lucide-react';
+import type { Terminal } from '@xterm/xterm';
+import '@xterm/xterm/css/xterm.css';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+
+// Keystrokes within this window go out in one input request, pastes larger than
+// INPUT_BATCH_MAX_LENGTH right away
+const INPUT_BATCH_MS = 20;
+const INPUT_BATCH_MAX_LENGTH = 4096;
+
+interface TerminalSessionInfo {
+  id: string;
+  title: string;
+  createdAt: number;
+}
+
+interface TerminalPanelProps {
+  workspaceId: string;
+}
+
+// Tabs of shells in the OpenCode container. Sessions are kept by the server,
+// reloading the page reattaches to them.
+export default function TerminalPanel({ workspaceId }: TerminalPanelProps) {
+  const [sessions, setSessions] = useState<TerminalSessionInfo[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Effects run twice in development, only one terminal should be opened on load
+  const loadedRef = useRef(false);
+
+  const openSession = useCallback(async () => {
+    setOpening(true);
+    setError(null);
+    try {
+      // Resized to the real size once the terminal is laid out
+      const response = await fetch(`/api/workspaces/${workspaceId}/terminals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cols: 80, rows: 24 }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to open terminal');
+        return;
+      }
+      setSessions((prev) => [...prev, data.session]);
+      setActiveId(data.session.id);
+    } catch (err) {
+      console.error('Error opening terminal:', err);
+      setError('Failed to open terminal');
+    } finally {
+      setOpening(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/terminals`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load terminals');
+          return;
+        }
+        if (data.sessions.length > 0) {
+          setSessions(data.sessions);
+          setActiveId(data.sessions[0].id);
+        } else {
+          await openSession();
+        }
+      } catch (err) {
+        console.error('Error loading terminals:', err);
+        setError('Failed to load terminals');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [workspaceId, openSession]);
+
+  const removeSession = useCallback((sessionId: string) => {
+    setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    setActiveId((current) => (current === sessionId ? null : current));
+  }, []);
+
+  // Fall back to the last tab when the active one is closed
+  useEffect(() => {
+    if (activeId === null && sessions.length > 0) {
+      setActiveId(sessions[sessions.length - 1].id);
+    }
+  }, [activeId, sessions]);
+
+  const closeSession = async (sessionId: string) => {
+    removeSession(sessionId);
+    try {
+      await fetch(`/api/workspaces/${workspaceId}/terminals/${sessionId}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Error closing terminal:', err);
+    }
+  };
+
+  return (
+    <div className="h-full w-full flex flex-col bg-[#0b0b0f]">
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-border/50 bg-card/50 overflow-x-auto">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className={cn(
+              'flex items-center gap-1 pl-2 pr-1 py-0.5 rounded text-xs transition-colors',
+              session.id === activeId
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <button onClick={() => setActiveId(session.id)}>{session.title}</button>
+            <button
+              onClick={() => closeSession(session.id)}
+              className="p-0.5 rounded hover:bg-muted"
+              title="Close terminal"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <Button variant="ghost" size="icon-sm" onClick={openSession} disabled={opening} title="New terminal">
+          {opening ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+        </Button>
+        {error && (
+          <span className="flex items-center gap-1 text-xs text-destructive ml-2">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 relative">
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!loading && sessions.length === 0 && !error && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            No terminal open
+          </div>
+        )}
+        {/* Inactive tabs stay mounted so their screens are kept */}
+        {sessions.map((session) => (
+          <TerminalView
+            key={session.id}
+            workspaceId={workspaceId}
+            sessionId={session.id}
+            active={session.id === activeId}
+            onExit={removeSession}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface TerminalViewProps {
+  workspaceId: string;
+  sessionId: string;
+  active: boolean;
+  onExit: (sessionId: string) => void;
+}
+
+function TerminalView({ workspaceId, sessionId, active, onExit }: TerminalViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const fitRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    const url = `/api/workspaces/${workspaceId}/terminals/${sessionId}`;
+    const controller = new AbortController();
+    let disposed = false;
+    let cleanup = () => { };
+
+    (async () => {
+      // xterm needs the DOM, load it in the browser only
+      const [{ Terminal }, { FitAddon }] = await Promise.all([
+        import('@xterm/xterm'),
+        import('@xterm/addon-fit'),
+      ]);
+      if (disposed || !containerRef.current) return;
+
+      const terminal = new Terminal({
+        cursorBlink: true,
+        fontSize: 13,
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+        theme: { background: '#0b0b0f' },
+      });
+      const fitAddon = new FitAddon();
+      terminal.loadAddon(fitAddon);
+      terminal.open(containerRef.current);
+      terminalRef.current = terminal;
+
+      // Input and resize requests carry the token sent on the output stream
+      let token: string | null = null;
+      const headers = () => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${token}` });
+
+      // Send input in order, batching keystrokes typed within INPUT_BATCH_MS, while a
+      // request is in flight or before the first token arrived
+      let pendingInput = '';
+      let sending = false;
+      let inputTimer: ReturnType<typeof setTimeout> | null = null;
+      const flushInput = async () => {
+        if (inputTimer) {
+          clearTimeout(inputTimer);
+          inputTimer = null;
+        }
+        if (sending || !pendingInput || !token) return;
+        sending = true;
+        const data = pendingInput;
+        pendingInput = '';
+        try {
+          await fetch(url, {
+            method: 'POST',
+            headers: headers(),
+            body: JSON.stringify({ data }),
+          });
+        } catch (err) {
+          console.error('Error sending terminal input:', err);
+        } finally {
+          sending = false;
+          flushInput();
+        }
+      };
+      const inputListener = terminal.onData((data) => {
+        pendingInput += data;
+        if (pendingInput.length >= INPUT_BATCH_MAX_LENGTH) {
+          flushInput();
+        } else if (!inputTimer) {
+          inputTimer = setTimeout(flushInput, INPUT_BATCH_MS);
+        }
+      });
+
+      let size = { cols: 0, rows: 0 };
+      let resizeTimer: ReturnType<typeof setTimeout> | null = null;
+      let resizePending = false;
+      const sendResize = () => {
+        // Sent once the first token arrives
+        resizePending = !token;
+        if (!token) return;
+        fetch(url, {
+          method: 'PATCH',
+          headers: headers(),
+          body: JSON.stringify(size),
+        }).catch((err) => console.error('Error resizing terminal:', err));
+      };
+      const fit = () => {
+        // Hidden tabs have no size to fit to
+        if (!containerRef.current?.offsetWidth) return;
+        fitAddon.fit();
+        if (terminal.cols === size.cols && terminal.rows === size.rows) return;
+        size = { cols: terminal.cols, rows: terminal.rows };
+        if (resizeTimer) clearTimeout(resizeTimer);
+        resizeTimer = setTimeout(sendResize, 150);
+      };
+      fitRef.current = fit;
+      const observer = new ResizeObserver(fit);
+      observer.observe(containerRef.current);
+      fit();
+
+      cleanup = () => {
+        observer.disconnect();
+        if (resizeTimer) clearTimeout(resizeTimer);
+        if (inputTimer) clearTimeout(inputTimer);
+        inputListener.dispose();
+        terminal.dispose();
+        terminalRef.current = null;
+        fitRef.current = null;
+      };
+
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok || !response.body) {
+          // The session ended while the page was away
+          onExit(sessionId);
+          return;
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          buffer += chunk.value;
+          const events = buffer.split('\n\n');
+          buffer = events.pop() ?? '';
+
+          for (const event of events) {
+            if (event.startsWith('event: exit')) {
+              onExit(sessionId);
+              return;
+            }
+            const data = event.split('\n').find((field) => field.startsWith('data: '))?.slice(6);
+            if (!data) continue;
+            if (event.startsWith('event: token')) {
+              token = JSON.parse(data).token;
+              if (resizePending) sendResize();
+              flushInput();
+            } else {
+              terminal.write(JSON.parse(data).data);
+            }
+          }
+        }
+        terminal.write('\r\n\x1b[2m[Disconnected, reload to reattach]\x1b[0m\r\n');
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error streaming terminal:', err);
+          terminal.write('\r\n\x1b[2m[Disconnected, reload to reattach]\x1b[0m\r\n');
+        }
+      }
+    })();
+
+    return () => {
+      disposed = true;
+      controller.abort();
+      cleanup();
+    };
+  }, [workspaceId, sessionId, onExit]);
+
+  useEffect(() => {
+    if (active) {
+      fitRef.current?.();
+      terminalRef.current?.focus();
+    }
+  }, [active]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('absolute inset-0 p-2', !active && 'invisible')}
+    />
+  );
+}
@@ -21,20 +21,34 @@ import {
   Keyboard,
   AlertCircle,
   Eye,
+  ScrollText,
+  SquareTerminal,
+  GitCompare,
 } from 'lucide-react';
 import type { Workspace } from '@prisma/client';
+import type { WorkspaceRepositoryInfo } from '@/lib/repositories';
+import type { PreviewPortInfo } from '@/lib/preview-ports';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/ResizablePanel';
+import { ProvisioningTimeline, useProvisioning } from './ProvisioningTimeline';
+import LogsPanel from './LogsPanel';
+import TerminalPanel from './TerminalPanel';
+import ChangesPanel from './ChangesPanel';
+import BranchPicker from './BranchPicker';
+import PreviewPortPicker from './PreviewPortPicker';
+import ListeningPortNotice from './ListeningPortNotice';
 import { cn } from '@/lib/utils';
 
 interface WorkspaceClientProps {
   workspace: Workspace;
+  repositories: WorkspaceRepositoryInfo[];
+  previewPorts: PreviewPortInfo[];
   domain: string;
 }
 
-type PanelType = 'opencode' | 'vscode' | 'preview';
+type PanelType = 'opencode' | 'vscode' | 'preview' | 'logs' | 'terminal' | 'changes';
 type LayoutMode = 'horizontal' | 'vertical';
 
 // Panel configurations
@@ -42,12 +56,20 @@ const PANELS: { id: PanelType; label: string; icon: React.ReactNode; shortcut: s
   { id: 'opencode', label: 'OpenCode', icon: <Bot className="w-3.5 h-3.5" />, shortcut: 'Alt+2' },
   { id: 'vscode', label: 'VS Code', icon: <Code className="w-3.5 h-3.5" />, shortcut: 'Alt+3' },
   { id: 'preview', label: 'Preview', icon: <Eye className="w-3.5 h-3.5" />, shortcut: 'Alt+4' },
+  { id: 'logs', label: 'Logs', icon: <ScrollText className="w-3.5 h-3.5" />, shortcut: 'Alt+5' },
+  { id: 'terminal', label: 'Terminal', icon: <SquareTerminal className="w-3.5 h-3.5" />, shortcut: 'Alt+6' },
+  { id: 'changes', label: 'Changes', icon: <GitCompare className="w-3.5 h-3.5" />, shortcut: 'Alt+7' },
 ];
 
 // Base64 encode "/workspace" for OpenCode URL
 const WORKSPACE_PATH_ENCODED = btoa('/workspace').replace(/=/g, '');
 
-export default function WorkspaceClient({ workspace, domain }: WorkspaceClientProps) {
+export default function WorkspaceClient({
+  workspace,
+  repositories: initialRepositories,
+  previewPorts: initialPreviewPorts,
+  domain,
+}: WorkspaceClientProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -63,6 +85,10 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
   const [opencodeReady, setOpencodeReady] = useState(false);
   const [vscodeReady, setVscodeReady] = useState(false);
   const [opencodeSessionId, setOpencodeSessionId] = useState<string | null>(null);
+  // Name of the port shown in the preview panel, the first one is the default
+  const [previewPorts, setPreviewPorts] = useState(initialPreviewPorts);
+  const [previewName, setPreviewName] = useState<string | null>(initialPreviewPorts[0]?.name ?? null);
+  const [repositories, setRepositories] = useState(initialRepositories);
   const opencodeCheckRef = useRef<NodeJS.Timeout | null>(null);
   const vscodeCheckRef = useRef<NodeJS.Timeout | null>(null);
   const opencodeIframeRef = useRef<HTMLIFrameElement | null>(null);
@@ -79,8 +105,14 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
   
   const vscodeUrl = `${protocol}://vscode-${workspace.id}.${domain}`;
   
-  // Preview URL for live dev server (port 3000 in container)
-  const previewUrl = `${protocol}://preview-${workspace.id}.${domain}`;
+  // Preview URL for live dev server: preview-{id} serves the first port,
+  // {name}-preview-{id} any of the workspace's preview ports
+  const previewPort = previewPorts.find((preview) => preview.name === previewName);
+  const previewUrl = !previewPort || previewPort === previewPorts[0]
+    ? `${protocol}://preview-${workspace.id}.${domain}`
+    : `${protocol}://${previewPort.name}-preview-${workspace.id}.${domain}`;
+
+  const repositoryPaths = repositories.map((repository) => repository.path);
 
   const copyPassword = async () => {
     if (workspace.vscodePassword) {
@@ -150,6 +182,18 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
         e.preventDefault();
         selectPanel('preview', e.shiftKey);
       }
+      if (e.altKey && e.key === '5') {
+        e.preventDefault();
+        selectPanel('logs', e.shiftKey);
+      }
+      if (e.altKey && e.key === '6') {
+        e.preventDefault();
+        selectPanel('terminal', e.shiftKey);
+      }
+      if (e.altKey && e.key === '7') {
+        e.preventDefault();
+        selectPanel('changes', e.shiftKey);
+      }
       if (e.altKey && e.key === 'h') {
         e.preventDefault();
         setShowHeader((prev) => !prev);
@@ -181,30 +225,46 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
-  // Check workspace status
+  // A stopped workspace (e.g. suspended after being idle) is resumed transparently on open
+  const [resuming, setResuming] = useState(workspace.status === 'stopped');
+
   useEffect(() => {
-    const checkStatus = async () => {
-      try {
-        const response = await fetch(`/api/workspaces/${workspace.id}`);
-        const data = await response.json();
+    if (!resuming) return;
 
-        if (data.workspace.status === 'running') {
-          setLoading(false);
-        } else if (data.workspace.status === 'error') {
-          setError('Workspace failed to start');
+    const resume = async () => {
+      try {
+        const response = await fetch(`/api/workspaces/${workspace.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'start' }),
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          setError(data.error || 'Failed to resume workspace');
           setLoading(false);
         }
-      } catch (err) {
-        setError('Failed to check workspace status');
+      } catch {
+        setError('Failed to resume workspace');
         setLoading(false);
+      } finally {
+        setResuming(false);
       }
     };
 
-    const interval = setInterval(checkStatus, 3000);
-    checkStatus();
+    resume();
+  }, [resuming, workspace.id]);
 
-    return () => clearInterval(interval);
-  }, [workspace.id]);
+  // Follow provisioning progress until the workspace is ready
+  const provisioning = useProvisioning(workspace.id, !resuming);
+
+  useEffect(() => {
+    if (provisioning.ready) {
+      setLoading(false);
+    } else if (provisioning.error) {
+      setError(provisioning.error);
+      setLoading(false);
+    }
+  }, [provisioning.ready, provisioning.error]);
 
   // Fetch persisted OpenCode session ID on mount and poll for new sessions
   useEffect(() => {
@@ -354,18 +414,16 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
             <Loader2 className="w-16 h-16 animate-spin text-primary mx-auto mb-6 relative" />
           </div>
           <h2 className="text-2xl font-bold text-foreground mb-3">
-            Launching Workspace
+            {resuming ? 'Resuming Workspace' : 'Launching Workspace'}
           </h2>
           <p className="text-muted-foreground max-w-md mx-auto">
-            Setting up your containerized development environment...
+            {resuming
+              ? workspace.statusReason || 'Starting your stopped workspace...'
+              : 'Setting up your containerized development environment...'}
           </p>
-          <div className="mt-8 flex items-center justify-center gap-3">
-            <div className="flex gap-1">
-              <span className="w-2 h-2 rounded-full bg-primary animate-bounce" style={{ animationDelay: '0ms' }} />
-              <span className="w-2 h-2 rounded-full bg-primary animate-bounce" style={{ animationDelay: '150ms' }} />
-              <span className="w-2 h-2 rounded-full bg-primary animate-bounce" style={{ animationDelay: '300ms' }} />
-            </div>
-          </div>
+          {!resuming && (
+            <ProvisioningTimeline events={provisioning.events} className="mt-8 w-80 mx-auto" />
+          )}
         </div>
       </div>
     );
@@ -380,6 +438,9 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
           </div>
           <h2 className="text-2xl font-bold text-foreground mb-3">Launch Failed</h2>
           <p className="text-muted-foreground mb-6 max-w-md mx-auto">{error}</p>
+          {provisioning.events.length > 0 && (
+            <ProvisioningTimeline events={provisioning.events} className="mb-6 w-80 mx-auto" />
+          )}
           <div className="flex gap-3 justify-center">
             <Button variant="outline" onClick={() => router.push('/dashboard')}>
               <ArrowLeft className="w-4 h-4 mr-2" />
@@ -420,6 +481,23 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
                 {workspace.name}
               </h1>
             </div>
+            <div className="hidden lg:flex items-center gap-1">
+              {repositories.map((repository) => (
+                <BranchPicker
+                  key={repository.path}
+                  workspaceId={workspace.id}
+                  repository={repository.path}
+                  // Several repositories are told apart by their directory
+                  label={repositories.length > 1 ? repository.path : undefined}
+                  branch={repository.branch}
+                  onSwitched={(branch) =>
+                    setRepositories((prev) =>
+                      prev.map((item) => (item.path === repository.path ? { ...item, branch } : item))
+                    )
+                  }
+                />
+              ))}
+            </div>
             <Badge variant="success" className="hidden md:flex items-center gap-1 text-[10px] px-1.5 py-0.5">
               <span className="w-1 h-1 rounded-full bg-green-500 animate-pulse-dot" />
               Running
@@ -454,13 +532,15 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
             {/* Panel buttons */}
             {PANELS.map((panel) => {
               const isActive = leftPanel === panel.id || rightPanel === panel.id;
-              const url = panel.id === 'opencode' ? opencodeUrl : panel.id === 'vscode' ? vscodeUrl : previewUrl;
+              // Logs, terminals and changes are rendered by the app itself, there is nothing to open in a new tab
+              const url = panel.id === 'opencode' ? opencodeUrl : panel.id === 'vscode' ? vscodeUrl : panel.id === 'preview' ? previewUrl : null;
               return (
                 <div key={panel.id} className="flex items-center">
                   <button
                     onClick={(e) => selectPanel(panel.id, e.shiftKey)}
                     className={cn(
-                      'px-2 py-1 text-xs rounded-l transition-all duration-200 flex items-center gap-1.5',
+                      'px-2 py-1 text-xs transition-all duration-200 flex items-center gap-1.5',
+                      url ? 'rounded-l' : 'rounded',
                       isActive
                         ? 'bg-background text-foreground shadow-sm'
                         : 'text-muted-foreground hover:text-foreground'
@@ -470,15 +550,17 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
                     {panel.icon}
                     <span className="hidden sm:inline">{panel.label}</span>
                   </button>
-                  <a
-                    href={url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="px-1 py-1 text-muted-foreground hover:text-foreground transition-colors"
-                    title={`Open ${panel.label} in new tab`}
-                  >
-                    <ExternalLink className="w-3 h-3" />
-                  </a>
+                  {url && (
+                    <a
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-1 py-1 text-muted-foreground hover:text-foreground transition-colors"
+                      title={`Open ${panel.label} in new tab`}
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
                 </div>
               );
             })}
@@ -486,6 +568,15 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
 
           {/* Right section */}
           <div className="flex items-center gap-1">
+            {/* Port shown in the preview, ports can be added and removed while the workspace runs */}
+            <PreviewPortPicker
+              workspaceId={workspace.id}
+              ports={previewPorts}
+              selected={previewName}
+              onSelect={setPreviewName}
+              onPortsChange={setPreviewPorts}
+            />
+
             {/* VS Code Password */}
             {workspace.vscodePassword && (
               <div className="hidden lg:flex items-center gap-1.5 bg-muted px-2 py-1 rounded text-xs">
@@ -545,7 +636,10 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
                           ['OpenCode', 'Alt+2'],
                           ['VS Code', 'Alt+3'],
                           ['Preview', 'Alt+4'],
-                          ['Add to split', 'Shift+Alt+2/3/4'],
+                          ['Logs', 'Alt+5'],
+                          ['Terminal', 'Alt+6'],
+                          ['Changes', 'Alt+7'],
+                          ['Add to split', 'Shift+Alt+2-7'],
                           ['Header', 'Alt+H'],
                           ['Layout', 'Alt+L'],
                           ['Refresh', 'Alt+R'],
@@ -591,6 +685,19 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
         </button>
       )}
 
+      {/* Offer to preview ports dev servers start listening on */}
+      <ListeningPortNotice
+        workspaceId={workspace.id}
+        previewPorts={previewPorts}
+        onExposed={(port) => {
+          setPreviewPorts((prev) => [...prev, port]);
+          setPreviewName(port.name);
+          if (leftPanel !== 'preview' && rightPanel !== 'preview') {
+            selectPanel('preview', true);
+          }
+        }}
+      />
+
       {/* Main content with resizable panels - all iframes stay mounted */}
       <div className="flex-1 overflow-hidden">
         {rightPanel !== null ? (
@@ -598,6 +705,8 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
             <ResizablePanel defaultSize={50} minSize={20}>
               <PanelContent
                 panel={leftPanel}
+                workspaceId={workspace.id}
+                repositoryPaths={repositoryPaths}
                 opencodeUrl={opencodeUrl}
                 vscodeUrl={vscodeUrl}
                 previewUrl={previewUrl}
@@ -612,6 +721,8 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
             <ResizablePanel defaultSize={50} minSize={20}>
               <PanelContent
                 panel={rightPanel}
+                workspaceId={workspace.id}
+                repositoryPaths={repositoryPaths}
                 opencodeUrl={opencodeUrl}
                 vscodeUrl={vscodeUrl}
                 previewUrl={previewUrl}
@@ -625,6 +736,8 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
           <div className="h-full animate-fade-in">
             <PanelContent
               panel={leftPanel}
+              workspaceId={workspace.id}
+              repositoryPaths={repositoryPaths}
               opencodeUrl={opencodeUrl}
               vscodeUrl={vscodeUrl}
               previewUrl={previewUrl}
@@ -641,6 +754,8 @@ export default function WorkspaceClient({ workspace, domain }: WorkspaceClientPr
 
 interface PanelContentProps {
   panel: PanelType;
+  workspaceId: string;
+  repositoryPaths: string[];
   opencodeUrl: string;
   vscodeUrl: string;
   previewUrl: string;
@@ -649,8 +764,18 @@ interface PanelContentProps {
   iframeKey: number;
 }
 
-function PanelContent({ panel, opencodeUrl, vscodeUrl, previewUrl, opencodeReady, vscodeReady, iframeKey }: PanelContentProps) {
-  const configs: Record<PanelType, { url: string; isReady: boolean; title: string; icon: React.ReactNode }> = {
+function PanelContent({ panel, workspaceId, repositoryPaths, opencodeUrl, vscodeUrl, previewUrl, opencodeReady, vscodeReady, iframeKey }: PanelContentProps) {
+  if (panel === 'logs') {
+    return <LogsPanel workspaceId={workspaceId} />;
+  }
+  if (panel === 'terminal') {
+    return <TerminalPanel workspaceId={workspaceId} />;
+  }
+  if (panel === 'changes') {
+    return <ChangesPanel workspaceId={workspaceId} repositoryPaths={repositoryPaths} />;
+  }
+
+  const configs: Record<Exclude<PanelType, 'logs' | 'terminal' | 'changes'>, { url: string; isReady: boolean; title: string; icon: React.ReactNode }> = {
     opencode: { url: opencodeUrl, isReady: opencodeReady, title: 'OpenCode', icon: <Bot className="w-4 h-4" /> },
     vscode: { url: vscodeUrl, isReady: vscodeReady, title: 'VS Code', icon: <Code className="w-4 h-4" /> },
     preview: { url: previewUrl, isReady: true, title: 'Preview', icon: <Eye className="w-4 h-4" /> },
@@ -0,0 +1,20 @@
+// Next.js calls register() once when the server starts
+// Background jobs only run in the Node.js runtime, not on the edge
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startIdleMonitor } = await import('./lib/idle');
+    startIdleMonitor();
+
+    const { startDiskQuotaMonitor } = await import('./lib/disk-quota');
+    startDiskQuotaMonitor();
+
+    const { startReconciler } = await import('./lib/reconciler');
+    startReconciler();
+
+    const { startGarbageCollector } = await import('./lib/gc');
+    startGarbageCollector();
+
+    const { startGitCredentialRotation } = await import('./lib/git-credential-rotation');
+    startGitCredentialRotation();
+  }
+}
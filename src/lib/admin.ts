@@ -0,0 +1,9 @@
+// Admins are listed by email in ADMIN_EMAILS, comma separated
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export function isAdmin(user: { email?: string | null } | null | undefined): boolean {
+  return !!user?.email && ADMIN_EMAILS.includes(user.email.toLowerCase());
+}
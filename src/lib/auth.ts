@@ -3,6 +3,134 @@ import GitHubProvider from 'next-auth/providers/github';
 import { PrismaAdapter } from '@auth/prisma-adapter';
 import { prisma } from './prisma';
 
+interface GitHubAccount {
+  access_token: string | null;
+  refresh_token: string | null;
+  expires_at: number | null;
+  providerAccountId: string;
+}
+
+async function findGitHubAccount(userId: string): Promise<GitHubAccount | null> {
+  return prisma.account.findFirst({
+    where: {
+      userId,
+      provider: 'github',
+    },
+    select: {
+      access_token: true,
+      refresh_token: true,
+      expires_at: true,
+      providerAccountId: true,
+    },
+  });
+}
+
+// Refreshes in progress by GitHub account ID. GitHub rotates the refresh token on every
+// refresh, so a second refresh with the same one fails and would sign the user out.
+// Keep state on globalThis so hot reloads don't lose track of them.
+const globalForAuth = globalThis as unknown as {
+  tokenRefreshes: Map<string, Promise<string | null>> | undefined;
+};
+const tokenRefreshes = globalForAuth.tokenRefreshes ?? new Map<string, Promise<string | null>>();
+globalForAuth.tokenRefreshes = tokenRefreshes;
+
+// The account's access token, refreshed first if it expired. null if the refresh failed.
+async function freshAccessToken(account: GitHubAccount): Promise<string | null> {
+  // Check if token is expired and needs refresh
+  const now = Math.floor(Date.now() / 1000);
+  const isExpired = account.expires_at && account.expires_at < now;
+
+  if (!isExpired || !account.refresh_token) {
+    // Token is still valid
+    return account.access_token;
+  }
+
+  // Callers that find the token expired while it's being refreshed wait for that refresh
+  const pending = tokenRefreshes.get(account.providerAccountId);
+  if (pending) return pending;
+
+  const refresh = refreshAccessToken(account).finally(() => {
+    tokenRefreshes.delete(account.providerAccountId);
+  });
+  tokenRefreshes.set(account.providerAccountId, refresh);
+  return refresh;
+}
+
+// Access token the account has now, after another server process refreshed it
+async function storedAccessToken(account: GitHubAccount): Promise<string | null> {
+  const current = await prisma.account.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider: 'github',
+        providerAccountId: account.providerAccountId,
+      },
+    },
+    select: { access_token: true, refresh_token: true },
+  });
+  return current && current.refresh_token !== account.refresh_token ? current.access_token : null;
+}
+
+async function refreshAccessToken(account: GitHubAccount): Promise<string | null> {
+  try {
+    // Refresh the token
+    const response = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        client_id: process.env.GITHUB_ID,
+        client_secret: process.env.GITHUB_SECRET,
+        refresh_token: account.refresh_token,
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    const tokens = await response.json();
+
+    if (!tokens.access_token) {
+      // Another process may have spent the refresh token first, its token is as good
+      const stored = await storedAccessToken(account);
+      if (stored) return stored;
+
+      // Token refresh failed, clear the token
+      console.error('GitHub token refresh failed:', tokens);
+      return null;
+    }
+
+    // Only replace the refresh token this refresh started from, a newer one wins
+    const { count } = await prisma.account.updateMany({
+      where: {
+        provider: 'github',
+        providerAccountId: account.providerAccountId,
+        refresh_token: account.refresh_token,
+      },
+      data: {
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token || account.refresh_token,
+        expires_at: tokens.expires_in
+          ? Math.floor(Date.now() / 1000) + tokens.expires_in
+          : null,
+      },
+    });
+    if (count === 0) {
+      console.warn(`GitHub token of account ${account.providerAccountId} was refreshed concurrently`);
+    }
+
+    return tokens.access_token;
+  } catch (error) {
+    console.error('Error refreshing GitHub token:', error);
+    return null;
+  }
+}
+
+// Current GitHub token of a user outside of a session, e.g. for git in their workspaces
+export async function getGitHubAccessToken(userId: string): Promise<string | null> {
+  const account = await findGitHubAccount(userId);
+  return account ? freshAccessToken(account) : null;
+}
+
 export const { handlers, auth, signIn, signOut } = NextAuth({
   adapter: PrismaAdapter(prisma),
   providers: [
@@ -21,77 +149,9 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       if (session.user && user) {
         session.user.id = user.id;
         
-        // Fetch GitHub token from account
-        const account = await prisma.account.findFirst({
-          where: {
-            userId: user.id,
-            provider: 'github',
-          },
-          select: { 
-            access_token: true, 
-            refresh_token: true,
-            expires_at: true,
-            providerAccountId: true,
-          },
-        });
-        
+        const account = await findGitHubAccount(user.id);
         if (account) {
-          // Check if token is expired and needs refresh
-          const now = Math.floor(Date.now() / 1000);
-          const isExpired = account.expires_at && account.expires_at < now;
-          
-          if (isExpired && account.refresh_token) {
-            try {
-              // Refresh the token
-              const response = await fetch('https://github.com/login/oauth/access_token', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Accept': 'application/json',
-                },
-                body: JSON.stringify({
-                  client_id: process.env.GITHUB_ID,
-                  client_secret: process.env.GITHUB_SECRET,
-                  refresh_token: account.refresh_token,
-                  grant_type: 'refresh_token',
-                }),
-              });
-              
-              const tokens = await response.json();
-              
-              if (tokens.access_token) {
-                // Update the account with new tokens
-                await prisma.account.update({
-                  where: {
-                    provider_providerAccountId: {
-                      provider: 'github',
-                      providerAccountId: account.providerAccountId,
-                    },
-                  },
-                  data: {
-                    access_token: tokens.access_token,
-                    refresh_token: tokens.refresh_token || account.refresh_token,
-                    expires_at: tokens.expires_in 
-                      ? Math.floor(Date.now() / 1000) + tokens.expires_in 
-                      : null,
-                  },
-                });
-                
-                session.user.githubToken = tokens.access_token;
-              } else {
-                // Token refresh failed, clear the token
-                console.error('GitHub token refresh failed:', tokens);
-                session.user.githubToken = null;
-              }
-            } catch (error) {
-              console.error('Error refreshing GitHub token:', error);
-              session.user.githubToken = null;
-            }
-          } else {
-            // Token is still valid
-            session.user.githubToken = account.access_token;
-          }
-          
+          session.user.githubToken = await freshAccessToken(account);
           session.user.githubId = account.providerAccountId;
         }
       }
@@ -0,0 +1,162 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  renderBootstrap,
+  renderCloneScript,
+  renderContainerEnv,
+  renderEnvProfile,
+  validateEnvVariables,
+  type BootstrapSpec,
+} from './bootstrap';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+// Value of `name` after sourcing the profile in sh, as the OpenCode container does
+function sourceProfile(profile: Buffer, name: string): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'bootstrap-'));
+  tempDirs.push(dir);
+  const file = path.join(dir, 'env.sh');
+  writeFileSync(file, profile);
+  return execFileSync('sh', ['-c', `. "$1" && printf '%s' "$${name}"`, 'sh', file], { encoding: 'utf8' });
+}
+
+describe('renderEnvProfile', () => {
+  it.each([
+    ['single quotes', "it's 'quoted'"],
+    ['double quotes', 'say "hi"'],
+    ['dollar signs', '$HOME and ${PATH} and $(id) and `id`'],
+    ['newlines', 'line one\nline two\n'],
+    ['backslashes', 'C:\\path\\n'],
+    ['an empty value', ''],
+  ])('keeps values with %s unchanged', (_, value) => {
+    const profile = renderEnvProfile({ VALUE: value });
+    expect(sourceProfile(profile.content, 'VALUE')).toBe(value);
+  });
+
+  it('exports every variable on its own line', () => {
+    const profile = renderEnvProfile({ A: '1', B: "it's" });
+    expect(profile.name).toBe('etc/profile.d/custom-env.sh');
+    expect(profile.content.toString()).toBe("export A='1'\nexport B='it'\\''s'\n");
+  });
+
+  it('refuses invalid names instead of writing them', () => {
+    expect(() => renderEnvProfile({ 'A;rm -rf /': 'x' })).toThrow(/Invalid variable name/);
+  });
+});
+
+describe('validateEnvVariables', () => {
+  it('accepts shell variable names', () => {
+    expect(validateEnvVariables({ A: '', _B: 'x', c_1: 'y' })).toBeNull();
+  });
+
+  it.each(['1A', 'A-B', 'A B', 'A=B', '$(id)', '', 'A;B', 'É'])('rejects the name %j', (name) => {
+    expect(validateEnvVariables({ [name]: 'value' })).toMatch(/Invalid variable name/);
+  });
+
+  it('rejects values that aren\'t strings or contain NUL', () => {
+    expect(validateEnvVariables({ A: 1 })).toMatch(/must be a string/);
+    expect(validateEnvVariables({ A: 'a\0b' })).toMatch(/must be a string/);
+  });
+
+  it('rejects anything but an object', () => {
+    for (const variables of [null, 'A=1', ['A'], 42]) {
+      expect(validateEnvVariables(variables)).toMatch(/must be an object/);
+    }
+  });
+});
+
+describe('renderContainerEnv', () => {
+  it('passes values through without quoting', () => {
+    expect(renderContainerEnv({ A: "it's $HOME" })).toEqual(["A=it's $HOME"]);
+  });
+});
+
+describe('renderCloneScript', () => {
+  it('quotes the branch and URL and separates options from the URL', () => {
+    const script = renderCloneScript([
+      { url: '--upload-pack=touch /tmp/pwned', branch: "main'; id; '", path: '' },
+    ]);
+    expect(script).toBe(
+      "git clone --progress --branch 'main'\\''; id; '\\''' -- '--upload-pack=touch /tmp/pwned' '/workspace'"
+    );
+  });
+
+  it('clones every repository into its directory', () => {
+    const script = renderCloneScript([
+      { url: 'https://github.com/acme/web.git', branch: 'main', path: 'web' },
+      { url: 'git@gitea.example.com:acme/api.git', branch: 'develop', path: 'api' },
+    ]);
+    expect(script).toBe(
+      "git clone --progress --branch 'main' -- 'https://github.com/acme/web.git' '/workspace/web'"
+        + " && git clone --progress --branch 'develop' -- 'git@gitea.example.com:acme/api.git' '/workspace/api'"
+    );
+  });
+
+  it.each(['..', '.', '../etc', 'a/b', 'a b'])('refuses the directory %j', (dir) => {
+    expect(() => renderCloneScript([{ url: 'https://example.com/r.git', branch: 'main', path: dir }])).toThrow(
+      /Invalid repository directory/
+    );
+  });
+});
+
+describe('renderBootstrap', () => {
+  const spec: BootstrapSpec = {
+    opencodeConfig: {
+      $schema: 'https://opencode.ai/config.json',
+      model: 'anthropic/claude',
+      provider: {},
+      enabled_providers: [],
+      disabled_providers: [],
+    },
+    skills: [{ name: 'code-review', content: '# Review\n' }],
+    env: { API_URL: 'https://api.example.com', QUOTE: "it's" },
+    vscodeSettings: { 'editor.fontSize': 14 },
+  };
+
+  it('renders every file of a sample spec', () => {
+    const files = renderBootstrap(spec);
+    const text = (list: typeof files.opencode) =>
+      list.map(({ name, content, mode }) => ({ name, content: content.toString(), mode }));
+
+    expect(text(files.opencode)).toEqual([
+      {
+        name: 'root/.config/opencode/opencode.json',
+        content: '{\n  "$schema": "https://opencode.ai/config.json",\n  "model": "anthropic/claude",\n' +
+          '  "provider": {},\n  "enabled_providers": [],\n  "disabled_providers": []\n}\n',
+        mode: 0o644,
+      },
+      { name: 'root/.config/opencode/skills/code-review/SKILL.md', content: '# Review\n', mode: 0o644 },
+      {
+        name: 'etc/profile.d/custom-env.sh',
+        content: "export API_URL='https://api.example.com'\nexport QUOTE='it'\\''s'\n",
+        mode: 0o644,
+      },
+    ]);
+    expect(text(files.codeServer)).toEqual([
+      {
+        name: 'root/.local/share/code-server/User/settings.json',
+        content: '{\n  "editor.fontSize": 14\n}\n',
+        mode: 0o644,
+      },
+    ]);
+  });
+
+  it('refuses specs with invalid skills or variables', () => {
+    expect(() => renderBootstrap({ ...spec, skills: [{ name: '../escape', content: '' }] })).toThrow(
+      /Invalid workspace configuration: Invalid skill name/
+    );
+    expect(() =>
+      renderBootstrap({ ...spec, skills: [...spec.skills, { name: 'code-review', content: '' }] })
+    ).toThrow(/Duplicate skill code-review/);
+    expect(() => renderBootstrap({ ...spec, env: { 'BAD NAME': 'x' } })).toThrow(
+      /Invalid workspace configuration: Invalid variable name/
+    );
+  });
+});
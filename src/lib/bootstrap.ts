@@ -0,0 +1,148 @@
+import { shellQuote } from './devcontainer';
+import type { OpencodeConfig } from './opencode-config';
+import type { RepositoryCheckout } from './runtime';
+
+// What a workspace's containers are set up with besides their image: the OpenCode config
+// and skills, the variables of linked environments and the VS Code settings. A spec is
+// validated and rendered into files that are copied into the containers, so none of its
+// values is ever pasted into a shell command line or baked into a shared image.
+
+// Lowercase alphanumeric with single hyphen separators, like the skills API enforces
+const SKILL_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// POSIX shell variable names, the only ones an export line can set
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Directory of a repository under /workspace as parseRepositoryCheckouts names them
+const CHECKOUT_PATH_PATTERN = /^(?!\.\.?$)[A-Za-z0-9._-]+$/;
+
+// Sourced by the OpenCode container's command on every start, rewritten when the
+// linked environments change
+const ENV_PROFILE_SCRIPT = 'etc/profile.d/custom-env.sh';
+
+// Where OpenCode reads its global config and skills
+const OPENCODE_CONFIG_DIR = 'root/.config/opencode';
+
+const VSCODE_SETTINGS_FILE = 'root/.local/share/code-server/User/settings.json';
+
+export interface BootstrapSkill {
+  name: string;
+  content: string;
+}
+
+export interface BootstrapSpec {
+  // opencode.json
+  opencodeConfig: OpencodeConfig;
+  skills: BootstrapSkill[];
+  // Variables of the linked environments
+  env: Record<string, string>;
+  vscodeSettings: Record<string, unknown>;
+}
+
+// A file of a rendered spec, name relative to where it is copied
+export interface BootstrapFile {
+  name: string;
+  content: Buffer;
+  mode: number;
+}
+
+export interface BootstrapFiles {
+  // Relative to / of the OpenCode container
+  opencode: BootstrapFile[];
+  // Relative to / of the code-server container
+  codeServer: BootstrapFile[];
+}
+
+export function isValidEnvName(name: string): boolean {
+  return ENV_NAME_PATTERN.test(name);
+}
+
+// Variables of an environment as the API receives them, null when they can be exported
+export function validateEnvVariables(variables: unknown): string | null {
+  if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+    return 'Variables must be an object of names and values';
+  }
+  for (const [name, value] of Object.entries(variables)) {
+    if (!isValidEnvName(name)) {
+      return `Invalid variable name ${JSON.stringify(name)}, use letters, digits and underscores`;
+    }
+    if (typeof value !== 'string' || value.includes('\0')) {
+      return `The value of ${name} must be a string`;
+    }
+  }
+  return null;
+}
+
+function envProblems(env: Record<string, string>): string[] {
+  const error = validateEnvVariables(env);
+  return error ? [error] : [];
+}
+
+export function validateBootstrapSpec(spec: BootstrapSpec): string[] {
+  const problems = envProblems(spec.env);
+  const skillNames = new Set<string>();
+  for (const skill of spec.skills) {
+    if (!SKILL_NAME_PATTERN.test(skill.name) || skill.name.length > 64) {
+      problems.push(`Invalid skill name ${JSON.stringify(skill.name)}`);
+    } else if (skillNames.has(skill.name)) {
+      problems.push(`Duplicate skill ${skill.name}`);
+    }
+    skillNames.add(skill.name);
+  }
+  return problems;
+}
+
+function jsonFile(name: string, value: unknown): BootstrapFile {
+  return { name, content: Buffer.from(`${JSON.stringify(value, null, 2)}\n`), mode: 0o644 };
+}
+
+// export lines for the variables, every value single-quoted
+export function renderEnvProfile(env: Record<string, string>): BootstrapFile {
+  const problems = envProblems(env);
+  if (problems.length > 0) throw new Error(problems.join('; '));
+
+  const lines = Object.entries(env).map(([name, value]) => `export ${name}=${shellQuote(value)}\n`);
+  return { name: ENV_PROFILE_SCRIPT, content: Buffer.from(lines.join('')), mode: 0o644 };
+}
+
+// Env of a container as Docker takes it, KEY=value without any shell involved
+export function renderContainerEnv(env: Record<string, string>): string[] {
+  const problems = envProblems(env);
+  if (problems.length > 0) throw new Error(problems.join('; '));
+  return Object.entries(env).map(([name, value]) => `${name}=${value}`);
+}
+
+export function renderBootstrap(spec: BootstrapSpec): BootstrapFiles {
+  const problems = validateBootstrapSpec(spec);
+  if (problems.length > 0) {
+    throw new Error(`Invalid workspace configuration: ${problems.join('; ')}`);
+  }
+
+  return {
+    opencode: [
+      jsonFile(`${OPENCODE_CONFIG_DIR}/opencode.json`, spec.opencodeConfig),
+      // Skills are placed in ~/.config/opencode/skills/<name>/SKILL.md (global config location)
+      ...spec.skills.map((skill) => ({
+        name: `${OPENCODE_CONFIG_DIR}/skills/${skill.name}/SKILL.md`,
+        content: Buffer.from(skill.content),
+        mode: 0o644,
+      })),
+      renderEnvProfile(spec.env),
+    ],
+    codeServer: [jsonFile(VSCODE_SETTINGS_FILE, spec.vscodeSettings)],
+  };
+}
+
+// Script the init container runs to clone the repositories. Every value is quoted and
+// `--` keeps URLs from being read as options.
+export function renderCloneScript(checkouts: RepositoryCheckout[]): string {
+  return checkouts
+    .map(({ url, branch, path }) => {
+      if (path && !CHECKOUT_PATH_PATTERN.test(path)) {
+        throw new Error(`Invalid repository directory ${JSON.stringify(path)}`);
+      }
+      const target = path ? `/workspace/${path}` : '/workspace';
+      return `git clone --progress --branch ${shellQuote(branch)} -- ${shellQuote(url)} ${shellQuote(target)}`;
+    })
+    .join(' && ');
+}
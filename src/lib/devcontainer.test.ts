@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCommandsScript,
+  devcontainerEnv,
+  fetchFeatureArchive,
+  forwardedPorts,
+  isPublicAddress,
+  lifecycleScript,
+  parseDevcontainerJson,
+  parseFeatureReference,
+  postStartScript,
+  resolveFeatures,
+} from './devcontainer';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseDevcontainerJson', () => {
+  it('reads JSONC with comments and trailing commas', () => {
+    const text = `{
+      // The base image
+      "image": "mcr.microsoft.com/devcontainers/base:ubuntu", /* pinned */
+      "remoteEnv": { "URL": "http://example.com//path" },
+      "forwardPorts": [3000,],
+    }`;
+
+    expect(parseDevcontainerJson(text)).toEqual({
+      image: 'mcr.microsoft.com/devcontainers/base:ubuntu',
+      remoteEnv: { URL: 'http://example.com//path' },
+      forwardPorts: [3000],
+    });
+  });
+
+  it('refuses anything but an object', () => {
+    expect(() => parseDevcontainerJson('[]')).toThrow('devcontainer.json must contain an object');
+  });
+});
+
+describe('lifecycle commands', () => {
+  it('runs strings in a shell and quotes array arguments', () => {
+    expect(lifecycleScript('npm ci && cd ${containerWorkspaceFolder}')).toBe('npm ci && cd /workspace');
+    expect(lifecycleScript(['echo', "it's"])).toBe(`'echo' 'it'\\''s'`);
+  });
+
+  it('runs object entries in parallel and fails when one fails', () => {
+    const script = lifecycleScript({ a: 'make a', b: ['make', 'b'] });
+    expect(script).toContain(`(make a) & pids="$pids $!"`);
+    expect(script).toContain(`('make' 'b') & pids="$pids $!"`);
+    expect(script).toMatch(/wait \$pid \|\| status=1; done; exit \$status$/);
+    expect(lifecycleScript({})).toBe('true');
+  });
+
+  it('chains the create commands in spec order', () => {
+    expect(createCommandsScript({ postCreateCommand: 'c', onCreateCommand: 'a', updateContentCommand: 'b' }))
+      .toBe(`sh -c 'a' && sh -c 'b' && sh -c 'c'`);
+    expect(createCommandsScript({})).toBeNull();
+    expect(postStartScript({ postStartCommand: 'npm run dev' })).toBe(`sh -c 'npm run dev'`);
+  });
+});
+
+describe('forwardedPorts', () => {
+  it('keeps valid container ports once and skips other hosts and reserved ports', () => {
+    expect(forwardedPorts({ forwardPorts: [3000, '5173', 'localhost:8080', 'db:5432', 3000, 3001, 70000] }))
+      .toEqual([3000, 5173, 8080]);
+  });
+});
+
+describe('devcontainerEnv', () => {
+  it('merges containerEnv and remoteEnv, null unsets', () => {
+    expect(devcontainerEnv({
+      containerEnv: { A: '1', B: '2' },
+      remoteEnv: { B: null, C: '${containerWorkspaceFolderBasename}' },
+    })).toEqual({ A: '1', C: 'workspace' });
+  });
+});
+
+describe('features', () => {
+  it('parses registry, repository and reference', () => {
+    expect(parseFeatureReference('ghcr.io/devcontainers/features/node:1')).toEqual({
+      id: 'ghcr.io/devcontainers/features/node:1',
+      registry: 'ghcr.io',
+      repository: 'devcontainers/features/node',
+      reference: '1',
+    });
+    expect(parseFeatureReference('ghcr.io/acme/tool@sha256:abc')).toMatchObject({ reference: 'sha256:abc' });
+    expect(parseFeatureReference('ghcr.io/acme/tool')).toMatchObject({ reference: 'latest' });
+  });
+
+  it('skips local and legacy features', () => {
+    expect(resolveFeatures({
+      features: {
+        './local': {},
+        node: 'lts',
+        'ghcr.io/devcontainers/features/node:1': 'lts',
+        'ghcr.io/devcontainers/features/python:1': { version: '3.12', 'install-tools': true },
+      },
+    })).toEqual({
+      features: [
+        { ref: expect.objectContaining({ repository: 'devcontainers/features/node' }), env: { VERSION: 'lts' } },
+        {
+          ref: expect.objectContaining({ repository: 'devcontainers/features/python' }),
+          env: { VERSION: '3.12', INSTALL_TOOLS: 'true' },
+        },
+      ],
+      skipped: ['./local', 'node'],
+    });
+  });
+});
+
+describe('isPublicAddress', () => {
+  it.each(['140.82.112.34', '8.8.8.8', '2606:4700::1111'])('accepts %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.18.0.2', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'localhost',
+  ])('refuses %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('fetchFeatureArchive', () => {
+  const ref = parseFeatureReference('140.82.112.34/acme/tool:1')!;
+
+  it('refuses registries on private addresses', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchFeatureArchive(parseFeatureReference('10.0.0.5:5000/acme/tool:1')!))
+      .rejects.toThrow('10.0.0.5 is not a public host');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['http://140.82.112.34/token', 'is not an HTTPS URL'],
+    ['https://169.254.169.254/latest/meta-data', '169.254.169.254 is not a public host'],
+  ])('refuses the token realm %s', async (realm, message) => {
+    const fetchMock = vi.fn(async () => new Response(null, {
+      status: 401,
+      headers: { 'www-authenticate': `Bearer realm="${realm}",service="registry"` },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchFeatureArchive(ref)).rejects.toThrow(message);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses redirects to private addresses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, {
+      status: 307,
+      headers: { location: 'https://127.0.0.1/internal' },
+    })));
+
+    await expect(fetchFeatureArchive(ref)).rejects.toThrow('127.0.0.1 is not a public host');
+  });
+
+  it('downloads the first layer without sending the token to other hosts', async () => {
+    const fetchMock = vi.fn(async (url: URL, _init: RequestInit) => {
+      switch (url.href) {
+        case 'https://140.82.112.34/v2/acme/tool/manifests/1':
+          return (_init.headers as Record<string, string>).Authorization
+            ? Response.json({ layers: [{ digest: 'sha256:abc' }] })
+            : new Response(null, { status: 401, headers: { 'www-authenticate': 'Bearer realm="https://140.82.112.34/token"' } });
+        case 'https://140.82.112.34/token?scope=repository%3Aacme%2Ftool%3Apull':
+          return Response.json({ token: 'secret' });
+        case 'https://140.82.112.34/v2/acme/tool/blobs/sha256:abc':
+          return new Response(null, { status: 307, headers: { location: 'https://140.82.112.35/blob' } });
+        case 'https://140.82.112.35/blob':
+          return new Response('archive');
+        default:
+          return new Response(null, { status: 404 });
+      }
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await fetchFeatureArchive(ref)).toString()).toBe('archive');
+    expect(fetchMock.mock.calls.at(-2)?.[1].headers).toEqual({ Authorization: 'Bearer secret' });
+    expect(fetchMock.mock.calls.at(-1)?.[1].headers).toEqual({});
+  });
+});
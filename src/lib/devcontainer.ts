@@ -0,0 +1,399 @@
+import dns from 'dns/promises';
+import net from 'net';
+import path from 'path';
+
+// Support for the subset of devcontainer.json (https://containers.dev) that
+// matters for a single-container workspace: the image or Dockerfile, features,
+// lifecycle commands, environment and forwarded ports. The OpenCode container
+// runs the resulting image, code-server keeps its own.
+
+// Looked up in this order, relative to the repository root
+export const DEVCONTAINER_PATHS = ['.devcontainer/devcontainer.json', '.devcontainer.json'];
+
+// Where the repository is mounted in the OpenCode container
+const WORKSPACE_FOLDER = '/workspace';
+
+// Ports used by the workspace itself, never routed as previews
+const RESERVED_PORTS = [3001];
+
+// Registries send blob downloads to a storage host, a few hops are enough
+const MAX_FEATURE_REDIRECTS = 5;
+
+// A string runs in a shell, an array runs without one, an object runs each entry in parallel
+export type LifecycleCommand = string | string[] | Record<string, string | string[]>;
+
+export interface DevcontainerConfig {
+  name?: string;
+  image?: string;
+  build?: {
+    dockerfile?: string;
+    context?: string;
+    args?: Record<string, string>;
+    target?: string;
+  };
+  // Deprecated spelling of build.dockerfile
+  dockerFile?: string;
+  dockerComposeFile?: string | string[];
+  features?: Record<string, unknown>;
+  forwardPorts?: (number | string)[];
+  containerEnv?: Record<string, string>;
+  remoteEnv?: Record<string, string | null>;
+  onCreateCommand?: LifecycleCommand;
+  updateContentCommand?: LifecycleCommand;
+  postCreateCommand?: LifecycleCommand;
+  postStartCommand?: LifecycleCommand;
+}
+
+export interface FeatureReference {
+  // As written in devcontainer.json, e.g. ghcr.io/devcontainers/features/node:1
+  id: string;
+  registry: string;
+  repository: string;
+  // Tag or digest
+  reference: string;
+}
+
+export interface DevcontainerFeature {
+  ref: FeatureReference;
+  // Option values passed to the feature's install.sh
+  env: Record<string, string>;
+}
+
+// Remove comments and trailing commas, devcontainer.json is JSONC
+function stripJsonComments(text: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+export function parseDevcontainerJson(text: string): DevcontainerConfig {
+  const parsed = JSON.parse(stripJsonComments(text));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('devcontainer.json must contain an object');
+  }
+  return parsed as DevcontainerConfig;
+}
+
+// Replace the variables that make sense inside the workspace, e.g. ${containerWorkspaceFolder}
+export function substituteVariables(value: string): string {
+  return value
+    .replace(/\$\{(containerWorkspaceFolder|localWorkspaceFolder)\}/g, WORKSPACE_FOLDER)
+    .replace(/\$\{(containerWorkspaceFolderBasename|localWorkspaceFolderBasename)\}/g, path.posix.basename(WORKSPACE_FOLDER));
+}
+
+// Ports to route as previews. "host:port" entries only count when they point at the container itself.
+export function forwardedPorts(config: DevcontainerConfig): number[] {
+  const ports: number[] = [];
+
+  for (const entry of config.forwardPorts ?? []) {
+    let port: number;
+    if (typeof entry === 'number') {
+      port = entry;
+    } else {
+      const [host, portText] = entry.includes(':') ? entry.split(':') : ['localhost', entry];
+      if (host !== 'localhost' && host !== '127.0.0.1') continue;
+      port = parseInt(portText, 10);
+    }
+
+    if (Number.isInteger(port) && port > 0 && port < 65536 && !RESERVED_PORTS.includes(port) && !ports.includes(port)) {
+      ports.push(port);
+    }
+  }
+
+  return ports;
+}
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Turn one lifecycle command into a shell script
+export function lifecycleScript(command: LifecycleCommand): string {
+  if (typeof command === 'string') {
+    return substituteVariables(command);
+  }
+  if (Array.isArray(command)) {
+    return command.map((arg) => shellQuote(substituteVariables(arg))).join(' ');
+  }
+
+  // Parallel commands: run each in the background and fail if any of them failed
+  const entries = Object.values(command);
+  if (entries.length === 0) return 'true';
+  const jobs = entries.map((entry) => `(${lifecycleScript(entry)}) & pids="$pids $!"`);
+  return `pids=""; ${jobs.join('; ')}; status=0; for pid in $pids; do wait $pid || status=1; done; exit $status`;
+}
+
+// Commands run once when a container is created, in spec order, stopping at the first failure
+export function createCommandsScript(config: DevcontainerConfig): string | null {
+  const commands = [config.onCreateCommand, config.updateContentCommand, config.postCreateCommand]
+    .filter((command): command is LifecycleCommand => command !== undefined && command !== null);
+  if (commands.length === 0) return null;
+
+  return commands.map((command) => `sh -c ${shellQuote(lifecycleScript(command))}`).join(' && ');
+}
+
+export function postStartScript(config: DevcontainerConfig): string | null {
+  if (config.postStartCommand === undefined || config.postStartCommand === null) return null;
+  return `sh -c ${shellQuote(lifecycleScript(config.postStartCommand))}`;
+}
+
+// containerEnv and remoteEnv both end up in the OpenCode container's environment,
+// there is no separate remote process here. A null remoteEnv value unsets the variable.
+export function devcontainerEnv(config: DevcontainerConfig): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries({ ...config.containerEnv, ...config.remoteEnv })) {
+    if (typeof value === 'string') {
+      env[key] = substituteVariables(value);
+    } else {
+      delete env[key];
+    }
+  }
+  return env;
+}
+
+// Parse a feature ID like ghcr.io/devcontainers/features/node:1 or ...@sha256:...
+// Returns null for local (./feature) and legacy short IDs, which are not supported.
+export function parseFeatureReference(id: string): FeatureReference | null {
+  if (id.startsWith('.') || id.startsWith('/') || !id.includes('/')) return null;
+
+  const slash = id.indexOf('/');
+  const registry = id.slice(0, slash);
+  // A registry has a dot or a port, e.g. ghcr.io or localhost:5000
+  if (!registry.includes('.') && !registry.includes(':') && registry !== 'localhost') return null;
+
+  let repository = id.slice(slash + 1);
+  let reference = 'latest';
+  const at = repository.indexOf('@');
+  if (at !== -1) {
+    reference = repository.slice(at + 1);
+    repository = repository.slice(0, at);
+  } else {
+    const colon = repository.lastIndexOf(':');
+    if (colon !== -1) {
+      reference = repository.slice(colon + 1);
+      repository = repository.slice(0, colon);
+    }
+  }
+
+  return repository ? { id, registry, repository, reference } : null;
+}
+
+// Environment variable name of a feature option, as the features spec defines it
+function featureOptionName(option: string): string {
+  return option.replace(/[^\w_]/g, '_').replace(/^[\d_]+/, '_').toUpperCase();
+}
+
+// Split the features of a config into supported ones and the IDs that were skipped
+export function resolveFeatures(config: DevcontainerConfig): {
+  features: DevcontainerFeature[];
+  skipped: string[];
+} {
+  const features: DevcontainerFeature[] = [];
+  const skipped: string[] = [];
+
+  for (const [id, options] of Object.entries(config.features ?? {})) {
+    const ref = parseFeatureReference(id);
+    if (!ref) {
+      skipped.push(id);
+      continue;
+    }
+
+    const env: Record<string, string> = {};
+    if (typeof options === 'string') {
+      // Shorthand for the version option
+      env.VERSION = options;
+    } else if (options && typeof options === 'object') {
+      for (const [key, value] of Object.entries(options)) {
+        env[featureOptionName(key)] = String(value);
+      }
+    }
+    features.push({ ref, env });
+  }
+
+  return { features, skipped };
+}
+
+// Whether an IP address belongs to the public internet. Loopback, private, link-local
+// (cloud metadata), CGNAT, multicast and reserved ranges are not.
+export function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (net.isIPv6(address)) {
+    const lower = address.toLowerCase();
+    // IPv4-mapped and unique local, link-local and multicast ranges
+    return !(
+      lower === '::' ||
+      lower === '::1' ||
+      lower.startsWith('::ffff:') ||
+      /^f[cd]/.test(lower) ||
+      /^fe[89ab]/.test(lower) ||
+      lower.startsWith('ff')
+    );
+  }
+  return false;
+}
+
+// Feature downloads run in the app, which can reach the Docker networks and the host.
+// A devcontainer.json names the registry and the registry names the token realm, so
+// both are untrusted: only HTTPS URLs of hosts resolving to public addresses are fetched.
+async function assertPublicUrl(url: URL, featureId: string): Promise<void> {
+  if (url.protocol !== 'https:') {
+    throw new Error(`Feature ${featureId}: ${url.origin} is not an HTTPS URL`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`Feature ${featureId}: ${url.hostname} is not a public host`);
+  }
+}
+
+// fetch() limited to public HTTPS hosts, redirects are followed here so every hop is
+// checked. Credentials are only sent to the host they were meant for.
+async function fetchPublic(
+  featureId: string,
+  url: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  let target = new URL(url);
+  let sendHeaders = headers;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target, featureId);
+    const response = await fetch(target, { headers: sendHeaders, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    if (redirects === MAX_FEATURE_REDIRECTS) {
+      throw new Error(`Feature ${featureId}: too many redirects`);
+    }
+
+    const next = new URL(location, target);
+    if (next.origin !== target.origin) {
+      sendHeaders = Object.fromEntries(Object.entries(sendHeaders).filter(([key]) => key !== 'Authorization'));
+    }
+    target = next;
+  }
+}
+
+// Download a feature's archive (a tar with install.sh) from its OCI registry
+export async function fetchFeatureArchive(ref: FeatureReference): Promise<Buffer> {
+  const base = `https://${ref.registry}/v2/${ref.repository}`;
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.oci.image.manifest.v1+json',
+  };
+
+  let response = await fetchPublic(ref.id, `${base}/manifests/${ref.reference}`, headers);
+  if (response.status === 401) {
+    // Public features still need an anonymous token from the realm the registry names
+    const challenge = response.headers.get('www-authenticate') || '';
+    const realm = /realm="([^"]+)"/.exec(challenge)?.[1];
+    const service = /service="([^"]+)"/.exec(challenge)?.[1];
+    if (!realm) {
+      throw new Error(`Feature ${ref.id}: registry requires authentication`);
+    }
+
+    const params = new URLSearchParams({ scope: `repository:${ref.repository}:pull` });
+    if (service) params.set('service', service);
+    const tokenResponse = await fetchPublic(ref.id, `${realm}?${params}`);
+    if (!tokenResponse.ok) {
+      throw new Error(`Feature ${ref.id}: could not get a registry token (${tokenResponse.status})`);
+    }
+    const { token, access_token } = await tokenResponse.json();
+    headers.Authorization = `Bearer ${token || access_token}`;
+    response = await fetchPublic(ref.id, `${base}/manifests/${ref.reference}`, headers);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Feature ${ref.id} not found (${response.status})`);
+  }
+
+  const manifest: { layers?: { digest: string }[] } = await response.json();
+  const layer = manifest.layers?.[0];
+  if (!layer) {
+    throw new Error(`Feature ${ref.id} has no content`);
+  }
+
+  const blob = await fetchPublic(
+    ref.id,
+    `${base}/blobs/${layer.digest}`,
+    headers.Authorization ? { Authorization: headers.Authorization } : {}
+  );
+  if (!blob.ok) {
+    throw new Error(`Feature ${ref.id}: download failed (${blob.status})`);
+  }
+  return Buffer.from(await blob.arrayBuffer());
+}
+
+// Dockerfile layering features and OpenCode on top of the devcontainer's base image.
+// Feature archives are expected in the build context as features/<index>.tar.
+export function devcontainerDockerfile(
+  baseImage: string,
+  features: DevcontainerFeature[],
+  opencodeInstallScript: string
+): string {
+  const lines = [`FROM ${baseImage}`, 'USER root'];
+
+  features.forEach((feature, index) => {
+    const dir = `/tmp/devcontainer-features/${index}`;
+    const env = {
+      ...feature.env,
+      _REMOTE_USER: 'root',
+      _REMOTE_USER_HOME: '/root',
+      _CONTAINER_USER: 'root',
+      _CONTAINER_USER_HOME: '/root',
+    };
+    const envArgs = Object.entries(env).map(([key, value]) => `${key}=${shellQuote(value)}`).join(' ');
+
+    lines.push(`# ${feature.ref.id}`);
+    // ADD extracts local tar archives
+    lines.push(`ADD features/${index}.tar ${dir}/`);
+    lines.push(`RUN cd ${dir} && chmod +x install.sh && env ${envArgs} ./install.sh && rm -rf ${dir}`);
+  });
+
+  lines.push(`RUN ${opencodeInstallScript}`);
+  return lines.join('\n') + '\n';
+}
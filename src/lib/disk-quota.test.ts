@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findMany: vi.fn(), update: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime } from './runtime';
+import { checkDiskQuotas, measureDiskUsage } from './disk-quota';
+
+const GB = 1024 * 1024 * 1024;
+
+let runtime: FakeRuntime;
+// Kilobytes du reports for the data volume
+let usedKilobytes: number;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  runtime.execHandler = () => ({ exitCode: 0, stdout: `${usedKilobytes}\t/workspace\n`, stderr: '' });
+  await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  prismaMock.workspace.findMany.mockResolvedValue([{ id: 'ws1', diskGb: 1 }]);
+});
+
+describe('measureDiskUsage', () => {
+  it('runs du with a time limit and returns bytes', async () => {
+    usedKilobytes = 2048;
+
+    expect(await measureDiskUsage('ws1')).toBe(2048 * 1024);
+    expect(runtime.calls.at(-1)?.args).toEqual([['timeout', '-s', 'KILL', '120', 'du', '-sk', '/workspace']]);
+  });
+
+  it('returns null when du was killed', async () => {
+    runtime.execHandler = () => ({ exitCode: 137, stdout: '', stderr: '' });
+    expect(await measureDiskUsage('ws1')).toBeNull();
+  });
+});
+
+describe('checkDiskQuotas', () => {
+  it('records the usage of workspaces within their quota', async () => {
+    usedKilobytes = 1024;
+
+    await checkDiskQuotas();
+
+    expect(prismaMock.workspace.update).toHaveBeenCalledWith({ where: { id: 'ws1' }, data: { diskUsageBytes: 1024 * 1024 } });
+    expect(runtime.workspaces.get('ws1')?.running).toBe(true);
+  });
+
+  it('stops a workspace that is over its quota at two checks in a row', async () => {
+    usedKilobytes = (2 * GB) / 1024;
+
+    await checkDiskQuotas();
+    expect(runtime.workspaces.get('ws1')?.running).toBe(true);
+
+    await checkDiskQuotas();
+    expect(runtime.workspaces.get('ws1')?.running).toBe(false);
+    expect(prismaMock.workspace.update).toHaveBeenLastCalledWith({
+      where: { id: 'ws1' },
+      data: { status: 'stopped', statusReason: expect.stringMatching(/^Stopped because it uses 2.0 GB of its 1 GB disk quota/) },
+    });
+  });
+
+  it('forgets an over-quota reading once space was freed', async () => {
+    usedKilobytes = (2 * GB) / 1024;
+    await checkDiskQuotas();
+    usedKilobytes = 1024;
+    await checkDiskQuotas();
+    usedKilobytes = (2 * GB) / 1024;
+    await checkDiskQuotas();
+
+    expect(runtime.workspaces.get('ws1')?.running).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { prisma } from './prisma';
+import { getWorkspaceRuntime } from './runtime';
+import { suspendWorkspace } from './idle';
+import { isWorkspaceBusy } from './provisioning';
+
+// The disk quota is soft: Docker's local volumes can't be limited in size, so the data
+// volume is measured every few minutes and a workspace that stays over its quota is stopped.
+// A workspace can write past its quota, and fill the host's disk, between two checks.
+
+// How often the data volume of running workspaces is measured
+const DISK_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// du gives up after this long, e.g. on a volume with millions of files, and is tried again
+// at the next check
+const DU_TIMEOUT_SECONDS = 120;
+
+// Keep state on globalThis so hot reloads don't start a second monitor
+const globalForDiskQuota = globalThis as unknown as {
+  diskQuotaMonitor: NodeJS.Timeout | undefined;
+  overQuotaWorkspaces: Set<string> | undefined;
+};
+
+// Workspaces found over quota at the previous check
+const overQuota = globalForDiskQuota.overQuotaWorkspaces ?? new Set<string>();
+globalForDiskQuota.overQuotaWorkspaces = overQuota;
+
+export function formatGigabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// Size of the data volume in bytes, measured from inside the OpenCode container.
+// null when du didn't finish in time.
+export async function measureDiskUsage(workspaceId: string): Promise<number | null> {
+  const result = await getWorkspaceRuntime().exec(workspaceId, [
+    'timeout', '-s', 'KILL', String(DU_TIMEOUT_SECONDS), 'du', '-sk', '/workspace',
+  ]);
+  const kilobytes = parseInt(result.stdout.trim().split(/\s+/)[0], 10);
+  return Number.isNaN(kilobytes) ? null : kilobytes * 1024;
+}
+
+// Record the disk usage of every running workspace and stop the ones over quota.
+// A workspace is only stopped when it is over quota at two checks in a row, which
+// leaves time to free up space after starting it again.
+export async function checkDiskQuotas() {
+  const workspaces = await prisma.workspace.findMany({
+    where: { status: 'running' },
+  });
+
+  for (const workspace of workspaces) {
+    // Paused containers can't run du, and a workspace being replaced isn't measured
+    if (isWorkspaceBusy(workspace.id)) continue;
+
+    try {
+      const usage = await measureDiskUsage(workspace.id);
+      if (usage === null) continue;
+
+      await prisma.workspace.update({
+        where: { id: workspace.id },
+        data: { diskUsageBytes: usage },
+      });
+
+      const quota = workspace.diskGb * 1024 * 1024 * 1024;
+      if (usage <= quota) {
+        overQuota.delete(workspace.id);
+        continue;
+      }
+
+      if (!overQuota.has(workspace.id)) {
+        console.log(`Workspace ${workspace.id} is over its disk quota (${formatGigabytes(usage)} of ${workspace.diskGb} GB)`);
+        overQuota.add(workspace.id);
+        continue;
+      }
+
+      overQuota.delete(workspace.id);
+      console.log(`Stopping workspace ${workspace.id} for exceeding its disk quota`);
+      await suspendWorkspace(
+        workspace.id,
+        `Stopped because it uses ${formatGigabytes(usage)} of its ${workspace.diskGb} GB disk quota. ` +
+        'Free up space after starting it or choose a larger disk in the workspace settings'
+      );
+    } catch (error) {
+      console.error(`Error checking disk usage of workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+export function startDiskQuotaMonitor() {
+  if (globalForDiskQuota.diskQuotaMonitor) return;
+
+  let checking = false;
+  globalForDiskQuota.diskQuotaMonitor = setInterval(async () => {
+    // Skip a tick rather than overlap when a check is slow
+    if (checking) return;
+    checking = true;
+    try {
+      await checkDiskQuotas();
+    } catch (error) {
+      console.error('Error checking disk quotas:', error);
+    } finally {
+      checking = false;
+    }
+  }, DISK_CHECK_INTERVAL_MS);
+}
@@ -1,5 +1,63 @@
 import Docker from 'dockerode';
+import { createReadStream } from 'fs';
+import { access } from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { PassThrough, Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import { prisma } from './prisma';
+import type { ProvisioningReporter, ProvisioningStep } from './provisioning';
+import { listeningPorts, parseProcNetTcp } from './proc-net';
+import { tarArchive, tarSingleFile } from './tar';
+import {
+  DEVCONTAINER_PATHS,
+  createCommandsScript,
+  devcontainerDockerfile,
+  devcontainerEnv,
+  fetchFeatureArchive,
+  forwardedPorts,
+  parseDevcontainerJson,
+  postStartScript,
+  resolveFeatures,
+  type DevcontainerConfig,
+} from './devcontainer';
+import { codeServerLimits, DEFAULT_RESOURCE_PROFILE, RESOURCE_PROFILES } from './resources';
+import { buildOpencodeConfig } from './opencode-config';
+import { sshDirectoryFiles } from './ssh-keys';
+import { listPreviewPorts } from './preview-ports';
+import {
+  GIT_CREDENTIAL_HELPER_ENV,
+  gitCredentialHelperFiles,
+  gitCredentialTokenFiles,
+  webContainerName,
+} from './git-credential-helper';
+import {
+  isValidEnvName,
+  renderBootstrap,
+  renderCloneScript,
+  renderContainerEnv,
+  renderEnvProfile,
+  type BootstrapFile,
+} from './bootstrap';
+import type {
+  ExecResult,
+  LinkedEnvironment,
+  ListeningPort,
+  LogLine,
+  LogOptions,
+  LogStream,
+  RuntimeObject,
+  TerminalConnection,
+  TerminalSize,
+  ServiceState,
+  SnapshotArchive,
+  SshIdentity,
+  WorkspaceActivity,
+  WorkspaceContainerConfig,
+  WorkspaceInventory,
+  WorkspaceLogSource,
+  WorkspaceResources,
+} from './runtime/types';
 
 // Initialize Docker client - connect to docker-socket-proxy via TCP
 const docker = new Docker({
@@ -7,8 +65,51 @@ const docker = new Docker({
   port: 2375,
 });
 
+// Image names
+const GIT_IMAGE = 'alpine/git:latest';
+const CODE_SERVER_IMAGE = 'codercom/code-server:latest';
+const OPENCODE_IMAGE = 'ghcr.io/anomalyco/opencode:0.0.0-beta-202601311004';
+// const OPENCODE_IMAGE = 'ghcr.io/anomalyco/opencode:latest';
+
+// Short-lived containers that work on volumes (snapshots) use the git image,
+// it is pulled for every workspace anyway and ships busybox sh and tar
+const HELPER_IMAGE = GIT_IMAGE;
+
+// Images built from a repository's devcontainer.json, tagged by a hash of their inputs
+const DEVCONTAINER_IMAGE = 'open-web-agent/devcontainer';
+
+// OPENCODE_IMAGE with OPENCODE_PACKAGES installed, tagged by a hash of its inputs
+const OPENCODE_BASE_IMAGE = 'open-web-agent/opencode-base';
+
+// git, github-cli and openssh-client for the repository, nodejs/npm and python3 for running
+// dev servers, sqlite for session queries. Devcontainer images bring their own toolchain.
+const OPENCODE_PACKAGES = ['git', 'github-cli', 'openssh-client', 'nodejs', 'npm', 'python3', 'sqlite'];
+
+// Devcontainer images get the OpenCode release matching OPENCODE_IMAGE. The install
+// script picks the glibc or musl build, so it works on Debian and Alpine based images.
+const OPENCODE_INSTALL_SCRIPT =
+  '(command -v curl >/dev/null 2>&1 && command -v bash >/dev/null 2>&1' +
+  ' || (apt-get update && apt-get install -y --no-install-recommends curl ca-certificates bash)' +
+  ' || apk add --no-cache curl bash)' +
+  ` && curl -fsSL https://opencode.ai/install | bash -s -- --version ${OPENCODE_IMAGE.split(':').pop()} --no-modify-path` +
+  ' && ln -sf /root/.opencode/bin/opencode /usr/local/bin/opencode';
+
+// Written to the container filesystem once the create commands ran, so a restart
+// doesn't run them again but a recreated container does
+const DEVCONTAINER_CREATED_MARKER = '/var/lib/open-web-agent/devcontainer-created';
+
+// Printed by the OpenCode container when the create commands finished
+const DEVCONTAINER_SETUP_DONE = '[devcontainer] setup finished with exit code';
+
+// How long provisioning follows the create commands before moving on
+const DEVCONTAINER_SETUP_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Host directory holding snapshot archives. Helper containers bind-mount it by
+// this path, so the web container must mount it at the same path to read them.
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || '/var/lib/open-web-agent/snapshots';
+
 // Helper function to pull an image if not present
-async function pullImageIfNeeded(imageName: string): Promise<void> {
+async function pullImageIfNeeded(imageName: string, report: ProvisioningReporter): Promise<void> {
   try {
     // Check if image exists locally
     const images = await docker.listImages({
@@ -17,6 +118,7 @@ async function pullImageIfNeeded(imageName: string): Promise<void> {
 
     if (images.length > 0) {
       console.log(`Image ${imageName} already exists locally`);
+      report({ step: 'pull', status: 'completed', image: imageName, message: `${imageName} already present` });
       return;
     }
   } catch {
@@ -24,6 +126,7 @@ async function pullImageIfNeeded(imageName: string): Promise<void> {
   }
 
   console.log(`Pulling image ${imageName}...`);
+  report({ step: 'pull', status: 'started', image: imageName, message: `Pulling ${imageName}` });
 
   return new Promise((resolve, reject) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -33,27 +136,389 @@ async function pullImageIfNeeded(imageName: string): Promise<void> {
         return;
       }
 
+      // Track per-layer progress so we can report the overall image progress
+      const layers: Record<string, { current: number; total: number }> = {};
+
       // Follow the pull progress
-      docker.modem.followProgress(stream, (pullErr: Error | null) => {
-        if (pullErr) {
-          reject(pullErr);
+      docker.modem.followProgress(
+        stream,
+        (pullErr: Error | null) => {
+          if (pullErr) {
+            reject(pullErr);
+          } else {
+            console.log(`Successfully pulled ${imageName}`);
+            report({ step: 'pull', status: 'completed', image: imageName, message: `Pulled ${imageName}` });
+            resolve();
+          }
+        },
+        (event: { id?: string; status?: string; progressDetail?: { current?: number; total?: number } }) => {
+          if (!event.id || !event.progressDetail?.total) return;
+
+          layers[event.id] = {
+            current: event.progressDetail.current || 0,
+            total: event.progressDetail.total,
+          };
+          const current = Object.values(layers).reduce((sum, layer) => sum + layer.current, 0);
+          const total = Object.values(layers).reduce((sum, layer) => sum + layer.total, 0);
+
+          report({
+            step: 'pull',
+            status: 'progress',
+            image: imageName,
+            current,
+            total,
+            message: `${event.status || 'Pulling'} ${imageName}`,
+          });
+        }
+      );
+    });
+  });
+}
+
+// Report each line of a container's output while it runs.
+// Git writes progress with carriage returns, so those count as line breaks too.
+// Stops early once `until` matches a line or after `timeoutMs`, for containers that keep running.
+async function followContainerOutput(
+  container: Docker.Container,
+  onLine: (line: string) => void,
+  { until, timeoutMs }: { until?: (line: string) => boolean; timeoutMs?: number } = {}
+): Promise<void> {
+  const stream = await container.logs({ follow: true, stdout: true, stderr: true }) as Readable;
+  const output = new PassThrough();
+  docker.modem.demuxStream(stream, output, output);
+
+  let buffer = '';
+  await new Promise<void>((resolve) => {
+    const timeoutId = timeoutMs ? setTimeout(finish, timeoutMs) : undefined;
+    function finish() {
+      clearTimeout(timeoutId);
+      stream.destroy();
+      resolve();
+    }
+
+    output.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      const lines = buffer.split(/[\r\n]+/);
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        onLine(line);
+        if (until?.(line)) finish();
+      }
+    });
+
+    stream.on('end', () => {
+      if (buffer.trim()) onLine(buffer);
+      clearTimeout(timeoutId);
+      resolve();
+    });
+    stream.on('error', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    });
+  });
+}
+
+interface HelperContainerOptions {
+  name: string;
+  script: string;
+  binds: string[];
+  workspaceId?: string;
+}
+
+// Run a shell script in a throwaway container and return its output lines
+async function runHelperContainer({ name, script, binds, workspaceId }: HelperContainerOptions): Promise<string[]> {
+  await pullImageIfNeeded(HELPER_IMAGE, () => { });
+
+  const container = await docker.createContainer({
+    name,
+    Image: HELPER_IMAGE,
+    Entrypoint: ['sh', '-c'],
+    Cmd: [script],
+    HostConfig: {
+      Binds: binds,
+    },
+    Labels: {
+      ...(workspaceId ? { 'workspace.id': workspaceId } : {}),
+      'workspace.type': 'helper',
+    },
+  });
+
+  try {
+    await container.start();
+    const lines: string[] = [];
+    const [result] = await Promise.all([
+      container.wait(),
+      followContainerOutput(container, (line) => lines.push(line)),
+    ]);
+
+    if (result.StatusCode !== 0) {
+      throw new Error(`${name} failed with exit code ${result.StatusCode}: ${lines.slice(-5).join('\n')}`);
+    }
+    return lines;
+  } finally {
+    await container.remove({ force: true }).catch(() => { });
+  }
+}
+
+// Extract files at / of a container, names relative to /. Works on created containers
+// too, so files can be there for their first command.
+async function copyIntoContainer(container: Docker.Container, files: BootstrapFile[]) {
+  await container.putArchive(tarArchive(files), { path: '/' });
+}
+
+// Give a created container the git credential helper and the user's SSH keys and known
+// hosts in /root/.ssh
+async function writeGitFiles(
+  container: Docker.Container,
+  workspaceId: string,
+  identities: SshIdentity[],
+  knownHosts: string[]
+) {
+  await copyIntoContainer(container, [
+    ...gitCredentialHelperFiles(workspaceId),
+    ...sshDirectoryFiles(identities, knownHosts).map((file) => ({ ...file, name: `root/${file.name}` })),
+  ]);
+}
+
+// What the OpenCode container needs from a repository's devcontainer.json
+interface DevcontainerSetup {
+  image: string;
+  forwardPorts: number[];
+  env: Record<string, string>;
+  createScript: string | null;
+  postStartScript: string | null;
+}
+
+// Build an image and report the builder's output as progress of the given step
+async function buildImage(
+  context: NodeJS.ReadableStream,
+  options: Docker.ImageBuildOptions,
+  step: ProvisioningStep,
+  report: ProvisioningReporter
+): Promise<void> {
+  const stream = await docker.buildImage(context, { rm: true, forcerm: true, ...options });
+
+  await new Promise<void>((resolve, reject) => {
+    docker.modem.followProgress(
+      stream,
+      (err: Error | null, output: { error?: string }[]) => {
+        // Build failures arrive as an event, not as an error of the stream
+        const failed = output?.find((event) => event.error);
+        if (err || failed) {
+          reject(err || new Error(failed!.error));
         } else {
-          console.log(`Successfully pulled ${imageName}`);
           resolve();
         }
-      });
-    });
+      },
+      (event: { stream?: string }) => {
+        const line = event.stream?.trim();
+        if (line) {
+          report({ step, status: 'progress', line, message: line });
+        }
+      }
+    );
   });
 }
 
-export interface WorkspaceContainerConfig {
-  workspaceId: string;
-  userId: string;
-  githubRepo: string;
-  githubBranch?: string;
-  githubToken?: string;
-  environmentIds?: string[]; // IDs of environments to link
-  // Ports are no longer needed - Traefik routes via Docker network
+interface BuildContextFile {
+  name: string;
+  content: Buffer;
+}
+
+interface CachedImageOptions {
+  repository: string;
+  baseImage: string;
+  dockerfile: string;
+  // Build context besides the Dockerfile. Files given as a list are part of the tag,
+  // a function is only called when the image has to be built, so whatever it
+  // returns must be pinned by the Dockerfile.
+  files?: BuildContextFile[] | (() => Promise<BuildContextFile[]>);
+  labels: Record<string, string>;
+  step: ProvisioningStep;
+}
+
+// Build an image on top of a local base image, unless the same inputs were built before.
+// The tag is a hash of the base image's ID, the Dockerfile and the listed files.
+async function buildCachedImage(
+  { repository, baseImage, dockerfile, files = [], labels, step }: CachedImageOptions,
+  report: ProvisioningReporter
+): Promise<{ image: string; reused: boolean }> {
+  const baseImageInfo = await docker.getImage(baseImage).inspect();
+  const hash = createHash('sha256').update(`${baseImageInfo.Id}\n${dockerfile}`);
+  if (Array.isArray(files)) {
+    for (const file of files) {
+      hash.update(`\n${file.name}\n`).update(createHash('sha256').update(file.content).digest('hex'));
+    }
+  }
+  const image = `${repository}:${hash.digest('hex').slice(0, 16)}`;
+
+  const existing = await docker.getImage(image).inspect().catch(() => null);
+  if (existing) {
+    return { image, reused: true };
+  }
+
+  const context = tarArchive([
+    { name: 'Dockerfile', content: Buffer.from(dockerfile) },
+    ...(Array.isArray(files) ? files : await files()),
+  ]);
+  await buildImage(Readable.from([context]), { t: image, labels }, step, report);
+  return { image, reused: false };
+}
+
+// Read devcontainer.json from a workspace's data volume, null if the repository has none
+async function readDevcontainerConfig(
+  workspaceId: string
+): Promise<{ path: string; config: DevcontainerConfig } | null> {
+  // base64 keeps the file intact, output lines are split on any line break
+  const lines = await runHelperContainer({
+    name: `devcontainer-read-${workspaceId}`,
+    script:
+      `cd /workspace && for f in ${DEVCONTAINER_PATHS.join(' ')}; do ` +
+      'if [ -f "$f" ]; then echo "$f"; base64 "$f"; exit 0; fi; done',
+    binds: [`workspace-${workspaceId}-data:/workspace`],
+    workspaceId,
+  });
+  if (lines.length === 0) return null;
+
+  const [configPath, ...content] = lines;
+  const text = Buffer.from(content.join(''), 'base64').toString('utf8');
+  try {
+    return { path: configPath, config: parseDevcontainerJson(text) };
+  } catch (error) {
+    throw new Error(`Invalid ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Build the image of a devcontainer.json that points at a Dockerfile in the repository
+async function buildDevcontainerBaseImage(
+  workspaceId: string,
+  configPath: string,
+  config: DevcontainerConfig,
+  report: ProvisioningReporter
+): Promise<string> {
+  const configDir = path.posix.dirname(configPath);
+  const dockerfile = path.posix.join(configDir, config.build?.dockerfile ?? config.dockerFile!);
+  const contextDir = path.posix.join(configDir, config.build?.context ?? '.');
+  if (contextDir.startsWith('..')) {
+    throw new Error('The devcontainer build context must be inside the repository');
+  }
+  const tag = `${DEVCONTAINER_IMAGE}-base:${workspaceId}`;
+
+  // getArchive works on a created but never started container
+  await pullImageIfNeeded(HELPER_IMAGE, () => { });
+  const container = await docker.createContainer({
+    name: `devcontainer-context-${workspaceId}`,
+    Image: HELPER_IMAGE,
+    Entrypoint: ['true'],
+    HostConfig: {
+      Binds: [`workspace-${workspaceId}-data:/workspace`],
+    },
+    Labels: {
+      'workspace.id': workspaceId,
+      'workspace.type': 'helper',
+    },
+  });
+
+  try {
+    // A trailing /. archives the directory's contents, which is what a build context is
+    const context = await container.getArchive({ path: `/workspace/${contextDir}/.` });
+    await buildImage(context, {
+      t: tag,
+      dockerfile: path.posix.relative(contextDir, dockerfile),
+      buildargs: config.build?.args,
+      target: config.build?.target,
+      labels: { 'workspace.id': workspaceId, 'workspace.type': 'devcontainer-base' },
+    }, 'devcontainer', report);
+  } finally {
+    await container.remove({ force: true }).catch(() => { });
+  }
+
+  return tag;
+}
+
+// Read the repository's devcontainer.json, if any, and build or reuse the image it describes.
+// Returns null when the workspace should use the default OpenCode image.
+async function prepareDevcontainer(
+  workspaceId: string,
+  report: ProvisioningReporter
+): Promise<DevcontainerSetup | null> {
+  const found = await readDevcontainerConfig(workspaceId);
+  if (!found) return null;
+  const { path: configPath, config } = found;
+
+  report({ step: 'devcontainer', status: 'started', message: `Preparing the image from ${configPath}` });
+
+  if (config.dockerComposeFile) {
+    report({
+      step: 'devcontainer',
+      status: 'failed',
+      message: 'Docker Compose dev containers are not supported, using the default image',
+    });
+    return null;
+  }
+
+  let baseImage: string;
+  if (config.image) {
+    baseImage = config.image;
+    await pullImageIfNeeded(baseImage, report);
+  } else if (config.build?.dockerfile || config.dockerFile) {
+    baseImage = await buildDevcontainerBaseImage(workspaceId, configPath, config, report);
+  } else {
+    throw new Error(`${configPath} needs an image or a build.dockerfile`);
+  }
+
+  const { features, skipped } = resolveFeatures(config);
+  for (const id of skipped) {
+    report({ step: 'devcontainer', status: 'progress', line: `Skipping unsupported feature ${id}`, message: `Skipping unsupported feature ${id}` });
+  }
+
+  // Same base image and Dockerfile means the same result, reuse the image built last time.
+  // Feature versions are pinned by their IDs in the Dockerfile.
+  const { image, reused } = await buildCachedImage({
+    repository: DEVCONTAINER_IMAGE,
+    baseImage,
+    dockerfile: devcontainerDockerfile(baseImage, features, OPENCODE_INSTALL_SCRIPT),
+    files: () => Promise.all(features.map(async (feature, index) => {
+      report({ step: 'devcontainer', status: 'progress', line: `Downloading feature ${feature.ref.id}`, message: `Downloading feature ${feature.ref.id}` });
+      return { name: `features/${index}.tar`, content: await fetchFeatureArchive(feature.ref) };
+    })),
+    labels: { 'workspace.type': 'devcontainer' },
+    step: 'devcontainer',
+  }, report);
+  report({ step: 'devcontainer', status: 'completed', message: `${reused ? 'Reusing' : 'Built'} ${image}` });
+
+  return {
+    image,
+    forwardPorts: forwardedPorts(config),
+    env: devcontainerEnv(config),
+    createScript: createCommandsScript(config),
+    postStartScript: postStartScript(config),
+  };
+}
+
+// The image the OpenCode container runs: the devcontainer image, or OPENCODE_IMAGE with
+// its packages preinstalled, so nothing is installed when the container starts. Images are
+// shared between workspaces and users, the OpenCode config is copied into each container.
+async function prepareOpencodeImage(
+  devcontainerImage: string | null,
+  report: ProvisioningReporter
+): Promise<string> {
+  report({ step: 'image', status: 'started', message: 'Preparing the OpenCode image' });
+  if (devcontainerImage) {
+    report({ step: 'image', status: 'completed', message: `Using ${devcontainerImage}` });
+    return devcontainerImage;
+  }
+
+  const { image, reused } = await buildCachedImage({
+    repository: OPENCODE_BASE_IMAGE,
+    baseImage: OPENCODE_IMAGE,
+    dockerfile: `FROM ${OPENCODE_IMAGE}\nRUN apk add --no-cache ${OPENCODE_PACKAGES.join(' ')}\n`,
+    labels: { 'workspace.type': 'opencode-base' },
+    step: 'image',
+  }, report);
+  report({ step: 'image', status: 'completed', message: `${reused ? 'Reusing' : 'Built'} ${image}` });
+  return image;
 }
 
 // Helper function to build environment variables from linked environments
@@ -68,30 +533,42 @@ async function buildEnvironmentVariables(
   }
 
   // Fetch environments from database
-  const environments = await (prisma as any).environment.findMany({
+  const environments = await prisma.environment.findMany({
     where: {
       id: { in: environmentIds },
       userId,
     },
   });
 
-  // Merge environment variables (later environments override earlier ones)
+  return mergeEnvironmentVariables(environments);
+}
+
+// Merge environment variables (later environments override earlier ones). Environments
+// saved before variable names were checked may hold names no shell can export, those
+// are left out.
+function mergeEnvironmentVariables(environments: Pick<LinkedEnvironment, 'name' | 'variables'>[]) {
+  const envVars: Record<string, string> = {};
   for (const env of environments) {
     try {
       const vars = JSON.parse(env.variables);
-      Object.assign(envVars, vars);
+      for (const [key, value] of Object.entries(vars)) {
+        if (isValidEnvName(key) && typeof value === 'string') {
+          envVars[key] = value;
+        } else {
+          console.error(`Skipping invalid environment variable ${JSON.stringify(key)} of ${env.name}`);
+        }
+      }
     } catch (error) {
       console.error(`Error parsing environment variables for ${env.name}:`, error);
     }
   }
-
   return envVars;
 }
 
 // Sync environment variables to a running workspace container
 export async function syncEnvironmentToWorkspaces(
   workspaceId: string,
-  environments: { id: string; name: string; variables: string }[]
+  environments: LinkedEnvironment[]
 ): Promise<void> {
   const opencodeContainer = docker.getContainer(`opencode-${workspaceId}`);
 
@@ -102,37 +579,16 @@ export async function syncEnvironmentToWorkspaces(
     return;
   }
 
-  // Parse and merge environment variables
-  const envVars: Record<string, string> = {};
-  for (const env of environments) {
-    try {
-      const vars = JSON.parse(env.variables);
-      Object.assign(envVars, vars);
-    } catch (error) {
-      console.error(`Error parsing environment variables for ${env.name}:`, error);
-    }
-  }
+  const envVars = mergeEnvironmentVariables(environments);
 
   console.log(`Syncing environment variables to workspace ${workspaceId}:`, Object.keys(envVars));
 
   // The only reliable way to update env vars for a running container is to restart it
   // Docker's container.update() doesn't support Env changes
-  // We need to stop, remove, and recreate the container with new env vars
-  
-  // Write env vars to /etc/profile.d AND restart the container
-  const exportLines = Object.entries(envVars)
-    .map(([key, value]) => `export ${key}="${value.replace(/"/g, '\\"')}"`)
-    .join('\n');
-
-  if (exportLines) {
-    const base64Exports = Buffer.from(exportLines).toString('base64');
-    const writeExec = await opencodeContainer.exec({
-      Cmd: ['sh', '-c', `echo '${base64Exports}' | base64 -d > /etc/profile.d/custom-env.sh && chmod +x /etc/profile.d/custom-env.sh`],
-      AttachStdout: true,
-      AttachStderr: true,
-    });
-    await writeExec.start({});
-  }
+
+  // Rewrite the profile script the container's command sources, also when no variables
+  // are left so removed ones are gone after the restart
+  await copyIntoContainer(opencodeContainer, [renderEnvProfile(envVars)]);
 
   // Restart the container to apply environment from /etc/profile.d
   // The container's entrypoint runs 'sh -c' which will source /etc/profile.d/*.sh
@@ -145,44 +601,288 @@ export async function syncEnvironmentToWorkspaces(
   }
 }
 
-export async function createWorkspaceContainer(config: WorkspaceContainerConfig) {
+// Shell commands running the devcontainer lifecycle before OpenCode starts
+function devcontainerStartupCommands(devcontainer: DevcontainerSetup): string[] {
+  const commands: string[] = [];
+  if (devcontainer.createScript) {
+    commands.push(
+      `{ [ -f ${DEVCONTAINER_CREATED_MARKER} ] || { ${devcontainer.createScript}; code=$?; ` +
+      `mkdir -p ${path.posix.dirname(DEVCONTAINER_CREATED_MARKER)} && touch ${DEVCONTAINER_CREATED_MARKER}; ` +
+      `echo "${DEVCONTAINER_SETUP_DONE} $code"; }; }`
+    );
+  }
+  if (devcontainer.postStartScript) {
+    // Often starts long-running services, so it must not hold up OpenCode
+    commands.push(`{ ${devcontainer.postStartScript} & }`);
+  }
+  return commands;
+}
+
+// Create the code-server and OpenCode containers of a workspace whose volumes
+// and network already exist. The containers are not started.
+async function createServiceContainers(
+  config: WorkspaceContainerConfig,
+  report: ProvisioningReporter,
+  devcontainer: DevcontainerSetup | null
+) {
   const {
     workspaceId,
     userId,
-    githubRepo,
-    githubBranch = 'main',
-    githubToken,
     environmentIds,
+    sshIdentities = [],
+    sshKnownHosts = [],
+    resources = RESOURCE_PROFILES[DEFAULT_RESOURCE_PROFILE],
   } = config;
 
   const networkName = `workspace-${workspaceId}`;
   const mainNetwork = process.env.DOCKER_NETWORK || 'open-web-agent-2_web';
   const volumeName = `workspace-${workspaceId}-data`;
   const opencodeDataVolume = `workspace-${workspaceId}-opencode`;
+  const domain = process.env.DOMAIN || 'localhost';
+  const codeServerResources = codeServerLimits(resources);
 
-  // Clone repository URL with token if provided
-  const repoUrl = githubToken
-    ? githubRepo.replace('https://', `https://${githubToken}@`)
-    : githubRepo;
+  const [skills, providers] = await Promise.all([
+    prisma.skill.findMany({ where: { userId } }),
+    // Enabled LLM providers and models make up opencode.json
+    prisma.lLMProvider.findMany({
+      where: { userId, isEnabled: true },
+      include: {
+        models: {
+          where: { isEnabled: true },
+        },
+      },
+    }),
+  ]);
+
+  // VS Code settings to disable welcome page and configure the editor
+  const vscodeSettings = {
+    "workbench.startupEditor": "none",
+    "workbench.welcomePage.walkthroughs.openOnInstall": false,
+    "workbench.tips.enabled": false,
+    "security.workspace.trust.enabled": false,
+    "security.workspace.trust.startupPrompt": "never",
+    "git.openRepositoryInParentFolders": "always",
+    "workbench.colorTheme": "Default Dark Modern",
+    "window.autoDetectColorScheme": true,
+    "telemetry.telemetryLevel": "off",
+    "update.mode": "none",
+    "extensions.autoUpdate": false,
+    // Disable secondary sidebar (agent tab)
+    "workbench.secondarySideBar.visible": false,
+    "workbench.secondarySideBar.defaultVisibility": "hidden",
+    "workbench.activityBar.location": "default",
+    // Clean UI
+    "breadcrumbs.enabled": true,
+    "editor.minimap.enabled": false,
+    "workbench.layoutControl.enabled": false
+  };
+
+  // Add custom environment variables from linked environments
+  const customEnvVars = await buildEnvironmentVariables(userId, environmentIds);
+
+  // Everything is checked before anything is built or created
+  const bootstrap = renderBootstrap({
+    opencodeConfig: buildOpencodeConfig(providers),
+    skills: skills.map((skill) => ({ name: skill.name, content: skill.content })),
+    env: customEnvVars,
+    vscodeSettings,
+  });
 
-  const domain = process.env.DOMAIN || 'localhost';
+  const opencodeImage = await prepareOpencodeImage(devcontainer?.image ?? null, report);
+
+  report({ step: 'containers', status: 'started', message: 'Creating code-server and OpenCode containers' });
+
+  // Create code-server container using codercom/code-server for better settings support
+  // Running as root so both code-server and opencode can install packages and write files
+  const codeServerContainer = await docker.createContainer({
+    name: `code-server-${workspaceId}`,
+    Image: CODE_SERVER_IMAGE,
+    User: 'root',
+    // settings.json is copied in before the container starts
+    Entrypoint: ['code-server'],
+    Cmd: ['--bind-addr', '0.0.0.0:8443', '--auth', 'none', '/root/workspace'],
+    Env: [
+      `TZ=UTC`,
+    ],
+    ExposedPorts: {
+      '8443/tcp': {},
+    },
+    HostConfig: {
+      // No PortBindings - Traefik routes via Docker network, no host ports needed
+      Binds: [`${volumeName}:/root/workspace`],
+      NetworkMode: networkName,
+      RestartPolicy: {
+        Name: 'unless-stopped',
+      },
+      Memory: codeServerResources.memoryMb * 1024 * 1024,
+      NanoCpus: Math.round(codeServerResources.cpus * 1000000000),
+    },
+    Labels: {
+      'traefik.enable': 'true',
+      'traefik.docker.network': mainNetwork,
+      // Subdomain routing: vscode-{workspaceId}.{domain}
+      [`traefik.http.routers.vscode-${workspaceId}.rule`]: `Host(\`vscode-${workspaceId}.${domain}\`)`,
+      [`traefik.http.routers.vscode-${workspaceId}.entrypoints`]: 'web',
+      [`traefik.http.services.vscode-${workspaceId}.loadbalancer.server.port`]: '8443',
+      'workspace.id': workspaceId,
+    },
+  });
+  await copyIntoContainer(codeServerContainer, bootstrap.codeServer);
+
+  // Build environment variables for opencode container
+  const opencodeEnv: string[] = [...GIT_CREDENTIAL_HELPER_ENV, ...renderContainerEnv(devcontainer?.env ?? {})];
+
+  // Add API keys from providers as environment variables
+  for (const provider of providers) {
+    if (provider.apiKey && provider.envVarName) {
+      opencodeEnv.push(`${provider.envVarName}=${provider.apiKey}`);
+    }
+  }
+
+  opencodeEnv.push(...renderContainerEnv(customEnvVars));
+
+  // Create OpenCode container
+  // Exposes port 3001 for OpenCode web UI. Previews are routed by the web app, see preview-ports.ts
+  const opencodeContainer = await docker.createContainer({
+    name: `opencode-${workspaceId}`,
+    Image: opencodeImage,
+    Env: opencodeEnv,
+    Entrypoint: ['sh', '-c'],
+    Cmd: [
+      [
+        // Packages, config and skills come with the image.
+        // Git and gh ask the web app for credentials through the credential helper
+        // LLM provider API keys are configured via environment variables
+        // Source /etc/profile.d/*.sh to pick up custom environment variables on restart
+        'for f in /etc/profile.d/*.sh; do [ -r "$f" ] && . "$f"; done',
+        'cd /workspace',
+        ...(devcontainer ? devcontainerStartupCommands(devcontainer) : []),
+        'exec opencode web --port 3001 --hostname 0.0.0.0',
+      ].join(' && ')
+    ],
+    ExposedPorts: {
+      '3001/tcp': {},
+    },
+    HostConfig: {
+      // No PortBindings - Traefik routes via Docker network, no host ports needed
+      Binds: [
+        `${volumeName}:/workspace`,
+        `${opencodeDataVolume}:/root/.local/share/opencode`  // Persist conversation history
+      ],
+      NetworkMode: networkName,
+      ExtraHosts: [
+        'host.docker.internal:host-gateway'  // Allow containers to reach host services (e.g., databases)
+      ],
+      RestartPolicy: {
+        Name: 'unless-stopped',
+      },
+      Memory: resources.memoryMb * 1024 * 1024, // Next.js dev + OpenCode need the most
+      NanoCpus: Math.round(resources.cpus * 1000000000),
+    },
+
+    Labels: {
+      'traefik.enable': 'true',
+      'traefik.docker.network': mainNetwork,
+      // OpenCode web UI router (port 3001) - subdomain: opencode-{workspaceId}.{domain}
+      [`traefik.http.routers.opencode-${workspaceId}.rule`]:
+        `Host(\`opencode-${workspaceId}.${domain}\`)`,
+      [`traefik.http.routers.opencode-${workspaceId}.service`]:
+        `opencode-${workspaceId}`,
+      [`traefik.http.routers.opencode-${workspaceId}.entrypoints`]: 'web',
+      [`traefik.http.services.opencode-${workspaceId}.loadbalancer.server.port`]:
+        '3001',
+      // SSE/streaming service settings - long timeout for streaming responses
+      [`traefik.http.services.opencode-${workspaceId}.loadbalancer.responseForwarding.flushInterval`]: '1ms',
+      // SSE/streaming middleware - disable buffering for LLM streaming
+      [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.X-Accel-Buffering`]: 'no',
+      [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.Cache-Control`]: 'no-cache, no-store, must-revalidate',
+      [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.X-Frame-Options`]: '',
+      [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.Connection`]: 'keep-alive',
+      [`traefik.http.routers.opencode-${workspaceId}.middlewares`]: `opencode-headers-${workspaceId}`,
+      'workspace.id': workspaceId,
+    },
+  });
+  await writeGitFiles(opencodeContainer, workspaceId, sshIdentities, sshKnownHosts);
+  await copyIntoContainer(opencodeContainer, bootstrap.opencode);
+
+  // Connect containers to the main web network so Traefik can route to them
+  const webNetwork = docker.getNetwork(mainNetwork);
+  await webNetwork.connect({
+    Container: `code-server-${workspaceId}`,
+  });
+  await webNetwork.connect({
+    Container: `opencode-${workspaceId}`,
+  });
+
+  report({ step: 'containers', status: 'completed', message: 'Containers created' });
+
+  return { codeServerContainer, opencodeContainer, forwardedPorts: devcontainer?.forwardPorts ?? [] };
+}
+
+// Report the output of the devcontainer create commands until they finish.
+// Failures are reported but don't fail provisioning, the workspace is still usable.
+async function followDevcontainerSetup(container: Docker.Container, report: ProvisioningReporter) {
+  report({ step: 'setup', status: 'started', message: 'Running devcontainer lifecycle commands' });
+
+  let exitCode: number | null = null;
+  await followContainerOutput(container, (line) => {
+    if (line.startsWith(DEVCONTAINER_SETUP_DONE)) {
+      exitCode = parseInt(line.slice(DEVCONTAINER_SETUP_DONE.length), 10);
+    } else {
+      report({ step: 'setup', status: 'progress', line, message: line });
+    }
+  }, {
+    until: (line) => line.startsWith(DEVCONTAINER_SETUP_DONE),
+    timeoutMs: DEVCONTAINER_SETUP_TIMEOUT_MS,
+  });
+
+  if (exitCode === 0) {
+    report({ step: 'setup', status: 'completed', message: 'Lifecycle commands finished' });
+  } else {
+    report({
+      step: 'setup',
+      status: 'failed',
+      message: exitCode === null
+        ? 'Lifecycle commands are still running, continuing without them'
+        : `Lifecycle commands failed with exit code ${exitCode}`,
+    });
+  }
+}
+
+export async function createWorkspaceContainer(
+  config: WorkspaceContainerConfig,
+  report: ProvisioningReporter = () => { }
+) {
+  const {
+    workspaceId,
+    githubRepo,
+    githubBranch = 'main',
+    sshIdentities = [],
+    sshKnownHosts = [],
+    source = { type: 'clone' },
+  } = config;
 
-  // Image names
-  const gitImage = 'alpine/git:latest';
-  const codeServerImage = 'codercom/code-server:latest';
-  const opencodeImage = 'ghcr.io/anomalyco/opencode:0.0.0-beta-202601311004';
-  // const opencodeImage = 'ghcr.io/anomalyco/opencode:latest';
+  const networkName = `workspace-${workspaceId}`;
+  const volumeName = `workspace-${workspaceId}-data`;
+  const opencodeDataVolume = `workspace-${workspaceId}-opencode`;
+
+  const checkouts = config.repositories?.length
+    ? config.repositories
+    : [{ url: githubRepo, branch: githubBranch, path: '' }];
+  const cloneScript = renderCloneScript(checkouts);
 
   try {
     // Pull all required images first
     console.log('Pulling required images...');
     await Promise.all([
-      pullImageIfNeeded(gitImage),
-      pullImageIfNeeded(codeServerImage),
-      pullImageIfNeeded(opencodeImage),
+      pullImageIfNeeded(GIT_IMAGE, report),
+      pullImageIfNeeded(CODE_SERVER_IMAGE, report),
+      pullImageIfNeeded(OPENCODE_IMAGE, report),
     ]);
     console.log('All images pulled successfully');
 
+    report({ step: 'volumes', status: 'started', message: 'Creating volumes and network' });
+
     // Create Docker volume for workspace data
     await docker.createVolume({
       Name: volumeName,
@@ -201,320 +901,114 @@ export async function createWorkspaceContainer(config: WorkspaceContainerConfig)
       },
     });
 
-    // Fetch user's skills from database
-    const skills = await (prisma as any).skill.findMany({
-      where: { userId },
-    });
-
-    // Fetch user's LLM providers and models from database
-    const providers = await (prisma as any).lLMProvider.findMany({
-      where: { userId, isEnabled: true },
-      include: {
-        models: {
-          where: { isEnabled: true },
-        },
-      },
-    });
-
     // Create dedicated network for this workspace
     await docker.createNetwork({
       Name: networkName,
       Driver: 'bridge',
-    });
-
-    // Build skills setup commands for the opencode container
-    // Skills are placed in ~/.config/opencode/skills/<name>/SKILL.md (global config location)
-    const skillsSetupCommands = skills.length > 0
-      ? skills.map((skill: { name: string; content: string }) => {
-        const skillDir = `/root/.config/opencode/skills/${skill.name}`;
-        // Use base64 to handle complex content with special characters
-        const escapedContent = Buffer.from(skill.content).toString('base64');
-        return `mkdir -p ${skillDir} && echo '${escapedContent}' | base64 -d > ${skillDir}/SKILL.md`;
-      }).join(' && ')
-      : '';
-
-    // Build opencode.json configuration for LLM providers
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const opencodeConfig: any = {
-      $schema: 'https://opencode.ai/config.json',
-      provider: {},
-      enabled_providers: [],
-      disabled_providers: [],
-    };
-
-    // Find default model across all providers
-    const defaultProvider = providers.find((p: { isDefault: boolean }) => p.isDefault);
-    const defaultModel = defaultProvider?.models.find((m: { isDefault: boolean }) => m.isDefault);
-
-    if (defaultModel && defaultProvider) {
-      // Use the native provider name and model ID
-      const providerKey = defaultProvider.providerId.toLowerCase();
-      opencodeConfig.model = `${providerKey}/${defaultModel.modelId}`;
-    }
-
-    // Build provider configuration using native OpenCode providers
-    if (providers.length > 0) {
-      for (const provider of providers) {
-        const providerKey = provider.providerId.toLowerCase();
-        
-        // Add to enabled providers
-        opencodeConfig.enabled_providers.push(providerKey);
-
-        // Configure provider options
-        opencodeConfig.provider[providerKey] = {
-          options: {}
-        };
-
-        if (provider.baseUrl) {
-          opencodeConfig.provider[providerKey].options.baseURL = provider.baseUrl;
-        }
-
-        if (provider.envVarName) {
-          opencodeConfig.provider[providerKey].options.apiKey = `{env:${provider.envVarName}}`;
-        }
-
-        // Add any custom headers
-        if (provider.headers && Object.keys(provider.headers).length > 0) {
-          const customHeaders = { ...provider.headers };
-          delete customHeaders.Authorization;
-          
-          if (Object.keys(customHeaders).length > 0) {
-            opencodeConfig.provider[providerKey].options.headers = 
-              opencodeConfig.provider[providerKey].options.headers || {};
-            Object.assign(opencodeConfig.provider[providerKey].options.headers, customHeaders);
-          }
-        }
-
-        // Note: We don't explicitly list models here anymore as OpenCode 
-        // will use the enabled providers to discover them or use the default model string.
-      }
-
-      // Explicitly disable common providers that aren't enabled to avoid confusion
-      const allPossibleProviders = ["openai", "anthropic", "google", "groq", "openrouter", "mistral", "together", "deepseek", "xai", "ollama", "lmstudio"];
-      opencodeConfig.disabled_providers = allPossibleProviders.filter(p => !opencodeConfig.enabled_providers.includes(p));
-    }
-
-    // Generate opencode.json content
-    const opencodeConfigJson = JSON.stringify(opencodeConfig, null, 2);
-    const opencodeConfigBase64 = Buffer.from(opencodeConfigJson).toString('base64');
-
-    // Command to write opencode.json to ~/.config/opencode/
-    const opencodeConfigCommand = `mkdir -p /root/.config/opencode && echo '${opencodeConfigBase64}' | base64 -d > /root/.config/opencode/opencode.json`;
-
-    // Create and run an init container to clone the repository
-    const initContainer = await docker.createContainer({
-      name: `init-${workspaceId}`,
-      Image: gitImage,
-      Entrypoint: ['sh', '-c'],
-      Cmd: [
-        // Clone repo - both code-server and opencode run as root so no permission fix needed
-        `git clone --branch ${githubBranch} ${repoUrl} /workspace`
-      ],
-      HostConfig: {
-        Binds: [
-          `${volumeName}:/workspace`
-        ],
-        AutoRemove: false,
-      },
       Labels: {
         'workspace.id': workspaceId,
-        'workspace.type': 'init',
       },
     });
 
-
-    // Start init container and wait for completion
-    await initContainer.start();
-
-    // Wait for the init container to complete
-    const initResult = await initContainer.wait();
-
-    if (initResult.StatusCode !== 0) {
-      // Get logs for debugging
-      const logs = await initContainer.logs({ stdout: true, stderr: true });
-      console.error('Init container logs:', logs.toString());
-      throw new Error(`Failed to clone repository. Exit code: ${initResult.StatusCode}`);
-    }
-
-    // Remove the init container after successful clone
-    await initContainer.remove();
-
-    // VS Code settings to disable welcome page and configure the editor
-    const vscodeSettings = {
-      "workbench.startupEditor": "none",
-      "workbench.welcomePage.walkthroughs.openOnInstall": false,
-      "workbench.tips.enabled": false,
-      "security.workspace.trust.enabled": false,
-      "security.workspace.trust.startupPrompt": "never",
-      "git.openRepositoryInParentFolders": "always",
-      "workbench.colorTheme": "Default Dark Modern",
-      "window.autoDetectColorScheme": true,
-      "telemetry.telemetryLevel": "off",
-      "update.mode": "none",
-      "extensions.autoUpdate": false,
-      // Disable secondary sidebar (agent tab)
-      "workbench.secondarySideBar.visible": false,
-      "workbench.secondarySideBar.defaultVisibility": "hidden",
-      "workbench.activityBar.location": "default",
-      // Clean UI
-      "breadcrumbs.enabled": true,
-      "editor.minimap.enabled": false,
-      "workbench.layoutControl.enabled": false
-    };
-
-    // Create code-server container using codercom/code-server for better settings support
-    // Running as root so both code-server and opencode can install packages and write files
-    const codeServerContainer = await docker.createContainer({
-      name: `code-server-${workspaceId}`,
-      Image: 'codercom/code-server:latest',
-      User: 'root',
-      Entrypoint: ['sh', '-c'],
-      Cmd: [
-        // Create settings directory, write settings, then start code-server
-        `mkdir -p /root/.local/share/code-server/User && ` +
-        `echo '${JSON.stringify(vscodeSettings)}' > /root/.local/share/code-server/User/settings.json && ` +
-        `exec code-server --bind-addr 0.0.0.0:8443 --auth none /root/workspace`
-      ],
-      Env: [
-        `TZ=UTC`,
-      ],
-      ExposedPorts: {
-        '8443/tcp': {},
-      },
-      HostConfig: {
-        // No PortBindings - Traefik routes via Docker network, no host ports needed
-        Binds: [`${volumeName}:/root/workspace`],
-        NetworkMode: networkName,
-        RestartPolicy: {
-          Name: 'unless-stopped',
+    report({ step: 'volumes', status: 'completed', message: 'Volumes and network created' });
+
+    if (source.type === 'snapshot') {
+      // Fill the fresh volumes from the snapshot instead of cloning
+      report({ step: 'clone', status: 'started', message: 'Restoring snapshot' });
+      await restoreVolumeSnapshot(workspaceId, source.snapshotId);
+      report({ step: 'clone', status: 'completed', message: 'Snapshot restored' });
+    } else if (source.type === 'workspace') {
+      report({ step: 'clone', status: 'started', message: 'Copying files from the source workspace' });
+      await copyWorkspaceVolumes(source.workspaceId, workspaceId, source.includeHistory);
+      report({ step: 'clone', status: 'completed', message: 'Workspace files copied' });
+    } else {
+      // The credential helper needs the web app, but the init container stays off the main
+      // network with the database and the other workspaces
+      await createCloneNetwork(workspaceId);
+
+      // Create and run an init container to clone the repository
+      const initContainer = await docker.createContainer({
+        name: `init-${workspaceId}`,
+        Image: GIT_IMAGE,
+        Entrypoint: ['sh', '-c'],
+        Cmd: [
+          // Clone repos - both code-server and opencode run as root so no permission fix needed
+          cloneScript
+        ],
+        Env: GIT_CREDENTIAL_HELPER_ENV,
+        HostConfig: {
+          Binds: [
+            `${volumeName}:/workspace`
+          ],
+          NetworkMode: cloneNetworkName(workspaceId),
+          ExtraHosts: ['host.docker.internal:host-gateway'],
+          AutoRemove: false,
         },
-        Memory: 2 * 1024 * 1024 * 1024, // 2GB
-        NanoCpus: 2 * 1000000000, // 2 CPUs
-      },
-      Labels: {
-        'traefik.enable': 'true',
-        'traefik.docker.network': mainNetwork,
-        // Subdomain routing: vscode-{workspaceId}.{domain}
-        [`traefik.http.routers.vscode-${workspaceId}.rule`]: `Host(\`vscode-${workspaceId}.${domain}\`)`,
-        [`traefik.http.routers.vscode-${workspaceId}.entrypoints`]: 'web',
-        [`traefik.http.services.vscode-${workspaceId}.loadbalancer.server.port`]: '8443',
-        'workspace.id': workspaceId,
-      },
-    });
-
-    // Build environment variables for opencode container
-    const opencodeEnv: string[] = [];
-    if (githubToken) {
-      opencodeEnv.push(`GITHUB_TOKEN=${githubToken}`);
-      opencodeEnv.push(`GH_TOKEN=${githubToken}`); // gh cli uses this
-    }
-
-    // Add API keys from providers as environment variables
-    for (const provider of providers) {
-      if (provider.apiKey && provider.envVarName) {
-        opencodeEnv.push(`${provider.envVarName}=${provider.apiKey}`);
+        Labels: {
+          'workspace.id': workspaceId,
+          'workspace.type': 'init',
+        },
+      });
+      // HTTPS clones get credentials from the helper, SSH clones and submodules use the user's keys
+      await writeGitFiles(initContainer, workspaceId, sshIdentities, sshKnownHosts);
+
+      // Start init container and wait for completion
+      report({
+        step: 'clone',
+        status: 'started',
+        message: checkouts.length > 1
+          ? `Cloning ${checkouts.length} repositories`
+          : `Cloning ${githubRepo} (${githubBranch})`,
+      });
+      await initContainer.start();
+
+      // Stream clone output while waiting for the init container to complete
+      const [initResult] = await Promise.all([
+        initContainer.wait(),
+        followContainerOutput(initContainer, (line) => {
+          report({ step: 'clone', status: 'progress', line, message: line });
+        }),
+      ]);
+
+      if (initResult.StatusCode !== 0) {
+        // Get logs for debugging
+        const logs = await initContainer.logs({ stdout: true, stderr: true });
+        console.error('Init container logs:', logs.toString());
+        throw new Error(`Failed to clone repository. Exit code: ${initResult.StatusCode}`);
       }
-    }
 
-    // Add custom environment variables from linked environments
-    const customEnvVars = await buildEnvironmentVariables(userId, environmentIds);
-    for (const [key, value] of Object.entries(customEnvVars)) {
-      opencodeEnv.push(`${key}=${value}`);
+      // Remove the init container after successful clone
+      await initContainer.remove();
+      await removeCloneNetwork(workspaceId);
+      report({
+        step: 'clone',
+        status: 'completed',
+        message: checkouts.length > 1 ? 'Repositories cloned' : 'Repository cloned',
+      });
     }
 
-    // Create OpenCode container
-    // Exposes port 3001 for OpenCode web UI and port 3000 for dev server preview
-    const opencodeContainer = await docker.createContainer({
-      name: `opencode-${workspaceId}`,
-      Image: opencodeImage,
-      Env: opencodeEnv,
-      Entrypoint: ['sh', '-c'],
-      Cmd: [
-        // Install git, github-cli, nodejs/npm for running dev servers, and sqlite for session queries
-        // Git credentials are configured via GITHUB_TOKEN/GH_TOKEN env vars
-        // LLM provider API keys are configured via environment variables
-        // Source /etc/profile.d/*.sh to pick up custom environment variables on restart
-        `apk add --no-cache git github-cli nodejs npm python3 sqlite` +
-        ` && ${opencodeConfigCommand}` +
-        (skillsSetupCommands ? ` && ${skillsSetupCommands}` : '') +
-        ` && for f in /etc/profile.d/*.sh; do [ -r "$f" ] && . "$f"; done` +
-        ` && cd /workspace && exec opencode web --port 3001 --hostname 0.0.0.0`
-      ],
-      ExposedPorts: {
-        '3001/tcp': {},
-        '3000/tcp': {}, // Preview port for dev servers
-      },
-      HostConfig: {
-        // No PortBindings - Traefik routes via Docker network, no host ports needed
-        // Skills are set up in ~/.config/opencode/skills/ during container startup
-        Binds: [
-          `${volumeName}:/workspace`,
-          `${opencodeDataVolume}:/root/.local/share/opencode`  // Persist conversation history
-        ],
-        NetworkMode: networkName,
-        ExtraHosts: [
-          'host.docker.internal:host-gateway'  // Allow containers to reach host services (e.g., databases)
-        ],
-        RestartPolicy: {
-          Name: 'unless-stopped',
-        },
-        Memory: 8 * 1024 * 1024 * 1024, // 8GB for Next.js dev + OpenCode
-        NanoCpus: 4 * 1000000000, // 4 CPUs for better dev experience
-      },
+    // Repositories with a devcontainer.json get their own image, the others the OpenCode image
+    const devcontainer = await prepareDevcontainer(workspaceId, report);
 
-      Labels: {
-        'traefik.enable': 'true',
-        'traefik.docker.network': mainNetwork,
-        // OpenCode web UI router (port 3001) - subdomain: opencode-{workspaceId}.{domain}
-        [`traefik.http.routers.opencode-${workspaceId}.rule`]:
-          `Host(\`opencode-${workspaceId}.${domain}\`)`,
-        [`traefik.http.routers.opencode-${workspaceId}.service`]:
-          `opencode-${workspaceId}`,
-        [`traefik.http.routers.opencode-${workspaceId}.entrypoints`]: 'web',
-        [`traefik.http.services.opencode-${workspaceId}.loadbalancer.server.port`]:
-          '3001',
-        // SSE/streaming service settings - long timeout for streaming responses
-        [`traefik.http.services.opencode-${workspaceId}.loadbalancer.responseForwarding.flushInterval`]: '1ms',
-        // SSE/streaming middleware - disable buffering for LLM streaming
-        [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.X-Accel-Buffering`]: 'no',
-        [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.Cache-Control`]: 'no-cache, no-store, must-revalidate',
-        [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.X-Frame-Options`]: '',
-        [`traefik.http.middlewares.opencode-headers-${workspaceId}.headers.customResponseHeaders.Connection`]: 'keep-alive',
-        [`traefik.http.routers.opencode-${workspaceId}.middlewares`]: `opencode-headers-${workspaceId}`,
-        // Preview router for dev server (port 3000) - subdomain: preview-{workspaceId}.{domain}
-        [`traefik.http.routers.preview-${workspaceId}.rule`]:
-          `Host(\`preview-${workspaceId}.${domain}\`)`,
-        [`traefik.http.routers.preview-${workspaceId}.service`]:
-          `preview-${workspaceId}`,
-        [`traefik.http.routers.preview-${workspaceId}.entrypoints`]: 'web',
-        [`traefik.http.services.preview-${workspaceId}.loadbalancer.server.port`]:
-          '3000',
-        // Remove X-Frame-Options for preview
-        [`traefik.http.middlewares.preview-headers-${workspaceId}.headers.customResponseHeaders.X-Frame-Options`]: '',
-        [`traefik.http.middlewares.preview-headers-${workspaceId}.headers.customResponseHeaders.Content-Security-Policy`]: '',
-        [`traefik.http.routers.preview-${workspaceId}.middlewares`]: `preview-headers-${workspaceId}`,
-        'workspace.id': workspaceId,
-      },
-    });
-
-    // Connect containers to the main web network so Traefik can route to them
-    const webNetwork = docker.getNetwork(mainNetwork);
-    await webNetwork.connect({
-      Container: `code-server-${workspaceId}`,
-    });
-    await webNetwork.connect({
-      Container: `opencode-${workspaceId}`,
-    });
+    const { codeServerContainer, opencodeContainer, forwardedPorts } =
+      await createServiceContainers(config, report, devcontainer);
 
     // Start containers
+    report({ step: 'start', status: 'started', message: 'Starting containers' });
     await codeServerContainer.start();
     await opencodeContainer.start();
+    report({ step: 'start', status: 'completed', message: 'Containers started' });
+
+    if (devcontainer?.createScript) {
+      await followDevcontainerSetup(opencodeContainer, report);
+    }
 
     return {
       codeServerContainerId: codeServerContainer.id,
       opencodeContainerId: opencodeContainer.id,
       networkName,
       volumeName,
+      forwardedPorts,
     };
   } catch (error) {
     console.error('Error creating workspace container:', error);
@@ -528,6 +1022,73 @@ export async function createWorkspaceContainer(config: WorkspaceContainerConfig)
   }
 }
 
+// Replace the service containers of an existing workspace, keeping its volumes.
+// Used to apply settings that can't be changed on existing containers.
+export async function recreateWorkspaceContainers(
+  config: WorkspaceContainerConfig,
+  report: ProvisioningReporter = () => { }
+) {
+  const { workspaceId } = config;
+  const networkName = `workspace-${workspaceId}`;
+
+  await Promise.all([
+    pullImageIfNeeded(CODE_SERVER_IMAGE, report),
+    pullImageIfNeeded(OPENCODE_IMAGE, report),
+  ]);
+
+  await Promise.all([
+    docker.getContainer(`code-server-${workspaceId}`).remove({ force: true }).catch(() => { }),
+    docker.getContainer(`opencode-${workspaceId}`).remove({ force: true }).catch(() => { }),
+  ]);
+
+  // The network is normally still there, but it costs nothing to make sure
+  const network = await docker.getNetwork(networkName).inspect().catch(() => null);
+  if (!network) {
+    await docker.createNetwork({
+      Name: networkName,
+      Driver: 'bridge',
+      Labels: {
+        'workspace.id': workspaceId,
+      },
+    });
+  }
+
+  // Picks up changes to devcontainer.json, the image is rebuilt only if its inputs changed
+  const devcontainer = await prepareDevcontainer(workspaceId, report);
+  const { codeServerContainer, opencodeContainer, forwardedPorts } =
+    await createServiceContainers(config, report, devcontainer);
+
+  return {
+    codeServerContainerId: codeServerContainer.id,
+    opencodeContainerId: opencodeContainer.id,
+    networkName,
+    volumeName: `workspace-${workspaceId}-data`,
+    forwardedPorts,
+  };
+}
+
+// Change the CPU and memory limits of a workspace's containers in place
+export async function updateWorkspaceContainerResources(
+  workspaceId: string,
+  resources: WorkspaceResources
+) {
+  const codeServerResources = codeServerLimits(resources);
+  const limits = [
+    { name: `code-server-${workspaceId}`, ...codeServerResources },
+    { name: `opencode-${workspaceId}`, memoryMb: resources.memoryMb, cpus: resources.cpus },
+  ];
+
+  for (const { name, memoryMb, cpus } of limits) {
+    const memory = memoryMb * 1024 * 1024;
+    await docker.getContainer(name).update({
+      Memory: memory,
+      // Keep Docker's default of as much swap as memory, it refuses a limit above the swap limit
+      MemorySwap: memory * 2,
+      NanoCpus: Math.round(cpus * 1000000000),
+    });
+  }
+}
+
 export async function stopWorkspaceContainer(workspaceId: string) {
   try {
     const codeServerContainer = docker.getContainer(`code-server-${workspaceId}`);
@@ -550,6 +1111,11 @@ export async function startWorkspaceContainer(workspaceId: string) {
     const codeServerContainer = docker.getContainer(`code-server-${workspaceId}`);
     const opencodeContainer = docker.getContainer(`opencode-${workspaceId}`);
 
+    // The helper's token has most likely expired while the workspace was stopped
+    await renewGitCredentialToken(workspaceId).catch((error) => {
+      console.error(`Error renewing git credential token of workspace ${workspaceId}:`, error);
+    });
+
     await Promise.all([
       codeServerContainer.start().catch(() => { }),
       opencodeContainer.start().catch(() => { }),
@@ -562,6 +1128,11 @@ export async function startWorkspaceContainer(workspaceId: string) {
   }
 }
 
+// Replace the token of the OpenCode container's git credential helper with a fresh one
+export async function renewGitCredentialToken(workspaceId: string) {
+  await copyIntoContainer(docker.getContainer(`opencode-${workspaceId}`), gitCredentialTokenFiles(workspaceId));
+}
+
 export async function removeWorkspaceContainer(workspaceId: string) {
   try {
     await stopWorkspaceContainer(workspaceId);
@@ -583,6 +1154,40 @@ export async function removeWorkspaceContainer(workspaceId: string) {
   }
 }
 
+function cloneNetworkName(workspaceId: string) {
+  return `workspace-${workspaceId}-clone`;
+}
+
+// A network for the init container that only the web app joins, so the credential helper
+// reaches the web app and the clone reaches the internet
+async function createCloneNetwork(workspaceId: string) {
+  const networkName = cloneNetworkName(workspaceId);
+  await docker.createNetwork({
+    Name: networkName,
+    Driver: 'bridge',
+    Labels: {
+      'workspace.id': workspaceId,
+    },
+  });
+
+  const webContainer = webContainerName();
+  if (webContainer) {
+    await docker.getNetwork(networkName).connect({
+      Container: webContainer,
+      EndpointConfig: { Aliases: [webContainer] },
+    });
+  }
+}
+
+async function removeCloneNetwork(workspaceId: string) {
+  const network = docker.getNetwork(cloneNetworkName(workspaceId));
+  const webContainer = webContainerName();
+  if (webContainer) {
+    await network.disconnect({ Container: webContainer, Force: true }).catch(() => { });
+  }
+  await network.remove().catch(() => { });
+}
+
 async function cleanupWorkspace(workspaceId: string) {
   const networkName = `workspace-${workspaceId}`;
   const volumeName = `workspace-${workspaceId}-data`;
@@ -596,6 +1201,8 @@ async function cleanupWorkspace(workspaceId: string) {
     // Init container might not exist
   }
 
+  await removeCloneNetwork(workspaceId);
+
   try {
     const network = docker.getNetwork(networkName);
     await network.remove().catch(() => { });
@@ -618,6 +1225,371 @@ async function cleanupWorkspace(workspaceId: string) {
   }
 }
 
+// Run a command in the OpenCode container and collect its output
+export async function execInWorkspace(workspaceId: string, command: string[]): Promise<ExecResult> {
+  const container = docker.getContainer(`opencode-${workspaceId}`);
+  const exec = await container.exec({
+    Cmd: command,
+    AttachStdout: true,
+    AttachStderr: true,
+  });
+
+  const stream = await exec.start({ Detach: false });
+
+  // Docker multiplexes stdout and stderr on the same stream
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const stdoutChunks: Buffer[] = [];
+  const stderrChunks: Buffer[] = [];
+  stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+  stderr.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+  docker.modem.demuxStream(stream, stdout, stderr);
+
+  await new Promise<void>((resolve, reject) => {
+    stream.on('end', resolve);
+    stream.on('error', reject);
+  });
+
+  const info = await exec.inspect();
+
+  return {
+    exitCode: info.ExitCode ?? 0,
+    stdout: Buffer.concat(stdoutChunks).toString('utf8'),
+    stderr: Buffer.concat(stderrChunks).toString('utf8'),
+  };
+}
+
+// Start an interactive login shell with a TTY in the OpenCode container.
+// bash is preferred, images without it get sh.
+export async function openWorkspaceTerminal(
+  workspaceId: string,
+  size: TerminalSize
+): Promise<TerminalConnection | null> {
+  const container = docker.getContainer(`opencode-${workspaceId}`);
+  const info = await container.inspect().catch(() => null);
+  if (!info?.State.Running) return null;
+
+  const exec = await container.exec({
+    Cmd: ['sh', '-c', 'if command -v bash >/dev/null 2>&1; then exec bash -l; else exec sh -l; fi'],
+    AttachStdin: true,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: true,
+    Env: ['TERM=xterm-256color'],
+    WorkingDir: '/workspace',
+  });
+
+  // With a TTY the output is not multiplexed, the stream carries raw terminal output
+  const stream = await exec.start({ hijack: true, stdin: true, Tty: true });
+  await exec.resize({ h: size.rows, w: size.cols }).catch(() => { });
+
+  const decoder = new StringDecoder('utf8');
+  const exitListeners: (() => void)[] = [];
+  let exited = false;
+  const exit = () => {
+    if (exited) return;
+    exited = true;
+    for (const listener of exitListeners) listener();
+  };
+  stream.on('end', exit);
+  stream.on('close', exit);
+  stream.on('error', exit);
+
+  return {
+    write: (data) => {
+      if (!exited) stream.write(data);
+    },
+    resize: async ({ cols, rows }) => {
+      await exec.resize({ h: rows, w: cols });
+    },
+    onData: (listener) => {
+      stream.on('data', (chunk: Buffer) => listener(decoder.write(chunk)));
+    },
+    onExit: (listener) => {
+      exitListeners.push(listener);
+    },
+    close: () => {
+      // The shell exits once its input ends
+      stream.end();
+      stream.destroy();
+      exit();
+    },
+  };
+}
+
+// Containers, networks and volumes of every workspace, by their workspace.id label.
+// Networks created before they were labelled are matched by name.
+export async function getWorkspaceInventory(): Promise<Map<string, WorkspaceInventory>> {
+  const [containers, networks, volumes] = await Promise.all([
+    docker.listContainers({ all: true, filters: { label: ['workspace.id'] } }),
+    docker.listNetworks({ filters: { name: ['workspace-'] } }),
+    docker.listVolumes({ filters: { label: ['workspace.id'] } }),
+  ]);
+
+  const inventory = new Map<string, WorkspaceInventory>();
+  const entry = (workspaceId: string) => {
+    let workspace = inventory.get(workspaceId);
+    if (!workspace) {
+      workspace = { network: false, volumes: [] };
+      inventory.set(workspaceId, workspace);
+    }
+    return workspace;
+  };
+
+  for (const container of containers) {
+    const workspaceId = container.Labels['workspace.id'];
+    const name = container.Names[0]?.replace(/^\//, '');
+    // The list only has a summary like "Exited (137) 2 hours ago"
+    const exitCode = /^Exited \((\d+)\)/.exec(container.Status)?.[1];
+    const state: ServiceState = {
+      // Snapshots and copies pause the containers for a moment, they are still running
+      running: container.State === 'running' || container.State === 'paused',
+      status: container.State,
+      exitCode: exitCode === undefined ? undefined : parseInt(exitCode, 10),
+    };
+    if (name === `code-server-${workspaceId}`) {
+      entry(workspaceId).codeServer = state;
+    } else if (name === `opencode-${workspaceId}`) {
+      entry(workspaceId).opencode = state;
+      const labelPorts = container.Labels['workspace.preview-ports'];
+      if (labelPorts) {
+        entry(workspaceId).labelPreviewPorts = labelPorts.split(',').map(Number).filter(Number.isInteger);
+      }
+    }
+  }
+
+  for (const network of networks) {
+    const workspaceId = network.Labels?.['workspace.id'] ??
+      (network.Name.startsWith('workspace-') ? network.Name.slice('workspace-'.length) : null);
+    // The clone network is only there while the repositories are cloned
+    if (workspaceId && network.Name === `workspace-${workspaceId}`) entry(workspaceId).network = true;
+  }
+
+  for (const volume of volumes.Volumes ?? []) {
+    entry(volume.Labels['workspace.id']).volumes.push(volume.Name);
+  }
+
+  return inventory;
+}
+
+// Everything labelled with a workspace ID, and the images with a baked-in OpenCode config
+// that earlier versions built and no container uses anymore. The devcontainer and
+// OpenCode base images are shared between workspaces and kept as a cache.
+export async function listWorkspaceObjects(): Promise<RuntimeObject[]> {
+  const [containers, allContainers, networks, volumes, images, configImages] = await Promise.all([
+    docker.listContainers({ all: true, filters: { label: ['workspace.id'] } }),
+    docker.listContainers({ all: true }),
+    docker.listNetworks({ filters: { name: ['workspace-'] } }),
+    docker.listVolumes({ filters: { label: ['workspace.id'] } }),
+    docker.listImages({ filters: { label: ['workspace.id'] } }),
+    docker.listImages({ filters: { label: ['workspace.type=opencode'] } }),
+  ]);
+  const usedImages = new Set(allContainers.map((container) => container.ImageID));
+  const fromSeconds = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+  const objects: RuntimeObject[] = [];
+  for (const container of containers) {
+    objects.push({
+      kind: 'container',
+      id: container.Id,
+      name: container.Names[0]?.replace(/^\//, '') ?? container.Id,
+      workspaceId: container.Labels['workspace.id'],
+      createdAt: fromSeconds(container.Created),
+    });
+  }
+  for (const network of networks) {
+    // Networks created before they were labelled are matched by name
+    const workspaceId = network.Labels?.['workspace.id'] ??
+      (network.Name.startsWith('workspace-') ? network.Name.slice('workspace-'.length) : null);
+    if (!workspaceId) continue;
+    objects.push({ kind: 'network', id: network.Id, name: network.Name, workspaceId, createdAt: network.Created });
+  }
+  for (const volume of volumes.Volumes ?? []) {
+    objects.push({
+      kind: 'volume',
+      id: volume.Name,
+      name: volume.Name,
+      workspaceId: volume.Labels['workspace.id'],
+      createdAt: (volume as { CreatedAt?: string }).CreatedAt,
+    });
+  }
+  for (const image of images) {
+    objects.push({
+      kind: 'image',
+      id: image.Id,
+      name: image.RepoTags?.[0] ?? image.Id,
+      workspaceId: image.Labels['workspace.id'],
+      createdAt: fromSeconds(image.Created),
+      sizeBytes: image.Size,
+    });
+  }
+  for (const image of configImages) {
+    if (usedImages.has(image.Id)) continue;
+    objects.push({
+      kind: 'image',
+      id: image.Id,
+      name: image.RepoTags?.[0] ?? image.Id,
+      workspaceId: null,
+      createdAt: fromSeconds(image.Created),
+      sizeBytes: image.Size,
+    });
+  }
+
+  return objects;
+}
+
+export async function removeWorkspaceObject({ kind, id }: Pick<RuntimeObject, 'kind' | 'id'>): Promise<void> {
+  switch (kind) {
+    case 'container':
+      await docker.getContainer(id).remove({ force: true });
+      break;
+    case 'network':
+      await docker.getNetwork(id).remove();
+      break;
+    case 'volume':
+      await docker.getVolume(id).remove();
+      break;
+    case 'image':
+      // Not forced, an image a container started using meanwhile stays
+      await docker.getImage(id).remove();
+      break;
+  }
+}
+
+// Split Docker's multiplexed log stream into frames. Each frame starts with an 8 byte
+// header holding the stream type (1 stdout, 2 stderr) and the size of the payload.
+async function* demuxLogFrames(
+  output: AsyncIterable<Buffer>
+): AsyncGenerator<{ stream: LogStream; payload: Buffer }> {
+  let pending = Buffer.alloc(0);
+  for await (const chunk of output) {
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 8) {
+      const size = pending.readUInt32BE(4);
+      if (pending.length < 8 + size) break;
+      yield { stream: pending[0] === 2 ? 'stderr' : 'stdout', payload: pending.subarray(8, 8 + size) };
+      pending = pending.subarray(8 + size);
+    }
+  }
+}
+
+// Lines come with the timestamp Docker recorded. Progress output rewrites its line
+// with carriage returns, only the final state of such a line is kept.
+function parseLogLine(stream: LogStream, text: string): LogLine {
+  const space = text.indexOf(' ');
+  const timestamp = space > 0 ? text.slice(0, space) : undefined;
+  const segments = text.slice(space + 1).split('\r').filter(Boolean);
+  return { stream, timestamp, line: segments[segments.length - 1] ?? '' };
+}
+
+async function* logLines(output: Readable, signal?: AbortSignal): AsyncGenerator<LogLine> {
+  const partial: Record<LogStream, string> = { stdout: '', stderr: '' };
+  const abort = () => output.destroy();
+  signal?.addEventListener('abort', abort);
+  try {
+    for await (const { stream, payload } of demuxLogFrames(output)) {
+      const lines = (partial[stream] + payload.toString('utf8')).split('\n');
+      partial[stream] = lines.pop() ?? '';
+      for (const line of lines) {
+        yield parseLogLine(stream, line);
+      }
+    }
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (partial[stream]) yield parseLogLine(stream, partial[stream]);
+    }
+  } catch (error) {
+    // Destroying the stream on abort ends the iteration with a premature close
+    if (!signal?.aborted) throw error;
+  } finally {
+    // Also runs when the reader stops early, which ends a followed stream
+    signal?.removeEventListener('abort', abort);
+    output.destroy();
+  }
+}
+
+// Output of a workspace container, null if the container doesn't exist
+export async function readWorkspaceLogs(
+  workspaceId: string,
+  source: WorkspaceLogSource,
+  { tail, follow = false, streams = ['stdout', 'stderr'], signal }: LogOptions
+): Promise<AsyncIterable<LogLine> | null> {
+  const container = docker.getContainer(`${source}-${workspaceId}`);
+  const info = await container.inspect().catch(() => null);
+  if (!info) return null;
+
+  const options = {
+    stdout: streams.includes('stdout'),
+    stderr: streams.includes('stderr'),
+    timestamps: true,
+    ...(tail !== undefined && { tail }),
+  };
+  const output = follow
+    ? await container.logs({ ...options, follow: true }) as Readable
+    : Readable.from([await container.logs({ ...options, follow: false })]);
+
+  return logLines(output, signal);
+}
+
+// Collect the activity signals used by the idle monitor
+export async function getWorkspaceActivity(workspaceId: string): Promise<WorkspaceActivity | null> {
+  const opencodeInfo = await docker.getContainer(`opencode-${workspaceId}`).inspect().catch(() => null);
+  if (!opencodeInfo?.State.Running) {
+    return null;
+  }
+
+  // OpenCode writes every session update to its SQLite database (and WAL),
+  // so the newest modification time of those files is the last agent activity
+  const result = await execInWorkspace(workspaceId, [
+    'sh', '-c',
+    'stat -c %Y /root/.local/share/opencode/*.db* 2>/dev/null; echo ---; cat /proc/net/tcp /proc/net/tcp6 2>/dev/null',
+  ]);
+  const [mtimes, tcp = ''] = result.stdout.split('---');
+
+  const lastWrite = mtimes
+    .split('\n')
+    .map((line) => parseInt(line.trim(), 10))
+    .filter((seconds) => !Number.isNaN(seconds))
+    .reduce((latest, seconds) => Math.max(latest, seconds), 0);
+
+  const previewPorts = (await listPreviewPorts(workspaceId)).map((preview) => preview.port);
+  const previewConnections = parseProcNetTcp(tcp)
+    .filter((socket) => socket.state === 'ESTABLISHED' && previewPorts.includes(socket.localPort))
+    .length;
+
+  // code-server reports the last heartbeat of connected clients on /healthz
+  let codeServerLastHeartbeat: Date | undefined;
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3000);
+    const response = await fetch(`http://code-server-${workspaceId}:8443/healthz`, {
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+    const health: { lastHeartbeat?: number } = await response.json();
+    if (health.lastHeartbeat) {
+      codeServerLastHeartbeat = new Date(health.lastHeartbeat);
+    }
+  } catch {
+    // code-server not reachable, treat as no connection
+  }
+
+  return {
+    opencodeLastActivity: lastWrite > 0 ? new Date(lastWrite * 1000) : undefined,
+    codeServerLastHeartbeat,
+    previewConnections,
+  };
+}
+
+// Ports servers listen on in the OpenCode container, read from /proc so no netstat is needed
+export async function listWorkspaceListeningPorts(workspaceId: string): Promise<ListeningPort[] | null> {
+  const opencodeInfo = await docker.getContainer(`opencode-${workspaceId}`).inspect().catch(() => null);
+  if (!opencodeInfo?.State.Running) {
+    return null;
+  }
+
+  const result = await execInWorkspace(workspaceId, ['sh', '-c', 'cat /proc/net/tcp /proc/net/tcp6 2>/dev/null']);
+  return listeningPorts(parseProcNetTcp(result.stdout));
+}
 
 export async function getContainerStatus(workspaceId: string) {
   try {
@@ -639,4 +1611,154 @@ export async function getContainerStatus(workspaceId: string) {
   }
 }
 
+function snapshotFileName(snapshotId: string) {
+  return `${snapshotId}.tar.gz`;
+}
+
+// Pause a workspace's running containers while reading its volumes, so the copy
+// (and OpenCode's SQLite files in particular) is consistent
+async function withWorkspacePaused<T>(workspaceId: string, fn: () => Promise<T>): Promise<T> {
+  const paused: Docker.Container[] = [];
+
+  try {
+    for (const name of [`code-server-${workspaceId}`, `opencode-${workspaceId}`]) {
+      const container = docker.getContainer(name);
+      const info = await container.inspect().catch(() => null);
+      if (info?.State.Running && !info.State.Paused) {
+        await container.pause();
+        paused.push(container);
+      }
+    }
+
+    return await fn();
+  } finally {
+    await Promise.all(paused.map((container) => container.unpause().catch(() => { })));
+  }
+}
+
+// Copy the volumes of one workspace into the freshly created volumes of another
+async function copyWorkspaceVolumes(
+  sourceWorkspaceId: string,
+  targetWorkspaceId: string,
+  includeHistory: boolean
+): Promise<void> {
+  const binds = [
+    `workspace-${sourceWorkspaceId}-data:/source/data:ro`,
+    `workspace-${targetWorkspaceId}-data:/target/data`,
+  ];
+  let script = 'cp -a /source/data/. /target/data/';
+  if (includeHistory) {
+    binds.push(
+      `workspace-${sourceWorkspaceId}-opencode:/source/opencode:ro`,
+      `workspace-${targetWorkspaceId}-opencode:/target/opencode`
+    );
+    script += ' && cp -a /source/opencode/. /target/opencode/';
+  }
+
+  await withWorkspacePaused(sourceWorkspaceId, () =>
+    runHelperContainer({
+      name: `fork-${targetWorkspaceId}`,
+      workspaceId: targetWorkspaceId,
+      script,
+      binds,
+    })
+  );
+}
+
+// Archive the data and OpenCode volumes of a workspace into SNAPSHOT_DIR
+export async function createVolumeSnapshot(workspaceId: string, snapshotId: string): Promise<SnapshotArchive> {
+  const file = `/snapshots/${snapshotFileName(snapshotId)}`;
+
+  return withWorkspacePaused(workspaceId, async () => {
+    // Write to a temporary name so a failed run never leaves a truncated archive behind
+    const output = await runHelperContainer({
+      name: `snapshot-${snapshotId}`,
+      workspaceId,
+      script: `tar czf ${file}.partial -C /volumes data opencode && mv ${file}.partial ${file} && stat -c %s ${file}`,
+      binds: [
+        `workspace-${workspaceId}-data:/volumes/data:ro`,
+        `workspace-${workspaceId}-opencode:/volumes/opencode:ro`,
+        `${SNAPSHOT_DIR}:/snapshots`,
+      ],
+    });
+
+    return { sizeBytes: parseInt(output[output.length - 1], 10) || 0 };
+  });
+}
+
+// Replace the contents of a workspace's volumes with a snapshot.
+// The archive is checked before anything is deleted.
+export async function restoreVolumeSnapshot(workspaceId: string, snapshotId: string): Promise<void> {
+  const file = `/snapshots/${snapshotFileName(snapshotId)}`;
+
+  await runHelperContainer({
+    name: `restore-${workspaceId}`,
+    workspaceId,
+    script:
+      `tar tzf ${file} > /dev/null` +
+      ` && find /volumes/data /volumes/opencode -mindepth 1 -maxdepth 1 -exec rm -rf {} +` +
+      ` && tar xzf ${file} -C /volumes`,
+    binds: [
+      `workspace-${workspaceId}-data:/volumes/data`,
+      `workspace-${workspaceId}-opencode:/volumes/opencode`,
+      `${SNAPSHOT_DIR}:/snapshots:ro`,
+    ],
+  });
+}
+
+export async function deleteSnapshotArchive(snapshotId: string): Promise<void> {
+  const file = `/snapshots/${snapshotFileName(snapshotId)}`;
+
+  await runHelperContainer({
+    name: `snapshot-delete-${snapshotId}`,
+    script: `rm -f ${file} ${file}.partial`,
+    binds: [`${SNAPSHOT_DIR}:/snapshots`],
+  });
+}
+
+// The web container only needs read access to SNAPSHOT_DIR, writes go through helper containers
+export async function openSnapshotArchive(snapshotId: string): Promise<Readable> {
+  const file = path.join(SNAPSHOT_DIR, snapshotFileName(snapshotId));
+  await access(file);
+  return createReadStream(file);
+}
+
+// Copy an uploaded archive into SNAPSHOT_DIR and make sure it contains a data/ directory
+export async function importSnapshotArchive(
+  snapshotId: string,
+  archive: AsyncIterable<Buffer | Uint8Array>,
+  sizeBytes: number
+): Promise<void> {
+  const fileName = snapshotFileName(snapshotId);
+  const file = `/snapshots/${fileName}`;
+
+  // putArchive works on a created but never started container
+  await pullImageIfNeeded(HELPER_IMAGE, () => { });
+  const container = await docker.createContainer({
+    name: `snapshot-import-${snapshotId}`,
+    Image: HELPER_IMAGE,
+    Entrypoint: ['true'],
+    HostConfig: {
+      Binds: [`${SNAPSHOT_DIR}:/snapshots`],
+    },
+    Labels: {
+      'workspace.type': 'helper',
+    },
+  });
+
+  try {
+    await container.putArchive(tarSingleFile({ name: fileName, size: sizeBytes }, archive), {
+      path: '/snapshots',
+    });
+  } finally {
+    await container.remove({ force: true }).catch(() => { });
+  }
+
+  await runHelperContainer({
+    name: `snapshot-verify-${snapshotId}`,
+    script: `tar tzf ${file} | grep -qE '^(\\./)?data/' || { rm -f ${file}; echo 'Not a workspace snapshot'; exit 1; }`,
+    binds: [`${SNAPSHOT_DIR}:/snapshots`],
+  });
+}
+
 export { docker };
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RuntimeObject } from './runtime';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findMany: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime } from './runtime';
+import { collectGarbage, findOrphanedObjects, removeOrphanedObjects } from './gc';
+
+const strays: RuntimeObject[] = [
+  { kind: 'volume', id: 'workspace-gone-data', name: 'workspace-gone-data', workspaceId: 'gone' },
+  { kind: 'container', id: 'c-gone', name: 'opencode-gone', workspaceId: 'gone' },
+  { kind: 'image', id: 'sha256:old', name: 'open-web-agent/opencode:abc', workspaceId: null },
+];
+
+let runtime: FakeRuntime;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  prismaMock.workspace.findMany.mockResolvedValue([{ id: 'ws1' }]);
+  // A scan without orphans forgets the ones earlier tests found
+  await findOrphanedObjects();
+  runtime.strayObjects.push(...strays);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('findOrphanedObjects', () => {
+  it('lists objects of deleted workspaces and unused images, not those of existing workspaces', async () => {
+    const orphans = await findOrphanedObjects();
+
+    expect(orphans.map((orphan) => orphan.key)).toEqual(['volume:workspace-gone-data', 'container:c-gone', 'image:sha256:old']);
+  });
+
+  it('remembers when an orphan was first found', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z'), toFake: ['Date'] });
+    await findOrphanedObjects();
+    vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+
+    const orphans = await findOrphanedObjects();
+
+    expect(orphans.every((orphan) => orphan.firstSeenAt === '2026-01-01T10:00:00.000Z')).toBe(true);
+  });
+});
+
+describe('removeOrphanedObjects', () => {
+  it('removes the confirmed orphans only, containers first', async () => {
+    const result = await removeOrphanedObjects(['volume:workspace-gone-data', 'container:c-gone', 'network:workspace-ws1']);
+
+    expect(result).toEqual({ removed: ['container:c-gone', 'volume:workspace-gone-data'], failed: [] });
+    expect(runtime.strayObjects).toEqual([strays[2]]);
+  });
+
+  it('reports objects that could not be removed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    runtime.failNext('removeObject', new Error('volume is in use'));
+
+    const result = await removeOrphanedObjects(['container:c-gone']);
+
+    expect(result).toEqual({ removed: [], failed: [{ key: 'container:c-gone', error: 'volume is in use' }] });
+  });
+});
+
+describe('collectGarbage', () => {
+  it('removes orphans only once the grace period passed', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z'), toFake: ['Date'] });
+    expect((await collectGarbage()).removed).toEqual([]);
+
+    vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+    expect((await collectGarbage()).removed).toEqual(['container:c-gone', 'volume:workspace-gone-data', 'image:sha256:old']);
+    expect(runtime.strayObjects).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { prisma } from './prisma';
+import { getWorkspaceRuntime, type RuntimeObject, type RuntimeObjectKind } from './runtime';
+
+// Scheduled collection is off unless GC_INTERVAL_MINUTES is set
+const GC_INTERVAL_MINUTES = parseInt(process.env.GC_INTERVAL_MINUTES || '0', 10);
+
+// Scheduled collection only removes objects that were orphaned at least this long ago
+const GC_GRACE_PERIOD_MINUTES = parseInt(process.env.GC_GRACE_PERIOD_MINUTES || '60', 10);
+
+// Containers go first, they hold on to their network, volumes and image
+const REMOVAL_ORDER: RuntimeObjectKind[] = ['container', 'network', 'volume', 'image'];
+
+// Keep state on globalThis so hot reloads don't start a second collector
+const globalForGc = globalThis as unknown as {
+  gcMonitor: NodeJS.Timeout | undefined;
+  orphanFirstSeen: Map<string, number> | undefined;
+};
+
+// When each orphan was first found, by object key. Starts over when the server restarts.
+const orphanFirstSeen = globalForGc.orphanFirstSeen ?? new Map<string, number>();
+globalForGc.orphanFirstSeen = orphanFirstSeen;
+
+export interface OrphanedObject extends RuntimeObject {
+  key: string;
+  firstSeenAt: string;
+}
+
+export interface GcResult {
+  removed: string[];
+  failed: { key: string; error: string }[];
+}
+
+export function getGcSchedule() {
+  return {
+    intervalMinutes: GC_INTERVAL_MINUTES > 0 ? GC_INTERVAL_MINUTES : null,
+    gracePeriodMinutes: GC_GRACE_PERIOD_MINUTES,
+  };
+}
+
+function objectKey(object: Pick<RuntimeObject, 'kind' | 'id'>): string {
+  return `${object.kind}:${object.id}`;
+}
+
+// Objects of workspaces that no longer exist in the database. Nothing is removed.
+export async function findOrphanedObjects(): Promise<OrphanedObject[]> {
+  // List the objects before the workspaces: a workspace row is always created
+  // before its objects, so a new workspace can't show up as orphaned
+  const objects = await getWorkspaceRuntime().listObjects();
+  const workspaces = await prisma.workspace.findMany({ select: { id: true } });
+  const workspaceIds = new Set(workspaces.map((workspace) => workspace.id));
+
+  const now = Date.now();
+  const orphans: OrphanedObject[] = [];
+  for (const object of objects) {
+    if (object.workspaceId !== null && workspaceIds.has(object.workspaceId)) continue;
+
+    const key = objectKey(object);
+    if (!orphanFirstSeen.has(key)) orphanFirstSeen.set(key, now);
+    orphans.push({ ...object, key, firstSeenAt: new Date(orphanFirstSeen.get(key)!).toISOString() });
+  }
+
+  // Forget objects that are gone or belong to a workspace again
+  const orphanKeys = new Set(orphans.map((orphan) => orphan.key));
+  for (const key of orphanFirstSeen.keys()) {
+    if (!orphanKeys.has(key)) orphanFirstSeen.delete(key);
+  }
+
+  return orphans;
+}
+
+async function removeObjects(objects: OrphanedObject[]): Promise<GcResult> {
+  const runtime = getWorkspaceRuntime();
+  const result: GcResult = { removed: [], failed: [] };
+
+  const sorted = [...objects].sort(
+    (a, b) => REMOVAL_ORDER.indexOf(a.kind) - REMOVAL_ORDER.indexOf(b.kind)
+  );
+  for (const object of sorted) {
+    try {
+      await runtime.removeObject(object);
+      orphanFirstSeen.delete(object.key);
+      result.removed.push(object.key);
+    } catch (error) {
+      console.error(`Error removing ${object.kind} ${object.name}:`, error);
+      result.failed.push({ key: object.key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+// Remove the orphans an admin confirmed from a dry run. Keys that are no longer
+// orphaned, e.g. because the objects were removed meanwhile, are skipped.
+export async function removeOrphanedObjects(keys: string[]): Promise<GcResult> {
+  const confirmed = new Set(keys);
+  const orphans = await findOrphanedObjects();
+  return removeObjects(orphans.filter((orphan) => confirmed.has(orphan.key)));
+}
+
+// Remove the orphans found longer ago than the grace period
+export async function collectGarbage(): Promise<GcResult> {
+  const cutoff = Date.now() - GC_GRACE_PERIOD_MINUTES * 60 * 1000;
+  const orphans = await findOrphanedObjects();
+  const result = await removeObjects(orphans.filter((orphan) => Date.parse(orphan.firstSeenAt) <= cutoff));
+  if (result.removed.length > 0 || result.failed.length > 0) {
+    console.log(`Garbage collection removed ${result.removed.length} objects, ${result.failed.length} failed`);
+  }
+  return result;
+}
+
+export function startGarbageCollector() {
+  if (globalForGc.gcMonitor || GC_INTERVAL_MINUTES <= 0) return;
+
+  let collecting = false;
+  globalForGc.gcMonitor = setInterval(async () => {
+    // Skip a tick rather than overlap when a run is slow
+    if (collecting) return;
+    collecting = true;
+    try {
+      await collectGarbage();
+    } catch (error) {
+      console.error('Error collecting garbage:', error);
+    } finally {
+      collecting = false;
+    }
+  }, GC_INTERVAL_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,85 @@
+import type { GitConnection } from '@prisma/client';
+import { prisma } from './prisma';
+import { decryptSecret } from './secrets';
+import { getGitHubAccessToken } from './auth';
+import {
+  createGitProvider,
+  gitCredentials,
+  type GitCredentials,
+  type GitProvider,
+  type GitProviderType,
+} from './git-providers';
+
+// Git hosts a user connected with an access token, besides the GitHub account they signed in with
+
+// What the API returns of a connection, never the token
+export interface GitConnectionInfo {
+  id: string;
+  type: GitProviderType;
+  name: string;
+  baseUrl: string;
+  username: string | null;
+  // known_hosts lines of the host's SSH server, for SSH clone URLs
+  sshHostKeys: string[];
+  createdAt: Date;
+}
+
+export function toGitConnectionInfo(connection: GitConnection): GitConnectionInfo {
+  return {
+    id: connection.id,
+    type: connection.type as GitProviderType,
+    name: connection.name,
+    baseUrl: connection.baseUrl,
+    username: connection.username,
+    sshHostKeys: connection.sshHostKeys?.split('\n').filter(Boolean) ?? [],
+    createdAt: connection.createdAt,
+  };
+}
+
+// https URL of a host without a trailing slash, e.g. https://gitlab.example.com or
+// https://example.com/gitea for an instance under a path. null if it isn't one.
+export function normalizeBaseUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'https:' || url.username || url.password) return null;
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+// API client of a connection, null for generic hosts
+export function connectionProvider(connection: GitConnection): GitProvider | null {
+  return createGitProvider(connection.type as GitProviderType, connection.baseUrl, decryptSecret(connection.token));
+}
+
+// Credentials for HTTPS git operations of a user on a host, e.g. gitlab.example.com.
+// A connection to the host wins, github.com falls back to the account the user signed in with.
+export async function findGitCredentials(userId: string, host: string): Promise<GitCredentials | null> {
+  const connections = await prisma.gitConnection.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const connection of connections) {
+    if (new URL(connection.baseUrl).host !== host) continue;
+    try {
+      return gitCredentials(
+        connection.type as GitProviderType,
+        connection.baseUrl,
+        decryptSecret(connection.token),
+        connection.username
+      );
+    } catch (error) {
+      // E.g. stored with another encryption key, try the next connection to the host
+      console.error(`Error reading credentials of git connection ${connection.id}:`, error);
+    }
+  }
+
+  if (host === 'github.com') {
+    const token = await getGitHubAccessToken(userId);
+    if (token) return { username: 'x-access-token', password: token };
+  }
+  return null;
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  formatCredentials,
+  GIT_CREDENTIAL_TOKEN_TTL_SECONDS,
+  gitCredentialHelperFiles,
+  gitCredentialToken,
+  parseCredentialRequest,
+  verifyGitCredentialHelper,
+  webContainerName,
+} from './git-credential-helper';
+
+const secret = process.env.NEXTAUTH_SECRET;
+const webInternalUrl = process.env.WEB_INTERNAL_URL;
+
+beforeEach(() => {
+  process.env.NEXTAUTH_SECRET = 'test-secret';
+  delete process.env.WEB_INTERNAL_URL;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  if (secret === undefined) delete process.env.NEXTAUTH_SECRET;
+  else process.env.NEXTAUTH_SECRET = secret;
+  if (webInternalUrl === undefined) delete process.env.WEB_INTERNAL_URL;
+  else process.env.WEB_INTERNAL_URL = webInternalUrl;
+});
+
+describe('verifyGitCredentialHelper', () => {
+  it('accepts the token of the workspace', () => {
+    expect(verifyGitCredentialHelper('ws1', `Bearer ${gitCredentialToken('ws1')}`)).toBe(true);
+  });
+
+  it('refuses tokens of other workspaces and other headers', () => {
+    const token = gitCredentialToken('ws1');
+    expect(verifyGitCredentialHelper('ws2', `Bearer ${token}`)).toBe(false);
+    expect(verifyGitCredentialHelper('ws1', token)).toBe(false);
+    expect(verifyGitCredentialHelper('ws1', `Bearer ${token}x`)).toBe(false);
+    expect(verifyGitCredentialHelper('ws1', null)).toBe(false);
+  });
+
+  it('refuses tokens that expired', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const token = gitCredentialToken('ws1');
+
+    vi.advanceTimersByTime((GIT_CREDENTIAL_TOKEN_TTL_SECONDS + 1) * 1000);
+
+    expect(verifyGitCredentialHelper('ws1', `Bearer ${token}`)).toBe(false);
+  });
+});
+
+describe('gitCredentialHelperFiles', () => {
+  it('asks the web app for the credentials of the workspace', () => {
+    process.env.WEB_INTERNAL_URL = 'http://web:3000/';
+    const files = gitCredentialHelperFiles('ws1');
+    const helper = files.find((file) => file.name === 'usr/local/bin/git-credential-workspace');
+
+    expect(helper?.mode).toBe(0o755);
+    expect(helper?.content.toString()).toContain("'http://web:3000/api/workspaces/ws1/git/credentials'");
+  });
+
+  it('writes a token only root can read', () => {
+    const token = gitCredentialHelperFiles('ws1').find((file) => file.name === 'etc/git-credential-workspace/token');
+
+    expect(token?.mode).toBe(0o600);
+    expect(verifyGitCredentialHelper('ws1', `Bearer ${token?.content.toString()}`)).toBe(true);
+  });
+});
+
+describe('webContainerName', () => {
+  it('is the host of WEB_INTERNAL_URL', () => {
+    expect(webContainerName()).toBe('web');
+    process.env.WEB_INTERNAL_URL = 'http://open-web-agent-web:3000';
+    expect(webContainerName()).toBe('open-web-agent-web');
+  });
+
+  it.each(['http://host.docker.internal:3000', 'http://172.17.0.1:3000', 'http://[fd00::1]:3000'])(
+    'is null for %s',
+    (url) => {
+      process.env.WEB_INTERNAL_URL = url;
+      expect(webContainerName()).toBeNull();
+    },
+  );
+});
+
+describe('parseCredentialRequest', () => {
+  it('reads the key=value lines git sends', () => {
+    expect(parseCredentialRequest('protocol=https\nhost=github.com\npath=acme/web.git\n\n')).toEqual({
+      protocol: 'https',
+      host: 'github.com',
+      path: 'acme/web.git',
+    });
+  });
+
+  it('keeps = in values and skips lines without a key', () => {
+    expect(parseCredentialRequest('password=a=b\n=value\nnonsense')).toEqual({ password: 'a=b' });
+  });
+});
+
+describe('formatCredentials', () => {
+  it('answers with one line per value', () => {
+    expect(formatCredentials({ username: 'x-access-token', password: 'gho_secret\r\nhost=evil' })).toBe(
+      'username=x-access-token\npassword=gho_secrethost=evil\n',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import net from 'net';
+import { shellQuote } from './devcontainer';
+import { signToken, verifyToken } from './secrets';
+import type { GitCredentials } from './git-providers';
+
+// Git in the init and OpenCode containers asks the web app for HTTPS credentials through
+// a credential helper. No token ends up in clone URLs or .git/config, and git gets the
+// current token after the OAuth token was refreshed. The helper authenticates with a
+// signed token that expires, renewed in running workspaces by git-credential-rotation.ts.
+
+const SECRET_PURPOSE = 'git-credentials';
+
+// Long enough to clone large repositories, renewed well before it runs out
+export const GIT_CREDENTIAL_TOKEN_TTL_SECONDS = 2 * 60 * 60;
+
+const HELPER_PATH = '/usr/local/bin/git-credential-workspace';
+
+const TOKEN_PATH = '/etc/git-credential-workspace/token';
+
+// gh only takes tokens from its environment or config file, so a gh on the PATH before the
+// real one asks the helper for the current GitHub token on every call
+const GH_WRAPPER_DIR = '/usr/local/lib/git-credential-workspace/bin';
+
+// Sourced by the OpenCode container's command, like the environment variables
+const GH_PROFILE_SCRIPT = 'etc/profile.d/git-credential-workspace.sh';
+
+// Enables the helper for every git command in a container, whatever gitconfig files it has
+export const GIT_CREDENTIAL_HELPER_ENV = [
+  'GIT_CONFIG_COUNT=1',
+  'GIT_CONFIG_KEY_0=credential.helper',
+  `GIT_CONFIG_VALUE_0=${HELPER_PATH}`,
+];
+
+// Where containers reach the web app, on the network they share with Traefik
+function webInternalUrl(): string {
+  return (process.env.WEB_INTERNAL_URL || 'http://web:3000').replace(/\/+$/, '');
+}
+
+// The container behind WEB_INTERNAL_URL, which joins the network of the clone container
+// for the clone. Null when the web app runs on the Docker host or is reached by address.
+export function webContainerName(): string | null {
+  const { hostname } = new URL(webInternalUrl());
+  if (hostname === 'host.docker.internal' || net.isIP(hostname.replace(/^\[|\]$/g, ''))) return null;
+  return hostname;
+}
+
+// Run by git as `git-credential-workspace get` with the request on stdin, see
+// gitcredentials(7). Uses curl where it's installed and busybox wget otherwise.
+function helperScript(workspaceId: string): string {
+  const url = `${webInternalUrl()}/api/workspaces/${workspaceId}/git/credentials`;
+  return [
+    '#!/bin/sh',
+    '[ "$1" = get ] || exit 0',
+    'request=$(cat)',
+    `header="Authorization: Bearer $(cat ${shellQuote(TOKEN_PATH)})"`,
+    'if command -v curl >/dev/null 2>&1; then',
+    `  printf '%s\\n' "$request" | curl -fsS --data-binary @- -H "$header" ${shellQuote(url)}`,
+    'else',
+    `  wget -qO- --header "$header" --post-data "$request" ${shellQuote(url)}`,
+    'fi',
+    '',
+  ].join('\n');
+}
+
+// Runs the next gh on the PATH with GH_TOKEN set for that call only
+function ghWrapperScript(): string {
+  return [
+    '#!/bin/sh',
+    `PATH=$(printf '%s' ":$PATH:" | sed 's#:${GH_WRAPPER_DIR}:#:#g; s#^:##; s#:$##')`,
+    `token=$(printf 'protocol=https\\nhost=github.com\\n' | ${HELPER_PATH} get 2>/dev/null | sed -n 's/^password=//p')`,
+    '[ -n "$token" ] && export GH_TOKEN="$token"',
+    'exec gh "$@"',
+    '',
+  ].join('\n');
+}
+
+// Signed for one workspace, the credentials route rejects it once it expired
+export function gitCredentialToken(workspaceId: string): string {
+  return signToken(SECRET_PURPOSE, {
+    workspaceId,
+    exp: Math.floor(Date.now() / 1000) + GIT_CREDENTIAL_TOKEN_TTL_SECONDS,
+  });
+}
+
+// A fresh token for the helper, to extract at / of a container
+export function gitCredentialTokenFiles(workspaceId: string): { name: string; content: Buffer; mode: number }[] {
+  return [{ name: TOKEN_PATH.slice(1), content: Buffer.from(gitCredentialToken(workspaceId)), mode: 0o600 }];
+}
+
+// Files to extract at / of a container
+export function gitCredentialHelperFiles(workspaceId: string): { name: string; content: Buffer; mode: number }[] {
+  return [
+    { name: HELPER_PATH.slice(1), content: Buffer.from(helperScript(workspaceId)), mode: 0o755 },
+    { name: `${GH_WRAPPER_DIR.slice(1)}/gh`, content: Buffer.from(ghWrapperScript()), mode: 0o755 },
+    { name: GH_PROFILE_SCRIPT, content: Buffer.from(`export PATH="${GH_WRAPPER_DIR}:$PATH"\n`), mode: 0o644 },
+    ...gitCredentialTokenFiles(workspaceId),
+  ];
+}
+
+// Bearer token of a helper request, tied to the workspace it was written for and not expired
+export function verifyGitCredentialHelper(workspaceId: string, authorization: string | null): boolean {
+  const token = authorization?.match(/^Bearer (\S+)$/)?.[1];
+  const payload = token ? verifyToken<{ workspaceId: string; exp: number }>(SECRET_PURPOSE, token) : null;
+  return payload?.workspaceId === workspaceId;
+}
+
+// key=value lines git sends, e.g. protocol=https and host=github.com
+export function parseCredentialRequest(text: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator > 0) fields[line.slice(0, separator)] = line.slice(separator + 1);
+  }
+  return fields;
+}
+
+// Answer to git, values can't span lines
+export function formatCredentials({ username, password }: GitCredentials): string {
+  const value = (text: string) => text.replace(/[\r\n]/g, '');
+  return `username=${value(username)}\npassword=${value(password)}\n`;
+}
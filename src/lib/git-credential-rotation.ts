@@ -0,0 +1,45 @@
+import { prisma } from './prisma';
+import { getWorkspaceRuntime } from './runtime';
+import { GIT_CREDENTIAL_TOKEN_TTL_SECONDS } from './git-credential-helper';
+
+// Running workspaces get a fresh token for their git credential helper well before the old
+// one expires, stopped ones get theirs when they start
+const RENEW_INTERVAL_MS = (GIT_CREDENTIAL_TOKEN_TTL_SECONDS * 1000) / 4;
+
+// Keep state on globalThis so hot reloads don't start a second rotation
+const globalForGitCredentials = globalThis as unknown as {
+  gitCredentialRotation: NodeJS.Timeout | undefined;
+};
+
+export async function renewGitCredentialTokens() {
+  const workspaces = await prisma.workspace.findMany({
+    where: { status: 'running' },
+    select: { id: true },
+  });
+
+  for (const workspace of workspaces) {
+    try {
+      await getWorkspaceRuntime().renewGitCredentials(workspace.id);
+    } catch (error) {
+      console.error(`Error renewing git credential token of workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+export function startGitCredentialRotation() {
+  if (globalForGitCredentials.gitCredentialRotation) return;
+
+  let renewing = false;
+  globalForGitCredentials.gitCredentialRotation = setInterval(async () => {
+    // Skip a tick rather than overlap when renewing is slow
+    if (renewing) return;
+    renewing = true;
+    try {
+      await renewGitCredentialTokens();
+    } catch (error) {
+      console.error('Error renewing git credential tokens:', error);
+    } finally {
+      renewing = false;
+    }
+  }, RENEW_INTERVAL_MS);
+}
@@ -0,0 +1,65 @@
+import type { GitProvider, GitProviderBranch, GitProviderRepository } from './types';
+
+interface GiteaRepositoryResponse {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string;
+  html_url: string;
+  clone_url: string;
+  private: boolean;
+  default_branch: string;
+  updated_at: string;
+  language: string;
+  stars_count: number;
+}
+
+// A Gitea or Forgejo instance at baseUrl
+export function createGiteaProvider(baseUrl: string, token: string): GitProvider {
+  const request = async <T>(path: string): Promise<T> => {
+    const response = await fetch(`${baseUrl}/api/v1${path}`, {
+      headers: { Authorization: `token ${token}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Gitea API error: ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    type: 'gitea',
+
+    async getUsername() {
+      const user = await request<{ login: string }>('/user');
+      return user.login;
+    },
+
+    async listRepositories() {
+      // 50 is the largest page Gitea returns by default
+      const repos = await request<GiteaRepositoryResponse[]>('/user/repos?limit=50');
+      return repos.map((repo): GitProviderRepository => ({
+        id: String(repo.id),
+        name: repo.name,
+        fullName: repo.full_name,
+        description: repo.description || null,
+        webUrl: repo.html_url,
+        cloneUrl: repo.clone_url,
+        private: repo.private,
+        defaultBranch: repo.default_branch,
+        updatedAt: repo.updated_at,
+        language: repo.language || null,
+        stars: repo.stars_count,
+      }));
+    },
+
+    async listBranches(fullName) {
+      const branches = await request<GitProviderBranch[]>(`/repos/${fullName}/branches?limit=50`);
+      return branches.map(({ name, protected: isProtected }) => ({ name, protected: isProtected }));
+    },
+
+    // Gitea takes a token as the password of its user
+    credentials(username) {
+      return { username: username || 'git', password: token };
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import type { GitProvider, GitProviderBranch, GitProviderRepository } from './types';
+
+interface GitHubRepositoryResponse {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  clone_url: string;
+  private: boolean;
+  default_branch: string;
+  updated_at: string;
+  language: string | null;
+  stargazers_count: number;
+}
+
+// github.com or a GitHub Enterprise Server at baseUrl
+export function createGitHubProvider(baseUrl: string, token: string): GitProvider {
+  const apiUrl = new URL(baseUrl).host === 'github.com' ? 'https://api.github.com' : `${baseUrl}/api/v3`;
+
+  const request = async <T>(path: string): Promise<T> => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    type: 'github',
+
+    async getUsername() {
+      const user = await request<{ login: string }>('/user');
+      return user.login;
+    },
+
+    async listRepositories() {
+      const repos = await request<GitHubRepositoryResponse[]>('/user/repos?per_page=100&sort=updated');
+      return repos.map((repo): GitProviderRepository => ({
+        id: String(repo.id),
+        name: repo.name,
+        fullName: repo.full_name,
+        description: repo.description,
+        webUrl: repo.html_url,
+        cloneUrl: repo.clone_url,
+        private: repo.private,
+        defaultBranch: repo.default_branch,
+        updatedAt: repo.updated_at,
+        language: repo.language,
+        stars: repo.stargazers_count,
+      }));
+    },
+
+    async listBranches(fullName) {
+      const branches = await request<GitProviderBranch[]>(`/repos/${fullName}/branches?per_page=100`);
+      return branches.map(({ name, protected: isProtected }) => ({ name, protected: isProtected }));
+    },
+
+    credentials() {
+      return { username: 'x-access-token', password: token };
+    },
+  };
+}
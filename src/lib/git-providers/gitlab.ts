@@ -0,0 +1,68 @@
+import type { GitProvider, GitProviderBranch, GitProviderRepository } from './types';
+
+interface GitLabProjectResponse {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  web_url: string;
+  http_url_to_repo: string;
+  visibility: string;
+  // null for a project without commits
+  default_branch: string | null;
+  last_activity_at: string;
+  star_count: number;
+}
+
+// gitlab.com or a self-managed instance at baseUrl
+export function createGitLabProvider(baseUrl: string, token: string): GitProvider {
+  const request = async <T>(path: string): Promise<T> => {
+    const response = await fetch(`${baseUrl}/api/v4${path}`, {
+      headers: { 'PRIVATE-TOKEN': token },
+    });
+    if (!response.ok) {
+      throw new Error(`GitLab API error: ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    type: 'gitlab',
+
+    async getUsername() {
+      const user = await request<{ username: string }>('/user');
+      return user.username;
+    },
+
+    async listRepositories() {
+      const projects = await request<GitLabProjectResponse[]>(
+        '/projects?membership=true&order_by=last_activity_at&per_page=100'
+      );
+      return projects.map((project): GitProviderRepository => ({
+        id: String(project.id),
+        name: project.name,
+        fullName: project.path_with_namespace,
+        description: project.description || null,
+        webUrl: project.web_url,
+        cloneUrl: project.http_url_to_repo,
+        private: project.visibility !== 'public',
+        defaultBranch: project.default_branch ?? 'main',
+        updatedAt: project.last_activity_at,
+        // GitLab lists languages per project only
+        language: null,
+        stars: project.star_count,
+      }));
+    },
+
+    async listBranches(fullName) {
+      const branches = await request<GitProviderBranch[]>(
+        `/projects/${encodeURIComponent(fullName)}/repository/branches?per_page=100`
+      );
+      return branches.map(({ name, protected: isProtected }) => ({ name, protected: isProtected }));
+    },
+
+    credentials() {
+      return { username: 'oauth2', password: token };
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { createGitHubProvider } from './github';
+import { createGitLabProvider } from './gitlab';
+import { createGiteaProvider } from './gitea';
+import type { GitCredentials, GitProvider, GitProviderType } from './types';
+
+export type * from './types';
+
+export const GIT_PROVIDER_TYPES: GitProviderType[] = ['github', 'gitlab', 'gitea', 'generic'];
+
+export function isGitProviderType(value: unknown): value is GitProviderType {
+  return GIT_PROVIDER_TYPES.includes(value as GitProviderType);
+}
+
+// API client for a host, null for generic hosts which have no API to list repositories
+export function createGitProvider(type: GitProviderType, baseUrl: string, token: string): GitProvider | null {
+  switch (type) {
+    case 'github':
+      return createGitHubProvider(baseUrl, token);
+    case 'gitlab':
+      return createGitLabProvider(baseUrl, token);
+    case 'gitea':
+      return createGiteaProvider(baseUrl, token);
+    case 'generic':
+      return null;
+  }
+}
+
+// Username and token for HTTPS clones from a host of any type
+export function gitCredentials(
+  type: GitProviderType,
+  baseUrl: string,
+  token: string,
+  username: string | null
+): GitCredentials {
+  return createGitProvider(type, baseUrl, token)?.credentials(username)
+    ?? { username: username || 'git', password: token };
+}
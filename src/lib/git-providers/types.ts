@@ -0,0 +1,39 @@
+// Hosts repositories can be listed from. Generic hosts are only cloned from over HTTPS.
+export type GitProviderType = 'github' | 'gitlab' | 'gitea' | 'generic';
+
+// A repository as listed by any provider
+export interface GitProviderRepository {
+  id: string;
+  name: string;
+  // owner/name, or the full namespace path on GitLab
+  fullName: string;
+  description: string | null;
+  webUrl: string;
+  cloneUrl: string;
+  private: boolean;
+  defaultBranch: string;
+  updatedAt: string;
+  language: string | null;
+  stars: number;
+}
+
+export interface GitProviderBranch {
+  name: string;
+  protected: boolean;
+}
+
+// What git sends for HTTPS clones and pushes
+export interface GitCredentials {
+  username: string;
+  password: string;
+}
+
+export interface GitProvider {
+  type: GitProviderType;
+  // Login of the token's user, also checks that the token works
+  getUsername(): Promise<string>;
+  listRepositories(): Promise<GitProviderRepository[]>;
+  // fullName as listed by listRepositories
+  listBranches(fullName: string): Promise<GitProviderBranch[]>;
+  credentials(username: string | null): GitCredentials;
+}
@@ -0,0 +1,310 @@
+import { getWorkspaceRuntime, type ExecResult } from './runtime';
+
+// Git operations on the repositories of a workspace, run in its OpenCode container.
+// Operations that can fail for reasons the user has to resolve, like a rejected push,
+// return { error } with git's own message.
+
+// Where the data volume is mounted in the OpenCode container
+const WORKSPACE_DIR = '/workspace';
+
+// Diffs above this size are cut off, the UI can't render them usefully anyway
+const MAX_DIFF_LENGTH = 1024 * 1024;
+
+// Untracked files shown in the unstaged diff, the rest are only listed in the status
+const MAX_UNTRACKED_DIFFS = 50;
+
+export interface GitFileStatus {
+  path: string;
+  // Previous path of a renamed or copied file
+  origPath?: string;
+  // Status letters as in `git status --short`: M, A, D, R, C, U, ? or . for unchanged
+  index: string;
+  worktree: string;
+}
+
+export interface GitStatus {
+  // null when HEAD is detached
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+export interface GitFileDiff {
+  path: string;
+  // Unified diff of the file, starting with its "diff --git" line
+  patch: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+}
+
+export interface GitBranch {
+  name: string;
+  // Remote-tracking branches are named like origin/main
+  remote: boolean;
+  current: boolean;
+}
+
+export type GitResult<T> = T | { error: string };
+
+// A repository in a workspace. path is the directory under /workspace it was cloned
+// into, empty for the single repository of a workspace cloned into /workspace itself.
+export interface GitRepository {
+  workspaceId: string;
+  path: string;
+}
+
+// Never show the token that may be part of the remote URL
+function redactCredentials(text: string): string {
+  return text.replace(/(https?:\/\/)[^@\s/]+@/g, '$1***@');
+}
+
+function runGit(repository: GitRepository, args: string[]): Promise<ExecResult> {
+  // Without a terminal a credential prompt would wait forever
+  const directory = repository.path ? `${WORKSPACE_DIR}/${repository.path}` : WORKSPACE_DIR;
+  return getWorkspaceRuntime().exec(repository.workspaceId, [
+    'env', 'GIT_TERMINAL_PROMPT=0', 'git', '-C', directory, ...args,
+  ]);
+}
+
+function gitError(result: ExecResult, fallback: string): { error: string } {
+  const message = (result.stderr.trim() || result.stdout.trim() || fallback)
+    .split('\n')
+    .filter((line) => !line.startsWith('hint:'))
+    .join('\n');
+  return { error: redactCredentials(message) };
+}
+
+// Branch and path names are passed as arguments, never as options
+export function isValidGitName(name: unknown): name is string {
+  return typeof name === 'string' && name.length > 0 && name.length <= 255 &&
+    !name.startsWith('-') && !/[\0\n]/.test(name);
+}
+
+export async function getGitStatus(repository: GitRepository): Promise<GitResult<GitStatus>> {
+  const result = await runGit(repository, ['status', '--porcelain=v2', '--branch', '-z']);
+  if (result.exitCode !== 0) return gitError(result, 'git status failed');
+
+  const status: GitStatus = { branch: null, upstream: null, ahead: 0, behind: 0, files: [] };
+  const entries = result.stdout.split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+
+    if (entry.startsWith('# branch.head ')) {
+      const head = entry.slice('# branch.head '.length);
+      status.branch = head === '(detached)' ? null : head;
+    } else if (entry.startsWith('# branch.upstream ')) {
+      status.upstream = entry.slice('# branch.upstream '.length);
+    } else if (entry.startsWith('# branch.ab ')) {
+      const [ahead, behind] = entry.slice('# branch.ab '.length).split(' ');
+      status.ahead = Math.abs(parseInt(ahead, 10)) || 0;
+      status.behind = Math.abs(parseInt(behind, 10)) || 0;
+    } else if (entry.startsWith('1 ') || entry.startsWith('u ')) {
+      // Ordinary and unmerged entries: the path follows a fixed number of fields
+      const fields = entry.split(' ');
+      const pathIndex = entry.startsWith('1 ') ? 8 : 10;
+      status.files.push({
+        path: fields.slice(pathIndex).join(' '),
+        index: fields[1][0],
+        worktree: fields[1][1],
+      });
+    } else if (entry.startsWith('2 ')) {
+      // Renames and copies: the original path is the next NUL-separated entry
+      const fields = entry.split(' ');
+      status.files.push({
+        path: fields.slice(9).join(' '),
+        origPath: entries[++i],
+        index: fields[1][0],
+        worktree: fields[1][1],
+      });
+    } else if (entry.startsWith('? ')) {
+      status.files.push({ path: entry.slice(2), index: '?', worktree: '?' });
+    }
+  }
+
+  return status;
+}
+
+function splitDiff(diff: string): GitFileDiff[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((patch) => patch.startsWith('diff --git '))
+    .map((patch) => {
+      // "+++ b/path" names the file, or "--- a/path" for deletions
+      const target = /^\+\+\+ b\/(.+)$/m.exec(patch)?.[1] ?? /^--- a\/(.+)$/m.exec(patch)?.[1];
+      const header = /^diff --git a\/.+ b\/(.+)$/m.exec(patch)?.[1];
+      return { path: target ?? header ?? '', patch };
+    });
+}
+
+// Staged changes, or unstaged ones including untracked files.
+// truncated is set when the diff was cut off at MAX_DIFF_LENGTH.
+export async function getGitDiff(
+  repository: GitRepository,
+  options: { staged: boolean; path?: string }
+): Promise<GitResult<{ files: GitFileDiff[]; truncated: boolean }>> {
+  const pathArgs = options.path ? ['--', options.path] : [];
+  const result = await runGit(repository, [
+    'diff', ...(options.staged ? ['--cached'] : []), '--no-color', '--no-ext-diff', ...pathArgs,
+  ]);
+  if (result.exitCode !== 0) return gitError(result, 'git diff failed');
+
+  let diff = result.stdout;
+
+  if (!options.staged) {
+    const untracked = await runGit(repository, ['ls-files', '--others', '--exclude-standard', '-z', ...pathArgs]);
+    const paths = untracked.stdout.split('\0').filter(Boolean).slice(0, MAX_UNTRACKED_DIFFS);
+    for (const path of paths) {
+      if (diff.length >= MAX_DIFF_LENGTH) break;
+      // Exits with 1 when there are differences, which is always the case here
+      const fileDiff = await runGit(repository, ['diff', '--no-color', '--no-index', '--', '/dev/null', path]);
+      diff += fileDiff.stdout;
+    }
+  }
+
+  const truncated = diff.length > MAX_DIFF_LENGTH;
+  return { files: splitDiff(truncated ? diff.slice(0, MAX_DIFF_LENGTH) : diff), truncated };
+}
+
+// Recent commits of HEAD, or of a range like origin/main..HEAD
+export async function getGitLog(
+  repository: GitRepository,
+  limit: number,
+  range?: string
+): Promise<GitResult<GitCommit[]>> {
+  const result = await runGit(repository, [
+    'log', `-n${limit}`, '--format=%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e', ...(range ? [range, '--'] : []),
+  ]);
+  if (result.exitCode !== 0) {
+    // A fresh repository has no commits yet
+    if (/does not have any commits/.test(result.stderr)) return [];
+    return gitError(result, 'git log failed');
+  }
+
+  return result.stdout
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, shortHash, author, email, date, subject] = record.split('\x1f');
+      return { hash, shortHash, author, email, date, subject };
+    });
+}
+
+// Commit staged changes. With `all` every change is staged first, including untracked
+// files, otherwise the given paths are. The user's name and email are used unless
+// the repository configures an identity.
+export async function commitChanges(
+  repository: GitRepository,
+  options: { message: string; all?: boolean; paths?: string[]; author: { name: string; email: string } }
+): Promise<GitResult<{ commit: GitCommit }>> {
+  if (options.all || options.paths?.length) {
+    const add = await runGit(repository, ['add', ...(options.all ? ['-A'] : ['--', ...options.paths!])]);
+    if (add.exitCode !== 0) return gitError(add, 'git add failed');
+  }
+
+  const configured = await runGit(repository, ['config', 'user.email']);
+  const identity = configured.stdout.trim()
+    ? []
+    : ['-c', `user.name=${options.author.name}`, '-c', `user.email=${options.author.email}`];
+
+  const commit = await runGit(repository, [...identity, 'commit', '-m', options.message]);
+  if (commit.exitCode !== 0) return gitError(commit, 'Nothing to commit');
+
+  const log = await getGitLog(repository, 1);
+  if ('error' in log) return log;
+  return { commit: log[0] };
+}
+
+// Push the current branch, setting its upstream on the first push
+export async function pushChanges(repository: GitRepository): Promise<GitResult<{ output: string }>> {
+  const result = await runGit(repository, ['push', '--set-upstream', 'origin', 'HEAD']);
+  if (result.exitCode !== 0) return gitError(result, 'git push failed');
+  return { output: redactCredentials(`${result.stdout}${result.stderr}`.trim()) };
+}
+
+// Fast-forward only, merging diverged branches is left to the terminal
+export async function pullChanges(repository: GitRepository): Promise<GitResult<{ output: string }>> {
+  const result = await runGit(repository, ['pull', '--ff-only']);
+  if (result.exitCode !== 0) return gitError(result, 'git pull failed');
+  return { output: redactCredentials(`${result.stdout}${result.stderr}`.trim()) };
+}
+
+export async function listBranches(repository: GitRepository): Promise<GitResult<GitBranch[]>> {
+  const result = await runGit(repository, [
+    'for-each-ref', '--format=%(refname)%09%(HEAD)', 'refs/heads', 'refs/remotes',
+  ]);
+  if (result.exitCode !== 0) return gitError(result, 'git for-each-ref failed');
+
+  const branches: GitBranch[] = [];
+  for (const line of result.stdout.split('\n')) {
+    const [ref, head] = line.split('\t');
+    if (ref?.startsWith('refs/heads/')) {
+      branches.push({ name: ref.slice('refs/heads/'.length), remote: false, current: head === '*' });
+    } else if (ref?.startsWith('refs/remotes/') && !ref.endsWith('/HEAD')) {
+      branches.push({ name: ref.slice('refs/remotes/'.length), remote: true, current: false });
+    }
+  }
+  return branches;
+}
+
+// Check out a local branch. A remote-only branch like origin/feature is checked
+// out as a local feature branch tracking it.
+export async function checkoutBranch(repository: GitRepository, branch: string): Promise<GitResult<{ branch: string }>> {
+  const remote = /^[^/]+\/(.+)$/.exec(branch);
+  const branches = await listBranches(repository);
+  if ('error' in branches) return branches;
+
+  const hasLocal = (name: string) => branches.some((b) => !b.remote && b.name === name);
+  const isRemote = !hasLocal(branch) && remote && branches.some((b) => b.remote && b.name === branch);
+  const target = isRemote ? remote[1] : branch;
+
+  const result = await runGit(repository, isRemote && !hasLocal(target)
+    ? ['checkout', '--track', branch, '--']
+    : ['checkout', target, '--']);
+  if (result.exitCode !== 0) return gitError(result, 'git checkout failed');
+  return { branch: target };
+}
+
+// Create a branch from HEAD and switch to it, uncommitted changes come along
+export async function createBranch(repository: GitRepository, branch: string): Promise<GitResult<{ branch: string }>> {
+  const result = await runGit(repository, ['checkout', '-b', branch]);
+  if (result.exitCode !== 0) return gitError(result, 'git checkout failed');
+  return { branch };
+}
+
+// Update remote-tracking branches, dropping those deleted on the remote
+export async function fetchRemote(repository: GitRepository): Promise<GitResult<{ output: string }>> {
+  const result = await runGit(repository, ['fetch', '--prune', 'origin']);
+  if (result.exitCode !== 0) return gitError(result, 'git fetch failed');
+  return { output: redactCredentials(`${result.stdout}${result.stderr}`.trim()) };
+}
+
+// Check out a GitHub pull request as the local branch pr/<number>, reset to the
+// pull request's head if it already exists
+export async function checkoutPullRequest(repository: GitRepository, number: number): Promise<GitResult<{ branch: string }>> {
+  const fetched = await runGit(repository, ['fetch', 'origin', `pull/${number}/head`]);
+  if (fetched.exitCode !== 0) return gitError(fetched, `Pull request #${number} not found`);
+
+  const branch = `pr/${number}`;
+  const result = await runGit(repository, ['checkout', '-B', branch, 'FETCH_HEAD']);
+  if (result.exitCode !== 0) return gitError(result, 'git checkout failed');
+  return { branch };
+}
+
+// Branch origin/HEAD points to, usually main, null if it isn't known
+export async function getDefaultBranch(repository: GitRepository): Promise<string | null> {
+  const result = await runGit(repository, ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD']);
+  if (result.exitCode !== 0) return null;
+  return result.stdout.trim().replace(/^origin\//, '') || null;
+}
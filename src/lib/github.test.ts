@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createPullRequest, findOpenPullRequest, parseGitHubRepository } from './github';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseGitHubRepository', () => {
+  it.each([
+    'https://github.com/acme/web.git',
+    'https://github.com/acme/web',
+    'https://github.com/acme/web/',
+    'git@github.com:acme/web.git',
+  ])('reads %s', (url) => {
+    expect(parseGitHubRepository(url)).toEqual({ owner: 'acme', repo: 'web' });
+  });
+
+  it('keeps dots in repository names', () => {
+    expect(parseGitHubRepository('https://github.com/acme/acme.github.io.git')).toEqual({
+      owner: 'acme',
+      repo: 'acme.github.io',
+    });
+  });
+
+  it.each(['https://gitlab.com/acme/web.git', 'https://github.com/acme'])('refuses %s', (url) => {
+    expect(parseGitHubRepository(url)).toBeNull();
+  });
+});
+
+describe('GitHub pull requests', () => {
+  it('looks up open pull requests of the branch in the same repository', async () => {
+    const fetchMock = vi.fn(async () => Response.json([{ number: 7, html_url: 'https://github.com/acme/web/pull/7' }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await findOpenPullRequest('token', 'acme', 'web', 'feature/login')).toMatchObject({ number: 7 });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.github.com/repos/acme/web/pulls?head=acme%3Afeature%2Flogin&state=open',
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer token' }) })
+    );
+  });
+
+  it('explains why GitHub refused a pull request', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(
+      { message: 'Validation Failed', errors: [{ message: 'No commits between main and feature/login' }] },
+      { status: 422 }
+    )));
+
+    await expect(createPullRequest('token', 'acme', 'web', {
+      title: 'Login',
+      body: '',
+      head: 'feature/login',
+      base: 'main',
+    })).rejects.toThrow('No commits between main and feature/login');
+  });
+});
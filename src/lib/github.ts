@@ -53,3 +53,85 @@ export async function fetchRepository(accessToken: string, owner: string, repo:
     throw error;
   }
 }
+
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  state: string;
+  draft: boolean;
+}
+
+export interface NewPullRequest {
+  title: string;
+  body: string;
+  // Branch with the changes and the branch to merge them into
+  head: string;
+  base: string;
+  draft?: boolean;
+}
+
+// Owner and name of a repository from its clone or web URL, null for other hosts
+export function parseGitHubRepository(url: string): { owner: string; repo: string } | null {
+  const match = /github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/.exec(url);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+// Open pull request from a branch of the same repository, if there is one
+export async function findOpenPullRequest(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  head: string
+): Promise<GitHubPullRequest | null> {
+  try {
+    const params = new URLSearchParams({ head: `${owner}:${head}`, state: 'open' });
+    const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/pulls?${params}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.statusText}`);
+    }
+
+    const pullRequests: GitHubPullRequest[] = await response.json();
+    return pullRequests[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching GitHub pull requests:', error);
+    throw error;
+  }
+}
+
+export async function createPullRequest(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  pullRequest: NewPullRequest
+): Promise<GitHubPullRequest> {
+  try {
+    const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/pulls`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(pullRequest),
+    });
+
+    if (!response.ok) {
+      // Validation errors explain what is wrong, e.g. no commits between the branches
+      const data = await response.json().catch(() => null);
+      const details = data?.errors?.map((error: { message?: string }) => error.message).filter(Boolean);
+      throw new Error(details?.length ? details.join(', ') : `GitHub API error: ${data?.message || response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error creating GitHub pull request:', error);
+    throw error;
+  }
+}
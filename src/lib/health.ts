@@ -0,0 +1,35 @@
+import type { WorkspaceServiceName } from './runtime/types';
+
+// Check if a workspace service is ready by trying to connect via Docker network
+// Containers are accessible by their container name on the Docker network
+// Note: vscode container is named 'code-server-{id}' not 'vscode-{id}'
+export async function checkServiceHealth(
+  workspaceId: string,
+  service: WorkspaceServiceName
+): Promise<boolean> {
+  const containerName = service === 'opencode'
+    ? `opencode-${workspaceId}`
+    : `code-server-${workspaceId}`;
+
+  const port = service === 'opencode' ? 3001 : 8443;
+  const url = `http://${containerName}:${port}`;
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3000);
+
+    await fetch(url, {
+      signal: controller.signal,
+      method: 'HEAD',
+    });
+
+    clearTimeout(timeoutId);
+
+    // Consider any response (even error pages) as "ready"
+    // because it means the container's web server is up
+    return true;
+  } catch {
+    // Container not ready yet
+    return false;
+  }
+}
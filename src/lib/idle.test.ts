@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findMany: vi.fn(), update: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime } from './runtime';
+import { checkIdleWorkspaces, getDefaultIdleTimeoutMinutes, resolveIdleTimeoutMinutes } from './idle';
+
+const MINUTE = 60 * 1000;
+
+let runtime: FakeRuntime;
+
+// A running workspace in the fake runtime and its row, last active `idleMinutes` ago
+async function runningWorkspace(id: string, idleMinutes: number, idleTimeoutMinutes: number | null = 30) {
+  await runtime.createWorkspace({ workspaceId: id, userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  const lastActivityAt = new Date(Date.now() - idleMinutes * MINUTE);
+  return { id, lastActivityAt, updatedAt: lastActivityAt, idleTimeoutMinutes, user: { idleTimeoutMinutes: null } };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+});
+
+describe('resolveIdleTimeoutMinutes', () => {
+  it('prefers the workspace over the user over the default', () => {
+    expect(resolveIdleTimeoutMinutes(10, 20)).toBe(10);
+    expect(resolveIdleTimeoutMinutes(null, 20)).toBe(20);
+    expect(resolveIdleTimeoutMinutes(null, null)).toBe(getDefaultIdleTimeoutMinutes());
+  });
+
+  it('keeps 0, which disables auto-stop', () => {
+    expect(resolveIdleTimeoutMinutes(0, 20)).toBe(0);
+  });
+});
+
+describe('checkIdleWorkspaces', () => {
+  it('stops workspaces idle past their timeout and says why', async () => {
+    prismaMock.workspace.findMany.mockResolvedValue([await runningWorkspace('idle1', 45)]);
+
+    await checkIdleWorkspaces();
+
+    expect(runtime.workspaces.get('idle1')?.running).toBe(false);
+    expect(prismaMock.workspace.update).toHaveBeenCalledWith({
+      where: { id: 'idle1' },
+      data: { status: 'stopped', statusReason: 'Stopped after 30 minutes of inactivity' },
+    });
+  });
+
+  it('records recent activity instead of stopping', async () => {
+    prismaMock.workspace.findMany.mockResolvedValue([await runningWorkspace('busy1', 45)]);
+    const recent = new Date(Date.now() - 5 * MINUTE);
+    runtime.workspaces.get('busy1')!.activity = { previewConnections: 0, codeServerLastHeartbeat: recent };
+
+    await checkIdleWorkspaces();
+
+    expect(runtime.workspaces.get('busy1')?.running).toBe(true);
+    expect(prismaMock.workspace.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.workspace.update).toHaveBeenCalledWith({ where: { id: 'busy1' }, data: { lastActivityAt: recent } });
+  });
+
+  it('counts an open preview connection as activity right now', async () => {
+    prismaMock.workspace.findMany.mockResolvedValue([await runningWorkspace('preview1', 45)]);
+    runtime.workspaces.get('preview1')!.activity = { previewConnections: 1 };
+
+    await checkIdleWorkspaces();
+
+    expect(runtime.workspaces.get('preview1')?.running).toBe(true);
+  });
+
+  it('never stops workspaces with auto-stop disabled', async () => {
+    prismaMock.workspace.findMany.mockResolvedValue([await runningWorkspace('always1', 24 * 60, 0)]);
+
+    await checkIdleWorkspaces();
+
+    expect(runtime.workspaces.get('always1')?.running).toBe(true);
+    expect(prismaMock.workspace.update).not.toHaveBeenCalled();
+  });
+
+  it('skips workspaces whose containers are not running', async () => {
+    const workspace = await runningWorkspace('gone1', 45);
+    await runtime.stopWorkspace('gone1');
+    prismaMock.workspace.findMany.mockResolvedValue([workspace]);
+
+    await checkIdleWorkspaces();
+
+    expect(prismaMock.workspace.update).not.toHaveBeenCalled();
+  });
+});
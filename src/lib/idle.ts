@@ -0,0 +1,111 @@
+import { prisma } from './prisma';
+import { getWorkspaceRuntime, type WorkspaceActivity } from './runtime';
+import { isWorkspaceBusy } from './provisioning';
+
+// Idle timeout used when neither the workspace nor its owner set one
+const DEFAULT_IDLE_TIMEOUT_MINUTES = parseInt(process.env.WORKSPACE_IDLE_TIMEOUT_MINUTES || '120', 10);
+
+// How often running workspaces are checked for activity
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Keep the timer on globalThis so hot reloads don't start a second monitor
+const globalForIdle = globalThis as unknown as {
+  idleMonitor: NodeJS.Timeout | undefined;
+};
+
+// Workspace setting wins over the user's, 0 means never stop automatically
+export function resolveIdleTimeoutMinutes(
+  workspaceTimeout: number | null,
+  userTimeout: number | null
+): number {
+  return workspaceTimeout ?? userTimeout ?? DEFAULT_IDLE_TIMEOUT_MINUTES;
+}
+
+export function getDefaultIdleTimeoutMinutes(): number {
+  return DEFAULT_IDLE_TIMEOUT_MINUTES;
+}
+
+// Most recent moment any activity signal was seen
+function latestActivity(activity: WorkspaceActivity, now: Date): Date | null {
+  // An open preview connection means someone is using the workspace right now
+  if (activity.previewConnections > 0) return now;
+
+  const candidates = [activity.opencodeLastActivity, activity.codeServerLastHeartbeat]
+    .filter((date): date is Date => !!date);
+  if (candidates.length === 0) return null;
+
+  return new Date(Math.max(...candidates.map((date) => date.getTime())));
+}
+
+// Stop a workspace's containers and record why
+export async function suspendWorkspace(workspaceId: string, reason: string) {
+  await getWorkspaceRuntime().stopWorkspace(workspaceId);
+  await prisma.workspace.update({
+    where: { id: workspaceId },
+    data: { status: 'stopped', statusReason: reason },
+  });
+}
+
+// Check every running workspace and stop the ones idle past their threshold
+export async function checkIdleWorkspaces() {
+  const runtime = getWorkspaceRuntime();
+  const now = new Date();
+
+  const workspaces = await prisma.workspace.findMany({
+    where: { status: 'running' },
+    include: { user: { select: { idleTimeoutMinutes: true } } },
+  });
+
+  for (const workspace of workspaces) {
+    // Paused for a snapshot or being replaced, the next check gets it
+    if (isWorkspaceBusy(workspace.id)) continue;
+
+    try {
+      const activity = await runtime.getActivity(workspace.id);
+      if (!activity) continue;
+
+      // Never go back in time, e.g. when the workspace was resumed recently
+      let lastActivityAt = workspace.lastActivityAt ?? workspace.updatedAt;
+      const latest = latestActivity(activity, now);
+      if (latest && latest > lastActivityAt) {
+        lastActivityAt = latest;
+        await prisma.workspace.update({
+          where: { id: workspace.id },
+          data: { lastActivityAt },
+        });
+      }
+
+      const timeoutMinutes = resolveIdleTimeoutMinutes(
+        workspace.idleTimeoutMinutes,
+        workspace.user.idleTimeoutMinutes
+      );
+      if (timeoutMinutes <= 0) continue;
+
+      const idleMs = now.getTime() - lastActivityAt.getTime();
+      if (idleMs > timeoutMinutes * 60 * 1000) {
+        console.log(`Stopping idle workspace ${workspace.id} (idle for ${Math.round(idleMs / 60000)} minutes)`);
+        await suspendWorkspace(workspace.id, `Stopped after ${timeoutMinutes} minutes of inactivity`);
+      }
+    } catch (error) {
+      console.error(`Error checking activity of workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+export function startIdleMonitor() {
+  if (globalForIdle.idleMonitor) return;
+
+  let checking = false;
+  globalForIdle.idleMonitor = setInterval(async () => {
+    // Skip a tick rather than overlap when a check is slow
+    if (checking) return;
+    checking = true;
+    try {
+      await checkIdleWorkspaces();
+    } catch (error) {
+      console.error('Error checking idle workspaces:', error);
+    } finally {
+      checking = false;
+    }
+  }, IDLE_CHECK_INTERVAL_MS);
+}
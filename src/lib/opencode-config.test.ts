@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildOpencodeConfig, type ProviderWithModels } from './opencode-config';
+
+function provider(fields: Partial<ProviderWithModels>): ProviderWithModels {
+  return {
+    id: 'p1',
+    name: 'Provider',
+    providerId: 'openai',
+    type: 'CUSTOM',
+    baseUrl: null,
+    apiKey: null,
+    envVarName: null,
+    headers: null,
+    options: null,
+    isEnabled: true,
+    isDefault: false,
+    userId: 'user1',
+    models: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  } as ProviderWithModels;
+}
+
+describe('buildOpencodeConfig', () => {
+  it('leaves every provider enabled without any configured', () => {
+    expect(buildOpencodeConfig([])).toEqual({
+      $schema: 'https://opencode.ai/config.json',
+      provider: {},
+      enabled_providers: [],
+      disabled_providers: [],
+    });
+  });
+
+  it('enables the configured providers and picks the default model', () => {
+    const config = buildOpencodeConfig([
+      provider({
+        providerId: 'Anthropic',
+        isDefault: true,
+        envVarName: 'ANTHROPIC_API_KEY',
+        models: [
+          { modelId: 'claude-haiku', isDefault: false },
+          { modelId: 'claude-sonnet', isDefault: true },
+        ] as ProviderWithModels['models'],
+      }),
+      provider({ providerId: 'my-proxy', baseUrl: 'https://llm.example.com/v1' }),
+    ]);
+
+    expect(config.model).toBe('anthropic/claude-sonnet');
+    expect(config.enabled_providers).toEqual(['anthropic', 'my-proxy']);
+    expect(config.provider).toEqual({
+      anthropic: { options: { apiKey: '{env:ANTHROPIC_API_KEY}' } },
+      'my-proxy': { options: { baseURL: 'https://llm.example.com/v1' } },
+    });
+    expect(config.disabled_providers).toContain('openai');
+    expect(config.disabled_providers).not.toContain('anthropic');
+  });
+
+  it('keeps custom headers but never Authorization', () => {
+    const config = buildOpencodeConfig([
+      provider({ headers: { Authorization: 'Bearer secret', 'X-Team': 'web', Retries: 3 } }),
+    ]);
+
+    expect(config.provider.openai.options.headers).toEqual({ 'X-Team': 'web' });
+  });
+});
@@ -0,0 +1,84 @@
+import type { LLMModel, LLMProvider } from '@prisma/client';
+
+// opencode.json of a workspace, built from the user's LLM providers. It is copied into
+// each OpenCode container, never into an image, since it may hold provider URLs and headers.
+
+// Providers OpenCode knows without configuration, disabled unless the user enabled them
+const KNOWN_PROVIDERS = ['openai', 'anthropic', 'google', 'groq', 'openrouter', 'mistral', 'together', 'deepseek', 'xai', 'ollama', 'lmstudio'];
+
+export interface OpencodeProviderConfig {
+  options: {
+    baseURL?: string;
+    // An {env:NAME} reference, the key itself is never written to the file
+    apiKey?: string;
+    headers?: Record<string, string>;
+  };
+}
+
+export interface OpencodeConfig {
+  $schema: string;
+  // <provider>/<model> of the user's default model
+  model?: string;
+  provider: Record<string, OpencodeProviderConfig>;
+  enabled_providers: string[];
+  disabled_providers: string[];
+}
+
+export type ProviderWithModels = LLMProvider & { models: LLMModel[] };
+
+// Headers stored with a provider, Authorization is left out like the API key
+function providerHeaders(headers: LLMProvider['headers']): Record<string, string> {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) return {};
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (name !== 'Authorization' && typeof value === 'string') {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+// Build opencode.json from the enabled providers and their enabled models
+export function buildOpencodeConfig(providers: ProviderWithModels[]): OpencodeConfig {
+  const config: OpencodeConfig = {
+    $schema: 'https://opencode.ai/config.json',
+    provider: {},
+    enabled_providers: [],
+    disabled_providers: [],
+  };
+
+  // Find default model across all providers
+  const defaultProvider = providers.find((provider) => provider.isDefault);
+  const defaultModel = defaultProvider?.models.find((model) => model.isDefault);
+  if (defaultProvider && defaultModel) {
+    // Use the native provider name and model ID
+    config.model = `${defaultProvider.providerId.toLowerCase()}/${defaultModel.modelId}`;
+  }
+
+  if (providers.length === 0) return config;
+
+  // Models aren't listed, OpenCode discovers them from the enabled providers or uses the default model string
+  for (const provider of providers) {
+    const providerKey = provider.providerId.toLowerCase();
+    const options: OpencodeProviderConfig['options'] = {};
+
+    if (provider.baseUrl) {
+      options.baseURL = provider.baseUrl;
+    }
+    if (provider.envVarName) {
+      options.apiKey = `{env:${provider.envVarName}}`;
+    }
+    const headers = providerHeaders(provider.headers);
+    if (Object.keys(headers).length > 0) {
+      options.headers = headers;
+    }
+
+    config.enabled_providers.push(providerKey);
+    config.provider[providerKey] = { options };
+  }
+
+  // Explicitly disable common providers that aren't enabled to avoid confusion
+  config.disabled_providers = KNOWN_PROVIDERS.filter((provider) => !config.enabled_providers.includes(provider));
+  return config;
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { grantUrl, previewWorkspaceId, safePreviewPath } from './preview-access';
+
+describe('previewWorkspaceId', () => {
+  it.each([
+    ['preview-abc123.lvh.me', 'abc123'],
+    ['preview-abc123.lvh.me:3000', 'abc123'],
+    ['5173-preview-abc123.lvh.me', 'abc123'],
+    ['my-preview-app-preview-abc123.lvh.me', 'abc123'],
+  ])('finds the workspace of %s', (host, workspaceId) => {
+    expect(previewWorkspaceId(host, 'lvh.me')).toBe(workspaceId);
+  });
+
+  it.each([
+    'evil.com/x#-preview-abc123.lvh.me',
+    'evil.com?-preview-abc123.lvh.me',
+    'user@preview-abc123.lvh.me',
+    'preview-abc123.lvh.me.evil.com',
+    'preview-abc123.evil.com',
+    'vscode-abc123.lvh.me',
+    'preview-abc123.lvh.me:3000/x',
+  ])('refuses %s', (host) => {
+    expect(previewWorkspaceId(host, 'lvh.me')).toBeNull();
+  });
+});
+
+describe('safePreviewPath', () => {
+  it.each(['//evil.com', '/\\evil.com', 'https://evil.com', '', null])('replaces %j with /', (path) => {
+    expect(safePreviewPath(path)).toBe('/');
+  });
+
+  it('keeps local paths with their query', () => {
+    expect(safePreviewPath('/docs?page=2')).toBe('/docs?page=2');
+  });
+});
+
+describe('grantUrl', () => {
+  const secret = process.env.NEXTAUTH_SECRET;
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret';
+  });
+  afterEach(() => {
+    if (secret === undefined) delete process.env.NEXTAUTH_SECRET;
+    else process.env.NEXTAUTH_SECRET = secret;
+  });
+
+  it('sends the grant to the preview host only', () => {
+    const url = new URL(grantUrl('preview-abc123.lvh.me:3000', '/docs', null));
+    expect(url.host).toBe('preview-abc123.lvh.me:3000');
+    expect(url.pathname).toBe('/__preview_auth');
+    expect(url.searchParams.get('next')).toBe('/docs');
+  });
+
+  it('refuses hosts that would redirect elsewhere', () => {
+    expect(() => grantUrl('evil.com/x#-preview-abc123.lvh.me', '/', null)).toThrow(/Invalid preview host/);
+  });
+});
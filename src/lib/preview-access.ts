@@ -0,0 +1,230 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { PreviewShareLink } from '@prisma/client';
+import { prisma } from './prisma';
+import { signToken, verifyToken } from './secrets';
+
+// Previews are private. Traefik asks /api/previews/auth before passing on a preview request
+// (forwardAuth), which lets it through when the browser has a preview session cookie for the
+// host. Other browsers are sent to /api/previews/authorize on the web app, which knows the
+// user's login and the share links they opened, and comes back to the preview host with a
+// short-lived grant that is traded for the cookie. Cookies of the web app aren't sent to
+// preview hosts, so the owner goes through this as well.
+
+// Path on preview hosts where grants are traded, never passed on to the dev server
+export const PREVIEW_GRANT_PATH = '/__preview_auth';
+
+export const PREVIEW_SESSION_COOKIE = 'preview_session';
+
+const GRANT_PURPOSE = 'preview-grant';
+const SESSION_PURPOSE = 'preview-session';
+const SHARE_LINK_PURPOSE = 'preview-share-link';
+
+const GRANT_TTL_SECONDS = 60;
+
+// The owner is sent through the web app's login again after this
+const OWNER_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export const SHARE_LINK_EXPIRY_HOURS = [1, 24, 7 * 24, 30 * 24];
+
+const MAX_SHARE_LINKS_PER_WORKSPACE = 20;
+
+const MAX_PASSWORD_LENGTH = 200;
+
+// A hostname with an optional port and nothing else, hosts end up in redirect URLs
+const HOST_PATTERN = /^[a-z0-9.-]+(:\d+)?$/;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Who a grant or session lets in on a host: the owner, or whoever opened the share link
+interface PreviewAccess {
+  host: string;
+  linkId: string | null;
+  exp: number;
+}
+
+interface PreviewGrant extends PreviewAccess {
+  // Expiry of the session the grant is traded for
+  sessionExp: number;
+}
+
+export interface ShareLinkInfo {
+  id: string;
+  expiresAt: Date;
+  hasPassword: boolean;
+  createdAt: Date;
+}
+
+export function toShareLinkInfo(row: PreviewShareLink): ShareLinkInfo {
+  return {
+    id: row.id,
+    expiresAt: row.expiresAt,
+    hasPassword: row.passwordHash !== null,
+    createdAt: row.createdAt,
+  };
+}
+
+// Public URL of the web app, where share links and the login live
+export function appUrl(): string {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+// Cookies are only sent over HTTPS when the app is served over it
+export function secureCookies(): boolean {
+  return appUrl().startsWith('https:');
+}
+
+// Workspace a preview host such as 5173-preview-{workspaceId}.{domain} belongs to
+export function previewWorkspaceId(host: string, domain: string): string | null {
+  if (!HOST_PATTERN.test(host)) return null;
+  const hostname = host.replace(/:\d+$/, '');
+  const suffix = `.${domain.toLowerCase()}`;
+  if (!hostname.endsWith(suffix)) return null;
+  return hostname.slice(0, -suffix.length).match(/(?:^|-)preview-([a-z0-9]+)$/)?.[1] ?? null;
+}
+
+// Paths to return to after authorizing, anything but a local path could redirect elsewhere
+export function safePreviewPath(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
+
+// Where a preview host sends browsers without a session
+export function authorizeUrl(host: string, path: string): string {
+  const params = new URLSearchParams({ host, path: safePreviewPath(path) });
+  return `${appUrl()}/api/previews/authorize?${params}`;
+}
+
+// Back to the preview host with a grant, for the owner when link is null
+export function grantUrl(host: string, path: string, link: PreviewShareLink | null): string {
+  if (!HOST_PATTERN.test(host)) {
+    throw new Error(`Invalid preview host ${JSON.stringify(host)}`);
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const grant: PreviewGrant = {
+    host,
+    linkId: link?.id ?? null,
+    exp: now + GRANT_TTL_SECONDS,
+    sessionExp: link ? Math.floor(link.expiresAt.getTime() / 1000) : now + OWNER_SESSION_TTL_SECONDS,
+  };
+  const params = new URLSearchParams({ grant: signToken(GRANT_PURPOSE, grant), next: safePreviewPath(path) });
+  const protocol = new URL(appUrl()).protocol;
+  return `${protocol}//${host}${PREVIEW_GRANT_PATH}?${params}`;
+}
+
+// The session cookie a grant for `host` is traded for, null if the grant is invalid
+export function redeemPreviewGrant(value: string, host: string): { value: string; expires: Date } | null {
+  const grant = verifyToken<PreviewGrant>(GRANT_PURPOSE, value);
+  if (!grant || grant.host !== host) return null;
+
+  const session: PreviewAccess = { host, linkId: grant.linkId, exp: grant.sessionExp };
+  return { value: signToken(SESSION_PURPOSE, session), expires: new Date(grant.sessionExp * 1000) };
+}
+
+// Whether a session cookie lets its browser see `host`. Sessions of share links end as soon
+// as the link is revoked.
+export async function verifyPreviewSession(value: string | undefined, host: string): Promise<boolean> {
+  const session = value ? verifyToken<PreviewAccess>(SESSION_PURPOSE, value) : null;
+  if (!session || session.host !== host) return false;
+  if (!session.linkId) return true;
+
+  const link = await prisma.previewShareLink.findUnique({ where: { id: session.linkId } });
+  return link !== null && link.expiresAt > new Date();
+}
+
+export async function listShareLinks(workspaceId: string): Promise<ShareLinkInfo[]> {
+  const rows = await prisma.previewShareLink.findMany({
+    where: { workspaceId, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toShareLinkInfo);
+}
+
+// Validate the options of a new share link from a request body, { expiresInHours, password? }
+export function parseShareLinkOptions(
+  value: unknown
+): { expiresInHours: number; password: string | null } | { error: string } {
+  const body = (typeof value === 'object' && value !== null ? value : {}) as {
+    expiresInHours?: unknown;
+    password?: unknown;
+  };
+  if (typeof body.expiresInHours !== 'number' || !SHARE_LINK_EXPIRY_HOURS.includes(body.expiresInHours)) {
+    return { error: `Links expire after ${SHARE_LINK_EXPIRY_HOURS.join(', ')} hours` };
+  }
+  if (body.password !== undefined && body.password !== null && typeof body.password !== 'string') {
+    return { error: 'Password must be a string' };
+  }
+  if (typeof body.password === 'string' && body.password.length > MAX_PASSWORD_LENGTH) {
+    return { error: `Passwords can have up to ${MAX_PASSWORD_LENGTH} characters` };
+  }
+  return { expiresInHours: body.expiresInHours, password: body.password || null };
+}
+
+// A new share link and its token, which is only known to whoever created it
+export async function createShareLink(
+  workspaceId: string,
+  { expiresInHours, password }: { expiresInHours: number; password: string | null }
+): Promise<{ link: ShareLinkInfo; token: string } | { error: string }> {
+  // Expired links are of no use to anyone
+  await prisma.previewShareLink.deleteMany({ where: { workspaceId, expiresAt: { lte: new Date() } } });
+  const count = await prisma.previewShareLink.count({ where: { workspaceId } });
+  if (count >= MAX_SHARE_LINKS_PER_WORKSPACE) {
+    return { error: `A workspace can have at most ${MAX_SHARE_LINKS_PER_WORKSPACE} share links` };
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const row = await prisma.previewShareLink.create({
+    data: {
+      workspaceId,
+      tokenHash: hashToken(token),
+      passwordHash: password ? await hashPassword(password) : null,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    },
+  });
+  return { link: toShareLinkInfo(row), token };
+}
+
+// The link a token from a share URL belongs to, null when it was revoked or expired
+export async function findShareLink(token: string): Promise<PreviewShareLink | null> {
+  const link = await prisma.previewShareLink.findUnique({ where: { tokenHash: hashToken(token) } });
+  return link && link.expiresAt > new Date() ? link : null;
+}
+
+export async function verifyShareLinkPassword(link: PreviewShareLink, password: string): Promise<boolean> {
+  if (!link.passwordHash) return true;
+  const [, salt, hash] = link.passwordHash.split('$');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Cookie that remembers an opened share link on the web app, so /api/previews/authorize can
+// let its browser in on every preview host of the workspace
+export function shareLinkCookieName(workspaceId: string): string {
+  return `preview_link_${workspaceId}`;
+}
+
+export function signShareLinkCookie(link: PreviewShareLink): string {
+  return signToken(SHARE_LINK_PURPOSE, { linkId: link.id, exp: Math.floor(link.expiresAt.getTime() / 1000) });
+}
+
+// The link a share link cookie stands for if it still lets the browser see the workspace
+export async function shareLinkFromCookie(value: string | undefined, workspaceId: string): Promise<PreviewShareLink | null> {
+  const payload = value ? verifyToken<{ linkId: string; exp: number }>(SHARE_LINK_PURPOSE, value) : null;
+  if (!payload) return null;
+
+  const link = await prisma.previewShareLink.findUnique({ where: { id: payload.linkId } });
+  return link && link.workspaceId === workspaceId && link.expiresAt > new Date() ? link : null;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// scrypt$<salt>$<hash>, both base64
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return ['scrypt', salt.toString('base64'), hash.toString('base64')].join('$');
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  previewPort: { findMany: vi.fn(), findFirst: vi.fn(), create: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { addPreviewPort, previewRoutesConfig, restoreLabelPreviewPorts, unpreviewedPorts } from './preview-ports';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('previewRoutesConfig', () => {
+  it('routes every port behind preview-auth, the first one also without a name', async () => {
+    prismaMock.previewPort.findMany.mockResolvedValue([
+      { workspaceId: 'ws1', name: '3000', port: 3000, position: 0 },
+      { workspaceId: 'ws1', name: 'api', port: 8000, position: 1 },
+    ]);
+
+    const { http } = await previewRoutesConfig('lvh.me');
+
+    expect(http.routers).toMatchObject({
+      'preview-ws1': { rule: 'Host(`preview-ws1.lvh.me`)', service: 'preview-3000-ws1' },
+      'preview-3000-ws1': { rule: 'Host(`3000-preview-ws1.lvh.me`)', service: 'preview-3000-ws1' },
+      'preview-api-ws1': { rule: 'Host(`api-preview-ws1.lvh.me`)', service: 'preview-8000-ws1' },
+    });
+    for (const name of ['preview-ws1', 'preview-3000-ws1', 'preview-api-ws1']) {
+      expect(http.routers[name]).toMatchObject({ middlewares: ['preview-auth', 'preview-headers'] });
+    }
+    expect(http.services['preview-8000-ws1']).toEqual({
+      loadBalancer: { servers: [{ url: 'http://opencode-ws1:8000' }] },
+    });
+  });
+
+  it('outranks container label routers and catches preview hosts without a route', async () => {
+    prismaMock.previewPort.findMany.mockResolvedValue([
+      { workspaceId: 'ws1', name: '3000', port: 3000, position: 0 },
+    ]);
+
+    const { http } = await previewRoutesConfig('example.com');
+    const routed = http.routers['preview-ws1'] as { priority: number };
+    const unrouted = http.routers['preview-unrouted'] as { rule: string; service: string; priority: number };
+
+    expect(unrouted.service).toBe('noop@internal');
+    expect(unrouted.rule).toBe('HostRegexp(`^([a-z0-9-]+-)?preview-[a-z0-9]+\\.example\\.com$`)');
+    expect(routed.priority).toBeGreaterThan(unrouted.priority);
+    // Label routers get the length of their rule as priority
+    expect(unrouted.priority).toBeGreaterThan('Host(`a-long-port-name-preview-abcdefghijklmnopqrstuvwxy.example.com`)'.length);
+  });
+});
+
+describe('restoreLabelPreviewPorts', () => {
+  beforeEach(() => {
+    prismaMock.previewPort.findFirst.mockResolvedValue(null);
+    prismaMock.previewPort.create.mockImplementation(async ({ data }) => data);
+  });
+
+  it('adds the ports of the labels to a workspace without preview ports', async () => {
+    prismaMock.previewPort.findMany.mockResolvedValue([]);
+
+    await restoreLabelPreviewPorts('legacy1', [3000, 5173, 3001]);
+
+    // 3001 is OpenCode's own port
+    expect(prismaMock.previewPort.create.mock.calls.map(([{ data }]) => [data.name, data.port])).toEqual([
+      ['3000', 3000],
+      ['5173', 5173],
+    ]);
+  });
+
+  it('leaves workspaces that already have preview ports alone, once per server start', async () => {
+    prismaMock.previewPort.findMany.mockResolvedValue([{ name: '8080', port: 8080 }]);
+
+    await restoreLabelPreviewPorts('legacy2', [3000]);
+    prismaMock.previewPort.findMany.mockResolvedValue([]);
+    await restoreLabelPreviewPorts('legacy2', [3000]);
+
+    expect(prismaMock.previewPort.create).not.toHaveBeenCalled();
+    expect(prismaMock.previewPort.findMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('addPreviewPort', () => {
+  it('reports a port added at the same time instead of failing', async () => {
+    prismaMock.previewPort.findFirst.mockResolvedValue({ position: 0 });
+    prismaMock.previewPort.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+
+    await expect(addPreviewPort('ws1', { name: '5173', port: 5173 })).resolves.toEqual({
+      error: 'Port 5173 or the name 5173 is already previewed',
+    });
+  });
+
+  it('adds the port after the last one', async () => {
+    prismaMock.previewPort.findFirst.mockResolvedValue({ position: 2 });
+    prismaMock.previewPort.create.mockImplementation(async ({ data }) => data);
+
+    await expect(addPreviewPort('ws1', { name: 'api', port: 8000 })).resolves.toEqual({ name: 'api', port: 8000 });
+    expect(prismaMock.previewPort.create).toHaveBeenCalledWith({
+      data: { workspaceId: 'ws1', name: 'api', port: 8000, position: 3 },
+    });
+  });
+});
+
+describe('unpreviewedPorts', () => {
+  it('offers ports that aren\'t previewed, OpenCode\'s own or ephemeral', () => {
+    const listening = [3000, 3001, 5173, 8080, 41234].map((port) => ({ port, loopbackOnly: false }));
+
+    expect(unpreviewedPorts(listening, [{ name: 'web', port: 3000 }]).map(({ port }) => port)).toEqual([5173, 8080]);
+  });
+
+  it('keeps loopback-only ports so the page can say how to expose them', () => {
+    expect(unpreviewedPorts([{ port: 5173, loopbackOnly: true }], [])).toEqual([{ port: 5173, loopbackOnly: true }]);
+  });
+});
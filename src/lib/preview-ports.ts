@@ -0,0 +1,220 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Prisma, type PreviewPort } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ListeningPort } from './runtime';
+
+// Ports of the OpenCode container served as previews. Every port is served at
+// {name}-preview-{workspaceId}.{domain}, the first one also at preview-{workspaceId}.{domain}.
+// Traefik polls its routes from the web app (see previewRoutesConfig) instead of reading
+// container labels, so ports can be added and removed while the workspace runs. Who can see
+// them is up to preview-access.ts.
+
+export const MAX_PREVIEW_PORTS_PER_WORKSPACE = 10;
+
+// Previewed when devcontainer.json forwards no ports
+export const DEFAULT_PREVIEW_PORT = 3000;
+
+// OpenCode's web UI, routed on its own
+const RESERVED_PORTS = [3001];
+
+// Start of Linux' default ephemeral range, ports above belong to outgoing connections
+// and tools rather than dev servers
+const EPHEMERAL_PORT_START = 32768;
+
+// Workspaces created before previews were routed here still have preview routers in their
+// OpenCode container's labels, which have no preview-auth. Routers from here outrank them,
+// and preview hosts without a router here are caught before a label router can serve them.
+const PREVIEW_ROUTER_PRIORITY = 20000;
+const UNROUTED_PREVIEW_PRIORITY = 10000;
+
+// DNS label that leaves room for -preview-{workspaceId} in a 63 character label
+const PREVIEW_NAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,14}[a-z0-9])?$/;
+
+export interface PreviewPortInfo {
+  name: string;
+  port: number;
+}
+
+export function toPreviewPortInfo(row: PreviewPort): PreviewPortInfo {
+  return { name: row.name, port: row.port };
+}
+
+export async function listPreviewPorts(workspaceId: string): Promise<PreviewPortInfo[]> {
+  const rows = await prisma.previewPort.findMany({
+    where: { workspaceId },
+    orderBy: { position: 'asc' },
+  });
+  return rows.map(toPreviewPortInfo);
+}
+
+// Validate a port to add from a request body, { port, name? }. The name defaults to the
+// port number, so 5173 is served at 5173-preview-{workspaceId}.
+export function parsePreviewPort(value: unknown, existing: PreviewPortInfo[]): PreviewPortInfo | { error: string } {
+  const body = (typeof value === 'object' && value !== null ? value : {}) as { port?: unknown; name?: unknown };
+  const port = typeof body.port === 'string' ? Number(body.port) : body.port;
+  if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+    return { error: 'Port must be a number between 1 and 65535' };
+  }
+  if (RESERVED_PORTS.includes(port)) {
+    return { error: `Port ${port} is used by OpenCode` };
+  }
+
+  const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim().toLowerCase() : String(port);
+  if (!PREVIEW_NAME_PATTERN.test(name)) {
+    return { error: 'Names can have up to 16 lowercase letters, digits and hyphens' };
+  }
+
+  if (existing.length >= MAX_PREVIEW_PORTS_PER_WORKSPACE) {
+    return { error: `A workspace can have at most ${MAX_PREVIEW_PORTS_PER_WORKSPACE} preview ports` };
+  }
+  if (existing.some((item) => item.port === port)) {
+    return { error: `Port ${port} is already previewed` };
+  }
+  if (existing.some((item) => item.name === name)) {
+    return { error: `A preview is already named ${name}` };
+  }
+  return { name, port };
+}
+
+// Listening ports worth offering as previews: not previewed yet, not OpenCode's own
+export function unpreviewedPorts(listening: ListeningPort[], previewed: PreviewPortInfo[]): ListeningPort[] {
+  return listening.filter(({ port }) =>
+    port < EPHEMERAL_PORT_START
+    && !RESERVED_PORTS.includes(port)
+    && !previewed.some((preview) => preview.port === port)
+  );
+}
+
+// Fails when another request added the same port or name since parsePreviewPort checked
+export async function addPreviewPort(
+  workspaceId: string,
+  { name, port }: PreviewPortInfo
+): Promise<PreviewPortInfo | { error: string }> {
+  const last = await prisma.previewPort.findFirst({
+    where: { workspaceId },
+    orderBy: { position: 'desc' },
+  });
+  try {
+    const row = await prisma.previewPort.create({
+      data: { workspaceId, name, port, position: (last?.position ?? -1) + 1 },
+    });
+    return toPreviewPortInfo(row);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { error: `Port ${port} or the name ${name} is already previewed` };
+    }
+    throw error;
+  }
+}
+
+// Ports forwarded in devcontainer.json that aren't previewed yet are added under their
+// number. A workspace left without any preview gets the default port.
+export async function addForwardedPorts(workspaceId: string, ports: number[]): Promise<void> {
+  const existing = await listPreviewPorts(workspaceId);
+  const wanted = ports.length > 0 || existing.length > 0 ? ports : [DEFAULT_PREVIEW_PORT];
+
+  for (const port of wanted) {
+    const parsed = parsePreviewPort({ port }, existing);
+    if ('error' in parsed) continue;
+    const added = await addPreviewPort(workspaceId, parsed);
+    if (!('error' in added)) existing.push(added);
+  }
+}
+
+// Workspaces created before PreviewPort rows existed kept their ports in a column that is
+// gone now, and in the labels of their OpenCode container. Their ports are added from the
+// labels once per server start, only while the workspace has none.
+const restoredWorkspaces = new Set<string>();
+
+export async function restoreLabelPreviewPorts(workspaceId: string, ports: number[]): Promise<void> {
+  if (restoredWorkspaces.has(workspaceId)) return;
+
+  const existing = await listPreviewPorts(workspaceId);
+  if (existing.length === 0) {
+    for (const port of ports) {
+      const parsed = parsePreviewPort({ port }, existing);
+      if ('error' in parsed) continue;
+      const added = await addPreviewPort(workspaceId, parsed);
+      if (!('error' in added)) existing.push(added);
+    }
+  }
+  restoredWorkspaces.add(workspaceId);
+}
+
+// Token Traefik sends when it polls the routes, see TRAEFIK_PROVIDER_TOKEN in .env.example.
+// Without one the routes aren't served, they list every workspace.
+export function verifyTraefikProvider(authorization: string | null): boolean {
+  const expected = process.env.TRAEFIK_PROVIDER_TOKEN;
+  const token = authorization?.match(/^Bearer (\S+)$/)?.[1];
+  if (!expected || !token) return false;
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+// Where Traefik reaches the web app
+function webInternalUrl(): string {
+  return (process.env.WEB_INTERNAL_URL || 'http://web:3000').replace(/\/+$/, '');
+}
+
+// Traefik routers, services and middlewares of all previews, in the format of Traefik's
+// HTTP provider. Traefik reaches the OpenCode containers by name on the shared network.
+export async function previewRoutesConfig(domain: string) {
+  const rows = await prisma.previewPort.findMany({
+    orderBy: [{ workspaceId: 'asc' }, { position: 'asc' }],
+  });
+
+  const routers: Record<string, object> = {};
+  const services: Record<string, object> = {};
+  const route = (router: string, host: string, service: string) => {
+    routers[router] = {
+      rule: `Host(\`${host}\`)`,
+      service,
+      entryPoints: ['web'],
+      middlewares: ['preview-auth', 'preview-headers'],
+      priority: PREVIEW_ROUTER_PRIORITY,
+    };
+  };
+
+  // Every other preview host, e.g. a port removed since the container was created, gets
+  // Traefik's empty answer
+  const escapedDomain = domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  routers['preview-unrouted'] = {
+    rule: `HostRegexp(\`^([a-z0-9-]+-)?preview-[a-z0-9]+\\.${escapedDomain}$\`)`,
+    service: 'noop@internal',
+    entryPoints: ['web'],
+    priority: UNROUTED_PREVIEW_PRIORITY,
+  };
+
+  let previousWorkspace: string | null = null;
+  for (const { workspaceId, name, port } of rows) {
+    const service = `preview-${port}-${workspaceId}`;
+    services[service] = {
+      loadBalancer: { servers: [{ url: `http://opencode-${workspaceId}:${port}` }] },
+    };
+    route(`preview-${name}-${workspaceId}`, `${name}-preview-${workspaceId}.${domain}`, service);
+    if (workspaceId !== previousWorkspace) {
+      route(`preview-${workspaceId}`, `preview-${workspaceId}.${domain}`, service);
+      previousWorkspace = workspaceId;
+    }
+  }
+
+  return {
+    http: {
+      routers,
+      services,
+      middlewares: {
+        // Only the owner and people with a share link see previews, see preview-access.ts
+        'preview-auth': {
+          forwardAuth: { address: `${webInternalUrl()}/api/previews/auth` },
+        },
+        // Previews are shown in an iframe of the workspace page
+        'preview-headers': {
+          headers: {
+            customResponseHeaders: { 'X-Frame-Options': '', 'Content-Security-Policy': '' },
+          },
+        },
+      },
+    },
+  };
+}
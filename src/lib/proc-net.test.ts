@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { listeningPorts, parseProcNetTcp } from './proc-net';
+
+describe('parseProcNetTcp', () => {
+  it('reads ports, states and loopback addresses of tcp and tcp6 entries', () => {
+    const content = [
+      '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode',
+      '   0: 00000000:0BB8 00000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 1234',
+      '   1: 0100007F:1538 00000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 1235',
+      '   2: 0200000A:0BB8 0300000A:C350 01 00000000:00000000 00:00000000 00000000     0        0 1236',
+      '   3: 00000000000000000000000001000000:1F90 00000000000000000000000000000000:0000 0A 0',
+      '   4: 0000000000000000FFFF00000100007F:1F91 00000000000000000000000000000000:0000 0A 0',
+      '   5: 00000000000000000000000000000000:1F92 00000000000000000000000000000000:0000 06 0',
+    ].join('\n');
+
+    expect(parseProcNetTcp(content)).toEqual([
+      { localPort: 3000, remotePort: 0, state: 'LISTEN', loopback: false },
+      { localPort: 5432, remotePort: 0, state: 'LISTEN', loopback: true },
+      { localPort: 3000, remotePort: 50000, state: 'ESTABLISHED', loopback: false },
+      { localPort: 8080, remotePort: 0, state: 'LISTEN', loopback: true },
+      { localPort: 8081, remotePort: 0, state: 'LISTEN', loopback: true },
+      { localPort: 8082, remotePort: 0, state: 'OTHER', loopback: false },
+    ]);
+  });
+
+  it('skips headers, blank lines and garbage', () => {
+    expect(parseProcNetTcp('sl local_address\n\nnot a socket line\n 0: zz:zz 00:00 0A')).toEqual([]);
+  });
+});
+
+describe('listeningPorts', () => {
+  it('lists ports with a listening socket once, in order', () => {
+    expect(listeningPorts([
+      { localPort: 8080, remotePort: 0, state: 'LISTEN', loopback: false },
+      { localPort: 3000, remotePort: 0, state: 'LISTEN', loopback: false },
+      { localPort: 3000, remotePort: 50000, state: 'ESTABLISHED', loopback: false },
+      { localPort: 4000, remotePort: 0, state: 'OTHER', loopback: false },
+    ])).toEqual([
+      { port: 3000, loopbackOnly: false },
+      { port: 8080, loopbackOnly: false },
+    ]);
+  });
+
+  it('marks ports loopback only when none of their sockets is bound beyond localhost', () => {
+    expect(listeningPorts([
+      { localPort: 5173, remotePort: 0, state: 'LISTEN', loopback: true },
+      { localPort: 5432, remotePort: 0, state: 'LISTEN', loopback: true },
+      { localPort: 5432, remotePort: 0, state: 'LISTEN', loopback: false },
+    ])).toEqual([
+      { port: 5173, loopbackOnly: true },
+      { port: 5432, loopbackOnly: false },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import type { ListeningPort } from './runtime';
+
+// Parsing of /proc/net/tcp and /proc/net/tcp6, used to inspect sockets
+// inside workspace containers without needing netstat or ss there
+
+export type TcpState = 'ESTABLISHED' | 'LISTEN' | 'OTHER';
+
+export interface TcpSocket {
+  localPort: number;
+  remotePort: number;
+  state: TcpState;
+  // Bound to 127.0.0.1 or ::1, unreachable from other containers
+  loopback: boolean;
+}
+
+// Kernel TCP state codes we care about (include/net/tcp_states.h)
+const TCP_STATES: Record<string, TcpState> = {
+  '01': 'ESTABLISHED',
+  '0A': 'LISTEN',
+};
+
+// Local addresses are hex in the kernel's byte order: 0100007F is 127.0.0.1, IPv6 addresses
+// are four such words, ::ffff:127.0.0.1 ends in 0100007F as well
+function isLoopbackAddress(hex: string): boolean {
+  const address = hex.toUpperCase();
+  if (address.length === 8) return address.endsWith('7F');
+  return address === '00000000000000000000000001000000'
+    || (address.startsWith('0000000000000000FFFF0000') && address.endsWith('7F'));
+}
+
+// Parse the content of one or more /proc/net/tcp{,6} files.
+// Lines look like: "0: 00000000:0BB8 00000000:0000 0A ..." with hex ports.
+export function parseProcNetTcp(content: string): TcpSocket[] {
+  const sockets: TcpSocket[] = [];
+
+  for (const line of content.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    // Skip headers and anything that isn't a socket entry
+    if (fields.length < 4 || !/^\d+:$/.test(fields[0])) continue;
+
+    const [localAddress = '', localPortHex = ''] = fields[1].split(':');
+    const localPort = parseInt(localPortHex, 16);
+    const remotePort = parseInt(fields[2].split(':').pop() || '', 16);
+    if (Number.isNaN(localPort) || Number.isNaN(remotePort)) continue;
+
+    sockets.push({
+      localPort,
+      remotePort,
+      state: TCP_STATES[fields[3].toUpperCase()] || 'OTHER',
+      loopback: isLoopbackAddress(localAddress),
+    });
+  }
+
+  return sockets;
+}
+
+// Ports with a listening socket, sorted. A port counts as reachable if any of its
+// sockets is bound beyond localhost.
+export function listeningPorts(sockets: TcpSocket[]): ListeningPort[] {
+  const loopbackOnly = new Map<number, boolean>();
+  for (const socket of sockets) {
+    if (socket.state !== 'LISTEN') continue;
+    loopbackOnly.set(socket.localPort, (loopbackOnly.get(socket.localPort) ?? true) && socket.loopback);
+  }
+
+  return [...loopbackOnly]
+    .sort(([a], [b]) => a - b)
+    .map(([port, loopback]) => ({ port, loopbackOnly: loopback }));
+}
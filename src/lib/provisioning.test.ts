@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface WorkspaceRow {
+  id: string;
+  userId: string;
+  status: string;
+  statusReason: string | null;
+  containerId: string | null;
+  cpus: number;
+  memoryMb: number;
+}
+
+interface WorkspaceWhere {
+  id?: string | { not: string };
+  userId?: string;
+  status?: { in: string[] };
+}
+
+// Workspaces, quota settings and users in memory, for the queries provisioning and quotas make
+const db = vi.hoisted(() => ({
+  workspaces: [] as WorkspaceRow[],
+  settings: {} as Record<string, number | null>,
+  userLimits: {} as Record<string, number | null>,
+}));
+
+const prismaMock = vi.hoisted(() => {
+  const matches = (row: WorkspaceRow, where: WorkspaceWhere = {}) =>
+    (where.id === undefined || (typeof where.id === 'string' ? row.id === where.id : row.id !== where.id.not)) &&
+    (where.userId === undefined || row.userId === where.userId) &&
+    (where.status === undefined || where.status.in.includes(row.status));
+
+  return {
+    workspace: {
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<WorkspaceRow> }) => {
+        const row = db.workspaces.find((workspace) => workspace.id === where.id);
+        if (!row) throw new Error(`Workspace ${where.id} not found`);
+        return Object.assign(row, data);
+      }),
+      count: vi.fn(async ({ where }: { where: WorkspaceWhere }) =>
+        db.workspaces.filter((row) => matches(row, where)).length
+      ),
+      aggregate: vi.fn(async ({ where }: { where: WorkspaceWhere }) => {
+        const rows = db.workspaces.filter((row) => matches(row, where));
+        return {
+          _count: rows.length,
+          _sum: {
+            cpus: rows.length ? rows.reduce((sum, row) => sum + row.cpus, 0) : null,
+            memoryMb: rows.length ? rows.reduce((sum, row) => sum + row.memoryMb, 0) : null,
+          },
+        };
+      }),
+    },
+    quotaSettings: { upsert: vi.fn(async () => ({ id: 'instance', ...db.settings })) },
+    user: { findUniqueOrThrow: vi.fn(async () => ({ id: 'user1', ...db.userLimits })) },
+  };
+});
+
+const previewPortsMock = vi.hoisted(() => ({ addForwardedPorts: vi.fn(async () => { }) }));
+
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+vi.mock('./preview-ports', () => previewPortsMock);
+
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime, type WorkspaceContainerConfig } from './runtime';
+import {
+  getProvisioningJob,
+  isProvisioning,
+  isWorkspaceBusy,
+  startSnapshotRestore,
+  startWorkspaceProvisioning,
+  startWorkspaceRebuild,
+} from './provisioning';
+import { checkWorkspaceQuota } from './quotas';
+
+let runtime: FakeRuntime;
+
+function addWorkspace(id: string, status: string, resources = { cpus: 2, memoryMb: 4096, diskGb: 10 }): WorkspaceContainerConfig {
+  db.workspaces.push({ id, userId: 'user1', status, statusReason: null, containerId: null, ...resources });
+  return { workspaceId: id, userId: 'user1', githubRepo: 'https://github.com/acme/web.git', resources };
+}
+
+function workspace(id: string): WorkspaceRow | undefined {
+  return db.workspaces.find((row) => row.id === id);
+}
+
+async function finished(workspaceId: string) {
+  await vi.waitFor(() => expect(getProvisioningJob(workspaceId)?.finished).toBe(true));
+  return getProvisioningJob(workspaceId)!;
+}
+
+// "step status" of every event, in order
+function timeline(workspaceId: string): string[] {
+  return getProvisioningJob(workspaceId)!.events.map((event) => `${event.step} ${event.status}`);
+}
+
+beforeEach(() => {
+  db.workspaces = [];
+  db.settings = {};
+  db.userLimits = {};
+  vi.clearAllMocks();
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('runProvisioningJob', () => {
+  it('creates the containers and marks the workspace running once OpenCode responds', async () => {
+    const config = addWorkspace('create1', 'starting');
+
+    startWorkspaceProvisioning(config);
+    expect(isProvisioning('create1')).toBe(true);
+    await finished('create1');
+
+    expect(isProvisioning('create1')).toBe(false);
+    expect(timeline('create1')).toEqual([
+      'pull completed',
+      'volumes completed',
+      'clone completed',
+      'containers completed',
+      'start completed',
+      'health started',
+      'health completed',
+      'ready completed',
+    ]);
+    expect(runtime.workspaces.get('create1')?.running).toBe(true);
+    expect(workspace('create1')).toMatchObject({
+      status: 'running',
+      statusReason: null,
+      containerId: 'fake-opencode-create1',
+    });
+    expect(previewPortsMock.addForwardedPorts).toHaveBeenCalledWith('create1', []);
+  });
+
+  it('rebuilds and starts a stopped workspace with the ports of its devcontainer.json', async () => {
+    const config = addWorkspace('rebuild1', 'stopped');
+    await runtime.createWorkspace(config);
+    await runtime.stopWorkspace('rebuild1');
+    runtime.workspaces.get('rebuild1')!.files['.devcontainer/devcontainer.json'] = '{ "forwardPorts": [3000] }';
+
+    startWorkspaceRebuild({ ...config, resources: { cpus: 4, memoryMb: 8192, diskGb: 10 } });
+    await finished('rebuild1');
+
+    expect(runtime.calls.slice(2).map((call) => call.method)).toEqual([
+      'recreateWorkspace',
+      'startWorkspace',
+      'checkHealth',
+    ]);
+    expect(runtime.workspaces.get('rebuild1')?.config.resources).toEqual({ cpus: 4, memoryMb: 8192, diskGb: 10 });
+    expect(previewPortsMock.addForwardedPorts).toHaveBeenCalledWith('rebuild1', [3000]);
+    expect(workspace('rebuild1')?.status).toBe('running');
+  });
+
+  it('marks the workspace failed with the reason when a step throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    const config = addWorkspace('fail1', 'starting');
+    runtime.failNext('createWorkspace', new Error('Image pull failed'));
+
+    startWorkspaceProvisioning(config);
+    const job = await finished('fail1');
+
+    expect(job.events.at(-1)).toMatchObject({ step: 'error', status: 'failed', message: 'Image pull failed' });
+    expect(timeline('fail1')).not.toContain('ready completed');
+    expect(workspace('fail1')).toMatchObject({ status: 'error', statusReason: 'Image pull failed' });
+    expect(previewPortsMock.addForwardedPorts).not.toHaveBeenCalled();
+  });
+
+  it('marks the workspace running with the reason when OpenCode doesn\'t respond in time', async () => {
+    vi.useFakeTimers();
+    const config = addWorkspace('slow1', 'starting');
+    runtime.checkHealth = async () => false;
+
+    startWorkspaceProvisioning(config);
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000 + 2000);
+    await finished('slow1');
+
+    expect(timeline('slow1').slice(-3)).toEqual(['health started', 'health failed', 'ready completed']);
+    expect(workspace('slow1')).toMatchObject({
+      status: 'running',
+      statusReason: 'OpenCode did not respond in time, it may still be starting',
+    });
+  });
+
+  it('keeps the source of a duplicate busy while its volumes are copied', async () => {
+    const source = addWorkspace('source1', 'running');
+    await runtime.createWorkspace(source);
+    runtime.workspaces.get('source1')!.files = { 'notes.md': 'draft' };
+    const config = addWorkspace('copy1', 'starting');
+
+    let finishCopy = () => { };
+    const createWorkspace = runtime.createWorkspace;
+    runtime.createWorkspace = async (...args) => {
+      await new Promise<void>((resolve) => { finishCopy = resolve; });
+      return createWorkspace(...args);
+    };
+
+    startWorkspaceProvisioning({ ...config, source: { type: 'workspace', workspaceId: 'source1', includeHistory: false } });
+    await vi.waitFor(() => expect(isWorkspaceBusy('source1')).toBe(true));
+
+    finishCopy();
+    await finished('copy1');
+    expect(isWorkspaceBusy('source1')).toBe(false);
+    expect(runtime.workspaces.get('copy1')?.files).toEqual({ 'notes.md': 'draft' });
+  });
+
+  it('starts the workspace again after restoring a snapshot', async () => {
+    const config = addWorkspace('restore1', 'running');
+    await runtime.createWorkspace(config);
+    runtime.workspaces.get('restore1')!.files = { 'README.md': 'changed' };
+    await runtime.createSnapshot('restore1', 'snap1');
+    runtime.workspaces.get('restore1')!.files = {};
+
+    startSnapshotRestore('restore1', 'snap1');
+    await finished('restore1');
+
+    expect(runtime.workspaces.get('restore1')).toMatchObject({ running: true, files: { 'README.md': 'changed' } });
+    expect(workspace('restore1')?.status).toBe('running');
+  });
+});
+
+describe('checkWorkspaceQuota', () => {
+  it('allows everything without limits', async () => {
+    addWorkspace('ws1', 'running');
+    expect(await checkWorkspaceQuota('user1', { resources: { cpus: 64, memoryMb: 65536, diskGb: 10 } })).toBeNull();
+  });
+
+  it('counts workspaces while they are provisioned, and not after they failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    db.settings = { userMaxRunningWorkspaces: 1 };
+    const config = addWorkspace('ws1', 'stopped');
+    const request = { resources: { cpus: 1, memoryMb: 1024, diskGb: 10 } };
+
+    runtime.failNext('createWorkspace', new Error('No space left on device'));
+    startWorkspaceProvisioning(config);
+    expect(await checkWorkspaceQuota('user1', request)).toMatchObject({
+      quota: 'maxRunningWorkspaces',
+      scope: 'user',
+      limit: 1,
+      used: 1,
+    });
+
+    await finished('ws1');
+    expect(workspace('ws1')?.status).toBe('error');
+    expect(await checkWorkspaceQuota('user1', request)).toBeNull();
+  });
+
+  it('leaves out the workspace being started or resized', async () => {
+    db.settings = { userMaxCpus: 4 };
+    addWorkspace('ws1', 'running', { cpus: 2, memoryMb: 2048, diskGb: 10 });
+
+    expect(await checkWorkspaceQuota('user1', { resources: { cpus: 4, memoryMb: 2048, diskGb: 10 }, workspaceId: 'ws1' })).toBeNull();
+    expect(await checkWorkspaceQuota('user1', { resources: { cpus: 4, memoryMb: 2048, diskGb: 10 } })).toMatchObject({
+      quota: 'maxCpus',
+      used: 2,
+      requested: 4,
+    });
+  });
+
+  it('counts stopped workspaces against the number of workspaces only', async () => {
+    db.settings = { userMaxWorkspaces: 2, userMaxRunningWorkspaces: 1 };
+    addWorkspace('ws1', 'stopped');
+    addWorkspace('ws2', 'stopped');
+
+    expect(await checkWorkspaceQuota('user1', { resources: { cpus: 1, memoryMb: 1024, diskGb: 10 }, workspaceId: 'ws1' })).toBeNull();
+    expect(await checkWorkspaceQuota('user1', { resources: { cpus: 1, memoryMb: 1024, diskGb: 10 } })).toMatchObject({
+      quota: 'maxWorkspaces',
+      used: 2,
+    });
+  });
+
+  it('applies the user\'s overrides before the instance limits', async () => {
+    db.settings = { userMaxMemoryMb: 2048, instanceMaxMemoryMb: 16384 };
+    db.userLimits = { maxMemoryMb: 8192 };
+    addWorkspace('ws1', 'running', { cpus: 1, memoryMb: 4096, diskGb: 10 });
+    db.workspaces.push({ ...workspace('ws1')!, id: 'other1', userId: 'user2', memoryMb: 10240 });
+
+    expect(await checkWorkspaceQuota('user1', { resources: { cpus: 1, memoryMb: 4096, diskGb: 10 } })).toMatchObject({
+      quota: 'maxMemoryMb',
+      scope: 'instance',
+      limit: 16384,
+      used: 14336,
+    });
+  });
+});
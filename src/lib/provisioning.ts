@@ -0,0 +1,303 @@
+import { EventEmitter } from 'events';
+import type { Workspace } from '@prisma/client';
+import { prisma } from './prisma';
+import { workspaceResources } from './resources';
+import { listRepositoryCheckouts } from './repositories';
+import { loadKnownHosts, loadSshIdentities } from './ssh-keys';
+import { addForwardedPorts } from './preview-ports';
+import { getWorkspaceRuntime, type WorkspaceContainerConfig } from './runtime';
+
+// Steps of the provisioning timeline, in the order they normally happen
+export type ProvisioningStep =
+  | 'pull'
+  | 'volumes'
+  | 'clone'
+  | 'devcontainer'
+  | 'image'
+  | 'containers'
+  | 'start'
+  | 'setup'
+  | 'health'
+  | 'ready'
+  | 'error';
+
+export type ProvisioningStepStatus = 'started' | 'progress' | 'completed' | 'failed';
+
+export interface ProvisioningEvent {
+  step: ProvisioningStep;
+  status: ProvisioningStepStatus;
+  message: string;
+  // Image being pulled, for 'pull' events
+  image?: string;
+  // Pull progress in bytes, for 'pull' progress events
+  current?: number;
+  total?: number;
+  // Raw output line, for 'clone', 'devcontainer', 'image' and 'setup' progress events
+  line?: string;
+  timestamp: number;
+}
+
+export type ProvisioningReporter = (event: Omit<ProvisioningEvent, 'timestamp'>) => void;
+
+interface ProvisioningJob {
+  workspaceId: string;
+  events: ProvisioningEvent[];
+  emitter: EventEmitter;
+  finished: boolean;
+}
+
+// How long a finished job is kept around so late subscribers can replay it
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+// How long to wait for OpenCode to answer after its container started
+const HEALTH_TIMEOUT_MS = 5 * 60 * 1000;
+
+const HEALTH_TIMEOUT_REASON = 'OpenCode did not respond in time, it may still be starting';
+
+// Poll OpenCode until it responds or the timeout elapses
+async function waitForOpencode(workspaceId: string, timeoutMs: number): Promise<boolean> {
+  const runtime = getWorkspaceRuntime();
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (await runtime.checkHealth(workspaceId, 'opencode')) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+
+  return false;
+}
+
+// Keep jobs on globalThis so they survive hot reloads in development
+const globalForProvisioning = globalThis as unknown as {
+  provisioningJobs: Map<string, ProvisioningJob> | undefined;
+  busyWorkspaces: Map<string, number> | undefined;
+};
+
+const jobs = globalForProvisioning.provisioningJobs ?? new Map<string, ProvisioningJob>();
+globalForProvisioning.provisioningJobs = jobs;
+
+// Work on a workspace outside of jobs, e.g. snapshots and copies that pause its containers,
+// counted by workspace ID since several can overlap
+const busyWorkspaces = globalForProvisioning.busyWorkspaces ?? new Map<string, number>();
+globalForProvisioning.busyWorkspaces = busyWorkspaces;
+
+function recordEvent(job: ProvisioningJob, event: Omit<ProvisioningEvent, 'timestamp'>) {
+  const fullEvent: ProvisioningEvent = { ...event, timestamp: Date.now() };
+
+  // Collapse consecutive progress events of the same step (and image) so the
+  // replay buffer stays small during long pulls and clones
+  const last = job.events[job.events.length - 1];
+  if (
+    last &&
+    fullEvent.status === 'progress' &&
+    last.status === 'progress' &&
+    last.step === fullEvent.step &&
+    last.image === fullEvent.image
+  ) {
+    job.events[job.events.length - 1] = fullEvent;
+  } else {
+    job.events.push(fullEvent);
+  }
+
+  job.emitter.emit('event', fullEvent);
+}
+
+export function getProvisioningJob(workspaceId: string) {
+  const job = jobs.get(workspaceId);
+  if (!job) return null;
+  return { events: [...job.events], finished: job.finished };
+}
+
+// Subscribe to live events of a running job. Returns an unsubscribe function.
+export function subscribeToProvisioning(
+  workspaceId: string,
+  listener: (event: ProvisioningEvent) => void
+): () => void {
+  const job = jobs.get(workspaceId);
+  if (!job) return () => { };
+
+  job.emitter.on('event', listener);
+  return () => {
+    job.emitter.off('event', listener);
+  };
+}
+
+// Work done by a job before the health check, returns the new containers' details if any
+type ProvisioningTask = (
+  report: ProvisioningReporter
+) => Promise<{ opencodeContainerId?: string; forwardedPorts?: number[] } | void>;
+
+// Run a task that (re)starts a workspace in the background and return immediately.
+// Progress is published as events that can be followed with subscribeToProvisioning.
+function runProvisioningJob(workspaceId: string, task: ProvisioningTask) {
+  const job: ProvisioningJob = {
+    workspaceId,
+    events: [],
+    emitter: new EventEmitter(),
+    finished: false,
+  };
+  // Every open SSE connection adds a listener
+  job.emitter.setMaxListeners(0);
+  jobs.set(workspaceId, job);
+
+  const report: ProvisioningReporter = (event) => recordEvent(job, event);
+
+  const run = async () => {
+    try {
+      await prisma.workspace.update({
+        where: { id: workspaceId },
+        data: { status: 'starting' },
+      });
+
+      const result = await task(report);
+
+      report({ step: 'health', status: 'started', message: 'Waiting for OpenCode to respond' });
+      const healthy = await waitForOpencode(workspaceId, HEALTH_TIMEOUT_MS);
+      if (healthy) {
+        report({ step: 'health', status: 'completed', message: 'OpenCode is responding' });
+      } else {
+        // Containers are up, so the workspace may be usable once OpenCode finishes booting.
+        // The reason stays visible until the workspace is started or stopped again.
+        report({ step: 'health', status: 'failed', message: HEALTH_TIMEOUT_REASON });
+      }
+
+      if (result?.forwardedPorts) {
+        await addForwardedPorts(workspaceId, result.forwardedPorts);
+      }
+
+      await prisma.workspace.update({
+        where: { id: workspaceId },
+        data: {
+          ...(result?.opencodeContainerId ? { containerId: result.opencodeContainerId } : {}),
+          status: 'running',
+          statusReason: healthy ? null : HEALTH_TIMEOUT_REASON,
+          lastActivityAt: new Date(),
+        },
+      });
+
+      report({ step: 'ready', status: 'completed', message: 'Workspace is ready' });
+    } catch (error) {
+      console.error(`Error provisioning workspace ${workspaceId}:`, error);
+      const message = error instanceof Error ? error.message : 'Workspace provisioning failed';
+
+      await prisma.workspace.update({
+        where: { id: workspaceId },
+        data: { status: 'error', statusReason: message },
+      }).catch((updateError) => {
+        console.error('Error updating workspace status:', updateError);
+      });
+
+      report({
+        step: 'error',
+        status: 'failed',
+        message,
+      });
+    } finally {
+      job.finished = true;
+      setTimeout(() => {
+        // Only drop the job if it hasn't been replaced by a newer one
+        if (jobs.get(workspaceId) === job) {
+          jobs.delete(workspaceId);
+        }
+      }, FINISHED_JOB_TTL_MS);
+    }
+  };
+
+  void run();
+}
+
+// Whether a job is currently changing the workspace's containers or volumes
+export function isProvisioning(workspaceId: string): boolean {
+  const job = jobs.get(workspaceId);
+  return !!job && !job.finished;
+}
+
+// Mark a workspace busy while fn runs, so background monitors leave it alone
+export async function whileWorkspaceBusy<T>(workspaceId: string, fn: () => Promise<T>): Promise<T> {
+  busyWorkspaces.set(workspaceId, (busyWorkspaces.get(workspaceId) ?? 0) + 1);
+  try {
+    return await fn();
+  } finally {
+    const count = (busyWorkspaces.get(workspaceId) ?? 1) - 1;
+    if (count > 0) busyWorkspaces.set(workspaceId, count);
+    else busyWorkspaces.delete(workspaceId);
+  }
+}
+
+// Whether a job or other work is changing the workspace, its containers may be paused,
+// stopped or replaced at any moment
+export function isWorkspaceBusy(workspaceId: string): boolean {
+  return isProvisioning(workspaceId) || busyWorkspaces.has(workspaceId);
+}
+
+// Container config of an existing workspace, e.g. to recreate its containers
+export async function loadWorkspaceConfig(workspace: Workspace): Promise<WorkspaceContainerConfig> {
+  const links = await prisma.workspaceEnvironment.findMany({
+    where: { workspaceId: workspace.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    workspaceId: workspace.id,
+    userId: workspace.userId,
+    githubRepo: workspace.githubRepo,
+    githubBranch: workspace.githubBranch,
+    sshIdentities: await loadSshIdentities(workspace.userId),
+    sshKnownHosts: await loadKnownHosts(workspace.userId),
+    repositories: await listRepositoryCheckouts(workspace.id),
+    environmentIds: links.map((link) => link.environmentId),
+    resources: workspaceResources(workspace),
+  };
+}
+
+// Create a workspace's volumes and containers in the background
+export function startWorkspaceProvisioning(config: WorkspaceContainerConfig) {
+  runProvisioningJob(config.workspaceId, async (report) => {
+    const create = () => getWorkspaceRuntime().createWorkspace(config, report);
+    // A duplicated workspace's containers are paused while its volumes are copied
+    const containerInfo = config.source?.type === 'workspace'
+      ? await whileWorkspaceBusy(config.source.workspaceId, create)
+      : await create();
+    return {
+      opencodeContainerId: containerInfo.opencodeContainerId,
+      forwardedPorts: containerInfo.forwardedPorts,
+    };
+  });
+}
+
+// Replace a workspace's containers with ones built from its current config in the
+// background and start them. The volumes, and with them files and history, are kept.
+export function startWorkspaceRebuild(config: WorkspaceContainerConfig) {
+  runProvisioningJob(config.workspaceId, async (report) => {
+    const runtime = getWorkspaceRuntime();
+    const containerInfo = await runtime.recreateWorkspace(config, report);
+
+    report({ step: 'start', status: 'started', message: 'Starting containers' });
+    await runtime.startWorkspace(config.workspaceId);
+    report({ step: 'start', status: 'completed', message: 'Containers started' });
+
+    return {
+      opencodeContainerId: containerInfo.opencodeContainerId,
+      forwardedPorts: containerInfo.forwardedPorts,
+    };
+  });
+}
+
+// Replace an existing workspace's files with a snapshot in the background,
+// the workspace is stopped during the restore and started again afterwards
+export function startSnapshotRestore(workspaceId: string, snapshotId: string) {
+  runProvisioningJob(workspaceId, async (report) => {
+    const runtime = getWorkspaceRuntime();
+
+    report({ step: 'clone', status: 'started', message: 'Restoring snapshot' });
+    await runtime.stopWorkspace(workspaceId);
+    await runtime.restoreSnapshot(workspaceId, snapshotId);
+    report({ step: 'clone', status: 'completed', message: 'Snapshot restored' });
+
+    report({ step: 'start', status: 'started', message: 'Starting containers' });
+    await runtime.startWorkspace(workspaceId);
+    report({ step: 'start', status: 'completed', message: 'Containers started' });
+  });
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime, type ExecResult } from './runtime';
+import { draftPullRequest } from './pull-requests';
+
+const repository = { workspaceId: 'ws1', path: '' };
+
+let runtime: FakeRuntime;
+let status: string;
+let log: Partial<ExecResult>;
+// Session file and message files of the latest OpenCode session
+let opencodeRecords: string[];
+
+beforeEach(async () => {
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  status = '# branch.head feature/login\0';
+  log = { exitCode: 0, stdout: '' };
+  opencodeRecords = [];
+  runtime.execHandler = (_workspaceId, command) => {
+    if (command[0] === 'sh') return { exitCode: 0, stdout: opencodeRecords.join('\x1e'), stderr: '' };
+    if (command.includes('status')) return { exitCode: 0, stdout: status, stderr: '' };
+    return { exitCode: 0, stdout: '', stderr: '', ...log };
+  };
+});
+
+function commits(...subjects: string[]) {
+  // git log lists the newest commit first
+  return subjects.map((subject, index) => `h${index}\x1fs${index}\x1fAda\x1fa@b.c\x1f2026\x1f${subject}\x1e`).join('\n');
+}
+
+describe('draftPullRequest', () => {
+  it('uses the OpenCode session title and request summaries', async () => {
+    opencodeRecords = [
+      JSON.stringify({ title: 'Add a login page' }),
+      JSON.stringify({ role: 'user', time: { created: 2 }, summary: { title: 'Validate', body: 'Validates the form.' } }),
+      JSON.stringify({ role: 'assistant', time: { created: 3 }, summary: { body: 'Ignored' } }),
+      JSON.stringify({ role: 'user', time: { created: 1 }, summary: { title: 'Page', body: 'Adds the page.' } }),
+    ];
+    log = { exitCode: 0, stdout: commits('Validate the form', 'Add the page') };
+
+    expect(await draftPullRequest(repository, 'main')).toEqual({
+      title: 'Add a login page',
+      body: 'Adds the page.\n\nValidates the form.\n\n### Commits\n- Validate the form (s0)\n- Add the page (s1)',
+      head: 'feature/login',
+      base: 'main',
+    });
+    const gitLog = runtime.calls.find((call) => call.method === 'exec' && (call.args[0] as string[]).includes('log'));
+    expect(gitLog?.args[0]).toContain('origin/main..HEAD');
+  });
+
+  it('falls back to the first commit, then the branch name', async () => {
+    opencodeRecords = [JSON.stringify({ title: 'New session - 2026-01-01' })];
+    log = { exitCode: 0, stdout: commits('Second', 'First') };
+    expect(await draftPullRequest(repository, 'main')).toMatchObject({ title: 'First' });
+
+    log = { exitCode: 128, stderr: "fatal: bad revision 'origin/main..HEAD'" };
+    expect(await draftPullRequest(repository, 'main')).toEqual({
+      title: 'feature/login',
+      body: '',
+      head: 'feature/login',
+      base: 'main',
+    });
+  });
+
+  it('passes on a failing git status', async () => {
+    runtime.execHandler = () => ({ exitCode: 128, stdout: '', stderr: 'fatal: not a git repository' });
+    expect(await draftPullRequest(repository, 'main')).toEqual({ error: 'fatal: not a git repository' });
+  });
+});
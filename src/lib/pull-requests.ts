@@ -0,0 +1,94 @@
+import { getWorkspaceRuntime } from './runtime';
+import { getGitLog, getGitStatus, type GitRepository, type GitResult } from './git';
+
+// Where OpenCode keeps sessions and messages as JSON files
+const OPENCODE_STORAGE = '/root/.local/share/opencode/storage';
+
+// Commits listed in a pull request body
+const MAX_LISTED_COMMITS = 50;
+
+export interface PullRequestDraft {
+  title: string;
+  body: string;
+  // Current branch, null when HEAD is detached
+  head: string | null;
+  base: string;
+}
+
+interface OpencodeSummary {
+  title: string | null;
+  // Summaries OpenCode writes of each request, oldest first
+  requests: { title?: string; body?: string }[];
+}
+
+// The most recent OpenCode session with the summaries of the requests made in it.
+// Returns null when there is no session.
+async function readOpencodeSummary(workspaceId: string): Promise<OpencodeSummary | null> {
+  // Session and message files are printed separated by \036 (record separator)
+  const script = [
+    `f=$(ls -t ${OPENCODE_STORAGE}/session/*/ses_*.json 2>/dev/null | head -1)`,
+    '[ -n "$f" ] || exit 0',
+    'cat "$f"',
+    `for m in ${OPENCODE_STORAGE}/message/$(basename "$f" .json)/*.json; do [ -f "$m" ] && printf '\\036' && cat "$m"; done`,
+  ].join('; ');
+
+  const result = await getWorkspaceRuntime().exec(workspaceId, ['sh', '-c', script]);
+  const [sessionRecord, ...messageRecords] = result.stdout.split('\x1e');
+  if (!sessionRecord?.trim()) return null;
+
+  const parse = (record: string) => {
+    try {
+      return JSON.parse(record);
+    } catch {
+      return null;
+    }
+  };
+
+  const session = parse(sessionRecord);
+  const requests = messageRecords
+    .map(parse)
+    .filter((message) => message?.role === 'user' && message.summary)
+    .sort((a, b) => (a.time?.created ?? 0) - (b.time?.created ?? 0))
+    .map((message) => ({ title: message.summary.title, body: message.summary.body }));
+
+  // Sessions OpenCode hasn't named yet are called "New session - <date>"
+  const title = typeof session?.title === 'string' && !/^New session/i.test(session.title)
+    ? session.title
+    : null;
+
+  return { title, requests };
+}
+
+// Title and body for a pull request of the current branch into base, from what
+// OpenCode summarized and the commits on the branch
+export async function draftPullRequest(repository: GitRepository, base: string): Promise<GitResult<PullRequestDraft>> {
+  const status = await getGitStatus(repository);
+  if ('error' in status) return status;
+
+  const [commits, summary] = await Promise.all([
+    getGitLog(repository, MAX_LISTED_COMMITS, `origin/${base}..HEAD`),
+    readOpencodeSummary(repository.workspaceId).catch((error) => {
+      console.error('Error reading OpenCode session summary:', error);
+      return null;
+    }),
+  ]);
+  // The base may not be fetched yet, the draft just goes without commits then
+  const branchCommits = 'error' in commits ? [] : commits;
+
+  const title = summary?.title
+    ?? summary?.requests.find((request) => request.title)?.title
+    ?? branchCommits[branchCommits.length - 1]?.subject
+    ?? status.branch
+    ?? 'Changes from the workspace';
+
+  const sections: string[] = [];
+  const bodies = summary?.requests.map((request) => request.body?.trim()).filter(Boolean) ?? [];
+  if (bodies.length > 0) {
+    sections.push(bodies.join('\n\n'));
+  }
+  if (branchCommits.length > 0) {
+    sections.push(['### Commits', ...branchCommits.map((commit) => `- ${commit.subject} (${commit.shortHash})`)].join('\n'));
+  }
+
+  return { title, body: sections.join('\n\n'), head: status.branch, base };
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QuotaSettings } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  quotaSettings: { upsert: vi.fn() },
+  user: { findUniqueOrThrow: vi.fn() },
+  workspace: { count: vi.fn(), aggregate: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { checkWorkspaceQuota, parseQuotaInput, quotaViolationMessage, userQuotaLimits } from './quotas';
+
+const unlimited = {
+  userMaxWorkspaces: null,
+  userMaxRunningWorkspaces: null,
+  userMaxCpus: null,
+  userMaxMemoryMb: null,
+  instanceMaxWorkspaces: null,
+  instanceMaxRunningWorkspaces: null,
+  instanceMaxCpus: null,
+  instanceMaxMemoryMb: null,
+};
+const noOverrides = { maxWorkspaces: null, maxRunningWorkspaces: null, maxCpus: null, maxMemoryMb: null };
+
+const resources = { memoryMb: 4096, cpus: 2, diskGb: 10 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prismaMock.quotaSettings.upsert.mockResolvedValue({ id: 'instance', ...unlimited });
+  prismaMock.user.findUniqueOrThrow.mockResolvedValue({ id: 'user1', ...noOverrides });
+  // Every workspace in use belongs to the user: 2 in total, 1 running with 2 CPUs and 4 GB
+  prismaMock.workspace.count.mockResolvedValue(2);
+  prismaMock.workspace.aggregate.mockResolvedValue({ _count: 1, _sum: { cpus: 2, memoryMb: 4096 } });
+});
+
+describe('userQuotaLimits', () => {
+  it('prefers the user\'s overrides over the instance\'s per-user quota', () => {
+    const settings = { ...unlimited, userMaxWorkspaces: 5, userMaxCpus: 8 } as QuotaSettings;
+
+    expect(userQuotaLimits({ ...noOverrides, maxCpus: 16 }, settings)).toEqual({
+      maxWorkspaces: 5,
+      maxRunningWorkspaces: null,
+      maxCpus: 16,
+      maxMemoryMb: null,
+    });
+  });
+});
+
+describe('checkWorkspaceQuota', () => {
+  it('allows everything without limits', async () => {
+    expect(await checkWorkspaceQuota('user1', { resources })).toBeNull();
+  });
+
+  it('reports the user quota a new workspace would exceed', async () => {
+    prismaMock.quotaSettings.upsert.mockResolvedValue({ id: 'instance', ...unlimited, userMaxCpus: 3 });
+
+    expect(await checkWorkspaceQuota('user1', { resources })).toEqual({
+      quota: 'maxCpus',
+      scope: 'user',
+      limit: 3,
+      used: 2,
+      requested: 2,
+    });
+  });
+
+  it('checks the instance quota after the user\'s', async () => {
+    prismaMock.quotaSettings.upsert.mockResolvedValue({ id: 'instance', ...unlimited, instanceMaxWorkspaces: 2 });
+
+    expect(await checkWorkspaceQuota('user1', { resources })).toMatchObject({ quota: 'maxWorkspaces', scope: 'instance' });
+  });
+
+  it('doesn\'t count an existing workspace twice when it is started', async () => {
+    prismaMock.quotaSettings.upsert.mockResolvedValue({ id: 'instance', ...unlimited, userMaxWorkspaces: 2 });
+
+    expect(await checkWorkspaceQuota('user1', { resources, workspaceId: 'ws1' })).toBeNull();
+    expect(prismaMock.workspace.count).toHaveBeenCalledWith({ where: { id: { not: 'ws1' }, userId: 'user1' } });
+  });
+});
+
+describe('quotaViolationMessage', () => {
+  it('tells the user what to do', () => {
+    expect(quotaViolationMessage({ quota: 'maxWorkspaces', scope: 'user', limit: 1, used: 1, requested: 1 }))
+      .toBe('Your quota allows 1 workspace, delete a workspace first');
+    expect(quotaViolationMessage({ quota: 'maxRunningWorkspaces', scope: 'instance', limit: 3, used: 3, requested: 1 }))
+      .toBe('The quota of this instance allows 3 running workspaces, stop a workspace first');
+    expect(quotaViolationMessage({ quota: 'maxMemoryMb', scope: 'user', limit: 8192, used: 6144, requested: 4096 }))
+      .toBe('Your quota allows 8 GB of memory, 6 GB of memory in use and this workspace needs 4 GB of memory. ' +
+        'Stop a workspace or choose a smaller resource profile');
+  });
+});
+
+describe('parseQuotaInput', () => {
+  const keys = ['maxWorkspaces', 'maxCpus'] as const;
+
+  it('reads the given keys only', () => {
+    expect(parseQuotaInput({ maxWorkspaces: 3, maxCpus: null, other: 1 }, keys)).toEqual({
+      values: { maxWorkspaces: 3, maxCpus: null },
+    });
+  });
+
+  it('allows fractional CPUs only', () => {
+    expect(parseQuotaInput({ maxCpus: 1.5 }, keys)).toEqual({ values: { maxCpus: 1.5 } });
+    expect(parseQuotaInput({ maxWorkspaces: 1.5 }, keys)).toEqual({ error: 'maxWorkspaces must be an integer' });
+  });
+
+  it.each([-1, '3', Infinity])('refuses %j', (value) => {
+    expect(parseQuotaInput({ maxWorkspaces: value }, keys)).toEqual({
+      error: 'maxWorkspaces must be a non-negative number or null',
+    });
+  });
+});
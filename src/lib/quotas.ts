@@ -0,0 +1,233 @@
+import type { Prisma, QuotaSettings, User } from '@prisma/client';
+import { prisma } from './prisma';
+import type { WorkspaceResources } from './runtime/types';
+
+const QUOTA_SETTINGS_ID = 'instance';
+
+// Workspaces in these states hold CPU and memory on the Docker host
+const ACTIVE_STATUSES = ['starting', 'running'];
+
+// null means unlimited
+export interface QuotaLimits {
+  maxWorkspaces: number | null;
+  maxRunningWorkspaces: number | null;
+  maxCpus: number | null;
+  maxMemoryMb: number | null;
+}
+
+export interface QuotaUsage {
+  workspaces: number;
+  runningWorkspaces: number;
+  cpus: number;
+  memoryMb: number;
+}
+
+export type QuotaName = keyof QuotaLimits;
+export type QuotaScope = 'user' | 'instance';
+
+// Returned to clients in the body of a rejected request, next to `error`
+export interface QuotaViolation {
+  quota: QuotaName;
+  scope: QuotaScope;
+  limit: number;
+  used: number;
+  requested: number;
+}
+
+export interface QuotaStatus {
+  limits: QuotaLimits;
+  usage: QuotaUsage;
+}
+
+export const QUOTA_NAMES: QuotaName[] = ['maxWorkspaces', 'maxRunningWorkspaces', 'maxCpus', 'maxMemoryMb'];
+
+const USAGE_KEYS: Record<QuotaName, keyof QuotaUsage> = {
+  maxWorkspaces: 'workspaces',
+  maxRunningWorkspaces: 'runningWorkspaces',
+  maxCpus: 'cpus',
+  maxMemoryMb: 'memoryMb',
+};
+
+export async function getQuotaSettings(): Promise<QuotaSettings> {
+  return prisma.quotaSettings.upsert({
+    where: { id: QUOTA_SETTINGS_ID },
+    create: { id: QUOTA_SETTINGS_ID },
+    update: {},
+  });
+}
+
+export async function updateQuotaSettings(
+  data: Partial<Omit<QuotaSettings, 'id' | 'updatedAt'>>
+): Promise<QuotaSettings> {
+  return prisma.quotaSettings.upsert({
+    where: { id: QUOTA_SETTINGS_ID },
+    create: { id: QUOTA_SETTINGS_ID, ...data },
+    update: data,
+  });
+}
+
+export function instanceQuotaLimits(settings: QuotaSettings): QuotaLimits {
+  return {
+    maxWorkspaces: settings.instanceMaxWorkspaces,
+    maxRunningWorkspaces: settings.instanceMaxRunningWorkspaces,
+    maxCpus: settings.instanceMaxCpus,
+    maxMemoryMb: settings.instanceMaxMemoryMb,
+  };
+}
+
+// The user's overrides win over the instance's per-user quota
+export function userQuotaLimits(
+  user: Pick<User, QuotaName>,
+  settings: QuotaSettings
+): QuotaLimits {
+  return {
+    maxWorkspaces: user.maxWorkspaces ?? settings.userMaxWorkspaces,
+    maxRunningWorkspaces: user.maxRunningWorkspaces ?? settings.userMaxRunningWorkspaces,
+    maxCpus: user.maxCpus ?? settings.userMaxCpus,
+    maxMemoryMb: user.maxMemoryMb ?? settings.userMaxMemoryMb,
+  };
+}
+
+async function getUsage(where: Prisma.WorkspaceWhereInput): Promise<QuotaUsage> {
+  const [workspaces, active] = await Promise.all([
+    prisma.workspace.count({ where }),
+    prisma.workspace.aggregate({
+      where: { ...where, status: { in: ACTIVE_STATUSES } },
+      _count: true,
+      _sum: { cpus: true, memoryMb: true },
+    }),
+  ]);
+
+  return {
+    workspaces,
+    runningWorkspaces: active._count,
+    cpus: active._sum.cpus ?? 0,
+    memoryMb: active._sum.memoryMb ?? 0,
+  };
+}
+
+export function getUserUsage(userId: string): Promise<QuotaUsage> {
+  return getUsage({ userId });
+}
+
+export function getInstanceUsage(): Promise<QuotaUsage> {
+  return getUsage({});
+}
+
+export async function getUserQuotaStatus(userId: string): Promise<QuotaStatus> {
+  const [settings, user, usage] = await Promise.all([
+    getQuotaSettings(),
+    prisma.user.findUniqueOrThrow({ where: { id: userId } }),
+    getUserUsage(userId),
+  ]);
+  return { limits: userQuotaLimits(user, settings), usage };
+}
+
+function findViolation(
+  scope: QuotaScope,
+  limits: QuotaLimits,
+  usage: QuotaUsage,
+  requested: QuotaUsage
+): QuotaViolation | null {
+  for (const quota of QUOTA_NAMES) {
+    const limit = limits[quota];
+    const key = USAGE_KEYS[quota];
+    if (limit === null || requested[key] === 0) continue;
+    if (usage[key] + requested[key] > limit) {
+      return { quota, scope, limit, used: usage[key], requested: requested[key] };
+    }
+  }
+  return null;
+}
+
+// Check whether a workspace may start with the given resources.
+// `workspaceId` is an existing workspace being started or resized, it is left
+// out of the usage so its current resources aren't counted twice.
+export async function checkWorkspaceQuota(
+  userId: string,
+  request: { resources: WorkspaceResources; workspaceId?: string }
+): Promise<QuotaViolation | null> {
+  const exclude: Prisma.WorkspaceWhereInput = request.workspaceId
+    ? { id: { not: request.workspaceId } }
+    : {};
+  const [settings, user, userUsage, instanceUsage] = await Promise.all([
+    getQuotaSettings(),
+    prisma.user.findUniqueOrThrow({ where: { id: userId } }),
+    getUsage({ ...exclude, userId }),
+    getUsage(exclude),
+  ]);
+
+  const requested: QuotaUsage = {
+    workspaces: request.workspaceId ? 0 : 1,
+    runningWorkspaces: 1,
+    cpus: request.resources.cpus,
+    memoryMb: request.resources.memoryMb,
+  };
+
+  return (
+    findViolation('user', userQuotaLimits(user, settings), userUsage, requested) ??
+    findViolation('instance', instanceQuotaLimits(settings), instanceUsage, requested)
+  );
+}
+
+function formatQuotaValue(quota: QuotaName, value: number): string {
+  switch (quota) {
+    case 'maxWorkspaces':
+      return `${value} workspace${value === 1 ? '' : 's'}`;
+    case 'maxRunningWorkspaces':
+      return `${value} running workspace${value === 1 ? '' : 's'}`;
+    case 'maxCpus':
+      return `${value} CPU${value === 1 ? '' : 's'}`;
+    case 'maxMemoryMb':
+      return `${Number((value / 1024).toFixed(1))} GB of memory`;
+  }
+}
+
+export function quotaViolationMessage(violation: QuotaViolation): string {
+  const limit = formatQuotaValue(violation.quota, violation.limit);
+  const owner = violation.scope === 'user' ? 'Your quota' : 'The quota of this instance';
+
+  switch (violation.quota) {
+    case 'maxWorkspaces':
+      return `${owner} allows ${limit}, delete a workspace first`;
+    case 'maxRunningWorkspaces':
+      return `${owner} allows ${limit}, stop a workspace first`;
+    default: {
+      const used = formatQuotaValue(violation.quota, violation.used);
+      const requested = formatQuotaValue(violation.quota, violation.requested);
+      return `${owner} allows ${limit}, ${used} in use and this workspace needs ${requested}. ` +
+        'Stop a workspace or choose a smaller resource profile';
+    }
+  }
+}
+
+// Response body for a request rejected by a quota, sent with status 403
+export function quotaErrorBody(violation: QuotaViolation) {
+  return {
+    error: quotaViolationMessage(violation),
+    code: 'quota_exceeded',
+    quota: violation,
+  };
+}
+
+// Validate quota values from a request body, only the given keys are read.
+// Each one must be null (unlimited) or a non-negative number.
+export function parseQuotaInput<K extends string>(
+  input: Record<string, unknown>,
+  keys: readonly K[]
+): { values: Partial<Record<K, number | null>> } | { error: string } {
+  const values: Partial<Record<K, number | null>> = {};
+  for (const key of keys) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return { error: `${key} must be a non-negative number or null` };
+    }
+    // Everything but CPUs is counted in whole units
+    if (typeof value === 'number' && !/cpus/i.test(key) && !Number.isInteger(value)) {
+      return { error: `${key} must be an integer` };
+    }
+    values[key] = value;
+  }
+  return { values };
+}
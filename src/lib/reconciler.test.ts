@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WorkspaceInventory } from './runtime';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { findMany: vi.fn(), updateMany: vi.fn() },
+  workspaceEvent: { create: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime } from './runtime';
+import { detectStatusDrift, reconcileWorkspaces } from './reconciler';
+
+const running = { running: true, status: 'running' };
+
+function inventory(fields: Partial<WorkspaceInventory> = {}): WorkspaceInventory {
+  return {
+    codeServer: running,
+    opencode: running,
+    network: true,
+    volumes: ['workspace-ws1-data', 'workspace-ws1-opencode'],
+    ...fields,
+  };
+}
+
+function workspace(status: string) {
+  return { id: 'ws1', status, statusReason: null };
+}
+
+describe('detectStatusDrift', () => {
+  it('leaves workspaces alone that match their containers', () => {
+    expect(detectStatusDrift(workspace('running'), inventory())).toBeNull();
+    expect(detectStatusDrift(workspace('stopped'), inventory({ opencode: { running: false, status: 'exited' } })))
+      .toBeNull();
+  });
+
+  it('keeps a workspace running while its containers are paused for a snapshot', () => {
+    const paused = { running: true, status: 'paused' };
+    expect(detectStatusDrift(workspace('running'), inventory({ codeServer: paused, opencode: paused }))).toBeNull();
+  });
+
+  it('marks a workspace without its data volume as failed', () => {
+    expect(detectStatusDrift(workspace('running'), undefined)).toMatchObject({
+      status: 'error',
+      statusReason: 'The data volume of this workspace is gone, its files can not be recovered',
+      type: 'missing',
+    });
+    expect(detectStatusDrift(workspace('error'), undefined)).toBeNull();
+  });
+
+  it('names what is missing', () => {
+    expect(detectStatusDrift(workspace('stopped'), inventory({ codeServer: undefined, network: false })))
+      .toMatchObject({
+        status: 'error',
+        statusReason: 'Missing code-server container, network. Rebuild the workspace to recreate what is missing',
+      });
+  });
+
+  it('follows containers started or stopped outside of the app', () => {
+    expect(detectStatusDrift(workspace('stopped'), inventory())).toMatchObject({ status: 'running', statusReason: null });
+    expect(detectStatusDrift(workspace('error'), inventory())).toMatchObject({ status: 'running' });
+    expect(detectStatusDrift(workspace('running'), inventory({ opencode: { running: false, status: 'exited', exitCode: 0 } })))
+      .toMatchObject({ status: 'stopped', statusReason: 'Containers were stopped outside of the app' });
+    expect(detectStatusDrift(workspace('running'), inventory({ opencode: { running: false, status: 'exited', exitCode: 137 } })))
+      .toMatchObject({ status: 'stopped', statusReason: 'OpenCode exited with code 137' });
+  });
+});
+
+describe('reconcileWorkspaces', () => {
+  let runtime: FakeRuntime;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    runtime = createFakeRuntime();
+    setWorkspaceRuntime(runtime);
+    await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+    prismaMock.workspace.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('applies a correction only when it is found twice in a row', async () => {
+    prismaMock.workspace.findMany.mockResolvedValue([workspace('stopped')]);
+
+    await reconcileWorkspaces();
+    expect(prismaMock.workspace.updateMany).not.toHaveBeenCalled();
+
+    await reconcileWorkspaces();
+    expect(prismaMock.workspace.updateMany).toHaveBeenCalledWith({
+      where: { id: 'ws1', status: 'stopped' },
+      data: { status: 'running', statusReason: null, lastActivityAt: expect.any(Date) },
+    });
+    expect(prismaMock.workspaceEvent.create).toHaveBeenCalled();
+  });
+
+  it('drops a correction that is gone at the next check', async () => {
+    prismaMock.workspace.findMany.mockResolvedValue([workspace('running')]);
+    runtime.workspaces.get('ws1')!.running = false;
+    await reconcileWorkspaces();
+
+    runtime.workspaces.get('ws1')!.running = true;
+    await reconcileWorkspaces();
+    runtime.workspaces.get('ws1')!.running = false;
+    await reconcileWorkspaces();
+
+    expect(prismaMock.workspace.updateMany).not.toHaveBeenCalled();
+  });
+});
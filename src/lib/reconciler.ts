@@ -0,0 +1,162 @@
+import type { Workspace } from '@prisma/client';
+import { prisma } from './prisma';
+import { isWorkspaceBusy } from './provisioning';
+import { getWorkspaceRuntime, type WorkspaceInventory } from './runtime';
+import { recordWorkspaceEvent, type WorkspaceEventType } from './workspace-events';
+import { restoreLabelPreviewPorts } from './preview-ports';
+
+// How often every workspace row is compared with what exists in the runtime
+const RECONCILE_INTERVAL_MS = 60 * 1000;
+
+const FILES_MISSING_REASON = 'The data volume of this workspace is gone, its files can not be recovered';
+const CONTAINERS_MISSING_REASON = 'Rebuild the workspace to recreate what is missing';
+
+// Keep state on globalThis so hot reloads don't start a second reconciler
+const globalForReconciler = globalThis as unknown as {
+  reconciler: NodeJS.Timeout | undefined;
+  pendingCorrections: Map<string, string> | undefined;
+};
+
+// Corrections found at the previous check, by workspace ID. A correction is only
+// applied when the same one is found twice in a row, so a workspace that an API
+// route is starting or stopping at that moment isn't mistaken for drift.
+const pendingCorrections = globalForReconciler.pendingCorrections ?? new Map<string, string>();
+globalForReconciler.pendingCorrections = pendingCorrections;
+
+export interface StatusCorrection {
+  status: string;
+  statusReason: string | null;
+  type: WorkspaceEventType;
+  message: string;
+}
+
+// The status a workspace should have given what exists of it, null when the row is right.
+// Workspaces in error are only corrected once all of their containers are back, a failed
+// provisioning removes everything on purpose.
+export function detectStatusDrift(
+  workspace: Pick<Workspace, 'id' | 'status' | 'statusReason'>,
+  inventory: WorkspaceInventory | undefined
+): StatusCorrection | null {
+  if (!inventory?.volumes.includes(`workspace-${workspace.id}-data`)) {
+    if (workspace.status === 'error') return null;
+    return {
+      status: 'error',
+      statusReason: FILES_MISSING_REASON,
+      type: 'missing',
+      message: `The data volume is missing, status changed from ${workspace.status} to error`,
+    };
+  }
+
+  const missing = [
+    !inventory.opencode && 'OpenCode container',
+    !inventory.codeServer && 'code-server container',
+    !inventory.network && 'network',
+  ].filter((name): name is string => !!name);
+  if (missing.length > 0) {
+    if (workspace.status === 'error') return null;
+    return {
+      status: 'error',
+      statusReason: `Missing ${missing.join(', ')}. ${CONTAINERS_MISSING_REASON}`,
+      type: 'missing',
+      message: `Missing ${missing.join(', ')}, status changed from ${workspace.status} to error`,
+    };
+  }
+
+  const opencode = inventory.opencode!;
+  if (opencode.running) {
+    if (workspace.status === 'running') return null;
+    return {
+      status: 'running',
+      statusReason: null,
+      type: 'status',
+      message: `Containers are running, status changed from ${workspace.status} to running`,
+    };
+  }
+
+  if (workspace.status === 'stopped') return null;
+  const reason = opencode.exitCode
+    ? `OpenCode exited with code ${opencode.exitCode}`
+    : 'Containers were stopped outside of the app';
+  return {
+    status: 'stopped',
+    statusReason: reason,
+    type: 'status',
+    message: `${reason}, status changed from ${workspace.status} to stopped`,
+  };
+}
+
+// Compare every workspace with its containers, network and volumes and correct the
+// status of the ones that drifted, e.g. after a host reboot or a container crash
+export async function reconcileWorkspaces() {
+  const inventory = await getWorkspaceRuntime().getInventory();
+  const workspaces = await prisma.workspace.findMany({
+    select: { id: true, status: true, statusReason: true },
+  });
+
+  const seen = new Set<string>();
+  for (const workspace of workspaces) {
+    // Jobs change containers and status themselves and snapshots pause them. Without a
+    // job, a workspace that is still pending or starting was left behind by a server restart.
+    if (isWorkspaceBusy(workspace.id)) continue;
+
+    const labelPreviewPorts = inventory.get(workspace.id)?.labelPreviewPorts;
+    if (labelPreviewPorts?.length) {
+      await restoreLabelPreviewPorts(workspace.id, labelPreviewPorts).catch((error) => {
+        console.error(`Error restoring preview ports of workspace ${workspace.id}:`, error);
+      });
+    }
+
+    const correction = detectStatusDrift(workspace, inventory.get(workspace.id));
+    if (!correction) continue;
+
+    const key = `${workspace.status}>${correction.status}:${correction.statusReason}`;
+    seen.add(workspace.id);
+    if (pendingCorrections.get(workspace.id) !== key) {
+      pendingCorrections.set(workspace.id, key);
+      continue;
+    }
+    pendingCorrections.delete(workspace.id);
+
+    try {
+      // Skip the correction if the status changed since it was read
+      const { count } = await prisma.workspace.updateMany({
+        where: { id: workspace.id, status: workspace.status },
+        data: {
+          status: correction.status,
+          statusReason: correction.statusReason,
+          // Don't let the idle monitor stop a workspace that was just found running
+          ...(correction.status === 'running' ? { lastActivityAt: new Date() } : {}),
+        },
+      });
+      if (count === 0) continue;
+
+      console.log(`Reconciled workspace ${workspace.id}: ${correction.message}`);
+      await recordWorkspaceEvent(workspace.id, correction.type, correction.message);
+    } catch (error) {
+      console.error(`Error reconciling workspace ${workspace.id}:`, error);
+    }
+  }
+
+  // Forget corrections that are no longer needed
+  for (const workspaceId of pendingCorrections.keys()) {
+    if (!seen.has(workspaceId)) pendingCorrections.delete(workspaceId);
+  }
+}
+
+export function startReconciler() {
+  if (globalForReconciler.reconciler) return;
+
+  let checking = false;
+  globalForReconciler.reconciler = setInterval(async () => {
+    // Skip a tick rather than overlap when a check is slow
+    if (checking) return;
+    checking = true;
+    try {
+      await reconcileWorkspaces();
+    } catch (error) {
+      console.error('Error reconciling workspaces:', error);
+    } finally {
+      checking = false;
+    }
+  }, RECONCILE_INTERVAL_MS);
+}
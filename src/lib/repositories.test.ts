@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Workspace } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  workspace: { update: vi.fn() },
+  workspaceRepository: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import {
+  checkoutsFromJson,
+  findWorkspaceRepository,
+  parseRepositoryCheckouts,
+  updateWorkspaceRepository,
+} from './repositories';
+
+const workspace = {
+  id: 'ws1',
+  githubRepo: 'https://github.com/acme/web.git',
+  githubBranch: 'main',
+  pullRequestUrl: null,
+} as Workspace;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prismaMock.workspaceRepository.findMany.mockResolvedValue([]);
+});
+
+describe('parseRepositoryCheckouts', () => {
+  it('clones a single repository into /workspace itself', () => {
+    expect(parseRepositoryCheckouts([{ url: 'https://github.com/acme/web.git' }])).toEqual([
+      { url: 'https://github.com/acme/web.git', branch: 'main', path: '' },
+    ]);
+  });
+
+  it('names directories after the repositories and numbers duplicates', () => {
+    expect(parseRepositoryCheckouts([
+      { url: 'https://github.com/acme/web.git', branch: 'develop' },
+      { url: 'git@gitea.example.com:acme/api.git' },
+      { url: 'https://gitlab.com/other/web/' },
+      { url: 'ssh://git@example.com/.hidden.git' },
+    ])).toEqual([
+      { url: 'https://github.com/acme/web.git', branch: 'develop', path: 'web' },
+      { url: 'git@gitea.example.com:acme/api.git', branch: 'main', path: 'api' },
+      { url: 'https://gitlab.com/other/web/', branch: 'main', path: 'web-2' },
+      { url: 'ssh://git@example.com/.hidden.git', branch: 'main', path: 'hidden' },
+    ]);
+  });
+
+  it.each([
+    [[], 'At least one repository is required'],
+    ['https://github.com/acme/web.git', 'At least one repository is required'],
+    [Array(11).fill({ url: 'https://github.com/acme/web.git' }), 'A workspace can hold at most 10 repositories'],
+    [[{ url: 'http://github.com/acme/web.git' }], 'Repository URLs must be https or SSH URLs'],
+    [[{ url: 'ssh://-oProxyCommand=evil/x' }], 'Repository URLs must be https or SSH URLs'],
+    [[{ url: 'git@host:-evil' }], 'Repository URLs must be https or SSH URLs'],
+    [[{ url: 'https://github.com/acme/web.git', branch: '--orphan' }], 'Invalid branch for https://github.com/acme/web.git'],
+  ])('refuses %j', (value, error) => {
+    expect(parseRepositoryCheckouts(value)).toEqual({ error });
+  });
+});
+
+describe('checkoutsFromJson', () => {
+  it('keeps the objects of a stored list', () => {
+    expect(checkoutsFromJson([{ url: 'u', branch: 'b', path: 'p' }, 'junk', null])).toEqual([
+      { url: 'u', branch: 'b', path: 'p' },
+    ]);
+    expect(checkoutsFromJson(null)).toEqual([]);
+  });
+});
+
+describe('workspace repositories', () => {
+  const rows = [
+    { path: 'web', url: 'https://github.com/acme/web.git', branch: 'main', pullRequestUrl: null },
+    { path: 'api', url: 'https://github.com/acme/api.git', branch: 'develop', pullRequestUrl: null },
+  ];
+
+  it('treats a workspace without rows as its single repository in /workspace', async () => {
+    expect(await findWorkspaceRepository(workspace, null)).toEqual({
+      workspaceId: 'ws1',
+      path: '',
+      url: workspace.githubRepo,
+      branch: 'main',
+      pullRequestUrl: null,
+    });
+    expect(await findWorkspaceRepository(workspace, 'api')).toBeNull();
+  });
+
+  it('finds repositories by directory, the first one by default', async () => {
+    prismaMock.workspaceRepository.findMany.mockResolvedValue(rows);
+
+    expect(await findWorkspaceRepository(workspace, null)).toMatchObject({ path: 'web' });
+    expect(await findWorkspaceRepository(workspace, 'api')).toMatchObject({ path: 'api', branch: 'develop' });
+  });
+
+  it('lets the workspace follow the branch of its first repository only', async () => {
+    prismaMock.workspaceRepository.findFirst.mockResolvedValue(rows[0]);
+
+    await updateWorkspaceRepository(workspace, 'api', { branch: 'feature', pullRequestUrl: 'https://pr/1' });
+    expect(prismaMock.workspace.update).toHaveBeenLastCalledWith({
+      where: { id: 'ws1' },
+      data: { pullRequestUrl: 'https://pr/1' },
+    });
+
+    await updateWorkspaceRepository(workspace, 'web', { branch: 'feature' });
+    expect(prismaMock.workspace.update).toHaveBeenLastCalledWith({
+      where: { id: 'ws1' },
+      data: { githubBranch: 'feature' },
+    });
+  });
+});
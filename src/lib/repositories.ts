@@ -0,0 +1,149 @@
+import type { Prisma, Workspace } from '@prisma/client';
+import { prisma } from './prisma';
+import { isValidGitName, type GitRepository } from './git';
+import type { RepositoryCheckout } from './runtime';
+
+// A workspace holds a single repository cloned into /workspace, or several cloned into
+// directories under /workspace and listed as WorkspaceRepository rows. The first of
+// several is also the workspace's githubRepo and githubBranch.
+
+export const MAX_REPOSITORIES_PER_WORKSPACE = 10;
+
+export interface WorkspaceRepositoryInfo extends GitRepository {
+  url: string;
+  branch: string;
+  pullRequestUrl: string | null;
+}
+
+export async function listWorkspaceRepositories(workspace: Workspace): Promise<WorkspaceRepositoryInfo[]> {
+  const rows = await prisma.workspaceRepository.findMany({
+    where: { workspaceId: workspace.id },
+    orderBy: { position: 'asc' },
+  });
+
+  if (rows.length === 0) {
+    return [{
+      workspaceId: workspace.id,
+      path: '',
+      url: workspace.githubRepo,
+      branch: workspace.githubBranch,
+      pullRequestUrl: workspace.pullRequestUrl,
+    }];
+  }
+
+  return rows.map((row) => ({
+    workspaceId: workspace.id,
+    path: row.path,
+    url: row.url,
+    branch: row.branch,
+    pullRequestUrl: row.pullRequestUrl,
+  }));
+}
+
+// The repository in the directory `path`, or the first one when path is null
+export async function findWorkspaceRepository(
+  workspace: Workspace,
+  path: string | null
+): Promise<WorkspaceRepositoryInfo | null> {
+  const repositories = await listWorkspaceRepositories(workspace);
+  if (path === null) return repositories[0];
+  return repositories.find((repository) => repository.path === path) ?? null;
+}
+
+// Record the branch a repository is on or the pull request last opened from it.
+// The workspace follows its first repository and keeps the last pull request of any.
+export async function updateWorkspaceRepository(
+  workspace: Workspace,
+  path: string,
+  data: { branch?: string; pullRequestUrl?: string }
+): Promise<void> {
+  let primary = true;
+  if (path) {
+    await prisma.workspaceRepository.update({
+      where: { workspaceId_path: { workspaceId: workspace.id, path } },
+      data,
+    });
+    const first = await prisma.workspaceRepository.findFirst({
+      where: { workspaceId: workspace.id },
+      orderBy: { position: 'asc' },
+    });
+    primary = first?.path === path;
+  }
+
+  await prisma.workspace.update({
+    where: { id: workspace.id },
+    data: {
+      ...(primary && data.branch && { githubBranch: data.branch }),
+      ...(data.pullRequestUrl && { pullRequestUrl: data.pullRequestUrl }),
+    },
+  });
+}
+
+// Directory for a repository, named after it like git clone does, e.g.
+// https://github.com/acme/api.git -> api. Names already taken get a number.
+function checkoutPath(url: string, taken: Set<string>): string {
+  const name = url.replace(/\/+$/, '').split(/[/:]/).pop()?.replace(/\.git$/, '') ?? '';
+  const base = name.replace(/[^A-Za-z0-9._-]/g, '-').replace(/^[.-]+/, '') || 'repository';
+  let path = base;
+  for (let n = 2; taken.has(path); n++) path = `${base}-${n}`;
+  taken.add(path);
+  return path;
+}
+
+// https://host/path, ssh://host/path or scp-like git@host:path. Hosts and paths can't
+// start with a dash, git would take them for options of ssh.
+const CLONE_URL_PATTERN = /^(https:\/\/\S+|ssh:\/\/\w\S*|[\w.-]+@\w[\w.-]*:[^\s-]\S*)$/;
+
+// Validate the repositories of a new workspace from a request body, [{ url, branch? }],
+// and give each its directory. A single repository goes into /workspace itself.
+export function parseRepositoryCheckouts(value: unknown): RepositoryCheckout[] | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'At least one repository is required' };
+  }
+  if (value.length > MAX_REPOSITORIES_PER_WORKSPACE) {
+    return { error: `A workspace can hold at most ${MAX_REPOSITORIES_PER_WORKSPACE} repositories` };
+  }
+
+  const taken = new Set<string>();
+  const checkouts: RepositoryCheckout[] = [];
+  for (const item of value) {
+    const url = item?.url;
+    const branch = item?.branch ?? 'main';
+    if (typeof url !== 'string' || !CLONE_URL_PATTERN.test(url)) {
+      return { error: 'Repository URLs must be https or SSH URLs' };
+    }
+    if (!isValidGitName(branch)) {
+      return { error: `Invalid branch for ${url}` };
+    }
+    checkouts.push({ url, branch, path: value.length > 1 ? checkoutPath(url, taken) : '' });
+  }
+  return checkouts;
+}
+
+// Stored with snapshots so a restored workspace gets the same repositories
+export function checkoutsFromJson(value: Prisma.JsonValue | null): RepositoryCheckout[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Prisma.JsonObject => typeof item === 'object' && item !== null && !Array.isArray(item))
+    .map((item) => ({ url: String(item.url), branch: String(item.branch), path: String(item.path) }));
+}
+
+// Directories of a workspace with several repositories, empty for a single one
+export async function listRepositoryCheckouts(workspaceId: string): Promise<RepositoryCheckout[]> {
+  const rows = await prisma.workspaceRepository.findMany({
+    where: { workspaceId },
+    orderBy: { position: 'asc' },
+  });
+  return rows.map(({ url, branch, path }) => ({ url, branch, path }));
+}
+
+// Rows of a new workspace with several repositories, nothing for a single one
+export async function createWorkspaceRepositories(
+  workspaceId: string,
+  checkouts: RepositoryCheckout[]
+): Promise<void> {
+  if (checkouts.length < 2) return;
+  await prisma.workspaceRepository.createMany({
+    data: checkouts.map((checkout, position) => ({ workspaceId, ...checkout, position })),
+  });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { codeServerLimits, formatResources, RESOURCE_PROFILES, resolveResourceProfile } from './resources';
+
+describe('resolveResourceProfile', () => {
+  it('defaults to the medium profile', () => {
+    expect(resolveResourceProfile({})).toEqual({ profile: 'medium', resources: RESOURCE_PROFILES.medium });
+  });
+
+  it('resolves named profiles and ignores custom values with them', () => {
+    expect(resolveResourceProfile({ profile: 'large', cpus: 1 })).toEqual({
+      profile: 'large',
+      resources: RESOURCE_PROFILES.large,
+    });
+  });
+
+  it('accepts custom values within the bounds', () => {
+    expect(resolveResourceProfile({ profile: 'custom', memoryMb: 2048, cpus: 1.5, diskGb: 5 })).toEqual({
+      profile: 'custom',
+      resources: { memoryMb: 2048, cpus: 1.5, diskGb: 5 },
+    });
+  });
+
+  it.each([
+    [{ profile: 'huge' }, /Resource profile must be one of small, medium, large, custom/],
+    [{ profile: 'custom', memoryMb: 512, cpus: 1, diskGb: 5 }, /memoryMb must be a number between 1024 and 65536/],
+    [{ profile: 'custom', memoryMb: 2048.5, cpus: 1, diskGb: 5 }, /memoryMb/],
+    [{ profile: 'custom', memoryMb: 2048, cpus: 64, diskGb: 5 }, /cpus must be a number between 0.5 and 32/],
+    [{ profile: 'custom', memoryMb: 2048, cpus: '2', diskGb: 5 }, /cpus/],
+    [{ profile: 'custom', memoryMb: 2048, cpus: 1 }, /diskGb/],
+  ])('refuses %j', (input, message) => {
+    expect(resolveResourceProfile(input)).toEqual({ error: expect.stringMatching(message) });
+  });
+});
+
+describe('codeServerLimits', () => {
+  it('gives code-server a quarter of the memory and half the CPUs', () => {
+    expect(codeServerLimits({ memoryMb: 8192, cpus: 4, diskGb: 20 })).toEqual({ memoryMb: 2048, cpus: 2 });
+  });
+
+  it('never goes below 512 MB and half a CPU', () => {
+    expect(codeServerLimits({ memoryMb: 1024, cpus: 0.5, diskGb: 1 })).toEqual({ memoryMb: 512, cpus: 0.5 });
+  });
+});
+
+describe('formatResources', () => {
+  it('shows memory in GB from 1 GB on', () => {
+    expect(formatResources({ memoryMb: 1536, cpus: 1.5, diskGb: 5 })).toBe('1.5 CPU · 1.5 GB RAM · 5 GB disk');
+    expect(formatResources({ memoryMb: 512, cpus: 1, diskGb: 5 })).toBe('1 CPU · 512 MB RAM · 5 GB disk');
+  });
+});
@@ -0,0 +1,70 @@
+import type { WorkspaceResources } from './runtime/types';
+
+export type ResourceProfileName = 'small' | 'medium' | 'large' | 'custom';
+
+// Limits of the OpenCode container, where the agent and dev servers run.
+// code-server gets a share of them, see codeServerLimits.
+export const RESOURCE_PROFILES: Record<Exclude<ResourceProfileName, 'custom'>, WorkspaceResources> = {
+  small: { memoryMb: 4096, cpus: 2, diskGb: 10 },
+  medium: { memoryMb: 8192, cpus: 4, diskGb: 20 },
+  large: { memoryMb: 16384, cpus: 8, diskGb: 50 },
+};
+
+export const DEFAULT_RESOURCE_PROFILE = 'medium';
+
+// Bounds for custom values
+export const RESOURCE_LIMITS = {
+  memoryMb: { min: 1024, max: 65536 },
+  cpus: { min: 0.5, max: 32 },
+  diskGb: { min: 1, max: 1000 },
+};
+
+export function isResourceProfileName(value: unknown): value is ResourceProfileName {
+  return value === 'custom' || (typeof value === 'string' && value in RESOURCE_PROFILES);
+}
+
+// code-server only serves the editor, a quarter of the memory and half the CPUs is plenty
+export function codeServerLimits(resources: WorkspaceResources): { memoryMb: number; cpus: number } {
+  return {
+    memoryMb: Math.max(512, Math.round(resources.memoryMb / 4)),
+    cpus: Math.max(0.5, resources.cpus / 2),
+  };
+}
+
+// Resolve a profile selection from a request body into concrete limits.
+// Returns an error message when the selection is invalid.
+export function resolveResourceProfile(
+  input: { profile?: unknown; memoryMb?: unknown; cpus?: unknown; diskGb?: unknown }
+): { profile: ResourceProfileName; resources: WorkspaceResources } | { error: string } {
+  const profile = input.profile ?? DEFAULT_RESOURCE_PROFILE;
+  if (!isResourceProfileName(profile)) {
+    return { error: `Resource profile must be one of ${[...Object.keys(RESOURCE_PROFILES), 'custom'].join(', ')}` };
+  }
+
+  if (profile !== 'custom') {
+    return { profile, resources: RESOURCE_PROFILES[profile] };
+  }
+
+  const resources = { memoryMb: input.memoryMb, cpus: input.cpus, diskGb: input.diskGb };
+  for (const [key, { min, max }] of Object.entries(RESOURCE_LIMITS)) {
+    const value = resources[key as keyof typeof resources];
+    const isNumber = typeof value === 'number' && (key === 'cpus' ? Number.isFinite(value) : Number.isInteger(value));
+    if (!isNumber || (value as number) < min || (value as number) > max) {
+      return { error: `${key} must be a number between ${min} and ${max}` };
+    }
+  }
+
+  return { profile, resources: resources as WorkspaceResources };
+}
+
+export function formatResources(resources: WorkspaceResources): string {
+  const memory = resources.memoryMb >= 1024
+    ? `${Number((resources.memoryMb / 1024).toFixed(1))} GB`
+    : `${resources.memoryMb} MB`;
+  return `${resources.cpus} CPU · ${memory} RAM · ${resources.diskGb} GB disk`;
+}
+
+// Limits stored on a workspace row
+export function workspaceResources(workspace: WorkspaceResources): WorkspaceResources {
+  return { memoryMb: workspace.memoryMb, cpus: workspace.cpus, diskGb: workspace.diskGb };
+}
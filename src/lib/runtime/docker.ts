@@ -0,0 +1,102 @@
+import type Docker from 'dockerode';
+import {
+  createWorkspaceContainer,
+  startWorkspaceContainer,
+  stopWorkspaceContainer,
+  removeWorkspaceContainer,
+  recreateWorkspaceContainers,
+  updateWorkspaceContainerResources,
+  syncEnvironmentToWorkspaces,
+  renewGitCredentialToken,
+  getContainerStatus,
+  getWorkspaceInventory,
+  listWorkspaceObjects,
+  removeWorkspaceObject,
+  execInWorkspace,
+  readWorkspaceLogs,
+  openWorkspaceTerminal,
+  getWorkspaceActivity,
+  listWorkspaceListeningPorts,
+  createVolumeSnapshot,
+  restoreVolumeSnapshot,
+  deleteSnapshotArchive,
+  openSnapshotArchive,
+  importSnapshotArchive,
+} from '../docker';
+import { checkServiceHealth } from '../health';
+import type { ServiceState, WorkspaceRuntime } from './types';
+
+function toServiceState(state?: Docker.ContainerInspectInfo['State']): ServiceState | undefined {
+  if (!state) return undefined;
+  return {
+    running: state.Running,
+    status: state.Status,
+    startedAt: state.StartedAt,
+    exitCode: state.ExitCode,
+  };
+}
+
+// Workspace runtime backed by the Docker daemon behind docker-socket-proxy
+export const dockerRuntime: WorkspaceRuntime = {
+  createWorkspace: (config, report) => createWorkspaceContainer(config, report),
+
+  startWorkspace: async (workspaceId) => {
+    await startWorkspaceContainer(workspaceId);
+  },
+
+  stopWorkspace: async (workspaceId) => {
+    await stopWorkspaceContainer(workspaceId);
+  },
+
+  removeWorkspace: async (workspaceId) => {
+    await removeWorkspaceContainer(workspaceId);
+  },
+
+  recreateWorkspace: (config, report) => recreateWorkspaceContainers(config, report),
+
+  updateResources: (workspaceId, resources) =>
+    updateWorkspaceContainerResources(workspaceId, resources),
+
+  renewGitCredentials: (workspaceId) => renewGitCredentialToken(workspaceId),
+
+  syncEnvironment: (workspaceId, environments) =>
+    syncEnvironmentToWorkspaces(workspaceId, environments),
+
+  getStatus: async (workspaceId) => {
+    const status = await getContainerStatus(workspaceId);
+    if (!status) return null;
+    return {
+      codeServer: toServiceState(status.codeServer),
+      opencode: toServiceState(status.opencode),
+    };
+  },
+
+  getInventory: () => getWorkspaceInventory(),
+
+  listObjects: () => listWorkspaceObjects(),
+
+  removeObject: (object) => removeWorkspaceObject(object),
+
+  checkHealth: (workspaceId, service) => checkServiceHealth(workspaceId, service),
+
+  exec: (workspaceId, command) => execInWorkspace(workspaceId, command),
+
+  readLogs: (workspaceId, source, options) => readWorkspaceLogs(workspaceId, source, options),
+
+  openTerminal: (workspaceId, size) => openWorkspaceTerminal(workspaceId, size),
+
+  getActivity: (workspaceId) => getWorkspaceActivity(workspaceId),
+
+  listListeningPorts: (workspaceId) => listWorkspaceListeningPorts(workspaceId),
+
+  createSnapshot: (workspaceId, snapshotId) => createVolumeSnapshot(workspaceId, snapshotId),
+
+  restoreSnapshot: (workspaceId, snapshotId) => restoreVolumeSnapshot(workspaceId, snapshotId),
+
+  deleteSnapshot: (snapshotId) => deleteSnapshotArchive(snapshotId),
+
+  readSnapshot: (snapshotId) => openSnapshotArchive(snapshotId),
+
+  importSnapshot: (snapshotId, archive, sizeBytes) =>
+    importSnapshotArchive(snapshotId, archive, sizeBytes),
+};
@@ -0,0 +1,379 @@
+import { Readable } from 'stream';
+import { DEVCONTAINER_PATHS, forwardedPorts, parseDevcontainerJson } from '../devcontainer';
+import type {
+  ExecResult,
+  ListeningPort,
+  LogLine,
+  ServiceState,
+  WorkspaceActivity,
+  RuntimeObject,
+  WorkspaceContainerConfig,
+  WorkspaceInventory,
+  WorkspaceLogSource,
+  WorkspaceRuntime,
+} from './types';
+
+export interface FakeRuntimeCall {
+  method: keyof WorkspaceRuntime;
+  workspaceId: string;
+  args: unknown[];
+}
+
+export interface FakeWorkspace {
+  config: WorkspaceContainerConfig;
+  running: boolean;
+  env: Record<string, string>;
+  // Activity reported to the idle monitor, set it to simulate usage
+  activity: WorkspaceActivity;
+  // Ports reported by listListeningPorts, set them to simulate dev servers
+  listeningPorts: ListeningPort[];
+  // Stands in for the volume contents, copied by snapshots
+  files: Record<string, string>;
+  // Container output returned by readLogs, push lines to simulate output
+  logs: (LogLine & { source: WorkspaceLogSource })[];
+}
+
+export type FakeExecHandler = (workspaceId: string, command: string[]) => ExecResult;
+
+export interface FakeRuntime extends WorkspaceRuntime {
+  // Every call made to the runtime, in order
+  calls: FakeRuntimeCall[];
+  // Simulated workspaces by ID
+  workspaces: Map<string, FakeWorkspace>;
+  // Snapshot archives by snapshot ID
+  snapshots: Map<string, Buffer>;
+  // Objects listed besides those of the simulated workspaces, add some to simulate leftovers
+  strayObjects: RuntimeObject[];
+  // Answers exec calls; defaults to a successful command with no output
+  execHandler: FakeExecHandler;
+  // Make the next call to a method fail with the given error
+  failNext(method: keyof WorkspaceRuntime, error: Error): void;
+  reset(): void;
+}
+
+// Forwarded ports of a devcontainer.json among the fake files, like the Docker backend reads them
+function fakeForwardedPorts(files: Record<string, string>): number[] {
+  const configFile = DEVCONTAINER_PATHS.map((path) => files[path]).find((content) => content !== undefined);
+  return configFile ? forwardedPorts(parseDevcontainerJson(configFile)) : [];
+}
+
+function serviceState(running: boolean): ServiceState {
+  return {
+    running,
+    status: running ? 'running' : 'exited',
+    exitCode: running ? undefined : 0,
+  };
+}
+
+// In-memory workspace runtime that records calls and simulates container state.
+// Used when WORKSPACE_RUNTIME=fake, e.g. to run the app without a Docker daemon.
+export function createFakeRuntime(): FakeRuntime {
+  const failures = new Map<keyof WorkspaceRuntime, Error>();
+
+  const runtime: FakeRuntime = {
+    calls: [],
+    workspaces: new Map(),
+    snapshots: new Map(),
+    strayObjects: [],
+    execHandler: () => ({ exitCode: 0, stdout: '', stderr: '' }),
+
+    failNext(method, error) {
+      failures.set(method, error);
+    },
+
+    reset() {
+      runtime.calls = [];
+      runtime.workspaces.clear();
+      runtime.snapshots.clear();
+      runtime.strayObjects = [];
+      failures.clear();
+    },
+
+    async createWorkspace(config, report = () => { }) {
+      record('createWorkspace', config.workspaceId, [config]);
+      if (runtime.workspaces.has(config.workspaceId)) {
+        throw new Error(`Workspace ${config.workspaceId} already exists`);
+      }
+
+      report({ step: 'pull', status: 'completed', image: 'fake', message: 'fake already present' });
+      report({ step: 'volumes', status: 'completed', message: 'Volumes and network created' });
+
+      let files: Record<string, string> = config.repositories?.length
+        ? Object.fromEntries(config.repositories.map((checkout) => [`${checkout.path}/README.md`, checkout.url]))
+        : { 'README.md': config.githubRepo };
+      if (config.source?.type === 'snapshot') {
+        files = readFakeSnapshot(config.source.snapshotId);
+        report({ step: 'clone', status: 'completed', message: 'Snapshot restored' });
+      } else if (config.source?.type === 'workspace') {
+        const sourceWorkspace = runtime.workspaces.get(config.source.workspaceId);
+        if (!sourceWorkspace) throw new Error(`Workspace ${config.source.workspaceId} not found`);
+        files = { ...sourceWorkspace.files };
+        report({ step: 'clone', status: 'completed', message: 'Workspace files copied' });
+      } else {
+        report({ step: 'clone', status: 'completed', message: 'Repository cloned' });
+      }
+      report({ step: 'containers', status: 'completed', message: 'Containers created' });
+
+      runtime.workspaces.set(config.workspaceId, {
+        config,
+        running: true,
+        env: {},
+        activity: { previewConnections: 0 },
+        listeningPorts: [],
+        files,
+        logs: [],
+      });
+      report({ step: 'start', status: 'completed', message: 'Containers started' });
+
+      return {
+        codeServerContainerId: `fake-code-server-${config.workspaceId}`,
+        opencodeContainerId: `fake-opencode-${config.workspaceId}`,
+        networkName: `workspace-${config.workspaceId}`,
+        volumeName: `workspace-${config.workspaceId}-data`,
+        forwardedPorts: fakeForwardedPorts(files),
+      };
+    },
+
+    async startWorkspace(workspaceId) {
+      record('startWorkspace', workspaceId, []);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (workspace) workspace.running = true;
+    },
+
+    async stopWorkspace(workspaceId) {
+      record('stopWorkspace', workspaceId, []);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (workspace) workspace.running = false;
+    },
+
+    async removeWorkspace(workspaceId) {
+      record('removeWorkspace', workspaceId, []);
+      runtime.workspaces.delete(workspaceId);
+    },
+
+    async recreateWorkspace(config, report = () => { }) {
+      record('recreateWorkspace', config.workspaceId, [config]);
+      const workspace = runtime.workspaces.get(config.workspaceId);
+      if (!workspace) throw new Error(`Workspace ${config.workspaceId} not found`);
+
+      report({ step: 'containers', status: 'completed', message: 'Containers created' });
+      workspace.config = config;
+      workspace.running = false;
+
+      return {
+        codeServerContainerId: `fake-code-server-${config.workspaceId}`,
+        opencodeContainerId: `fake-opencode-${config.workspaceId}`,
+        networkName: `workspace-${config.workspaceId}`,
+        volumeName: `workspace-${config.workspaceId}-data`,
+        forwardedPorts: fakeForwardedPorts(workspace.files),
+      };
+    },
+
+    async updateResources(workspaceId, resources) {
+      record('updateResources', workspaceId, [resources]);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace) throw new Error(`Workspace ${workspaceId} not found`);
+      workspace.config = { ...workspace.config, resources };
+    },
+
+    async renewGitCredentials(workspaceId) {
+      record('renewGitCredentials', workspaceId, []);
+      if (!runtime.workspaces.has(workspaceId)) throw new Error(`Workspace ${workspaceId} not found`);
+    },
+
+    async syncEnvironment(workspaceId, environments) {
+      record('syncEnvironment', workspaceId, [environments]);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace?.running) return;
+
+      const env: Record<string, string> = {};
+      for (const environment of environments) {
+        Object.assign(env, JSON.parse(environment.variables));
+      }
+      workspace.env = env;
+    },
+
+    async getStatus(workspaceId) {
+      record('getStatus', workspaceId, []);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace) return {};
+      return {
+        codeServer: serviceState(workspace.running),
+        opencode: serviceState(workspace.running),
+      };
+    },
+
+    async getInventory() {
+      record('getInventory', '', []);
+      const inventory = new Map<string, WorkspaceInventory>();
+      for (const [workspaceId, workspace] of runtime.workspaces) {
+        inventory.set(workspaceId, {
+          codeServer: serviceState(workspace.running),
+          opencode: serviceState(workspace.running),
+          network: true,
+          volumes: [`workspace-${workspaceId}-data`, `workspace-${workspaceId}-opencode`],
+        });
+      }
+      return inventory;
+    },
+
+    async listObjects() {
+      record('listObjects', '', []);
+      const objects: RuntimeObject[] = [];
+      for (const workspaceId of runtime.workspaces.keys()) {
+        objects.push(
+          { kind: 'container', id: `fake-code-server-${workspaceId}`, name: `code-server-${workspaceId}`, workspaceId },
+          { kind: 'container', id: `fake-opencode-${workspaceId}`, name: `opencode-${workspaceId}`, workspaceId },
+          { kind: 'network', id: `workspace-${workspaceId}`, name: `workspace-${workspaceId}`, workspaceId },
+          { kind: 'volume', id: `workspace-${workspaceId}-data`, name: `workspace-${workspaceId}-data`, workspaceId },
+          { kind: 'volume', id: `workspace-${workspaceId}-opencode`, name: `workspace-${workspaceId}-opencode`, workspaceId },
+        );
+      }
+      return [...objects, ...runtime.strayObjects];
+    },
+
+    async removeObject(object) {
+      record('removeObject', '', [object]);
+      const index = runtime.strayObjects.findIndex((stray) => stray.kind === object.kind && stray.id === object.id);
+      if (index === -1) throw new Error(`No such ${object.kind}: ${object.id}`);
+      runtime.strayObjects.splice(index, 1);
+    },
+
+    async checkHealth(workspaceId, service) {
+      record('checkHealth', workspaceId, [service]);
+      return runtime.workspaces.get(workspaceId)?.running ?? false;
+    },
+
+    async exec(workspaceId, command) {
+      record('exec', workspaceId, [command]);
+      if (!runtime.workspaces.get(workspaceId)?.running) {
+        throw new Error(`Workspace ${workspaceId} is not running`);
+      }
+      return runtime.execHandler(workspaceId, command);
+    },
+
+    async readLogs(workspaceId, source, { tail, streams = ['stdout', 'stderr'] }) {
+      record('readLogs', workspaceId, [source]);
+      const workspace = runtime.workspaces.get(workspaceId);
+      // The fake clone has no init container
+      if (!workspace || source === 'init') return null;
+
+      const lines = workspace.logs
+        .filter((line) => line.source === source && streams.includes(line.stream))
+        .map(({ stream, line, timestamp }) => ({ stream, line, timestamp }));
+      const tailed = tail === undefined ? lines : lines.slice(Math.max(0, lines.length - tail));
+      return (async function* () {
+        yield* tailed;
+      })();
+    },
+
+    async openTerminal(workspaceId, size) {
+      record('openTerminal', workspaceId, [size]);
+      if (!runtime.workspaces.get(workspaceId)?.running) return null;
+
+      // Echoes the input back, like a shell with nothing to run
+      const dataListeners: ((data: string) => void)[] = [];
+      const exitListeners: (() => void)[] = [];
+      let exited = false;
+      return {
+        write: (data) => {
+          if (!exited) dataListeners.forEach((listener) => listener(data));
+        },
+        resize: async () => { },
+        onData: (listener) => {
+          dataListeners.push(listener);
+        },
+        onExit: (listener) => {
+          exitListeners.push(listener);
+        },
+        close: () => {
+          if (exited) return;
+          exited = true;
+          exitListeners.forEach((listener) => listener());
+        },
+      };
+    },
+
+    async getActivity(workspaceId) {
+      record('getActivity', workspaceId, []);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace?.running) return null;
+      return workspace.activity;
+    },
+
+    async listListeningPorts(workspaceId) {
+      record('listListeningPorts', workspaceId, []);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace?.running) return null;
+      return workspace.listeningPorts;
+    },
+
+    async createSnapshot(workspaceId, snapshotId) {
+      record('createSnapshot', workspaceId, [snapshotId]);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace) throw new Error(`Workspace ${workspaceId} not found`);
+
+      const archive = Buffer.from(JSON.stringify({ data: workspace.files }));
+      runtime.snapshots.set(snapshotId, archive);
+      return { sizeBytes: archive.length };
+    },
+
+    async restoreSnapshot(workspaceId, snapshotId) {
+      record('restoreSnapshot', workspaceId, [snapshotId]);
+      const workspace = runtime.workspaces.get(workspaceId);
+      if (!workspace) throw new Error(`Workspace ${workspaceId} not found`);
+      if (workspace.running) throw new Error(`Workspace ${workspaceId} is running`);
+      workspace.files = readFakeSnapshot(snapshotId);
+    },
+
+    async deleteSnapshot(snapshotId) {
+      record('deleteSnapshot', '', [snapshotId]);
+      runtime.snapshots.delete(snapshotId);
+    },
+
+    async readSnapshot(snapshotId) {
+      record('readSnapshot', '', [snapshotId]);
+      const archive = runtime.snapshots.get(snapshotId);
+      if (!archive) throw new Error(`Snapshot ${snapshotId} not found`);
+      return Readable.from([archive]);
+    },
+
+    async importSnapshot(snapshotId, archive, sizeBytes) {
+      record('importSnapshot', '', [snapshotId, sizeBytes]);
+      const chunks: Buffer[] = [];
+      for await (const chunk of archive) chunks.push(Buffer.from(chunk));
+      const content = Buffer.concat(chunks);
+      runtime.snapshots.set(snapshotId, content);
+      try {
+        readFakeSnapshot(snapshotId);
+      } catch (error) {
+        runtime.snapshots.delete(snapshotId);
+        throw error;
+      }
+    },
+  };
+
+  // Fake archives are JSON documents with the files under "data"
+  function readFakeSnapshot(snapshotId: string): Record<string, string> {
+    const archive = runtime.snapshots.get(snapshotId);
+    if (!archive) throw new Error(`Snapshot ${snapshotId} not found`);
+    try {
+      const { data } = JSON.parse(archive.toString('utf8'));
+      if (data && typeof data === 'object') return data;
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Not a workspace snapshot');
+  }
+
+  function record(method: keyof WorkspaceRuntime, workspaceId: string, args: unknown[]) {
+    runtime.calls.push({ method, workspaceId, args });
+    const failure = failures.get(method);
+    if (failure) {
+      failures.delete(method);
+      throw failure;
+    }
+  }
+
+  return runtime;
+}
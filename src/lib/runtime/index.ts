@@ -0,0 +1,36 @@
+import { dockerRuntime } from './docker';
+import { createFakeRuntime } from './fake';
+import type { WorkspaceRuntime } from './types';
+
+export type * from './types';
+
+// Keep the runtime on globalThis so the fake backend's state survives hot reloads
+const globalForRuntime = globalThis as unknown as {
+  workspaceRuntime: WorkspaceRuntime | undefined;
+};
+
+// Select the backend with WORKSPACE_RUNTIME: "docker" (default) or "fake"
+function createRuntime(): WorkspaceRuntime {
+  switch (process.env.WORKSPACE_RUNTIME) {
+    case 'fake':
+      return createFakeRuntime();
+    case 'docker':
+    case undefined:
+    case '':
+      return dockerRuntime;
+    default:
+      throw new Error(`Unknown WORKSPACE_RUNTIME: ${process.env.WORKSPACE_RUNTIME}`);
+  }
+}
+
+export function getWorkspaceRuntime(): WorkspaceRuntime {
+  if (!globalForRuntime.workspaceRuntime) {
+    globalForRuntime.workspaceRuntime = createRuntime();
+  }
+  return globalForRuntime.workspaceRuntime;
+}
+
+// Replace the runtime, e.g. with a fake in tests
+export function setWorkspaceRuntime(runtime: WorkspaceRuntime) {
+  globalForRuntime.workspaceRuntime = runtime;
+}
@@ -0,0 +1,216 @@
+import type { Readable } from 'stream';
+import type { ProvisioningReporter } from '../provisioning';
+
+// Where the files of a new workspace come from
+export type WorkspaceSource =
+  | { type: 'clone' }
+  | { type: 'snapshot'; snapshotId: string }
+  // Copy the data volume of another workspace, and its OpenCode volume if includeHistory is set
+  | { type: 'workspace'; workspaceId: string; includeHistory: boolean };
+
+// Limits of the OpenCode container and the data volume quota
+export interface WorkspaceResources {
+  memoryMb: number;
+  cpus: number;
+  diskGb: number;
+}
+
+// A repository cloned into a directory under /workspace
+export interface RepositoryCheckout {
+  url: string;
+  branch: string;
+  path: string;
+}
+
+// SSH keypair written to ~/.ssh, privateKey in OpenSSH or PEM format
+export interface SshIdentity {
+  privateKey: string;
+  publicKey: string;
+}
+
+export interface WorkspaceContainerConfig {
+  workspaceId: string;
+  userId: string;
+  githubRepo: string;
+  githubBranch?: string;
+  // Written to ~/.ssh of the init and OpenCode containers
+  sshIdentities?: SshIdentity[];
+  // known_hosts lines of hosts besides github.com and gitlab.com, see loadKnownHosts
+  sshKnownHosts?: string[];
+  // Cloned into their directories instead of githubRepo into /workspace itself
+  repositories?: RepositoryCheckout[];
+  environmentIds?: string[]; // IDs of environments to link
+  source?: WorkspaceSource; // Defaults to cloning githubRepo
+  resources?: WorkspaceResources; // Defaults to the medium profile
+  // Ports are no longer needed - Traefik routes via Docker network
+}
+
+export interface CreatedWorkspace {
+  codeServerContainerId: string;
+  opencodeContainerId: string;
+  networkName: string;
+  volumeName: string;
+  // Ports devcontainer.json forwards, added to the workspace's previews
+  forwardedPorts: number[];
+}
+
+// Runtime-neutral state of one workspace service
+export interface ServiceState {
+  running: boolean;
+  status: string; // created, running, exited, ...
+  startedAt?: string;
+  exitCode?: number;
+}
+
+export interface WorkspaceStatus {
+  codeServer?: ServiceState;
+  opencode?: ServiceState;
+}
+
+// What exists of one workspace in the runtime
+export interface WorkspaceInventory {
+  codeServer?: ServiceState;
+  opencode?: ServiceState;
+  network: boolean;
+  // Volume names, e.g. workspace-{id}-data
+  volumes: string[];
+  // Previewed ports in the labels of an OpenCode container created before previews were
+  // routed by the web app
+  labelPreviewPorts?: number[];
+}
+
+export type RuntimeObjectKind = 'container' | 'network' | 'volume' | 'image';
+
+// A container, network, volume or image the runtime created for workspaces
+export interface RuntimeObject {
+  kind: RuntimeObjectKind;
+  // Identifies the object for removeObject, e.g. a container ID or a volume name
+  id: string;
+  name: string;
+  // null for built images that aren't tied to one workspace
+  workspaceId: string | null;
+  createdAt?: string;
+  sizeBytes?: number;
+}
+
+export interface ExecResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Signals used to decide whether a workspace is idle
+export interface WorkspaceActivity {
+  // Last write to OpenCode's session database
+  opencodeLastActivity?: Date;
+  // Last heartbeat of a browser connected to code-server
+  codeServerLastHeartbeat?: Date;
+  // Open connections to the preview port
+  previewConnections: number;
+}
+
+// TCP port a process in the OpenCode container listens on
+export interface ListeningPort {
+  port: number;
+  // Only bound to localhost, so previews can't reach it
+  loopbackOnly: boolean;
+}
+
+export interface LinkedEnvironment {
+  id: string;
+  name: string;
+  variables: string; // JSON string of key-value pairs
+}
+
+export interface SnapshotArchive {
+  sizeBytes: number;
+}
+
+export type WorkspaceServiceName = 'opencode' | 'vscode';
+
+// Containers whose logs can be read. init only exists while the repository is cloned,
+// or after a clone failed.
+export type WorkspaceLogSource = 'opencode' | 'code-server' | 'init';
+export type LogStream = 'stdout' | 'stderr';
+
+export interface LogLine {
+  stream: LogStream;
+  line: string;
+  timestamp?: string;
+}
+
+export interface LogOptions {
+  // Number of past lines to start with, all of them if unset
+  tail?: number;
+  // Keep going with new lines until the iteration is stopped or the container exits
+  follow?: boolean;
+  streams?: LogStream[];
+  // Stops following, a pending read ends instead of waiting for the next line
+  signal?: AbortSignal;
+}
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+// An interactive shell with a TTY in the OpenCode container
+export interface TerminalConnection {
+  write(data: string): void;
+  resize(size: TerminalSize): Promise<void>;
+  // Called with output as it arrives, decoded as UTF-8
+  onData(listener: (data: string) => void): void;
+  // Called once, when the shell exits or the connection is closed
+  onExit(listener: () => void): void;
+  close(): void;
+}
+
+// Everything the API routes need from the system that runs workspaces.
+// The Docker backend is the production implementation; the fake backend
+// keeps state in memory so routes can be exercised without a Docker daemon.
+export interface WorkspaceRuntime {
+  // Create volumes, clone the repository and start both services
+  createWorkspace(config: WorkspaceContainerConfig, report?: ProvisioningReporter): Promise<CreatedWorkspace>;
+  startWorkspace(workspaceId: string): Promise<void>;
+  stopWorkspace(workspaceId: string): Promise<void>;
+  // Remove containers, network and volumes
+  removeWorkspace(workspaceId: string): Promise<void>;
+  // Replace both service containers with new ones built from config, keeping the volumes.
+  // The new containers are left stopped.
+  recreateWorkspace(config: WorkspaceContainerConfig, report?: ProvisioningReporter): Promise<CreatedWorkspace>;
+  // Apply new CPU and memory limits to the existing containers without restarting them
+  updateResources(workspaceId: string, resources: WorkspaceResources): Promise<void>;
+  // Give the OpenCode container's git credential helper a fresh token, see git-credential-helper.ts
+  renewGitCredentials(workspaceId: string): Promise<void>;
+  // Apply environment variables to a running workspace
+  syncEnvironment(workspaceId: string, environments: LinkedEnvironment[]): Promise<void>;
+  // Returns null if the state could not be determined
+  getStatus(workspaceId: string): Promise<WorkspaceStatus | null>;
+  // Containers, networks and volumes of all workspaces by workspace ID, in one pass
+  getInventory(): Promise<Map<string, WorkspaceInventory>>;
+  // Everything created for workspaces, and built images no container uses anymore
+  listObjects(): Promise<RuntimeObject[]>;
+  removeObject(object: Pick<RuntimeObject, 'kind' | 'id'>): Promise<void>;
+  // Whether a service answers requests
+  checkHealth(workspaceId: string, service: WorkspaceServiceName): Promise<boolean>;
+  // Run a command in the OpenCode container and wait for it to finish
+  exec(workspaceId: string, command: string[]): Promise<ExecResult>;
+  // Output of one of the workspace's containers, line by line, null if the container doesn't
+  // exist. Breaking out of the iteration stops following.
+  readLogs(workspaceId: string, source: WorkspaceLogSource, options: LogOptions): Promise<AsyncIterable<LogLine> | null>;
+  // Start a login shell in the OpenCode container, null if the workspace is not running
+  openTerminal(workspaceId: string, size: TerminalSize): Promise<TerminalConnection | null>;
+  // Returns null if the workspace is not running
+  getActivity(workspaceId: string): Promise<WorkspaceActivity | null>;
+  // Ports listened on in the OpenCode container, null if the workspace is not running
+  listListeningPorts(workspaceId: string): Promise<ListeningPort[] | null>;
+  // Archive both volumes of a workspace, running services are paused meanwhile
+  createSnapshot(workspaceId: string, snapshotId: string): Promise<SnapshotArchive>;
+  // Replace the contents of both volumes, the workspace must be stopped
+  restoreSnapshot(workspaceId: string, snapshotId: string): Promise<void>;
+  deleteSnapshot(snapshotId: string): Promise<void>;
+  // Gzipped tar archive with data/ and opencode/ directories
+  readSnapshot(snapshotId: string): Promise<Readable>;
+  // Store an uploaded archive, rejected if it doesn't look like a snapshot
+  importSnapshot(snapshotId: string, archive: AsyncIterable<Buffer | Uint8Array>, sizeBytes: number): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Encryption of credentials stored in the database, like access tokens of git hosts and SSH keys.
+// The key is derived from ENCRYPTION_KEY, or NEXTAUTH_SECRET when it isn't set;
+// changing it makes stored secrets unreadable.
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'v1';
+
+function encryptionKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY or NEXTAUTH_SECRET must be set to store credentials');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+// v1:<iv>:<auth tag>:<ciphertext>, all base64
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [PREFIX, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+export function decryptSecret(value: string): string {
+  const [prefix, iv, tag, ciphertext] = value.split(':');
+  if (prefix !== PREFIX || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unknown secret format');
+  }
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// Tokens handed to browsers and containers: a base64url JSON payload and its HMAC for
+// `purpose`. exp is when the token expires, in seconds since the epoch.
+export function signToken<T extends { exp: number }>(purpose: string, payload: T): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${tokenSignature(purpose, data)}`;
+}
+
+// The payload of a token signed for `purpose`, null if it was tampered with or expired
+export function verifyToken<T extends { exp: number }>(purpose: string, token: string): T | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(tokenSignature(purpose, data));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    return typeof payload?.exp === 'number' && payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function tokenSignature(purpose: string, data: string): string {
+  return createHmac('sha256', encryptionKey()).update(`${purpose}:${data}`).digest('base64url');
+}
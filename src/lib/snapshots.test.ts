@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Snapshot } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  snapshot: { update: vi.fn(async () => ({})) },
+}));
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { createFakeRuntime, type FakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime } from './runtime';
+import { isWorkspaceBusy } from './provisioning';
+import { normalizeSnapshotName, snapshotDownloadName, startSnapshot } from './snapshots';
+
+let runtime: FakeRuntime;
+
+const snapshot = { id: 'snap1', workspaceId: 'ws1', name: 'Before upgrade' } as Snapshot;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  runtime = createFakeRuntime();
+  setWorkspaceRuntime(runtime);
+  await runtime.createWorkspace({ workspaceId: 'ws1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+});
+
+describe('normalizeSnapshotName', () => {
+  it('trims names and dates missing ones', () => {
+    expect(normalizeSnapshotName('  Before upgrade ')).toBe('Before upgrade');
+    expect(normalizeSnapshotName(undefined)).toMatch(/^Snapshot \d{4}-\d{2}-\d{2} \d{2}:\d{2}$/);
+  });
+
+  it.each([42, '   ', 'x'.repeat(101)])('refuses %j', (name) => {
+    expect(normalizeSnapshotName(name)).toBeNull();
+  });
+});
+
+describe('snapshotDownloadName', () => {
+  it('keeps file name characters only', () => {
+    expect(snapshotDownloadName({ id: 'snap1', name: 'Before / "upgrade"' })).toBe('Before-upgrade.tar.gz');
+    expect(snapshotDownloadName({ id: 'snap1', name: '***' })).toBe('snap1.tar.gz');
+  });
+});
+
+describe('startSnapshot', () => {
+  it('marks the workspace busy while its containers are paused for the archive', async () => {
+    let finishArchive = () => { };
+    const createSnapshot = runtime.createSnapshot;
+    runtime.createSnapshot = async (workspaceId, snapshotId) => {
+      await new Promise<void>((resolve) => { finishArchive = resolve; });
+      return createSnapshot(workspaceId, snapshotId);
+    };
+
+    startSnapshot(snapshot);
+    expect(isWorkspaceBusy('ws1')).toBe(true);
+
+    finishArchive();
+    await vi.waitFor(() => expect(prismaMock.snapshot.update).toHaveBeenCalled());
+    expect(isWorkspaceBusy('ws1')).toBe(false);
+    expect(prismaMock.snapshot.update).toHaveBeenCalledWith({
+      where: { id: 'snap1' },
+      data: { status: 'ready', statusReason: null, sizeBytes: expect.any(Number) },
+    });
+  });
+
+  it('records why a snapshot failed and frees the workspace', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    runtime.failNext('createSnapshot', new Error('No space left on device'));
+
+    startSnapshot(snapshot);
+    await vi.waitFor(() => expect(prismaMock.snapshot.update).toHaveBeenCalled());
+
+    expect(isWorkspaceBusy('ws1')).toBe(false);
+    expect(prismaMock.snapshot.update).toHaveBeenCalledWith({
+      where: { id: 'snap1' },
+      data: { status: 'error', statusReason: 'No space left on device' },
+    });
+  });
+});
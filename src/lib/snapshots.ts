@@ -0,0 +1,54 @@
+import type { Snapshot } from '@prisma/client';
+import { prisma } from './prisma';
+import { getWorkspaceRuntime } from './runtime';
+import { whileWorkspaceBusy } from './provisioning';
+
+const MAX_SNAPSHOT_NAME_LENGTH = 100;
+
+// Trimmed snapshot name, or a dated default when none was given
+export function normalizeSnapshotName(name: unknown): string | null {
+  if (name === undefined || name === null || name === '') {
+    return `Snapshot ${new Date().toISOString().slice(0, 16).replace('T', ' ')}`;
+  }
+  if (typeof name !== 'string') return null;
+
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > MAX_SNAPSHOT_NAME_LENGTH) return null;
+  return trimmed;
+}
+
+// Archive the workspace in the background, the snapshot's status tracks progress.
+// The workspace's containers are paused meanwhile, which monitors must not mistake for a stop.
+export function startSnapshot(snapshot: Snapshot) {
+  const workspaceId = snapshot.workspaceId!;
+  const run = async () => {
+    try {
+      const { sizeBytes } = await whileWorkspaceBusy(workspaceId, () =>
+        getWorkspaceRuntime().createSnapshot(workspaceId, snapshot.id)
+      );
+      await prisma.snapshot.update({
+        where: { id: snapshot.id },
+        data: { status: 'ready', statusReason: null, sizeBytes },
+      });
+    } catch (error) {
+      console.error(`Error creating snapshot ${snapshot.id}:`, error);
+      await prisma.snapshot.update({
+        where: { id: snapshot.id },
+        data: {
+          status: 'error',
+          statusReason: error instanceof Error ? error.message : 'Snapshot failed',
+        },
+      }).catch((updateError) => {
+        console.error('Error updating snapshot status:', updateError);
+      });
+    }
+  };
+
+  void run();
+}
+
+// File name offered when downloading a snapshot
+export function snapshotDownloadName(snapshot: Pick<Snapshot, 'name' | 'id'>): string {
+  const base = snapshot.name.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || snapshot.id;
+  return `${base}.tar.gz`;
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  gitConnection: { findMany: vi.fn() },
+}));
+
+vi.mock('./prisma', () => ({ prisma: prismaMock }));
+
+import { generateSshKey, loadKnownHosts, parseKnownHosts, sshDirectoryFiles } from './ssh-keys';
+
+// "ssh-ed25519 AAAA..." of a fresh key, a host key looks just the same
+const hostKey = generateSshKey('').publicKey;
+
+describe('parseKnownHosts', () => {
+  it('keeps host, type and key of every line', () => {
+    const input = [
+      '# git.example.com:22 SSH-2.0-OpenSSH_9.6',
+      '',
+      `Git.Example.com ${hostKey} comment`,
+      `[git.example.com]:2222,10.0.0.5 ${hostKey}`,
+      `|1|c2FsdA==|aGFzaA== ${hostKey}`,
+    ].join('\r\n');
+    expect(parseKnownHosts(input)).toEqual([
+      `git.example.com ${hostKey}`,
+      `[git.example.com]:2222,10.0.0.5 ${hostKey}`,
+      `|1|c2FsdA==|aGFzaA== ${hostKey}`,
+    ]);
+  });
+
+  it('accepts nothing to remove every key', () => {
+    expect(parseKnownHosts('  \n')).toEqual([]);
+  });
+
+  it.each([
+    ['wildcard hosts', `* ${hostKey}`],
+    ['markers', `@cert-authority git.example.com ${hostKey}`],
+    ['missing keys', 'git.example.com ssh-ed25519'],
+    ['unknown key types', 'git.example.com ssh-dss AAAAB3NzaC1kc3M='],
+    ['keys of another type', `git.example.com ssh-rsa ${hostKey.split(' ')[1]}`],
+    ['keys that are not base64', 'git.example.com ssh-ed25519 not-a-key'],
+  ])('refuses %s', (_, line) => {
+    expect(parseKnownHosts(line)).toHaveProperty('error');
+  });
+
+  it('refuses too many keys', () => {
+    const lines = Array.from({ length: 21 }, (_, index) => `host${index}.example.com ${hostKey}`);
+    expect(parseKnownHosts(lines.join('\n'))).toHaveProperty('error');
+  });
+});
+
+describe('loadKnownHosts', () => {
+  beforeEach(() => {
+    prismaMock.gitConnection.findMany.mockReset();
+  });
+
+  it('collects the keys of every connection', async () => {
+    prismaMock.gitConnection.findMany.mockResolvedValue([
+      { sshHostKeys: `a.example.com ${hostKey}\nb.example.com ${hostKey}` },
+      { sshHostKeys: `c.example.com ${hostKey}` },
+    ]);
+    expect(await loadKnownHosts('user1')).toEqual([
+      `a.example.com ${hostKey}`,
+      `b.example.com ${hostKey}`,
+      `c.example.com ${hostKey}`,
+    ]);
+  });
+});
+
+describe('sshDirectoryFiles', () => {
+  const file = (files: ReturnType<typeof sshDirectoryFiles>, name: string) =>
+    files.find((item) => item.name === name)?.content.toString();
+
+  it('refuses hosts without a known key', () => {
+    const config = file(sshDirectoryFiles([]), '.ssh/config');
+    expect(config).toContain('StrictHostKeyChecking yes');
+    expect(config).not.toContain('accept-new');
+  });
+
+  it('adds stored host keys to the built-in ones', () => {
+    const knownHosts = file(sshDirectoryFiles([], [`git.example.com ${hostKey}`]), '.ssh/known_hosts');
+    expect(knownHosts?.split('\n')).toEqual([
+      expect.stringMatching(/^github\.com ssh-ed25519 /),
+      expect.stringMatching(/^gitlab\.com ssh-ed25519 /),
+      `git.example.com ${hostKey}`,
+      '',
+    ]);
+  });
+});
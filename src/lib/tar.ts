@@ -0,0 +1,107 @@
+import { Readable } from 'stream';
+
+// Minimal ustar writer, enough to hand files to Docker's archive endpoint
+// (container.putArchive only accepts tar streams).
+
+const BLOCK_SIZE = 512;
+
+// Largest size that fits the 11 octal digits of a classic ustar header
+const MAX_OCTAL_SIZE = 0o77777777777;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+// GNU base-256 encoding for sizes that don't fit in octal, understood by Docker
+function writeBase256(header: Buffer, value: number, offset: number, length: number) {
+  let remaining = value;
+  for (let i = offset + length - 1; i > offset; i--) {
+    header[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  header[offset] = 0x80;
+}
+
+export interface TarEntry {
+  name: string;
+  size: number;
+  mode?: number;
+  mtime?: Date;
+}
+
+export function tarHeader({ name, size, mode = 0o644, mtime = new Date() }: TarEntry): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Tar entry name too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  if (size > MAX_OCTAL_SIZE) {
+    writeBase256(header, size, 124, 12);
+  } else {
+    writeOctal(header, size, 124, 12);
+  }
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.fill(' ', 148, 156); // checksum is computed with spaces in its place
+  writeString(header, '0', 156, 1); // regular file
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+
+  return header;
+}
+
+// Zero bytes that round an entry's content up to a full block
+export function tarPadding(size: number): Buffer {
+  const remainder = size % BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : BLOCK_SIZE - remainder);
+}
+
+// Two empty blocks mark the end of an archive
+export function tarEnd(): Buffer {
+  return Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+// Wrap a single file's content in a tar stream without buffering it.
+// The content must be exactly entry.size bytes long.
+export function tarSingleFile(entry: TarEntry, content: AsyncIterable<Buffer | Uint8Array>): Readable {
+  return Readable.from((async function* () {
+    yield tarHeader(entry);
+
+    let written = 0;
+    for await (const chunk of content) {
+      written += chunk.length;
+      if (written > entry.size) {
+        throw new Error(`Content is larger than the declared size of ${entry.size} bytes`);
+      }
+      yield Buffer.from(chunk);
+    }
+    if (written !== entry.size) {
+      throw new Error(`Content ended after ${written} of ${entry.size} bytes`);
+    }
+
+    yield tarPadding(entry.size);
+    yield tarEnd();
+  })());
+}
+
+// Build a small archive in memory, e.g. a Docker build context
+export function tarArchive(files: { name: string; content: Buffer; mode?: number }[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const file of files) {
+    parts.push(tarHeader({ name: file.name, size: file.content.length, mode: file.mode }));
+    parts.push(file.content, tarPadding(file.content.length));
+  }
+  parts.push(tarEnd());
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeRuntime } from './runtime/fake';
+import { setWorkspaceRuntime } from './runtime';
+import {
+  attachTerminalSession,
+  closeTerminalSession,
+  listTerminalSessions,
+  openTerminalSession,
+  parseTerminalSize,
+  TERMINAL_TOKEN_TTL_SECONDS,
+  terminalToken,
+  verifyTerminalToken,
+  writeToTerminal,
+  type TerminalEvent,
+} from './terminals';
+
+describe('verifyTerminalToken', () => {
+  const secret = process.env.NEXTAUTH_SECRET;
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret';
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    if (secret === undefined) delete process.env.NEXTAUTH_SECRET;
+    else process.env.NEXTAUTH_SECRET = secret;
+  });
+
+  it('accepts the token of the session', () => {
+    const token = terminalToken('ws1', 'session1');
+    expect(verifyTerminalToken('ws1', 'session1', `Bearer ${token}`)).toBe(true);
+  });
+
+  it('refuses tokens of other sessions and workspaces', () => {
+    const token = terminalToken('ws1', 'session1');
+    expect(verifyTerminalToken('ws1', 'session2', `Bearer ${token}`)).toBe(false);
+    expect(verifyTerminalToken('ws2', 'session1', `Bearer ${token}`)).toBe(false);
+  });
+
+  it('refuses missing, malformed and expired tokens', () => {
+    const token = terminalToken('ws1', 'session1');
+    expect(verifyTerminalToken('ws1', 'session1', null)).toBe(false);
+    expect(verifyTerminalToken('ws1', 'session1', token)).toBe(false);
+    expect(verifyTerminalToken('ws1', 'session1', `Bearer ${token}x`)).toBe(false);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + (TERMINAL_TOKEN_TTL_SECONDS + 1) * 1000);
+    expect(verifyTerminalToken('ws1', 'session1', `Bearer ${token}`)).toBe(false);
+  });
+});
+
+describe('terminal sessions', () => {
+  beforeEach(async () => {
+    const runtime = createFakeRuntime();
+    setWorkspaceRuntime(runtime);
+    await runtime.createWorkspace({ workspaceId: 'term1', userId: 'user1', githubRepo: 'https://github.com/acme/web.git' });
+  });
+  afterEach(() => {
+    for (const session of listTerminalSessions('term1')) closeTerminalSession('term1', session.id);
+  });
+
+  it('numbers sessions with the lowest free title', async () => {
+    const first = await openTerminalSession('term1', { cols: 80, rows: 24 });
+    await openTerminalSession('term1', { cols: 80, rows: 24 });
+    closeTerminalSession('term1', first!.id);
+    const third = await openTerminalSession('term1', { cols: 80, rows: 24 });
+
+    expect(third?.title).toBe('Terminal 1');
+    expect(listTerminalSessions('term1').map((session) => session.title)).toEqual(['Terminal 2', 'Terminal 1']);
+  });
+
+  it('streams output to attached clients and replays it to later ones', async () => {
+    const session = (await openTerminalSession('term1', { cols: 80, rows: 24 }))!;
+    const events: TerminalEvent[] = [];
+    const attachment = attachTerminalSession('term1', session.id, (event) => events.push(event))!;
+
+    // The fake shell echoes input, a batch of keystrokes arrives as one write
+    expect(writeToTerminal('term1', session.id, 'ls\r')).toBe(true);
+    attachment.detach();
+
+    expect(events).toEqual([{ type: 'output', data: 'ls\r' }]);
+    expect(attachTerminalSession('term1', session.id, () => { })?.scrollback).toBe('ls\r');
+  });
+
+  it('refuses sessions of other workspaces', async () => {
+    const session = (await openTerminalSession('term1', { cols: 80, rows: 24 }))!;
+
+    expect(writeToTerminal('other', session.id, 'ls')).toBe(false);
+    expect(attachTerminalSession('other', session.id, () => { })).toBeNull();
+  });
+
+  it('ends the session when the shell exits', async () => {
+    const session = (await openTerminalSession('term1', { cols: 80, rows: 24 }))!;
+    const events: TerminalEvent[] = [];
+    attachTerminalSession('term1', session.id, (event) => events.push(event));
+
+    closeTerminalSession('term1', session.id);
+
+    expect(events).toEqual([{ type: 'exit' }]);
+    expect(listTerminalSessions('term1')).toEqual([]);
+  });
+});
+
+describe('parseTerminalSize', () => {
+  it('accepts positive integers up to 1000', () => {
+    expect(parseTerminalSize({ cols: 120, rows: 40 })).toEqual({ cols: 120, rows: 40 });
+  });
+
+  it.each([null, {}, { cols: 0, rows: 24 }, { cols: 80.5, rows: 24 }, { cols: 80, rows: 1001 }, { cols: '80', rows: 24 }])(
+    'refuses %j',
+    (input) => {
+      expect(parseTerminalSize(input)).toBeNull();
+    }
+  );
+});
@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { getWorkspaceRuntime, type TerminalConnection, type TerminalSize } from './runtime';
+import { signToken, verifyToken } from './secrets';
+
+// Terminal sessions live on the server, independent of the browser tab that opened them.
+// A reload reattaches to the same shell and replays its recent output.
+//
+// The output stream checks the user's login once and hands out a short-lived token for the
+// session, which input and resize requests carry instead of being checked against the login
+// and the database on every keystroke.
+
+export type TerminalEvent = { type: 'output'; data: string } | { type: 'exit' };
+
+export interface TerminalSessionInfo {
+  id: string;
+  title: string;
+  createdAt: number;
+}
+
+interface TerminalSession extends TerminalSessionInfo {
+  workspaceId: string;
+  connection: TerminalConnection;
+  // Recent output, replayed to clients that attach
+  scrollback: string;
+  emitter: EventEmitter;
+  attached: number;
+  detachedTimer: NodeJS.Timeout | null;
+}
+
+export const MAX_TERMINALS_PER_WORKSPACE = 8;
+
+// Output kept for replay, in characters
+const SCROLLBACK_LIMIT = 200_000;
+
+// Sessions nobody is attached to are closed after this long
+const DETACHED_TIMEOUT_MS = 30 * 60 * 1000;
+
+const TOKEN_PURPOSE = 'terminal';
+
+// The output stream sends a new token well before the last one expires
+export const TERMINAL_TOKEN_TTL_SECONDS = 10 * 60;
+
+// Keep sessions on globalThis so they survive hot reloads in development
+const globalForTerminals = globalThis as unknown as {
+  terminalSessions: Map<string, TerminalSession> | undefined;
+};
+
+const sessions = globalForTerminals.terminalSessions ?? new Map<string, TerminalSession>();
+globalForTerminals.terminalSessions = sessions;
+
+function toInfo(session: TerminalSession): TerminalSessionInfo {
+  return { id: session.id, title: session.title, createdAt: session.createdAt };
+}
+
+function findSession(workspaceId: string, sessionId: string): TerminalSession | null {
+  const session = sessions.get(sessionId);
+  return session && session.workspaceId === workspaceId ? session : null;
+}
+
+function scheduleDetachedClose(session: TerminalSession) {
+  if (session.detachedTimer) clearTimeout(session.detachedTimer);
+  session.detachedTimer = setTimeout(() => session.connection.close(), DETACHED_TIMEOUT_MS);
+}
+
+export function listTerminalSessions(workspaceId: string): TerminalSessionInfo[] {
+  return [...sessions.values()]
+    .filter((session) => session.workspaceId === workspaceId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toInfo);
+}
+
+// Start a shell in the workspace, null if the workspace is not running
+export async function openTerminalSession(
+  workspaceId: string,
+  size: TerminalSize
+): Promise<TerminalSessionInfo | null> {
+  const connection = await getWorkspaceRuntime().openTerminal(workspaceId, size);
+  if (!connection) return null;
+
+  // Lowest free number, so titles stay short as tabs come and go
+  const titles = new Set(listTerminalSessions(workspaceId).map((session) => session.title));
+  let number = 1;
+  while (titles.has(`Terminal ${number}`)) number++;
+
+  const session: TerminalSession = {
+    id: randomUUID(),
+    title: `Terminal ${number}`,
+    createdAt: Date.now(),
+    workspaceId,
+    connection,
+    scrollback: '',
+    emitter: new EventEmitter(),
+    attached: 0,
+    detachedTimer: null,
+  };
+  sessions.set(session.id, session);
+
+  connection.onData((data) => {
+    session.scrollback = (session.scrollback + data).slice(-SCROLLBACK_LIMIT);
+    session.emitter.emit('event', { type: 'output', data } satisfies TerminalEvent);
+  });
+  connection.onExit(() => {
+    if (session.detachedTimer) clearTimeout(session.detachedTimer);
+    sessions.delete(session.id);
+    session.emitter.emit('event', { type: 'exit' } satisfies TerminalEvent);
+  });
+
+  // Closed if the client that opened it never attaches
+  scheduleDetachedClose(session);
+  return toInfo(session);
+}
+
+// Follow a session's output. The recent output is returned for replay and live
+// events go to the listener until detach is called. Returns null for unknown sessions.
+export function attachTerminalSession(
+  workspaceId: string,
+  sessionId: string,
+  listener: (event: TerminalEvent) => void
+): { scrollback: string; detach: () => void } | null {
+  const session = findSession(workspaceId, sessionId);
+  if (!session) return null;
+
+  session.attached++;
+  if (session.detachedTimer) {
+    clearTimeout(session.detachedTimer);
+    session.detachedTimer = null;
+  }
+  session.emitter.on('event', listener);
+
+  let detached = false;
+  return {
+    scrollback: session.scrollback,
+    detach: () => {
+      if (detached) return;
+      detached = true;
+      session.emitter.off('event', listener);
+      session.attached--;
+      if (session.attached === 0 && sessions.has(session.id)) {
+        scheduleDetachedClose(session);
+      }
+    },
+  };
+}
+
+export function writeToTerminal(workspaceId: string, sessionId: string, data: string): boolean {
+  const session = findSession(workspaceId, sessionId);
+  if (!session) return false;
+  session.connection.write(data);
+  return true;
+}
+
+export async function resizeTerminal(
+  workspaceId: string,
+  sessionId: string,
+  size: TerminalSize
+): Promise<boolean> {
+  const session = findSession(workspaceId, sessionId);
+  if (!session) return false;
+  await session.connection.resize(size);
+  return true;
+}
+
+export function closeTerminalSession(workspaceId: string, sessionId: string): boolean {
+  const session = findSession(workspaceId, sessionId);
+  if (!session) return false;
+  session.connection.close();
+  return true;
+}
+
+// Token that lets its bearer type into and resize one session of a workspace
+export function terminalToken(workspaceId: string, sessionId: string): string {
+  return signToken(TOKEN_PURPOSE, {
+    workspaceId,
+    sessionId,
+    exp: Math.floor(Date.now() / 1000) + TERMINAL_TOKEN_TTL_SECONDS,
+  });
+}
+
+// Bearer token of an input or resize request, tied to the session it was issued for and not expired
+export function verifyTerminalToken(workspaceId: string, sessionId: string, authorization: string | null): boolean {
+  const token = authorization?.match(/^Bearer (\S+)$/)?.[1];
+  const payload = token
+    ? verifyToken<{ workspaceId: string; sessionId: string; exp: number }>(TOKEN_PURPOSE, token)
+    : null;
+  return payload?.workspaceId === workspaceId && payload.sessionId === sessionId;
+}
+
+// Validate cols and rows from a request body
+export function parseTerminalSize(input: unknown): TerminalSize | null {
+  if (!input || typeof input !== 'object') return null;
+  const { cols, rows } = input as Record<string, unknown>;
+  const valid = (value: unknown) => Number.isInteger(value) && (value as number) > 0 && (value as number) <= 1000;
+  return valid(cols) && valid(rows) ? { cols: cols as number, rows: rows as number } : null;
+}
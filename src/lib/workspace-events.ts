@@ -0,0 +1,28 @@
+import type { WorkspaceEvent } from '@prisma/client';
+import { prisma } from './prisma';
+
+// status: the app corrected the workspace's status
+// missing: containers, network or volumes of the workspace are gone
+export type WorkspaceEventType = 'status' | 'missing';
+
+// How many events the workspace settings show
+const EVENT_LIST_LIMIT = 50;
+
+export function recordWorkspaceEvent(
+  workspaceId: string,
+  type: WorkspaceEventType,
+  message: string
+): Promise<WorkspaceEvent> {
+  return prisma.workspaceEvent.create({
+    data: { workspaceId, type, message },
+  });
+}
+
+// Most recent events first
+export function listWorkspaceEvents(workspaceId: string): Promise<WorkspaceEvent[]> {
+  return prisma.workspaceEvent.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: 'desc' },
+    take: EVENT_LIST_LIMIT,
+  });
+}